@@ -0,0 +1,72 @@
+import api from '@forge/api';
+import { scheduledAnalysis } from '../index';
+import { AnalysisOrchestrator } from '../../services/AnalysisOrchestrator';
+import { BoardRegistry } from '../../services/BoardRegistry';
+import { MonitoredBoard } from '../../types';
+
+// Mock the Forge API so each context answers with its own request function
+jest.mock('@forge/api', () => {
+  const appRequestJira = jest.fn();
+  const userRequestJira = jest.fn();
+  return {
+    __esModule: true,
+    default: {
+      asApp: jest.fn(() => ({ requestJira: appRequestJira })),
+      asUser: jest.fn(() => ({ requestJira: userRequestJira })),
+    },
+    route: (strings: TemplateStringsArray, ...values: unknown[]) =>
+      strings.reduce((url, part, i) => url + part + (i < values.length ? String(values[i]) : ''), ''),
+    fetch: jest.fn(),
+    storage: {},
+  };
+});
+jest.mock('../../services/AnalysisOrchestrator');
+jest.mock('../../services/BoardRegistry');
+jest.mock('../../services/StorageService');
+jest.mock('../../services/NotificationService');
+
+describe('scheduledAnalysis', () => {
+  const board: MonitoredBoard = {
+    boardId: '7',
+    name: 'Team Board',
+    paused: false,
+    schedule: { frequency: 'daily' },
+    options: { forceRefresh: false, minReportAgeMinutes: 60 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (api.asApp().requestJira as jest.Mock).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ values: [{ id: 42, name: 'Sprint 42' }] }),
+    });
+    (BoardRegistry.prototype.getBoardsDueForRun as jest.Mock).mockResolvedValue([board]);
+    (AnalysisOrchestrator.prototype.backfillHistoricalMetrics as jest.Mock).mockResolvedValue({
+      boardId: '7',
+      archivedSprints: [],
+      skippedSprints: [],
+      errors: [],
+    });
+  });
+
+  it('should read Jira as the app, since scheduled runs have no user', async () => {
+    await scheduledAnalysis();
+
+    expect(AnalysisOrchestrator).toHaveBeenCalledWith('app');
+    expect(api.asApp().requestJira).toHaveBeenCalledWith(
+      '/rest/agile/1.0/board/7/sprint?state=active',
+      expect.anything()
+    );
+    expect(api.asUser().requestJira).not.toHaveBeenCalled();
+
+    expect(AnalysisOrchestrator.prototype.analyzeSprint).toHaveBeenCalledWith('42', '7', false);
+    expect(BoardRegistry.prototype.recordRun).toHaveBeenCalledWith(
+      '7',
+      expect.objectContaining({ status: 'success', analyzedSprints: ['42'] })
+    );
+  });
+});
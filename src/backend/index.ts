@@ -2,9 +2,35 @@ import Resolver from '@forge/resolver';
 import api, { route } from '@forge/api';
 import { AnalysisOrchestrator } from '../services/AnalysisOrchestrator';
 import { StorageService } from '../services/StorageService';
+import { BoardRegistry } from '../services/BoardRegistry';
+import { StatusClassifier } from '../services/StatusClassifier';
+import { JiraDataCollector } from '../services/JiraDataCollector';
+import { BusinessCalendar } from '../services/BusinessCalendar';
+import { CapacityPlanner } from '../services/CapacityPlanner';
+import { PortfolioAnalyzer } from '../services/PortfolioAnalyzer';
+import { RiskAssessor } from '../services/RiskAssessor';
+import { ReportRenderer } from '../services/ReportRenderer';
+import { ConfluencePublisher } from '../services/ConfluencePublisher';
+import { NotificationService } from '../services/NotificationService';
+import { SpilloverActionEngine } from '../services/SpilloverActionEngine';
+import {
+  BoardRunOutcome,
+  BoardSchedule,
+  MonitoredBoardOptions,
+  StatusCategoryOverrides,
+  JiraFieldMappingOverride,
+  TeamCalendar,
+  SprintCapacityPlan,
+  RiskScoringOverrides,
+  NotificationSettings,
+  SpilloverActionSettings,
+} from '../types';
 
 const resolver = new Resolver();
 
+// Past sprints archived per board on each scheduled run until its archive is seeded
+const SCHEDULED_BACKFILL_BATCH_SIZE = 3;
+
 // Declare console for logging
 declare const console: {
   log: (...args: any[]) => void;
@@ -85,6 +111,42 @@ resolver.define('analyzeSprintHandler', async (req) => {
   }
 });
 
+/**
+ * Analyze Epic Handler
+ * Rolls up an epic's child issues across sprints into an epic report
+ */
+resolver.define('analyzeEpicHandler', async (req) => {
+  try {
+    console.log('analyzeEpicHandler called', req.payload);
+
+    const { epicKey, boardId } = req.payload as {
+      epicKey?: string;
+      boardId?: string;
+    };
+
+    if (!epicKey) {
+      return {
+        success: false,
+        error: 'epicKey is required',
+      };
+    }
+
+    const orchestrator = new AnalysisOrchestrator();
+    const report = await orchestrator.analyzeEpic(epicKey, boardId);
+
+    return {
+      success: true,
+      report,
+    };
+  } catch (error) {
+    console.error('Error in analyzeEpicHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
 /**
  * Get Report Handler
  * Retrieves a cached sprint report if available
@@ -128,9 +190,150 @@ resolver.define('getReportHandler', async (req) => {
   }
 });
 
+/**
+ * Get Risk Timeline Handler
+ * Returns every recorded risk assessment of a sprint and its day-by-day risk
+ */
+resolver.define('getRiskTimelineHandler', async (req) => {
+  try {
+    console.log('getRiskTimelineHandler called', req.payload);
+
+    const { sprintId } = req.payload as {
+      sprintId?: string;
+    };
+
+    if (!sprintId) {
+      return {
+        success: false,
+        error: 'sprintId is required',
+      };
+    }
+
+    const orchestrator = new AnalysisOrchestrator();
+    const timeline = await orchestrator.getRiskTimeline(sprintId.toString());
+
+    return {
+      success: true,
+      timeline,
+    };
+  } catch (error) {
+    console.error('Error in getRiskTimelineHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Export Report Handler
+ * Renders a sprint's report as Markdown, HTML or CSV for download, analyzing
+ * the sprint again (read-only) once the cached report has expired
+ */
+resolver.define('exportReportHandler', async (req) => {
+  try {
+    console.log('exportReportHandler called', req.payload);
+
+    const { sprintId, boardId, format, sprintName } = req.payload as {
+      sprintId?: string;
+      boardId?: string;
+      format?: string;
+      sprintName?: string;
+    };
+
+    if (!sprintId) {
+      return {
+        success: false,
+        error: 'sprintId is required',
+      };
+    }
+
+    const renderer = new ReportRenderer();
+    if (!format || !renderer.isSupportedFormat(format)) {
+      return {
+        success: false,
+        error: 'format must be one of markdown, html or csv',
+      };
+    }
+
+    // Returns the cached report while it is fresh
+    const orchestrator = new AnalysisOrchestrator();
+    const report = await orchestrator.analyzeSprint(sprintId.toString(), boardId, false, { readOnly: true });
+
+    if (report.error) {
+      return {
+        success: false,
+        error: report.error,
+      };
+    }
+
+    const title = `${sprintName || `Sprint ${sprintId}`} Report`;
+
+    return {
+      success: true,
+      ...renderer.render(report, format, title),
+    };
+  } catch (error) {
+    console.error('Error in exportReportHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Publish Retrospective Handler
+ * Creates a Confluence retrospective page from a closed sprint's report
+ */
+resolver.define('publishRetrospectiveHandler', async (req) => {
+  try {
+    console.log('publishRetrospectiveHandler called', req.payload);
+
+    const { sprintId, boardId, spaceKey, parentPageId } = req.payload as {
+      sprintId?: string;
+      boardId?: string;
+      spaceKey?: string;
+      parentPageId?: string;
+    };
+
+    // Default to the page the macro is on
+    const extension = req.context?.extension;
+    const targetSpaceKey = spaceKey || extension?.space?.key;
+    const targetParentId = parentPageId || extension?.content?.id;
+
+    if (!sprintId || !targetSpaceKey) {
+      return {
+        success: false,
+        error: 'sprintId and spaceKey are required',
+      };
+    }
+
+    const orchestrator = new AnalysisOrchestrator();
+    const page = await orchestrator.buildRetrospective(sprintId.toString(), boardId?.toString());
+    const published = await new ConfluencePublisher().createPage(
+      targetSpaceKey,
+      page,
+      targetParentId ? targetParentId.toString() : undefined
+    );
+
+    return {
+      success: true,
+      page: published,
+    };
+  } catch (error) {
+    console.error('Error in publishRetrospectiveHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
 /**
  * Get Historical Data Handler
  * Fetches historical metrics for trend analysis
+ * (every archived sprint of the board when sprintIds is omitted)
  */
 resolver.define('getHistoricalDataHandler', async (req) => {
   try {
@@ -141,15 +344,15 @@ resolver.define('getHistoricalDataHandler', async (req) => {
       sprintIds?: string[];
     };
 
-    if (!boardId || !sprintIds || !Array.isArray(sprintIds)) {
+    if (!boardId || (sprintIds !== undefined && !Array.isArray(sprintIds))) {
       return {
         success: false,
-        error: 'boardId and sprintIds (array) are required',
+        error: 'boardId is required and sprintIds must be an array',
       };
     }
 
     const storageService = new StorageService();
-    const historicalMetrics = await storageService.getHistoricalMetrics(boardId, sprintIds);
+    const historicalMetrics = await storageService.getHistoricalMetrics(boardId.toString(), sprintIds);
 
     return {
       success: true,
@@ -165,6 +368,140 @@ resolver.define('getHistoricalDataHandler', async (req) => {
   }
 });
 
+/**
+ * Compare Sprints Handler
+ * Compares a sprint with a base sprint: metric deltas, changed risk factors,
+ * issues in both sprints and a narrative
+ */
+resolver.define('compareSprintsHandler', async (req) => {
+  try {
+    console.log('compareSprintsHandler called', req.payload);
+
+    const { baseSprintId, targetSprintId, boardId } = req.payload as {
+      baseSprintId?: string;
+      targetSprintId?: string;
+      boardId?: string;
+    };
+
+    if (!baseSprintId || !targetSprintId) {
+      return {
+        success: false,
+        error: 'baseSprintId and targetSprintId are required',
+      };
+    }
+
+    if (baseSprintId.toString() === targetSprintId.toString()) {
+      return {
+        success: false,
+        error: 'baseSprintId and targetSprintId must be different sprints',
+      };
+    }
+
+    const orchestrator = new AnalysisOrchestrator();
+    const comparison = await orchestrator.compareSprints(
+      baseSprintId.toString(),
+      targetSprintId.toString(),
+      boardId
+    );
+
+    return {
+      success: true,
+      comparison,
+    };
+  } catch (error) {
+    console.error('Error in compareSprintsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * List Historical Metrics Handler
+ * Returns a page of a board's archived sprint metrics, most recent first
+ */
+resolver.define('listHistoricalMetricsHandler', async (req) => {
+  try {
+    console.log('listHistoricalMetricsHandler called', req.payload);
+
+    const { boardId, offset, limit } = req.payload as {
+      boardId?: string;
+      offset?: number;
+      limit?: number;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const page = await storageService.listHistoricalMetrics(
+      boardId.toString(),
+      Number(offset) || 0,
+      Number(limit) || undefined
+    );
+
+    return {
+      success: true,
+      ...page,
+    };
+  } catch (error) {
+    console.error('Error in listHistoricalMetricsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      items: [],
+    };
+  }
+});
+
+/**
+ * Backfill Historical Metrics Handler
+ * Analyzes past closed sprints of a board to seed its historical archive
+ */
+resolver.define('backfillHistoricalMetricsHandler', async (req) => {
+  try {
+    console.log('backfillHistoricalMetricsHandler called', req.payload);
+
+    const { boardId, maxSprints } = req.payload as {
+      boardId?: string;
+      maxSprints?: number;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    if (maxSprints !== undefined && (!Number.isInteger(maxSprints) || maxSprints < 1)) {
+      return {
+        success: false,
+        error: 'maxSprints must be a positive integer',
+      };
+    }
+
+    const orchestrator = new AnalysisOrchestrator();
+    const result = await orchestrator.backfillHistoricalMetrics(boardId.toString(), maxSprints);
+
+    return {
+      success: true,
+      result,
+    };
+  } catch (error) {
+    console.error('Error in backfillHistoricalMetricsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
 /**
  * Get Sprints Handler
  * Fetches available sprints for a board
@@ -188,9 +525,19 @@ resolver.define('getSprintsHandler', async (req) => {
       };
     }
 
+    const { sprint: sprintFieldId } = await new JiraDataCollector().getFieldMapping();
+
+    if (!sprintFieldId) {
+      return {
+        success: false,
+        error: 'No sprint field found on this site. Configure it with saveFieldMappingOverrideHandler.',
+        sprints: [],
+      };
+    }
+
     // Query for issues with sprints to discover available sprints
     const jql = `project = "${projectKey}" AND sprint is not EMPTY ORDER BY created DESC`;
-    const url = route`/rest/api/3/search/jql?jql=${jql}&maxResults=100&fields=customfield_10020`;
+    const url = route`/rest/api/3/search/jql?jql=${jql}&maxResults=100&fields=${sprintFieldId}`;
     const response = await api.asUser().requestJira(url, {
       headers: {
         'Accept': 'application/json',
@@ -206,10 +553,10 @@ resolver.define('getSprintsHandler', async (req) => {
 
     const data = await response.json();
     
-    // Extract unique sprints from the customfield_10020 (sprint field)
+    // Extract unique sprints from the sprint custom field
     const sprintMap = new Map();
     for (const issue of data.issues || []) {
-      const sprintField = issue.fields.customfield_10020;
+      const sprintField = issue.fields[sprintFieldId];
       if (Array.isArray(sprintField)) {
         for (const sprint of sprintField) {
           if (sprint && sprint.id && !sprintMap.has(sprint.id)) {
@@ -262,8 +609,18 @@ resolver.define('getSprintFromIssueHandler', async (req) => {
       };
     }
 
+    const { sprint: sprintFieldId } = await new JiraDataCollector().getFieldMapping();
+
+    if (!sprintFieldId) {
+      return {
+        success: false,
+        error: 'No sprint field found on this site',
+        notFound: true,
+      };
+    }
+
     // Get issue details including sprint field
-    const url = route`/rest/api/3/issue/${issueKey}?fields=sprint`;
+    const url = route`/rest/api/3/issue/${issueKey}?fields=${sprintFieldId}`;
     const issueResponse = await api.asUser().requestJira(url, {
       headers: {
         'Accept': 'application/json',
@@ -275,7 +632,11 @@ resolver.define('getSprintFromIssueHandler', async (req) => {
     }
 
     const issueData = await issueResponse.json();
-    const sprint = issueData.fields?.sprint;
+    const sprintField = issueData.fields?.[sprintFieldId];
+    const sprints: any[] = Array.isArray(sprintField) ? sprintField : sprintField ? [sprintField] : [];
+
+    // Prefer the active sprint, otherwise the most recently added one
+    const sprint = sprints.find(s => s?.state === 'active') || sprints[sprints.length - 1];
 
     if (!sprint) {
       return {
@@ -299,45 +660,958 @@ resolver.define('getSprintFromIssueHandler', async (req) => {
   }
 });
 
-export const handler = resolver.getDefinitions();
-
 /**
- * Scheduled Analysis Function
+ * Add Monitored Board Handler
+ * Registers a board for scheduled analysis (or updates an existing registration)
  */
-export const scheduledAnalysis = async () => {
+resolver.define('addMonitoredBoardHandler', async (req) => {
   try {
-    console.log('Scheduled analysis triggered at', new Date().toISOString());
+    console.log('addMonitoredBoardHandler called', req.payload);
 
-    const orchestrator = new AnalysisOrchestrator();
-    const storageService = new StorageService();
-
-    const boardsToMonitor = await getMonitoredBoards();
+    const { boardId, name, schedule, options } = req.payload as {
+      boardId?: string;
+      name?: string;
+      schedule?: Partial<BoardSchedule>;
+      options?: Partial<MonitoredBoardOptions>;
+    };
 
-    if (boardsToMonitor.length === 0) {
-      console.log('No boards configured for monitoring');
-      return;
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
     }
 
-    let analyzedCount = 0;
-    let errorCount = 0;
+    const registry = new BoardRegistry();
+    const board = await registry.addBoard({
+      boardId: boardId.toString(),
+      name,
+      schedule,
+      options,
+    });
 
-    for (const boardConfig of boardsToMonitor) {
-      try {
-        console.log(`Processing board: ${boardConfig.boardId}`);
+    return {
+      success: true,
+      board,
+    };
+  } catch (error) {
+    console.error('Error in addMonitoredBoardHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
 
-        const activeSprints = await getActiveSprintsForBoard(boardConfig.boardId);
+/**
+ * List Monitored Boards Handler
+ * Returns every board registered for scheduled analysis
+ */
+resolver.define('listMonitoredBoardsHandler', async () => {
+  try {
+    console.log('listMonitoredBoardsHandler called');
+
+    const registry = new BoardRegistry();
+    const boards = await registry.listBoards();
+
+    return {
+      success: true,
+      boards,
+    };
+  } catch (error) {
+    console.error('Error in listMonitoredBoardsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      boards: [],
+    };
+  }
+});
+
+/**
+ * Pause Monitored Board Handler
+ * Pauses (or resumes, with paused: false) scheduled analysis for a board
+ */
+resolver.define('pauseMonitoredBoardHandler', async (req) => {
+  try {
+    console.log('pauseMonitoredBoardHandler called', req.payload);
+
+    const { boardId, paused } = req.payload as {
+      boardId?: string;
+      paused?: boolean;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const registry = new BoardRegistry();
+    const board = await registry.setPaused(boardId.toString(), paused !== false);
+
+    if (!board) {
+      return {
+        success: false,
+        error: `Board ${boardId} is not monitored`,
+        notFound: true,
+      };
+    }
+
+    return {
+      success: true,
+      board,
+    };
+  } catch (error) {
+    console.error('Error in pauseMonitoredBoardHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Remove Monitored Board Handler
+ * Stops monitoring a board and discards its run history
+ */
+resolver.define('removeMonitoredBoardHandler', async (req) => {
+  try {
+    console.log('removeMonitoredBoardHandler called', req.payload);
+
+    const { boardId } = req.payload as {
+      boardId?: string;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const registry = new BoardRegistry();
+    const removed = await registry.removeBoard(boardId.toString());
+
+    if (!removed) {
+      return {
+        success: false,
+        error: `Board ${boardId} is not monitored`,
+        notFound: true,
+      };
+    }
+
+    return {
+      success: true,
+    };
+  } catch (error) {
+    console.error('Error in removeMonitoredBoardHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Board Run History Handler
+ * Returns the recorded outcomes of scheduled runs for a board
+ */
+resolver.define('getBoardRunHistoryHandler', async (req) => {
+  try {
+    console.log('getBoardRunHistoryHandler called', req.payload);
+
+    const { boardId } = req.payload as {
+      boardId?: string;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const registry = new BoardRegistry();
+    const runs = await registry.getRunHistory(boardId.toString());
+
+    return {
+      success: true,
+      runs,
+    };
+  } catch (error) {
+    console.error('Error in getBoardRunHistoryHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      runs: [],
+    };
+  }
+});
+
+/**
+ * Get Portfolio Handler
+ * Analyzes the active sprint of every monitored board and compares them
+ */
+resolver.define('getPortfolioHandler', async (req) => {
+  try {
+    console.log('getPortfolioHandler called', req.payload);
+
+    const { boardIds, forceRefresh, includePaused } = (req.payload || {}) as {
+      boardIds?: string[];
+      forceRefresh?: boolean;
+      includePaused?: boolean;
+    };
+
+    if (boardIds !== undefined && !Array.isArray(boardIds)) {
+      return {
+        success: false,
+        error: 'boardIds must be an array',
+      };
+    }
+
+    const registry = new BoardRegistry();
+    const boards = (await registry.listBoards()).filter(board =>
+      (includePaused || !board.paused) &&
+      (!boardIds || boardIds.map(String).includes(board.boardId))
+    );
+
+    const portfolioAnalyzer = new PortfolioAnalyzer();
+    const portfolio = await portfolioAnalyzer.analyzePortfolio(boards, forceRefresh || false);
+
+    return {
+      success: true,
+      portfolio,
+    };
+  } catch (error) {
+    console.error('Error in getPortfolioHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Status Mapping Handler
+ * Returns the workflow status category overrides for a project
+ */
+resolver.define('getStatusMappingHandler', async (req) => {
+  try {
+    console.log('getStatusMappingHandler called', req.payload);
+
+    const { projectKey: payloadProjectKey } = req.payload as {
+      projectKey?: string;
+    };
+    const projectKey = payloadProjectKey || req.context?.extension?.project?.key;
+
+    if (!projectKey) {
+      return {
+        success: false,
+        error: 'projectKey is required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const overrides = await storageService.getStatusOverrides(projectKey);
+
+    return {
+      success: true,
+      projectKey,
+      overrides,
+    };
+  } catch (error) {
+    console.error('Error in getStatusMappingHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Status Mapping Handler
+ * Replaces the workflow status category overrides for a project.
+ * Overrides map a status name to 'new', 'indeterminate' or 'done'.
+ */
+resolver.define('saveStatusMappingHandler', async (req) => {
+  try {
+    console.log('saveStatusMappingHandler called', req.payload);
+
+    const { projectKey: payloadProjectKey, overrides } = req.payload as {
+      projectKey?: string;
+      overrides?: StatusCategoryOverrides;
+    };
+    const projectKey = payloadProjectKey || req.context?.extension?.project?.key;
+
+    if (!projectKey || !overrides || typeof overrides !== 'object') {
+      return {
+        success: false,
+        error: 'projectKey and overrides (object) are required',
+      };
+    }
+
+    const classifier = new StatusClassifier();
+    const invalidStatuses = Object.entries(overrides)
+      .filter(([, category]) => !classifier.isValidCategory(category))
+      .map(([status]) => status);
+
+    if (invalidStatuses.length > 0) {
+      return {
+        success: false,
+        error: `Invalid status category for: ${invalidStatuses.join(', ')}. Expected new, indeterminate or done`,
+      };
+    }
+
+    const storageService = new StorageService();
+    await storageService.saveStatusOverrides(projectKey, overrides);
+
+    return {
+      success: true,
+      projectKey,
+      overrides,
+    };
+  } catch (error) {
+    console.error('Error in saveStatusMappingHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Team Calendar Handler
+ * Returns the working-time calendar configured for a board (null if none)
+ */
+resolver.define('getTeamCalendarHandler', async (req) => {
+  try {
+    console.log('getTeamCalendarHandler called', req.payload);
+
+    const { boardId } = req.payload as {
+      boardId?: string;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const calendar = await storageService.getTeamCalendar(boardId.toString());
+
+    return {
+      success: true,
+      boardId,
+      calendar,
+      durationMode: calendar ? 'business-hours' : 'wall-clock',
+    };
+  } catch (error) {
+    console.error('Error in getTeamCalendarHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Team Calendar Handler
+ * Replaces the working-time calendar for a board. Durations in the board's
+ * reports are then measured in business hours; a null calendar switches
+ * back to wall-clock hours.
+ */
+resolver.define('saveTeamCalendarHandler', async (req) => {
+  try {
+    console.log('saveTeamCalendarHandler called', req.payload);
+
+    const { boardId, calendar } = req.payload as {
+      boardId?: string;
+      calendar?: TeamCalendar | null;
+    };
+
+    if (!boardId || calendar === undefined || (calendar !== null && typeof calendar !== 'object')) {
+      return {
+        success: false,
+        error: 'boardId and calendar (object or null) are required',
+      };
+    }
+
+    if (calendar) {
+      const errors = new BusinessCalendar().validateCalendar(calendar);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid team calendar: ${errors.join('; ')}`,
+        };
+      }
+    }
+
+    const storageService = new StorageService();
+    await storageService.saveTeamCalendar(boardId.toString(), calendar);
+
+    return {
+      success: true,
+      boardId,
+      calendar,
+      durationMode: calendar ? 'business-hours' : 'wall-clock',
+    };
+  } catch (error) {
+    console.error('Error in saveTeamCalendarHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Risk Scoring Handler
+ * Returns a board's risk scoring overrides (null if none) and the scoring
+ * model its sprints are assessed with
+ */
+resolver.define('getRiskScoringHandler', async (req) => {
+  try {
+    console.log('getRiskScoringHandler called', req.payload);
+
+    const { boardId } = req.payload as {
+      boardId?: string;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const overrides = await storageService.getRiskScoringOverrides(boardId.toString());
+
+    return {
+      success: true,
+      boardId,
+      overrides,
+      config: new RiskAssessor().resolveScoringConfig(overrides),
+    };
+  } catch (error) {
+    console.error('Error in getRiskScoringHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Risk Scoring Handler
+ * Replaces a board's factor weights, aggregation and thresholds. Missing
+ * entries keep their defaults; null overrides restore the default model.
+ * Cached reports keep the scoring they were generated with until refreshed.
+ */
+resolver.define('saveRiskScoringHandler', async (req) => {
+  try {
+    console.log('saveRiskScoringHandler called', req.payload);
+
+    const { boardId, overrides } = req.payload as {
+      boardId?: string;
+      overrides?: RiskScoringOverrides | null;
+    };
+
+    if (!boardId || overrides === undefined || (overrides !== null && typeof overrides !== 'object')) {
+      return {
+        success: false,
+        error: 'boardId and overrides (object or null) are required',
+      };
+    }
+
+    const riskAssessor = new RiskAssessor();
+
+    if (overrides) {
+      const errors = riskAssessor.validateScoringOverrides(overrides);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid risk scoring overrides: ${errors.join('; ')}`,
+        };
+      }
+    }
+
+    const storageService = new StorageService();
+    await storageService.saveRiskScoringOverrides(boardId.toString(), overrides);
+
+    return {
+      success: true,
+      boardId,
+      overrides,
+      config: riskAssessor.resolveScoringConfig(overrides),
+    };
+  } catch (error) {
+    console.error('Error in saveRiskScoringHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Notification Settings Handler
+ * Returns a board's webhook subscriptions and quiet hours (null if none) and
+ * its recent notification deliveries
+ */
+resolver.define('getNotificationSettingsHandler', async (req) => {
+  try {
+    console.log('getNotificationSettingsHandler called', req.payload);
+
+    const { boardId } = req.payload as {
+      boardId?: string;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const [settings, deliveries] = await Promise.all([
+      storageService.getNotificationSettings(boardId.toString()),
+      storageService.getNotificationLog(boardId.toString()),
+    ]);
+
+    return {
+      success: true,
+      boardId,
+      settings,
+      deliveries,
+    };
+  } catch (error) {
+    console.error('Error in getNotificationSettingsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Notification Settings Handler
+ * Replaces a board's webhook subscriptions and quiet hours, or removes them
+ * with settings: null
+ */
+resolver.define('saveNotificationSettingsHandler', async (req) => {
+  try {
+    console.log('saveNotificationSettingsHandler called', req.payload);
+
+    const { boardId, settings } = req.payload as {
+      boardId?: string;
+      settings?: NotificationSettings | null;
+    };
+
+    if (!boardId || settings === undefined || (settings !== null && typeof settings !== 'object')) {
+      return {
+        success: false,
+        error: 'boardId and settings (object or null) are required',
+      };
+    }
+
+    if (settings) {
+      const errors = new NotificationService().validateSettings(settings);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid notification settings: ${errors.join('; ')}`,
+        };
+      }
+    }
+
+    const storageService = new StorageService();
+    await storageService.saveNotificationSettings(boardId.toString(), settings);
+
+    return {
+      success: true,
+      boardId,
+      settings,
+    };
+  } catch (error) {
+    console.error('Error in saveNotificationSettingsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Spillover Action Settings Handler
+ * Returns a board's spillover action settings (null if it never opted in) and
+ * its recent action runs
+ */
+resolver.define('getSpilloverActionSettingsHandler', async (req) => {
+  try {
+    console.log('getSpilloverActionSettingsHandler called', req.payload);
+
+    const { boardId } = req.payload as {
+      boardId?: string;
+    };
+
+    if (!boardId) {
+      return {
+        success: false,
+        error: 'boardId is required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const [settings, runs] = await Promise.all([
+      storageService.getSpilloverActionSettings(boardId.toString()),
+      storageService.getSpilloverActionLog(boardId.toString()),
+    ]);
+
+    return {
+      success: true,
+      boardId,
+      settings,
+      runs,
+    };
+  } catch (error) {
+    console.error('Error in getSpilloverActionSettingsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Spillover Action Settings Handler
+ * Replaces a board's spillover action settings, or removes them with
+ * settings: null. Labels and comments already added stay until the next
+ * analysis with the engine disabled.
+ */
+resolver.define('saveSpilloverActionSettingsHandler', async (req) => {
+  try {
+    console.log('saveSpilloverActionSettingsHandler called', req.payload);
+
+    const { boardId, settings } = req.payload as {
+      boardId?: string;
+      settings?: SpilloverActionSettings | null;
+    };
+
+    if (!boardId || settings === undefined || (settings !== null && typeof settings !== 'object')) {
+      return {
+        success: false,
+        error: 'boardId and settings (object or null) are required',
+      };
+    }
+
+    if (settings) {
+      const errors = new SpilloverActionEngine().validateSettings(settings);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid spillover action settings: ${errors.join('; ')}`,
+        };
+      }
+    }
+
+    const storageService = new StorageService();
+    await storageService.saveSpilloverActionSettings(boardId.toString(), settings);
+
+    return {
+      success: true,
+      boardId,
+      settings,
+    };
+  } catch (error) {
+    console.error('Error in saveSpilloverActionSettingsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Preview Spillover Actions Handler
+ * Lists the labels and comments the board's settings would write for the
+ * at-risk issues in a sprint's report (analyzed again, read-only, once the
+ * cached report has expired), without changing Jira
+ */
+resolver.define('previewSpilloverActionsHandler', async (req) => {
+  try {
+    console.log('previewSpilloverActionsHandler called', req.payload);
+
+    const { boardId, sprintId, sprintName } = req.payload as {
+      boardId?: string;
+      sprintId?: string;
+      sprintName?: string;
+    };
+
+    if (!boardId || !sprintId) {
+      return {
+        success: false,
+        error: 'boardId and sprintId are required',
+      };
+    }
+
+    // Returns the cached report while it is fresh; a preview never writes to Jira
+    const storageService = new StorageService();
+    const orchestrator = new AnalysisOrchestrator();
+    const report = await orchestrator.analyzeSprint(sprintId.toString(), boardId.toString(), false, { readOnly: true });
+
+    if (report.error) {
+      return {
+        success: false,
+        error: report.error,
+      };
+    }
+
+    const engine = new SpilloverActionEngine(storageService);
+    const run = await engine.run(
+      boardId.toString(),
+      { id: sprintId.toString(), name: sprintName || `Sprint ${sprintId}` },
+      report.atRiskIssues || [],
+      { dryRun: true }
+    );
+
+    if (!run) {
+      return {
+        success: false,
+        error: `Board ${boardId} has no spillover action settings`,
+      };
+    }
+
+    return {
+      success: true,
+      boardId,
+      run,
+    };
+  } catch (error) {
+    console.error('Error in previewSpilloverActionsHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Capacity Plan Handler
+ * Returns the team capacity plan of a sprint (null if none)
+ */
+resolver.define('getCapacityPlanHandler', async (req) => {
+  try {
+    console.log('getCapacityPlanHandler called', req.payload);
+
+    const { boardId, sprintId } = req.payload as {
+      boardId?: string;
+      sprintId?: string;
+    };
+
+    if (!boardId || !sprintId) {
+      return {
+        success: false,
+        error: 'boardId and sprintId are required',
+      };
+    }
+
+    const storageService = new StorageService();
+    const plan = await storageService.getCapacityPlan(boardId.toString(), sprintId.toString());
+
+    return {
+      success: true,
+      boardId,
+      plan,
+    };
+  } catch (error) {
+    console.error('Error in getCapacityPlanHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Capacity Plan Handler
+ * Replaces the team capacity plan of a sprint: working days, and each
+ * member's allocation percentage and days off.
+ */
+resolver.define('saveCapacityPlanHandler', async (req) => {
+  try {
+    console.log('saveCapacityPlanHandler called', req.payload);
+
+    const { boardId, plan } = req.payload as {
+      boardId?: string;
+      plan?: SprintCapacityPlan;
+    };
+
+    if (!boardId || !plan || typeof plan !== 'object') {
+      return {
+        success: false,
+        error: 'boardId and plan (object) are required',
+      };
+    }
+
+    const errors = new CapacityPlanner().validatePlan(plan);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: `Invalid capacity plan: ${errors.join('; ')}`,
+      };
+    }
+
+    const storageService = new StorageService();
+    const normalizedPlan = { ...plan, sprintId: plan.sprintId.toString() };
+    await storageService.saveCapacityPlan(boardId.toString(), normalizedPlan);
+
+    return {
+      success: true,
+      boardId,
+      plan: normalizedPlan,
+    };
+  } catch (error) {
+    console.error('Error in saveCapacityPlanHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Get Field Mapping Handler
+ * Returns the story point and sprint custom field IDs in use on this site
+ */
+resolver.define('getFieldMappingHandler', async (req) => {
+  try {
+    console.log('getFieldMappingHandler called', req.payload);
+
+    const { rediscover } = (req.payload || {}) as {
+      rediscover?: boolean;
+    };
+
+    const storageService = new StorageService();
+    const collector = new JiraDataCollector(storageService);
+    const mapping = await collector.getFieldMapping(rediscover || false);
+    const override = await storageService.getFieldMappingOverride();
+
+    return {
+      success: true,
+      mapping,
+      override,
+    };
+  } catch (error) {
+    console.error('Error in getFieldMappingHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+/**
+ * Save Field Mapping Override Handler
+ * Sets admin overrides for the story point and/or sprint custom field IDs.
+ * Omitted fields fall back to discovery; an empty payload clears the override.
+ */
+resolver.define('saveFieldMappingOverrideHandler', async (req) => {
+  try {
+    console.log('saveFieldMappingOverrideHandler called', req.payload);
+
+    const { storyPoints, sprint } = (req.payload || {}) as JiraFieldMappingOverride;
+    const fieldIdPattern = /^customfield_\d+$/;
+
+    for (const fieldId of [storyPoints, sprint]) {
+      if (fieldId && !fieldIdPattern.test(fieldId)) {
+        return {
+          success: false,
+          error: `Invalid custom field ID "${fieldId}". Expected the form customfield_12345`,
+        };
+      }
+    }
+
+    const storageService = new StorageService();
+    await storageService.saveFieldMappingOverride({
+      ...(storyPoints ? { storyPoints } : {}),
+      ...(sprint ? { sprint } : {}),
+    });
+
+    const mapping = await new JiraDataCollector(storageService).getFieldMapping();
+
+    return {
+      success: true,
+      mapping,
+    };
+  } catch (error) {
+    console.error('Error in saveFieldMappingOverrideHandler:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+});
+
+export const handler = resolver.getDefinitions();
+
+/**
+ * Scheduled Analysis Function
+ * Analyzes the active sprints of every monitored board that is due today
+ * and records a per-board run outcome. Also archives a few past sprints per
+ * board until its historical metrics archive is seeded.
+ */
+export const scheduledAnalysis = async () => {
+  try {
+    console.log('Scheduled analysis triggered at', new Date().toISOString());
+
+    // Scheduled triggers run without a user, so Jira and Bitbucket are read as the app
+    const orchestrator = new AnalysisOrchestrator('app');
+    const storageService = new StorageService();
+    const registry = new BoardRegistry(storageService);
+    const notificationService = new NotificationService(storageService);
+
+    const boardsToMonitor = await registry.getBoardsDueForRun(new Date());
+
+    if (boardsToMonitor.length === 0) {
+      console.log('No boards configured for monitoring');
+      return;
+    }
+
+    let analyzedCount = 0;
+    let errorCount = 0;
+
+    for (const boardConfig of boardsToMonitor) {
+      const outcome: BoardRunOutcome = {
+        runAt: new Date().toISOString(),
+        status: 'success',
+        analyzedSprints: [],
+        skippedSprints: [],
+        errors: [],
+      };
+
+      try {
+        console.log(`Processing board: ${boardConfig.boardId}`);
+
+        const activeSprints = await getActiveSprintsForBoard(boardConfig.boardId);
+        const minReportAge = boardConfig.options.minReportAgeMinutes * 60 * 1000;
 
         for (const sprint of activeSprints) {
           try {
             console.log(`Analyzing sprint: ${sprint.id} - ${sprint.name}`);
 
             const existingReport = await storageService.getReport(sprint.id);
-            if (existingReport) {
+            if (existingReport && !boardConfig.options.forceRefresh) {
               const reportAge = Date.now() - new Date(existingReport.generatedAt).getTime();
-              const oneHour = 60 * 60 * 1000;
 
-              if (reportAge < oneHour) {
+              if (reportAge < minReportAge) {
                 console.log(`Skipping sprint ${sprint.id} - recent analysis exists`);
+                outcome.skippedSprints.push(sprint.id);
                 continue;
               }
             }
@@ -345,20 +1619,55 @@ export const scheduledAnalysis = async () => {
             await orchestrator.analyzeSprint(
               sprint.id,
               boardConfig.boardId,
-              false
+              boardConfig.options.forceRefresh
             );
 
             console.log(`Successfully analyzed sprint ${sprint.id}`);
+            outcome.analyzedSprints.push(sprint.id);
             analyzedCount++;
           } catch (sprintError) {
             console.error(`Error analyzing sprint ${sprint.id}:`, sprintError);
+            outcome.errors.push(
+              `Sprint ${sprint.id}: ${sprintError instanceof Error ? sprintError.message : 'Unknown error'}`
+            );
             errorCount++;
           }
         }
       } catch (boardError) {
         console.error(`Error processing board ${boardConfig.boardId}:`, boardError);
+        outcome.errors.push(boardError instanceof Error ? boardError.message : 'Unknown error');
         errorCount++;
       }
+
+      // Send notifications held back by quiet hours; failures do not affect the run status
+      try {
+        await notificationService.flushDeferred(boardConfig.boardId);
+      } catch (notificationError) {
+        console.warn(`Deferred notifications failed for board ${boardConfig.boardId}:`, notificationError);
+      }
+
+      // Seed the historical archive gradually; failures do not affect the run status
+      try {
+        const backfill = await orchestrator.backfillHistoricalMetrics(
+          boardConfig.boardId,
+          SCHEDULED_BACKFILL_BATCH_SIZE
+        );
+        if (backfill.archivedSprints.length > 0) {
+          console.log(
+            `Archived ${backfill.archivedSprints.length} past sprints for board ${boardConfig.boardId}`
+          );
+        }
+      } catch (backfillError) {
+        console.warn(`Historical backfill failed for board ${boardConfig.boardId}:`, backfillError);
+      }
+
+      outcome.status = getRunStatus(outcome);
+
+      try {
+        await registry.recordRun(boardConfig.boardId, outcome);
+      } catch (recordError) {
+        console.error(`Error recording run for board ${boardConfig.boardId}:`, recordError);
+      }
     }
 
     console.log(
@@ -369,16 +1678,25 @@ export const scheduledAnalysis = async () => {
   }
 };
 
-async function getMonitoredBoards(): Promise<Array<{ boardId: string; name: string }>> {
-  return [];
+/**
+ * Derive the overall status of a board run from its analyzed sprints and errors
+ */
+function getRunStatus(outcome: BoardRunOutcome): BoardRunOutcome['status'] {
+  if (outcome.errors.length === 0) {
+    return outcome.analyzedSprints.length > 0 ? 'success' : 'skipped';
+  }
+  return outcome.analyzedSprints.length > 0 ? 'partial' : 'failed';
 }
 
+/**
+ * Fetch the active sprints of a board as the app (only the scheduled run calls this)
+ */
 async function getActiveSprintsForBoard(
   boardId: string
 ): Promise<Array<{ id: string; name: string }>> {
   try {
     const url = route`/rest/agile/1.0/board/${boardId}/sprint?state=active`;
-    const response = await api.asUser().requestJira(url, {
+    const response = await api.asApp().requestJira(url, {
       headers: {
         'Accept': 'application/json',
       },
@@ -396,6 +1714,6 @@ async function getActiveSprintsForBoard(
     }));
   } catch (error) {
     console.error(`Error fetching active sprints for board ${boardId}:`, error);
-    return [];
+    throw error;
   }
 }
@@ -308,4 +308,3 @@ async function getActiveSprintsForBoard(
 
 // Export UI components for Forge modules
 export { SprintAnalysisPanel, IssuePanel };
-export { SprintReportMacro } from './components/SprintReportMacro';
@@ -1,12 +1,28 @@
 import {
+  ApiContext,
   SprintData,
   IssueData,
   PullRequestData,
   SprintMetrics,
   PRMetrics,
   HistoricalMetrics,
+  HistoricalTrend,
+  HistoricalBackfillResult,
+  CompletionForecast,
+  CapacityForecast,
+  BurndownSeries,
+  SpilloverPrediction,
   NextSprintSuggestions,
   SprintReport,
+  StatusCategory,
+  StatusCategoryOverrides,
+  EpicReport,
+  RiskScoringOverrides,
+  RiskTimeline,
+  ComparedSprint,
+  SprintComparisonReport,
+  RetrospectivePage,
+  RiskSnapshot,
 } from '../types';
 import { JiraDataCollector } from './JiraDataCollector';
 import { BitbucketDataCollector } from './BitbucketDataCollector';
@@ -16,6 +32,21 @@ import { PredictionEngine } from './PredictionEngine';
 import { RecommendationGenerator } from './RecommendationGenerator';
 import { ReportGenerator } from './ReportGenerator';
 import { StorageService } from './StorageService';
+import { StatusClassifier } from './StatusClassifier';
+import { TrendAnalyzer } from './TrendAnalyzer';
+import { MonteCarloForecaster } from './MonteCarloForecaster';
+import { BurndownCalculator } from './BurndownCalculator';
+import { ScopeChangeAnalyzer } from './ScopeChangeAnalyzer';
+import { BusinessCalendar } from './BusinessCalendar';
+import { CapacityPlanner } from './CapacityPlanner';
+import { WorkloadAnalyzer } from './WorkloadAnalyzer';
+import { DependencyGraphAnalyzer } from './DependencyGraphAnalyzer';
+import { EpicRollupAnalyzer } from './EpicRollupAnalyzer';
+import { RiskTimelineBuilder } from './RiskTimelineBuilder';
+import { SprintComparator } from './SprintComparator';
+import { RetrospectivePageBuilder } from './RetrospectivePageBuilder';
+import { NotificationService } from './NotificationService';
+import { SpilloverActionEngine } from './SpilloverActionEngine';
 
 // Declare console for logging
 declare const console: {
@@ -48,16 +79,51 @@ export class AnalysisOrchestrator {
   private recommendationGenerator: RecommendationGenerator;
   private reportGenerator: ReportGenerator;
   private storageService: StorageService;
+  private trendAnalyzer: TrendAnalyzer;
+  private forecaster: MonteCarloForecaster;
+  private burndownCalculator: BurndownCalculator;
+  private scopeChangeAnalyzer: ScopeChangeAnalyzer;
+  private capacityPlanner: CapacityPlanner;
+  private workloadAnalyzer: WorkloadAnalyzer;
+  private dependencyGraphAnalyzer: DependencyGraphAnalyzer;
+  private epicRollupAnalyzer: EpicRollupAnalyzer;
+  private riskTimelineBuilder: RiskTimelineBuilder;
+  private sprintComparator: SprintComparator;
+  private retrospectivePageBuilder: RetrospectivePageBuilder;
+  private notificationService: NotificationService;
+  private spilloverActionEngine: SpilloverActionEngine;
 
-  constructor() {
-    this.jiraCollector = new JiraDataCollector();
-    this.bitbucketCollector = new BitbucketDataCollector();
+  // Number of past sprints in the historical trend
+  private readonly HISTORICAL_TREND_WINDOW = 6;
+  // Number of closed sprints to fetch when looking for the trend window
+  private readonly HISTORICAL_SPRINT_LOOKUP = 50;
+
+  /**
+   * @param apiContext - Whose permissions Jira and Bitbucket data is read with
+   *   ('app' for scheduled runs, which have no user)
+   */
+  constructor(apiContext: ApiContext = 'user') {
+    this.storageService = new StorageService();
+    this.jiraCollector = new JiraDataCollector(this.storageService, apiContext);
+    this.bitbucketCollector = new BitbucketDataCollector(apiContext);
     this.metricsCalculator = new MetricsCalculator();
     this.riskAssessor = new RiskAssessor();
     this.predictionEngine = new PredictionEngine();
     this.recommendationGenerator = new RecommendationGenerator();
     this.reportGenerator = new ReportGenerator();
-    this.storageService = new StorageService();
+    this.trendAnalyzer = new TrendAnalyzer();
+    this.forecaster = new MonteCarloForecaster();
+    this.burndownCalculator = new BurndownCalculator();
+    this.scopeChangeAnalyzer = new ScopeChangeAnalyzer();
+    this.capacityPlanner = new CapacityPlanner(this.trendAnalyzer);
+    this.workloadAnalyzer = new WorkloadAnalyzer();
+    this.dependencyGraphAnalyzer = new DependencyGraphAnalyzer();
+    this.epicRollupAnalyzer = new EpicRollupAnalyzer(undefined, this.trendAnalyzer);
+    this.riskTimelineBuilder = new RiskTimelineBuilder();
+    this.sprintComparator = new SprintComparator();
+    this.retrospectivePageBuilder = new RetrospectivePageBuilder();
+    this.notificationService = new NotificationService(this.storageService);
+    this.spilloverActionEngine = new SpilloverActionEngine(this.storageService);
   }
 
   /**
@@ -65,12 +131,15 @@ export class AnalysisOrchestrator {
    * @param sprintId - The ID of the sprint to analyze
    * @param boardId - Optional board ID for historical data
    * @param forceRefresh - Force refresh cache (default: false)
+   * @param options - readOnly skips webhook notifications and spillover labels
+   *   and comments, for callers that only read a sprint (comparisons, retrospectives)
    * @returns Complete sprint report
    */
   async analyzeSprint(
     sprintId: string,
     boardId?: string,
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    options: { readOnly?: boolean } = {}
   ): Promise<SprintReport> {
     try {
       console.log(`Starting analysis for sprint ${sprintId}`);
@@ -85,42 +154,67 @@ export class AnalysisOrchestrator {
       }
 
       // Step 2: Collect data from Jira and Bitbucket (with caching and parallel fetching)
-      const { sprint, issues, prs, historicalMetrics } = await this.collectData(
+      const { sprint, issues, removedIssues, prs, history } = await this.collectData(
         sprintId,
         boardId,
         forceRefresh
       );
+      const historicalTrend = this.trendAnalyzer.buildTrend(history, this.HISTORICAL_TREND_WINDOW);
+
+      // Apply project-specific workflow status mappings to every engine
+      const statusClassifier = await this.buildStatusClassifier(issues);
+      this.applyStatusClassifier(statusClassifier);
+
+      // Measure durations in the board's working time if it has a team calendar
+      const businessCalendar = await this.buildBusinessCalendar(boardId);
+      this.applyBusinessCalendar(businessCalendar);
+
+      // Score risk with the board's weights and thresholds
+      this.riskAssessor.setScoringOverrides(await this.loadRiskScoringOverrides(boardId));
 
       // Step 3: Calculate metrics
       console.log('Calculating metrics');
       const sprintMetrics = this.metricsCalculator.calculateSprintMetrics(issues, sprint);
       const prMetrics = this.metricsCalculator.calculatePRMetrics(prs);
-      const bottlenecks = this.metricsCalculator.identifyBottlenecks(issues);
+      const externalBlockers = await this.fetchExternalBlockers(issues);
+      const bottlenecks = this.metricsCalculator.identifyBottlenecks(issues, prs, externalBlockers);
+      const burndown = this.calculateBurndown(issues, removedIssues, sprint);
+      const scopeChanges = this.scopeChangeAnalyzer.analyzeScopeChanges(issues, removedIssues, sprint);
+      const carryOverIssues = this.metricsCalculator.identifyCarryOverIssues(issues, sprint);
+      const developerWorkload = this.workloadAnalyzer.analyzeWorkload(issues, prs);
+      const dependencyGraph = this.dependencyGraphAnalyzer.buildGraph(issues, externalBlockers);
 
       // Step 4: Assess risk
       console.log('Assessing risk');
       const riskAssessment = this.riskAssessor.assessSprintRisk(
         sprintMetrics,
         prMetrics,
-        historicalMetrics || undefined,
+        historicalTrend || undefined,
         issues,
-        prs
+        prs,
+        scopeChanges,
+        carryOverIssues,
+        developerWorkload,
+        dependencyGraph
       );
 
-      // Step 5: Predict spillover (only for active sprints)
+      // Step 5: Predict spillover and forecast completion (only for active sprints)
+      let spilloverPredictions: SpilloverPrediction[] | undefined;
+      let forecast: CompletionForecast | undefined;
       if (sprint.state === 'active') {
         console.log('Predicting spillover');
-        const spilloverPredictions = this.predictionEngine.predictSpillover(
+        spilloverPredictions = this.predictionEngine.predictSpillover(
           issues,
           sprint,
           new Date(),
           sprintMetrics
         );
 
-        // Log spillover predictions for visibility
         if (spilloverPredictions.length > 0) {
           console.log(`Identified ${spilloverPredictions.length} issues at risk of spillover`);
         }
+
+        forecast = this.forecastCompletion(issues, sprint, history) || undefined;
       }
 
       // Step 6: Generate recommendations
@@ -131,19 +225,28 @@ export class AnalysisOrchestrator {
         prMetrics,
         issues,
         prs,
-        bottlenecks
+        bottlenecks,
+        spilloverPredictions,
+        scopeChanges,
+        developerWorkload,
+        dependencyGraph
       );
 
       // Step 7: Generate next sprint suggestions (if historical data available)
       let nextSprintSuggestions: NextSprintSuggestions | undefined;
-      if (historicalMetrics) {
+      if (historicalTrend) {
         console.log('Generating next sprint suggestions');
+        const capacity = boardId
+          ? await this.forecastCapacity(boardId, history, historicalTrend)
+          : undefined;
         nextSprintSuggestions = this.recommendationGenerator.generateNextSprintSuggestions(
           sprintMetrics,
-          historicalMetrics,
+          historicalTrend,
           riskAssessment,
           issues,
-          prs
+          prs,
+          capacity,
+          developerWorkload
         );
       }
 
@@ -158,15 +261,40 @@ export class AnalysisOrchestrator {
         issues,
         prs,
         bottlenecks,
-        nextSprintSuggestions
+        nextSprintSuggestions,
+        {
+          forecast,
+          spilloverPredictions,
+          burndown,
+          scopeChanges,
+          carryOverIssues,
+          developerWorkload,
+          dependencyGraph,
+          historicalTrend: historicalTrend || undefined,
+          durationMode: businessCalendar.mode,
+          calendar: businessCalendar.getCalendar() || undefined,
+        }
       );
 
-      // Step 9: Cache the report
+      // Step 9: Cache the report, add its risk to the sprint's timeline,
+      // notify the board's subscribers if the risk escalated and apply (or,
+      // once the sprint closed, clean up) the board's spillover actions
       await this.cacheReport(sprintId, report);
+      const previousSnapshot = await this.recordRiskSnapshot(sprintId, report);
+      if (boardId && !options.readOnly) {
+        await this.notifyRiskChange(boardId, sprint, previousSnapshot, report);
+        await this.applySpilloverActions(boardId, sprint, issues, statusClassifier, spilloverPredictions);
+      }
 
       // Step 10: Store historical metrics for closed sprints
       if (sprint.state === 'closed') {
-        await this.storeHistoricalMetrics(sprint, sprintMetrics, prMetrics);
+        await this.storeHistoricalMetrics(
+          sprint,
+          sprintMetrics,
+          prMetrics,
+          boardId,
+          this.metricsCalculator.calculateCycleTimeSamples(issues)
+        );
       }
 
       console.log('Analysis complete');
@@ -178,6 +306,137 @@ export class AnalysisOrchestrator {
     }
   }
 
+  /**
+   * Analyze an epic across all sprints its issues have been in
+   * @param epicKey - The epic's issue key
+   * @param boardId - Optional board ID (team velocity fallback for the forecast)
+   * @returns Epic report
+   */
+  async analyzeEpic(epicKey: string, boardId?: string): Promise<EpicReport> {
+    console.log(`Starting analysis for epic ${epicKey}`);
+
+    // Step 1: Collect the epic and its child issues
+    let epic: IssueData | null;
+    let issues: IssueData[];
+    try {
+      [epic, issues] = await Promise.all([
+        this.jiraCollector.getIssue(epicKey),
+        this.jiraCollector.getEpicIssues(epicKey),
+      ]);
+    } catch (error) {
+      console.error('Error fetching epic data:', error);
+      throw new Error(`Failed to fetch epic data from Jira: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (!epic) {
+      throw new Error(`Epic ${epicKey} not found`);
+    }
+
+    this.applyStatusClassifier(await this.buildStatusClassifier(issues));
+
+    // Step 2: Roll up progress and forecast completion
+    const history = boardId ? await this.getHistoricalMetrics(boardId, '') : [];
+    const historicalTrend = this.trendAnalyzer.buildTrend(history, this.HISTORICAL_TREND_WINDOW);
+    const forecastHistory = (await this.storageService.getEpicForecasts(epicKey)) || [];
+    const rollup = this.epicRollupAnalyzer.analyzeEpic(
+      epic,
+      issues,
+      forecastHistory,
+      historicalTrend || undefined
+    );
+
+    // Step 3: Record this sprint's forecast so later analyses can detect slippage
+    const snapshot = this.epicRollupAnalyzer.createSnapshot(rollup);
+    if (snapshot) {
+      try {
+        await this.storageService.recordEpicForecast(epicKey, snapshot);
+      } catch (error) {
+        console.warn(`Could not record forecast for epic ${epicKey}:`, error);
+      }
+    }
+
+    // Step 4: Assess risk and generate the report
+    const riskAssessment = this.epicRollupAnalyzer.assessRisk(rollup);
+    const recommendations = this.recommendationGenerator.generateEpicRecommendations(rollup);
+
+    console.log('Epic analysis complete');
+    return this.reportGenerator.generateEpicReport(rollup, riskAssessment, recommendations);
+  }
+
+  /**
+   * Compare two sprints
+   *
+   * Both sprints are analyzed first (cached reports are reused), so their
+   * risk factors are assessed the same way.
+   * @param baseSprintId - Sprint compared against, usually the earlier one
+   * @param targetSprintId - Sprint being compared
+   * @param boardId - Optional board ID for historical data
+   * @returns Sprint comparison report
+   */
+  async compareSprints(
+    baseSprintId: string,
+    targetSprintId: string,
+    boardId?: string
+  ): Promise<SprintComparisonReport> {
+    console.log(`Comparing sprint ${targetSprintId} with sprint ${baseSprintId}`);
+
+    // Analyze one sprint at a time, since each analysis configures the engines
+    const base = await this.loadComparedSprint(baseSprintId, boardId);
+    const target = await this.loadComparedSprint(targetSprintId, boardId);
+
+    this.applyStatusClassifier(await this.buildStatusClassifier([...base.issues, ...target.issues]));
+
+    const comparison = this.sprintComparator.compare(base, target);
+    return this.reportGenerator.generateComparisonReport(comparison);
+  }
+
+  /**
+   * Build the retrospective page of a closed sprint
+   *
+   * The sprint is analyzed first (a cached report is reused), and the board's
+   * archived sprints give the averages the sprint is compared with.
+   * @param sprintId - Closed sprint ID
+   * @param boardId - Optional board ID for historical data
+   * @returns Retrospective page in Confluence storage format
+   */
+  async buildRetrospective(sprintId: string, boardId?: string): Promise<RetrospectivePage> {
+    console.log(`Building retrospective for sprint ${sprintId}`);
+
+    const { sprint, report } = await this.loadComparedSprint(sprintId, boardId);
+    if (sprint.state !== 'closed') {
+      throw new Error(`Sprint ${sprint.name} is ${sprint.state}; only closed sprints can be published as a retrospective`);
+    }
+
+    const history = boardId
+      ? (await this.storageService.getHistoricalMetrics(boardId)) || []
+      : [];
+
+    return this.retrospectivePageBuilder.buildPage(sprint, report, history);
+  }
+
+  /**
+   * Load a sprint's report and issues for a comparison or retrospective
+   * @param sprintId - Sprint ID
+   * @param boardId - Optional board ID
+   * @returns Sprint with its report and issues
+   */
+  private async loadComparedSprint(sprintId: string, boardId?: string): Promise<ComparedSprint> {
+    // Comparisons and retrospectives only read, so they must not write to Jira or notify
+    const report = await this.analyzeSprint(sprintId, boardId, false, { readOnly: true });
+    if (report.error) {
+      throw new Error(`Sprint ${sprintId} could not be analyzed: ${report.error}`);
+    }
+
+    const sprintData = (await this.storageService.getCachedSprintData(sprintId)) ||
+      (await this.fetchJiraData(sprintId, boardId));
+
+    return {
+      sprint: sprintData.sprint,
+      report,
+      issues: sprintData.issues,
+    };
+  }
+
   /**
    * Collect data from Jira and Bitbucket with caching and parallel fetching
    * @param sprintId - Sprint ID
@@ -192,8 +451,9 @@ export class AnalysisOrchestrator {
   ): Promise<{
     sprint: SprintData;
     issues: IssueData[];
+    removedIssues: IssueData[];
     prs: PullRequestData[];
-    historicalMetrics: HistoricalMetrics | null;
+    history: HistoricalMetrics[];
   }> {
     // Check cache first (unless force refresh)
     if (!forceRefresh) {
@@ -202,15 +462,16 @@ export class AnalysisOrchestrator {
 
       if (cachedSprintData && cachedPRData) {
         console.log('Using cached data');
-        const historicalMetrics = boardId 
+        const history = boardId 
           ? await this.getHistoricalMetrics(boardId, sprintId)
-          : null;
+          : [];
 
         return {
           sprint: cachedSprintData.sprint,
           issues: cachedSprintData.issues,
+          removedIssues: cachedSprintData.removedIssues || [],
           prs: cachedPRData,
-          historicalMetrics,
+          history,
         };
       }
     }
@@ -218,42 +479,48 @@ export class AnalysisOrchestrator {
     // Fetch data in parallel for optimization
     console.log('Fetching data from Jira and Bitbucket');
     
-    const [sprintData, historicalMetrics] = await Promise.all([
-      this.fetchJiraData(sprintId),
-      boardId ? this.getHistoricalMetrics(boardId, sprintId) : Promise.resolve(null),
+    const [sprintData, history] = await Promise.all([
+      this.fetchJiraData(sprintId, boardId),
+      boardId ? this.getHistoricalMetrics(boardId, sprintId) : Promise.resolve([]),
     ]);
 
-    const { sprint, issues } = sprintData;
+    const { sprint, issues, removedIssues } = sprintData;
 
     // Fetch PR data (with fallback if Bitbucket unavailable)
     const prs = await this.fetchBitbucketData(issues);
 
     // Cache the collected data
     await Promise.all([
-      this.storageService.cacheSprintData(sprintId, { sprint, issues }),
+      this.storageService.cacheSprintData(sprintId, { sprint, issues, removedIssues }),
       this.storageService.cachePRData(sprintId, prs),
     ]);
 
-    return { sprint, issues, prs, historicalMetrics };
+    return { sprint, issues, removedIssues, prs, history };
   }
 
   /**
    * Fetch sprint and issue data from Jira
    * @param sprintId - Sprint ID
-   * @returns Sprint and issues data
+   * @param boardId - Optional board ID (needed to find issues removed from the sprint)
+   * @returns Sprint, issues and removed issues data
    */
-  private async fetchJiraData(sprintId: string): Promise<{
+  private async fetchJiraData(sprintId: string, boardId?: string): Promise<{
     sprint: SprintData;
     issues: IssueData[];
+    removedIssues: IssueData[];
   }> {
     try {
       // Fetch sprint data and issues in parallel
-      const [sprint, issues] = await Promise.all([
+      const [sprint, issues, removedIssues] = await Promise.all([
         this.jiraCollector.getSprintData(sprintId),
         this.jiraCollector.getSprintIssues(sprintId),
+        // Issues removed mid-sprint are only available through the board's sprint report
+        boardId
+          ? this.jiraCollector.getRemovedSprintIssues(sprintId, boardId)
+          : Promise.resolve([]),
       ]);
 
-      return { sprint, issues };
+      return { sprint, issues, removedIssues };
     } catch (error) {
       console.error('Error fetching Jira data:', error);
       throw new Error(`Failed to fetch sprint data from Jira: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -282,34 +549,253 @@ export class AnalysisOrchestrator {
   }
 
   /**
-   * Get historical metrics for trend analysis
+   * Fetch issues outside the sprint that block sprint issues (following blocker chains)
+   * @param issues - Sprint issues
+   * @returns Blocking issues outside the sprint (empty if unavailable)
+   */
+  private async fetchExternalBlockers(issues: IssueData[]): Promise<IssueData[]> {
+    try {
+      return (await this.jiraCollector.getExternalBlockers(issues)) || [];
+    } catch (error) {
+      console.warn('Could not fetch blocking issues outside the sprint:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Build a status classifier from Jira status categories (those reported on
+   * the issues per project) and the per-project overrides of every project
+   * represented in the sprint
+   * @param issues - Issue data
+   * @returns Status classifier
+   */
+  private async buildStatusClassifier(issues: IssueData[]): Promise<StatusClassifier> {
+    const jiraCategories: Record<string, StatusCategory> = {};
+
+    try {
+      const siteCategories = await this.jiraCollector.getStatusCategories();
+      Object.assign(jiraCategories, siteCategories || {});
+    } catch (error) {
+      console.warn('Could not fetch status categories, using issue data only:', error);
+    }
+
+    // Categories reported on the issues reflect their own project's workflow
+    // (the same status name may differ between projects), so they win over the
+    // site-wide lookup but not over the project's stored overrides
+    const projectOverrides: Record<string, StatusCategoryOverrides> = {};
+    for (const issue of issues) {
+      const projectKey = this.getProjectKey(issue.key);
+      projectOverrides[projectKey] = projectOverrides[projectKey] || {};
+      if (issue.statusCategory) {
+        projectOverrides[projectKey][issue.status] = issue.statusCategory;
+      }
+    }
+
+    for (const projectKey of Object.keys(projectOverrides)) {
+      try {
+        const storedOverrides = await this.storageService.getStatusOverrides(projectKey);
+        Object.assign(projectOverrides[projectKey], storedOverrides || {});
+      } catch (error) {
+        console.warn(`Could not load status overrides for project ${projectKey}:`, error);
+      }
+    }
+
+    return new StatusClassifier(jiraCategories, {}, projectOverrides);
+  }
+
+  /**
+   * Use the given status classifier in every analysis engine
+   * @param statusClassifier - Status classifier
+   */
+  private applyStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.metricsCalculator.setStatusClassifier(statusClassifier);
+    this.riskAssessor.setStatusClassifier(statusClassifier);
+    this.predictionEngine.setStatusClassifier(statusClassifier);
+    this.recommendationGenerator.setStatusClassifier(statusClassifier);
+    this.forecaster.setStatusClassifier(statusClassifier);
+    this.burndownCalculator.setStatusClassifier(statusClassifier);
+    this.workloadAnalyzer.setStatusClassifier(statusClassifier);
+    this.dependencyGraphAnalyzer.setStatusClassifier(statusClassifier);
+    this.epicRollupAnalyzer.setStatusClassifier(statusClassifier);
+    this.sprintComparator.setStatusClassifier(statusClassifier);
+  }
+
+  /**
+   * Build the business calendar for a board from its team calendar
+   * @param boardId - Optional board ID
+   * @returns Business calendar (wall-clock if the board has no team calendar)
+   */
+  private async buildBusinessCalendar(boardId?: string): Promise<BusinessCalendar> {
+    if (!boardId) {
+      return new BusinessCalendar();
+    }
+
+    try {
+      const calendar = await this.storageService.getTeamCalendar(boardId);
+      return new BusinessCalendar(calendar || null);
+    } catch (error) {
+      console.warn(`Could not load team calendar for board ${boardId}, using wall-clock hours:`, error);
+      return new BusinessCalendar();
+    }
+  }
+
+  /**
+   * Load the risk scoring overrides of a board
+   * @param boardId - Optional board ID
+   * @returns Scoring overrides, or null to use the default scoring model
+   */
+  private async loadRiskScoringOverrides(boardId?: string): Promise<RiskScoringOverrides | null> {
+    if (!boardId) {
+      return null;
+    }
+
+    try {
+      return (await this.storageService.getRiskScoringOverrides(boardId)) || null;
+    } catch (error) {
+      console.warn(`Could not load risk scoring overrides for board ${boardId}, using defaults:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Use the given business calendar in every engine that measures durations
+   * @param businessCalendar - Business calendar
+   */
+  private applyBusinessCalendar(businessCalendar: BusinessCalendar): void {
+    this.metricsCalculator.setBusinessCalendar(businessCalendar);
+    this.riskAssessor.setBusinessCalendar(businessCalendar);
+    this.predictionEngine.setBusinessCalendar(businessCalendar);
+  }
+
+  /**
+   * Extract the project key from an issue key (e.g. "PROJ" from "PROJ-123")
+   * @param issueKey - Issue key
+   * @returns Project key
+   */
+  private getProjectKey(issueKey: string): string {
+    const separator = issueKey.lastIndexOf('-');
+    return separator > 0 ? issueKey.substring(0, separator) : issueKey;
+  }
+
+  /**
+   * Calculate the day-by-day burndown/burnup series of a sprint
+   * @param issues - Sprint issues
+   * @param removedIssues - Issues removed from the sprint after it started
+   * @param sprint - Sprint data
+   * @returns Burndown series or undefined if it cannot be calculated
+   */
+  private calculateBurndown(
+    issues: IssueData[],
+    removedIssues: IssueData[],
+    sprint: SprintData
+  ): BurndownSeries | undefined {
+    try {
+      return this.burndownCalculator.calculateBurndown(issues, sprint, new Date(), removedIssues) || undefined;
+    } catch (error) {
+      console.warn('Could not calculate sprint burndown:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Run a Monte Carlo completion forecast for an active sprint
+   * @param issues - Sprint issues
+   * @param sprint - Sprint data
+   * @param history - Archived metrics of past sprints (source of cycle time samples)
+   * @returns Completion forecast or null if no archived cycle times are available
+   */
+  private forecastCompletion(
+    issues: IssueData[],
+    sprint: SprintData,
+    history: HistoricalMetrics[]
+  ): CompletionForecast | null {
+    try {
+      const samples = history.flatMap(h => h.cycleTimeSamples || []);
+      return this.forecaster.forecast(issues, sprint, samples);
+    } catch (error) {
+      console.warn('Could not forecast sprint completion:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Forecast the next sprint's capacity-based target from its capacity plan
+   * @param boardId - Board ID
+   * @param history - Archived metrics of past sprints
+   * @param historicalTrend - Historical trend
+   * @returns Capacity forecast or undefined if the next sprint has no capacity plan
+   */
+  private async forecastCapacity(
+    boardId: string,
+    history: HistoricalMetrics[],
+    historicalTrend: HistoricalTrend
+  ): Promise<CapacityForecast | undefined> {
+    try {
+      const nextSprint = await this.jiraCollector.getNextSprint(boardId);
+      if (!nextSprint) {
+        return undefined;
+      }
+
+      const plan = await this.storageService.getCapacityPlan(boardId, nextSprint.id);
+      if (!plan) {
+        return undefined;
+      }
+
+      const historicalPlans = await this.storageService.getCapacityPlans(
+        boardId,
+        history.map(entry => entry.sprintId)
+      );
+
+      return this.capacityPlanner.forecastCapacity(
+        plan,
+        history,
+        historicalPlans,
+        historicalTrend,
+        nextSprint.name
+      ) || undefined;
+    } catch (error) {
+      console.warn('Could not forecast next sprint capacity:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get archived metrics for the most recent closed sprints (the trend window)
    * @param boardId - Board ID
    * @param currentSprintId - Current sprint ID (to exclude from historical data)
-   * @returns Historical metrics or null
+   * @returns Historical metrics, most recent first (empty if unavailable)
    */
   private async getHistoricalMetrics(
     boardId: string,
     currentSprintId: string
-  ): Promise<HistoricalMetrics | null> {
+  ): Promise<HistoricalMetrics[]> {
     try {
-      // Fetch recent closed sprints
-      const historicalSprints = await this.jiraCollector.getHistoricalSprints(boardId, 5);
+      // Fetch closed sprints for the board
+      const historicalSprints = await this.jiraCollector.getHistoricalSprints(
+        boardId,
+        this.HISTORICAL_SPRINT_LOOKUP
+      );
 
-      // Filter out current sprint and get metrics for the most recent closed sprint
-      const pastSprints = historicalSprints.filter(s => s.id !== currentSprintId);
+      // Filter out current sprint and keep the most recently ended sprints
+      const pastSprints = historicalSprints
+        .filter(s => s.id !== currentSprintId)
+        .sort((a, b) => new Date(b.endDate).getTime() - new Date(a.endDate).getTime())
+        .slice(0, this.HISTORICAL_TREND_WINDOW);
 
       if (pastSprints.length === 0) {
-        return null;
+        return [];
       }
 
-      // Try to get cached historical metrics for the most recent sprint
-      const mostRecentSprint = pastSprints[0];
-      const historicalMetric = await this.storageService.getHistoricalMetric(mostRecentSprint.id);
+      // Only sprints with stored metrics contribute to the trend
+      const history = await this.storageService.getHistoricalMetrics(
+        boardId,
+        pastSprints.map(s => s.id)
+      );
 
-      return historicalMetric;
+      return history || [];
     } catch (error) {
       console.warn('Could not fetch historical metrics:', error);
-      return null;
+      return [];
     }
   }
 
@@ -341,16 +827,120 @@ export class AnalysisOrchestrator {
     }
   }
 
+  /**
+   * Record the risk of a freshly generated report in the sprint's risk timeline
+   * @param sprintId - Sprint ID
+   * @param report - Sprint report
+   * @returns The sprint's previous snapshot, or null on its first analysis
+   */
+  private async recordRiskSnapshot(sprintId: string, report: SprintReport): Promise<RiskSnapshot | null> {
+    try {
+      const [previous] = (await this.storageService.getRiskSnapshots(sprintId)) || [];
+      await this.storageService.recordRiskSnapshot(
+        sprintId,
+        this.riskTimelineBuilder.createSnapshot(report)
+      );
+      return previous || null;
+    } catch (error) {
+      console.error('Error recording risk snapshot:', error);
+      // Non-critical error, continue
+      return null;
+    }
+  }
+
+  /**
+   * Notify a board's webhook subscribers when an active sprint's risk escalated
+   *
+   * Notifications held back by quiet hours are sent first, so the queue drains
+   * on any analysis outside quiet hours, not only on scheduled runs.
+   * @param boardId - Board ID
+   * @param sprint - Sprint data
+   * @param previous - Previous risk snapshot
+   * @param report - Sprint report
+   */
+  private async notifyRiskChange(
+    boardId: string,
+    sprint: SprintData,
+    previous: RiskSnapshot | null,
+    report: SprintReport
+  ): Promise<void> {
+    try {
+      const flushed = await this.notificationService.flushDeferred(boardId);
+      if (flushed.length > 0) {
+        console.log(`Deferred notifications of board ${boardId}: ${flushed.map(d => d.status).join(', ')}`);
+      }
+
+      // Analyzing a past sprint, e.g. to compare or publish it, is not news
+      if (sprint.state !== 'active') {
+        return;
+      }
+
+      const deliveries = await this.notificationService.notifyRiskChange(boardId, sprint, previous, report);
+      if (deliveries.length > 0) {
+        console.log(`Risk escalation of sprint ${sprint.id}: ${deliveries.map(d => d.status).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error sending risk notifications:', error);
+      // Non-critical error, continue
+    }
+  }
+
+  /**
+   * Label and comment on an active sprint's issues predicted to spill over, or
+   * remove the labels and comments of a closed sprint's finished issues, if
+   * the board opted in
+   * @param boardId - Board ID
+   * @param sprint - Sprint data
+   * @param issues - Issues in the sprint
+   * @param statusClassifier - Status classifier of the analysis
+   * @param predictions - Spillover predictions (active sprints only)
+   */
+  private async applySpilloverActions(
+    boardId: string,
+    sprint: SprintData,
+    issues: IssueData[],
+    statusClassifier: StatusClassifier,
+    predictions?: SpilloverPrediction[]
+  ): Promise<void> {
+    try {
+      let run = null;
+      if (sprint.state === 'closed') {
+        const completedIssueKeys = issues
+          .filter(issue => statusClassifier.isCompleted(issue.status, issue.key))
+          .map(issue => issue.key);
+        run = await this.spilloverActionEngine.cleanUpClosedSprint(boardId, sprint, completedIssueKeys);
+      } else if (predictions) {
+        run = await this.spilloverActionEngine.run(boardId, sprint, predictions, {
+          issueKeys: issues.map(issue => issue.key),
+        });
+      }
+
+      if (run && run.actions.length > 0) {
+        console.log(
+          `Spillover actions for sprint ${sprint.id}${run.dryRun ? ' (dry run)' : ''}: ` +
+          run.actions.map(action => `${action.type} ${action.issueKey} ${action.status}`).join(', ')
+        );
+      }
+    } catch (error) {
+      console.error('Error applying spillover actions:', error);
+      // Non-critical error, continue
+    }
+  }
+
   /**
    * Store historical metrics for closed sprints
    * @param sprint - Sprint data
    * @param sprintMetrics - Sprint metrics
    * @param prMetrics - PR metrics
+   * @param boardId - Optional board ID to index the sprint under
+   * @param cycleTimeSamples - Cycle times of the sprint's completed issues
    */
   private async storeHistoricalMetrics(
     sprint: SprintData,
     sprintMetrics: SprintMetrics,
-    prMetrics: PRMetrics
+    prMetrics: PRMetrics,
+    boardId?: string,
+    cycleTimeSamples?: number[]
   ): Promise<void> {
     try {
       await this.storageService.storeHistoricalMetrics(
@@ -358,7 +948,9 @@ export class AnalysisOrchestrator {
         sprint.name,
         sprint.endDate,
         sprintMetrics,
-        prMetrics
+        prMetrics,
+        boardId,
+        cycleTimeSamples
       );
     } catch (error) {
       console.error('Error storing historical metrics:', error);
@@ -416,9 +1008,93 @@ export class AnalysisOrchestrator {
         },
       },
       generatedAt: new Date().toISOString(),
+      error: errorMessage,
     };
   }
 
+  /**
+   * Seed the historical metrics archive for a board from its past closed sprints
+   *
+   * Sprints are processed one at a time, most recently ended first, and
+   * sprints already in the board's archive are skipped.
+   * @param boardId - Board ID
+   * @param maxSprints - Maximum number of sprints to archive in this run
+   * @returns Backfill result
+   */
+  async backfillHistoricalMetrics(
+    boardId: string,
+    maxSprints: number = this.HISTORICAL_TREND_WINDOW
+  ): Promise<HistoricalBackfillResult> {
+    const result: HistoricalBackfillResult = {
+      boardId,
+      archivedSprints: [],
+      skippedSprints: [],
+      errors: [],
+    };
+
+    const [closedSprints, archiveIndex] = await Promise.all([
+      this.jiraCollector.getHistoricalSprints(boardId, this.HISTORICAL_SPRINT_LOOKUP),
+      this.storageService.getHistoricalIndex(boardId),
+    ]);
+
+    const businessCalendar = await this.buildBusinessCalendar(boardId);
+    const archivedIds = new Set(archiveIndex.map(entry => entry.sprintId));
+    const sprints = [...closedSprints].sort(
+      (a, b) => new Date(b.endDate).getTime() - new Date(a.endDate).getTime()
+    );
+
+    for (const sprint of sprints) {
+      if (archivedIds.has(sprint.id)) {
+        result.skippedSprints.push(sprint.id);
+        continue;
+      }
+
+      if (result.archivedSprints.length >= maxSprints) {
+        break;
+      }
+
+      try {
+        const issues = await this.jiraCollector.getSprintIssues(sprint.id);
+        const prs = await this.fetchBitbucketData(issues);
+
+        this.applyStatusClassifier(await this.buildStatusClassifier(issues));
+        this.applyBusinessCalendar(businessCalendar);
+
+        const sprintMetrics = this.metricsCalculator.calculateSprintMetrics(issues, sprint);
+        const prMetrics = this.metricsCalculator.calculatePRMetrics(prs);
+
+        await this.storageService.storeHistoricalMetrics(
+          sprint.id,
+          sprint.name,
+          sprint.endDate,
+          sprintMetrics,
+          prMetrics,
+          boardId,
+          this.metricsCalculator.calculateCycleTimeSamples(issues)
+        );
+
+        result.archivedSprints.push(sprint.id);
+      } catch (error) {
+        console.error(`Error archiving sprint ${sprint.id}:`, error);
+        result.errors.push(
+          `Sprint ${sprint.id}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get how a sprint's risk evolved across its analyses
+   * @param sprintId - Sprint ID
+   * @returns Risk timeline (empty if the sprint was never analyzed)
+   */
+  async getRiskTimeline(sprintId: string): Promise<RiskTimeline> {
+    const snapshots = (await this.storageService.getRiskSnapshots(sprintId)) || [];
+    return this.riskTimelineBuilder.buildTimeline(sprintId, snapshots);
+  }
+
   /**
    * Invalidate cache for a sprint (useful when data is updated)
    * @param sprintId - Sprint ID
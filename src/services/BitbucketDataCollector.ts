@@ -1,5 +1,5 @@
 import api, { route } from '@forge/api';
-import { PullRequestData, ReviewerData } from '../types';
+import { ApiContext, PullRequestData, ReviewerData } from '../types';
 
 // Declare global functions for Node.js environment
 declare const setTimeout: (callback: () => void, ms: number) => any;
@@ -18,13 +18,19 @@ declare const console: {
  * - Collecting reviewer information and workload
  * - Tracking PR revisions and review cycles
  * 
- * All API calls use Forge's asUser context for authentication.
+ * API calls use Forge's asUser context for authentication, or asApp when the
+ * collector is built for a scheduled run.
  * Implements graceful degradation when Bitbucket data is unavailable.
  */
 export class BitbucketDataCollector {
   private readonly MAX_RETRIES = 3;
   private readonly INITIAL_BACKOFF_MS = 1000;
   private bitbucketAvailable: boolean = true;
+  private apiContext: ApiContext;
+
+  constructor(apiContext: ApiContext = 'user') {
+    this.apiContext = apiContext;
+  }
 
   /**
    * Fetch pull requests linked to a specific Jira issue
@@ -350,6 +356,13 @@ export class BitbucketDataCollector {
     return 'OPEN';
   }
 
+  /**
+   * Forge API requester for the collector's context
+   */
+  private requester() {
+    return this.apiContext === 'app' ? api.asApp() : api.asUser();
+  }
+
   /**
    * Make a request to Jira API (for dev info)
    * @param url - The API route to call
@@ -357,7 +370,7 @@ export class BitbucketDataCollector {
    */
   private async makeJiraRequest(url: any): Promise<any | null> {
     try {
-      const response = await api.asUser().requestJira(url, {
+      const response = await this.requester().requestJira(url, {
         headers: {
           'Accept': 'application/json',
         },
@@ -388,7 +401,7 @@ export class BitbucketDataCollector {
 
     for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
       try {
-        const response = await api.asUser().requestBitbucket(path, {
+        const response = await this.requester().requestBitbucket(path, {
           headers: {
             'Accept': 'application/json',
           },
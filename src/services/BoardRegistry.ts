@@ -0,0 +1,210 @@
+import {
+  MonitoredBoard,
+  BoardSchedule,
+  BoardScheduleFrequency,
+  MonitoredBoardOptions,
+  BoardRunOutcome,
+} from '../types';
+import { StorageService } from './StorageService';
+
+/**
+ * Input accepted when registering or updating a monitored board
+ */
+export interface MonitoredBoardInput {
+  boardId: string;
+  name?: string;
+  schedule?: Partial<BoardSchedule>;
+  options?: Partial<MonitoredBoardOptions>;
+}
+
+/**
+ * BoardRegistry - Manages the set of boards analyzed by the scheduled trigger
+ *
+ * This class provides methods to:
+ * - Register, update, pause, resume and remove monitored boards
+ * - Validate per-board schedules and analysis options
+ * - Determine which boards are due for a scheduled run
+ * - Record per-run outcomes for each board
+ *
+ * Persistence is delegated to StorageService.
+ */
+export class BoardRegistry {
+  private readonly VALID_FREQUENCIES: BoardScheduleFrequency[] = ['daily', 'weekdays', 'weekly'];
+
+  private readonly DEFAULT_SCHEDULE: BoardSchedule = {
+    frequency: 'daily',
+  };
+
+  private readonly DEFAULT_OPTIONS: MonitoredBoardOptions = {
+    forceRefresh: false,
+    minReportAgeMinutes: 60,
+  };
+
+  private storageService: StorageService;
+
+  constructor(storageService: StorageService = new StorageService()) {
+    this.storageService = storageService;
+  }
+
+  /**
+   * Register a board for monitoring, or update it if already registered
+   * @param input - Board ID with optional name, schedule and options
+   * @returns The stored board configuration
+   */
+  async addBoard(input: MonitoredBoardInput): Promise<MonitoredBoard> {
+    if (!input.boardId) {
+      throw new Error('boardId is required');
+    }
+
+    const existing = await this.storageService.getMonitoredBoard(input.boardId);
+    const now = new Date().toISOString();
+
+    const board: MonitoredBoard = {
+      boardId: input.boardId,
+      name: input.name || existing?.name || `Board ${input.boardId}`,
+      paused: existing?.paused || false,
+      schedule: this.normalizeSchedule({
+        ...(existing?.schedule || this.DEFAULT_SCHEDULE),
+        ...(input.schedule || {}),
+      }),
+      options: this.normalizeOptions({
+        ...(existing?.options || this.DEFAULT_OPTIONS),
+        ...(input.options || {}),
+      }),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      lastRun: existing?.lastRun,
+    };
+
+    await this.storageService.saveMonitoredBoard(board);
+    return board;
+  }
+
+  /**
+   * List all monitored boards
+   * @returns Array of board configurations
+   */
+  async listBoards(): Promise<MonitoredBoard[]> {
+    return this.storageService.getMonitoredBoards();
+  }
+
+  /**
+   * Pause or resume scheduled analysis for a board
+   * @param boardId - Board ID
+   * @param paused - True to pause, false to resume
+   * @returns Updated board, or null if the board is not registered
+   */
+  async setPaused(boardId: string, paused: boolean): Promise<MonitoredBoard | null> {
+    const existing = await this.storageService.getMonitoredBoard(boardId);
+    if (!existing) {
+      return null;
+    }
+
+    const board: MonitoredBoard = {
+      ...existing,
+      paused,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.storageService.saveMonitoredBoard(board);
+    return board;
+  }
+
+  /**
+   * Remove a board from monitoring
+   * @param boardId - Board ID
+   * @returns True if the board was registered
+   */
+  async removeBoard(boardId: string): Promise<boolean> {
+    return this.storageService.removeMonitoredBoard(boardId);
+  }
+
+  /**
+   * Get boards that are active and scheduled to run on the given date
+   * @param now - Date of the scheduled run
+   * @returns Boards due for analysis
+   */
+  async getBoardsDueForRun(now: Date = new Date()): Promise<MonitoredBoard[]> {
+    const boards = await this.storageService.getMonitoredBoards();
+    return boards.filter(board => !board.paused && this.isScheduledOn(board.schedule, now));
+  }
+
+  /**
+   * Record the outcome of a scheduled run
+   * @param boardId - Board ID
+   * @param outcome - Run outcome
+   */
+  async recordRun(boardId: string, outcome: BoardRunOutcome): Promise<void> {
+    await this.storageService.recordBoardRun(boardId, outcome);
+  }
+
+  /**
+   * Get recorded run outcomes for a board
+   * @param boardId - Board ID
+   * @returns Run outcomes (most recent first)
+   */
+  async getRunHistory(boardId: string): Promise<BoardRunOutcome[]> {
+    return this.storageService.getBoardRuns(boardId);
+  }
+
+  /**
+   * Check whether a schedule includes the given date (UTC day)
+   * @param schedule - Board schedule
+   * @param date - Date to check
+   * @returns True if the board should run on that date
+   */
+  isScheduledOn(schedule: BoardSchedule, date: Date): boolean {
+    const dayOfWeek = date.getUTCDay();
+
+    switch (schedule.frequency) {
+      case 'weekdays':
+        return dayOfWeek >= 1 && dayOfWeek <= 5;
+      case 'weekly':
+        return dayOfWeek === (schedule.dayOfWeek ?? 1);
+      case 'daily':
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Validate and normalize a schedule
+   * @param schedule - Schedule to validate
+   * @returns Normalized schedule
+   */
+  private normalizeSchedule(schedule: BoardSchedule): BoardSchedule {
+    if (!this.VALID_FREQUENCIES.includes(schedule.frequency)) {
+      throw new Error(
+        `Invalid schedule frequency "${schedule.frequency}". Expected one of: ${this.VALID_FREQUENCIES.join(', ')}`
+      );
+    }
+
+    if (schedule.frequency !== 'weekly') {
+      return { frequency: schedule.frequency };
+    }
+
+    const dayOfWeek = schedule.dayOfWeek ?? 1;
+    if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+      throw new Error('Weekly schedules require dayOfWeek between 0 (Sunday) and 6 (Saturday)');
+    }
+
+    return { frequency: 'weekly', dayOfWeek };
+  }
+
+  /**
+   * Validate and normalize analysis options
+   * @param options - Options to validate
+   * @returns Normalized options
+   */
+  private normalizeOptions(options: MonitoredBoardOptions): MonitoredBoardOptions {
+    const minReportAgeMinutes = Number(options.minReportAgeMinutes);
+    if (!Number.isFinite(minReportAgeMinutes) || minReportAgeMinutes < 0) {
+      throw new Error('minReportAgeMinutes must be a non-negative number');
+    }
+
+    return {
+      forceRefresh: Boolean(options.forceRefresh),
+      minReportAgeMinutes,
+    };
+  }
+}
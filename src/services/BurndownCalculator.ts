@@ -0,0 +1,197 @@
+import {
+  IssueData,
+  SprintData,
+  BurndownPoint,
+  BurndownSeries,
+} from '../types';
+import { isInSprintAt } from '../utils/helpers';
+import { StatusClassifier } from './StatusClassifier';
+
+/**
+ * BurndownCalculator - Day-by-day sprint burndown and burnup series
+ *
+ * This class provides methods to:
+ * - Replay issue changelogs to reconstruct sprint scope at any point in time
+ * - Calculate completed and remaining story points at the end of each sprint day
+ * - Calculate the ideal burndown line from the scope committed at sprint start
+ *
+ * Scope is reconstructed from sprint membership changes, story point changes and
+ * issue creation dates; completion from status transitions. Issues without
+ * changelog data are treated as part of the sprint with their current estimate.
+ */
+export class BurndownCalculator {
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private statusClassifier: StatusClassifier;
+
+  constructor(statusClassifier: StatusClassifier = new StatusClassifier()) {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Calculate the burndown/burnup series of a sprint
+   * @param issues - Sprint issues with changelog data
+   * @param sprint - Sprint data
+   * @param currentDate - Date up to which actual values are calculated (defaults to now)
+   * @param removedIssues - Issues removed from the sprint after it started
+   * @returns Burndown series, or null if the sprint has no valid dates
+   */
+  calculateBurndown(
+    issues: IssueData[],
+    sprint: SprintData,
+    currentDate: Date = new Date(),
+    removedIssues: IssueData[] = []
+  ): BurndownSeries | null {
+    const start = new Date(sprint.startDate).getTime();
+    const end = new Date(sprint.endDate).getTime();
+
+    if (isNaN(start) || isNaN(end) || end < start) {
+      return null;
+    }
+
+    // Removed issues still count towards scope until their removal; an issue
+    // can appear in both lists if it was removed and added back
+    const allIssues = new Map<string, IssueData>();
+    for (const issue of [...removedIssues, ...issues]) {
+      allIssues.set(issue.key, issue);
+    }
+    const sprintIssues = Array.from(allIssues.values());
+
+    const now = currentDate.getTime();
+    const initialScope = this.getScopeAt(sprintIssues, sprint.id, start).scope;
+
+    const firstDay = this.startOfDay(start);
+    const dayCount = Math.floor((this.startOfDay(end) - firstDay) / this.DAY_MS) + 1;
+    const points: BurndownPoint[] = [];
+
+    for (let day = 0; day < dayCount; day++) {
+      const dayStart = firstDay + day * this.DAY_MS;
+      const idealRemainingPoints = dayCount > 1
+        ? this.round(initialScope * (1 - day / (dayCount - 1)))
+        : 0;
+
+      const point: BurndownPoint = {
+        date: new Date(dayStart).toISOString().slice(0, 10),
+        scopePoints: null,
+        completedPoints: null,
+        remainingPoints: null,
+        idealRemainingPoints,
+      };
+
+      if (dayStart <= now) {
+        // Measure at the end of the day, or now/at sprint end if earlier
+        const measuredAt = Math.min(dayStart + this.DAY_MS - 1, now, end);
+        const { scope, completed } = this.getScopeAt(sprintIssues, sprint.id, measuredAt);
+        point.scopePoints = this.round(scope);
+        point.completedPoints = this.round(completed);
+        point.remainingPoints = this.round(scope - completed);
+      }
+
+      points.push(point);
+    }
+
+    return {
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      initialScopePoints: this.round(initialScope),
+      points,
+    };
+  }
+
+  /**
+   * Calculate sprint scope and completed points at a point in time
+   * @param issues - Sprint issues
+   * @param sprintId - Sprint ID
+   * @param time - Time in milliseconds
+   * @returns Total and completed story points of issues in the sprint at that time
+   */
+  private getScopeAt(
+    issues: IssueData[],
+    sprintId: string,
+    time: number
+  ): { scope: number; completed: number } {
+    let scope = 0;
+    let completed = 0;
+
+    for (const issue of issues) {
+      if (!isInSprintAt(issue, sprintId, time)) {
+        continue;
+      }
+
+      const storyPoints = this.getStoryPointsAt(issue, time);
+      scope += storyPoints;
+
+      if (this.statusClassifier.isCompleted(this.getStatusAt(issue, time), issue.key)) {
+        completed += storyPoints;
+      }
+    }
+
+    return { scope, completed };
+  }
+
+  /**
+   * Determine an issue's story points at a point in time
+   * @param issue - Issue data
+   * @param time - Time in milliseconds
+   * @returns Story points (0 if unestimated)
+   */
+  private getStoryPointsAt(issue: IssueData, time: number): number {
+    const changes = issue.storyPointChanges || [];
+
+    if (changes.length === 0) {
+      return issue.storyPoints || 0;
+    }
+
+    const lastChange = [...changes]
+      .reverse()
+      .find(change => new Date(change.timestamp).getTime() <= time);
+
+    return (lastChange ? lastChange.to : changes[0].from) || 0;
+  }
+
+  /**
+   * Determine an issue's status at a point in time
+   * @param issue - Issue data
+   * @param time - Time in milliseconds
+   * @returns Status name
+   */
+  private getStatusAt(issue: IssueData, time: number): string {
+    const transitions = issue.statusTransitions;
+
+    if (transitions.length === 0) {
+      return issue.status;
+    }
+
+    const lastTransition = [...transitions]
+      .reverse()
+      .find(transition => new Date(transition.timestamp).getTime() <= time);
+
+    return lastTransition ? lastTransition.toStatus : transitions[0].fromStatus;
+  }
+
+  /**
+   * Truncate a timestamp to the start of its UTC day
+   * @param time - Time in milliseconds
+   * @returns Start of the day in milliseconds
+   */
+  private startOfDay(time: number): number {
+    return Math.floor(time / this.DAY_MS) * this.DAY_MS;
+  }
+
+  /**
+   * Round story points to one decimal place
+   * @param value - Story points
+   * @returns Rounded value
+   */
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
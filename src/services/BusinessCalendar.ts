@@ -0,0 +1,272 @@
+import { TeamCalendar, DurationMode } from '../types';
+
+/**
+ * BusinessCalendar - Shared duration measurement for all engines
+ *
+ * Without a team calendar durations are measured in wall-clock hours. With a
+ * calendar only working time counts: hours within the team's working hours,
+ * on working days that are not public holidays, in the team's time zone.
+ * A PR opened Friday evening and reviewed Monday morning therefore takes
+ * about one business hour instead of 60 wall-clock hours.
+ *
+ * This class provides methods to:
+ * - Measure the hours between two instants in the configured mode
+ * - Scale wall-clock thresholds to equivalent business hours
+ * - Validate team calendar configuration
+ */
+export class BusinessCalendar {
+  private readonly HOUR_MS = 60 * 60 * 1000;
+  private readonly HOURS_PER_WEEK = 7 * 24;
+
+  // Upper bound on days walked for one duration (guards against bad input)
+  private readonly MAX_DAYS = 3660;
+
+  private readonly TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+  private readonly DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+  private calendar: TeamCalendar | null;
+  private formatter: Intl.DateTimeFormat | null = null;
+  private workingDays = new Set<number>();
+  private holidays = new Set<string>();
+  private startMinutes = 0;
+  private endMinutes = 0;
+
+  /**
+   * @param calendar - Team calendar (null measures wall-clock hours)
+   */
+  constructor(calendar: TeamCalendar | null = null) {
+    this.calendar = calendar;
+
+    if (calendar) {
+      this.formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: calendar.timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+      this.workingDays = new Set(calendar.workingDays);
+      this.holidays = new Set(calendar.holidays);
+      this.startMinutes = this.parseMinutes(calendar.workingHours.start);
+      this.endMinutes = this.parseMinutes(calendar.workingHours.end);
+    }
+  }
+
+  /**
+   * How durations are measured
+   */
+  get mode(): DurationMode {
+    return this.calendar ? 'business-hours' : 'wall-clock';
+  }
+
+  /**
+   * Unit label for durations in descriptions ("hours" or "business hours")
+   */
+  get unitLabel(): string {
+    return this.calendar ? 'business hours' : 'hours';
+  }
+
+  /**
+   * Get the team calendar in use
+   * @returns Team calendar, or null in wall-clock mode
+   */
+  getCalendar(): TeamCalendar | null {
+    return this.calendar;
+  }
+
+  /**
+   * Measure the hours between two instants
+   * @param start - Start time (ISO string, milliseconds or Date)
+   * @param end - End time (ISO string, milliseconds or Date)
+   * @returns Hours in the configured mode (negative if end is before start)
+   */
+  hoursBetween(start: string | number | Date, end: string | number | Date): number {
+    const startTime = new Date(start).getTime();
+    const endTime = new Date(end).getTime();
+
+    if (!this.calendar) {
+      return (endTime - startTime) / this.HOUR_MS;
+    }
+
+    if (endTime < startTime) {
+      return -this.businessHoursBetween(endTime, startTime);
+    }
+
+    return this.businessHoursBetween(startTime, endTime);
+  }
+
+  /**
+   * Convert a wall-clock duration to the equivalent share of working time
+   *
+   * Used for fixed thresholds such as "PR latency above 48 hours", which are
+   * defined in wall-clock hours.
+   * @param hours - Wall-clock hours
+   * @returns Equivalent hours in the configured mode
+   */
+  scaleWallClockHours(hours: number): number {
+    if (!this.calendar) {
+      return hours;
+    }
+
+    const workingHoursPerWeek =
+      this.workingDays.size * ((this.endMinutes - this.startMinutes) / 60);
+    return hours * (workingHoursPerWeek / this.HOURS_PER_WEEK);
+  }
+
+  /**
+   * Validate a team calendar
+   * @param calendar - Team calendar to validate
+   * @returns Validation errors (empty if valid)
+   */
+  validateCalendar(calendar: TeamCalendar): string[] {
+    const errors: string[] = [];
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: calendar.timezone });
+    } catch {
+      errors.push(`Unknown time zone: ${calendar.timezone}`);
+    }
+
+    if (
+      !Array.isArray(calendar.workingDays) ||
+      calendar.workingDays.length === 0 ||
+      calendar.workingDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      errors.push('workingDays must list at least one day from 0 (Sunday) to 6 (Saturday)');
+    }
+
+    const { start, end } = calendar.workingHours || ({} as TeamCalendar['workingHours']);
+    if (!this.TIME_PATTERN.test(start || '') || !this.TIME_PATTERN.test(end || '')) {
+      errors.push('workingHours start and end must be HH:mm');
+    } else if (this.parseMinutes(end) <= this.parseMinutes(start)) {
+      errors.push('workingHours end must be after start');
+    }
+
+    if (
+      !Array.isArray(calendar.holidays) ||
+      calendar.holidays.some(date => !this.DATE_PATTERN.test(date))
+    ) {
+      errors.push('holidays must be a list of YYYY-MM-DD dates');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Sum working time between two instants
+   * @param start - Start time in milliseconds
+   * @param end - End time in milliseconds (not before start)
+   * @returns Working hours
+   */
+  private businessHoursBetween(start: number, end: number): number {
+    const first = this.getLocalParts(start);
+    let total = 0;
+
+    for (let offset = 0; offset < this.MAX_DAYS; offset++) {
+      // Date.UTC normalizes day overflow into the following months
+      const date = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = date.getUTCDate();
+
+      const windowStart = this.toInstant(year, month, day, this.startMinutes);
+      if (windowStart >= end) {
+        break;
+      }
+
+      if (!this.workingDays.has(date.getUTCDay()) || this.holidays.has(this.formatDate(year, month, day))) {
+        continue;
+      }
+
+      const windowEnd = this.toInstant(year, month, day, this.endMinutes);
+      total += Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+    }
+
+    return total / this.HOUR_MS;
+  }
+
+  /**
+   * Convert a local date and time in the team's time zone to an instant
+   * @param year - Local year
+   * @param month - Local month (1-12)
+   * @param day - Local day of month
+   * @param minutes - Minutes after local midnight
+   * @returns Time in milliseconds
+   */
+  private toInstant(year: number, month: number, day: number, minutes: number): number {
+    const localAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+    const firstGuess = localAsUtc - this.getOffset(localAsUtc);
+    const offset = this.getOffset(firstGuess);
+
+    // The first guess can be off by the DST shift when it crosses a transition
+    return localAsUtc - offset;
+  }
+
+  /**
+   * Get the time zone offset at an instant
+   * @param time - Time in milliseconds
+   * @returns Offset from UTC in milliseconds
+   */
+  private getOffset(time: number): number {
+    const parts = this.getLocalParts(time);
+    const localAsUtc = Date.UTC(
+      parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second
+    );
+    return localAsUtc - (time - (time % 1000));
+  }
+
+  /**
+   * Get the local date and time of an instant in the team's time zone
+   * @param time - Time in milliseconds
+   * @returns Local date and time parts
+   */
+  private getLocalParts(time: number): {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+  } {
+    const values: Record<string, number> = {};
+
+    for (const part of this.formatter!.formatToParts(new Date(time))) {
+      if (part.type !== 'literal') {
+        values[part.type] = parseInt(part.value, 10);
+      }
+    }
+
+    return {
+      year: values.year,
+      month: values.month,
+      day: values.day,
+      hour: values.hour,
+      minute: values.minute,
+      second: values.second,
+    };
+  }
+
+  /**
+   * Parse an HH:mm time into minutes after midnight
+   * @param time - Time string
+   * @returns Minutes after midnight
+   */
+  private parseMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Format a date as YYYY-MM-DD
+   * @param year - Year
+   * @param month - Month (1-12)
+   * @param day - Day of month
+   * @returns Date string
+   */
+  private formatDate(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  HistoricalMetrics,
+  HistoricalTrend,
+  SprintCapacityPlan,
+  CapacityForecast,
+  MemberAvailability,
+} from '../types';
+import { TrendAnalyzer } from './TrendAnalyzer';
+
+/**
+ * CapacityPlanner - Sprint targets from team availability
+ *
+ * This class provides methods to:
+ * - Calculate available person-days from allocation and days off
+ * - Derive a focus factor (story points delivered per available person-day)
+ *   from past sprints
+ * - Forecast the next sprint's target story points as capacity × focus factor
+ * - Validate capacity plans
+ *
+ * The focus factor is the median over archived sprints that had a capacity
+ * plan. Without such sprints, past sprints are assumed to have had the next
+ * sprint's team fully available for the same number of working days.
+ */
+export class CapacityPlanner {
+  private trendAnalyzer: TrendAnalyzer;
+
+  constructor(trendAnalyzer: TrendAnalyzer = new TrendAnalyzer()) {
+    this.trendAnalyzer = trendAnalyzer;
+  }
+
+  /**
+   * Calculate the availability of each team member
+   * @param plan - Capacity plan
+   * @returns Available person-days per member
+   */
+  calculateMemberAvailability(plan: SprintCapacityPlan): MemberAvailability[] {
+    return plan.members.map(member => ({
+      name: member.name,
+      availableDays:
+        Math.max(0, plan.workingDays - member.daysOff) * (member.allocation / 100),
+    }));
+  }
+
+  /**
+   * Calculate the person-days available in a sprint
+   * @param plan - Capacity plan
+   * @returns Available person-days
+   */
+  calculateAvailablePersonDays(plan: SprintCapacityPlan): number {
+    return this.calculateMemberAvailability(plan)
+      .reduce((sum, member) => sum + member.availableDays, 0);
+  }
+
+  /**
+   * Forecast the next sprint's target story points from its capacity plan
+   * @param plan - Capacity plan of the next sprint
+   * @param history - Archived metrics of past sprints
+   * @param historicalPlans - Capacity plans of past sprints, by sprint ID
+   * @param historicalTrend - Historical trend (velocity fallback)
+   * @param sprintName - Optional name of the next sprint
+   * @returns Capacity forecast, or null if there is no usable history
+   */
+  forecastCapacity(
+    plan: SprintCapacityPlan,
+    history: HistoricalMetrics[],
+    historicalPlans: Map<string, SprintCapacityPlan>,
+    historicalTrend: HistoricalTrend,
+    sprintName?: string
+  ): CapacityForecast | null {
+    const members = this.calculateMemberAvailability(plan);
+    const availablePersonDays = members.reduce((sum, member) => sum + member.availableDays, 0);
+    const nominalPersonDays = plan.members.length * plan.workingDays;
+
+    const focusFactors = history
+      .filter(entry => historicalPlans.has(entry.sprintId))
+      .map(entry => ({
+        velocity: entry.metrics.velocity,
+        availableDays: this.calculateAvailablePersonDays(historicalPlans.get(entry.sprintId)!),
+      }))
+      .filter(sample => sample.availableDays > 0)
+      .map(sample => sample.velocity / sample.availableDays);
+
+    let focusFactor: number;
+    let focusFactorSource: CapacityForecast['focusFactorSource'];
+    let basedOnSprints: number;
+
+    if (focusFactors.length > 0) {
+      focusFactor = this.trendAnalyzer.calculateStatistics(focusFactors).median;
+      focusFactorSource = 'capacity-history';
+      basedOnSprints = focusFactors.length;
+    } else if (historicalTrend.velocity.sampleSize > 0 && nominalPersonDays > 0) {
+      focusFactor = historicalTrend.velocity.median / nominalPersonDays;
+      focusFactorSource = 'velocity-history';
+      basedOnSprints = historicalTrend.velocity.sampleSize;
+    } else {
+      return null;
+    }
+
+    return {
+      sprintId: plan.sprintId,
+      sprintName,
+      availablePersonDays,
+      nominalPersonDays,
+      focusFactor,
+      focusFactorSource,
+      basedOnSprints,
+      targetStoryPoints: Math.max(1, Math.round(availablePersonDays * focusFactor)),
+      members,
+    };
+  }
+
+  /**
+   * Validate a capacity plan
+   * @param plan - Capacity plan to validate
+   * @returns Validation errors (empty if valid)
+   */
+  validatePlan(plan: SprintCapacityPlan): string[] {
+    const errors: string[] = [];
+
+    if (!plan.sprintId) {
+      errors.push('sprintId is required');
+    }
+
+    if (typeof plan.workingDays !== 'number' || !(plan.workingDays > 0)) {
+      errors.push('workingDays must be a positive number');
+    }
+
+    if (!Array.isArray(plan.members) || plan.members.length === 0) {
+      errors.push('members must list at least one team member');
+      return errors;
+    }
+
+    plan.members.forEach((member, index) => {
+      const label = member.name || `member ${index + 1}`;
+
+      if (!member.name) {
+        errors.push(`${label}: name is required`);
+      }
+      if (typeof member.allocation !== 'number' || member.allocation < 0 || member.allocation > 100) {
+        errors.push(`${label}: allocation must be between 0 and 100`);
+      }
+      if (typeof member.daysOff !== 'number' || member.daysOff < 0) {
+        errors.push(`${label}: daysOff must not be negative`);
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,57 @@
+import api, { route } from '@forge/api';
+import { RetrospectivePage, PublishedPage } from '../types';
+
+/**
+ * ConfluencePublisher - Service for creating pages in Confluence
+ *
+ * This class handles interactions with the Confluence REST API, including:
+ * - Creating pages in storage format, optionally under a parent page
+ *
+ * All API calls use Forge's asUser context, so pages are created with the
+ * user's permissions and attributed to them.
+ */
+export class ConfluencePublisher {
+  /**
+   * Create a page in a space
+   * @param spaceKey - Key of the space to create the page in
+   * @param page - Page title and storage format body
+   * @param parentPageId - Page to create the page under (optional)
+   * @returns The created page with its URL
+   */
+  async createPage(spaceKey: string, page: RetrospectivePage, parentPageId?: string): Promise<PublishedPage> {
+    const response = await api.asUser().requestConfluence(route`/wiki/rest/api/content`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        type: 'page',
+        title: page.title,
+        space: { key: spaceKey },
+        ...(parentPageId ? { ancestors: [{ id: parentPageId }] } : {}),
+        body: {
+          storage: {
+            value: page.body,
+            representation: 'storage',
+          },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(
+        `Confluence API error: ${response.status} ${response.statusText} - ${errorBody}`
+      );
+    }
+
+    const data = await response.json();
+
+    return {
+      id: String(data.id),
+      title: data.title,
+      url: data._links ? `${data._links.base || ''}${data._links.webui || ''}` : '',
+    };
+  }
+}
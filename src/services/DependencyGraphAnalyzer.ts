@@ -0,0 +1,312 @@
+import {
+  IssueData,
+  IssueBlocker,
+  DependencyNode,
+  DependencyEdge,
+  DependencyGraph,
+  ExternalBlocker,
+} from '../types';
+import { StatusClassifier } from './StatusClassifier';
+
+/**
+ * DependencyGraphAnalyzer - Blocker graph of a sprint
+ *
+ * This class provides methods to:
+ * - Build a graph of "blocks" links between sprint issues and the issues
+ *   outside the sprint that block them
+ * - Find the critical path: the longest chain of unresolved blockers ending
+ *   at an unfinished sprint issue
+ * - List unresolved blockers outside the sprint with the work they block
+ * - Detect circular blocking dependencies
+ *
+ * Resolved blockers no longer hold up work, so only links between unresolved
+ * issues count towards the critical path and external blockers. Cycles are
+ * reported regardless of status since they indicate broken link data.
+ */
+export class DependencyGraphAnalyzer {
+  private statusClassifier: StatusClassifier;
+
+  constructor(statusClassifier: StatusClassifier = new StatusClassifier()) {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Build and analyze the dependency graph of a sprint
+   * @param issues - Sprint issues
+   * @param externalIssues - Issues outside the sprint that block sprint work
+   * @returns Dependency graph
+   */
+  buildGraph(issues: IssueData[], externalIssues: IssueData[] = []): DependencyGraph {
+    const sprintKeys = new Set(issues.map(issue => issue.key));
+    const nodes = new Map<string, DependencyNode>();
+    const edges = new Map<string, DependencyEdge>();
+
+    const addNode = (issue: IssueData | IssueBlocker, storyPoints: number | null) => {
+      const issueKey = 'key' in issue ? issue.key : issue.issueKey;
+      const existing = nodes.get(issueKey);
+
+      // Full issue data takes precedence over the summary embedded in a link
+      if (existing && (existing.storyPoints !== null || storyPoints === null)) {
+        return;
+      }
+
+      nodes.set(issueKey, {
+        issueKey,
+        summary: issue.summary,
+        status: issue.status,
+        storyPoints,
+        inSprint: sprintKeys.has(issueKey),
+        resolved: this.isResolved(issue.status, issueKey, issue.statusCategory),
+      });
+    };
+
+    const addEdge = (from: string, to: string) => {
+      edges.set(`${from}->${to}`, { from, to });
+    };
+
+    for (const issue of [...issues, ...externalIssues]) {
+      addNode(issue, issue.storyPoints ?? 0);
+    }
+
+    for (const issue of [...issues, ...externalIssues]) {
+      for (const link of issue.links || []) {
+        if (link.type === 'is-blocked-by') {
+          addNode(link, null);
+          addEdge(link.issueKey, issue.key);
+        } else if (link.type === 'blocks') {
+          addNode(link, null);
+          addEdge(issue.key, link.issueKey);
+        }
+      }
+
+      // Issues collected before typed links were available only have blockers
+      if (!issue.links) {
+        for (const blocker of issue.blockedBy || []) {
+          addNode(blocker, null);
+          addEdge(blocker.issueKey, issue.key);
+        }
+      }
+    }
+
+    const edgeList = Array.from(edges.values());
+    const { path, points } = this.findCriticalPath(nodes, edgeList);
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges: edgeList,
+      criticalPath: path,
+      criticalPathPoints: points,
+      externalBlockers: this.findExternalBlockers(nodes, edgeList),
+      cycles: this.findCycles(nodes, edgeList),
+    };
+  }
+
+  /**
+   * Find the longest chain of unresolved blockers ending at an unfinished sprint issue
+   * @param nodes - Graph nodes by issue key
+   * @param edges - Blocking edges
+   * @returns Critical path (first blocker first) and the story points of its sprint issues
+   */
+  private findCriticalPath(
+    nodes: Map<string, DependencyNode>,
+    edges: DependencyEdge[]
+  ): { path: string[]; points: number } {
+    const blockersOf = this.groupEdges(nodes, edges, 'to');
+    const longest = new Map<string, string[]>();
+
+    // Longest chain of unresolved blockers ending at a node (the node last)
+    const chainTo = (key: string, onStack: Set<string>): string[] => {
+      if (longest.has(key)) {
+        return longest.get(key)!;
+      }
+
+      onStack.add(key);
+      let best: string[] = [];
+      for (const blocker of blockersOf.get(key) || []) {
+        if (onStack.has(blocker)) {
+          continue; // cycle
+        }
+        const chain = chainTo(blocker, onStack);
+        if (chain.length > best.length) {
+          best = chain;
+        }
+      }
+      onStack.delete(key);
+
+      const chain = [...best, key];
+      longest.set(key, chain);
+      return chain;
+    };
+
+    let path: string[] = [];
+    let points = 0;
+
+    for (const node of nodes.values()) {
+      if (!node.inSprint || node.resolved) {
+        continue;
+      }
+
+      const chain = chainTo(node.issueKey, new Set());
+      const chainPoints = this.sumSprintPoints(chain, nodes);
+
+      if (chain.length > path.length || (chain.length === path.length && chainPoints > points)) {
+        path = chain;
+        points = chainPoints;
+      }
+    }
+
+    // A single issue is not a chain
+    return path.length > 1 ? { path, points } : { path: [], points: 0 };
+  }
+
+  /**
+   * Find unresolved issues outside the sprint that block unfinished sprint work
+   * @param nodes - Graph nodes by issue key
+   * @param edges - Blocking edges
+   * @returns External blockers, most blocked issues first
+   */
+  private findExternalBlockers(
+    nodes: Map<string, DependencyNode>,
+    edges: DependencyEdge[]
+  ): ExternalBlocker[] {
+    const blockedBy = this.groupEdges(nodes, edges, 'from');
+    const blockers: ExternalBlocker[] = [];
+
+    for (const node of nodes.values()) {
+      if (node.inSprint || node.resolved) {
+        continue;
+      }
+
+      // Walk downstream through unresolved issues to the sprint issues this one holds up
+      const blockedIssues = new Set<string>();
+      const visited = new Set<string>([node.issueKey]);
+      const queue = [...(blockedBy.get(node.issueKey) || [])];
+
+      while (queue.length > 0) {
+        const key = queue.shift()!;
+        if (visited.has(key)) {
+          continue;
+        }
+        visited.add(key);
+
+        if (nodes.get(key)!.inSprint) {
+          blockedIssues.add(key);
+        }
+        queue.push(...(blockedBy.get(key) || []));
+      }
+
+      if (blockedIssues.size > 0) {
+        blockers.push({
+          issueKey: node.issueKey,
+          summary: node.summary,
+          status: node.status,
+          blockedIssues: Array.from(blockedIssues).sort(),
+        });
+      }
+    }
+
+    return blockers.sort((a, b) => b.blockedIssues.length - a.blockedIssues.length);
+  }
+
+  /**
+   * Find circular blocking dependencies
+   * @param nodes - Graph nodes by issue key
+   * @param edges - Blocking edges
+   * @returns Each cycle once, rotated to start at its smallest issue key
+   */
+  private findCycles(nodes: Map<string, DependencyNode>, edges: DependencyEdge[]): string[][] {
+    const successors = new Map<string, string[]>();
+    for (const edge of edges) {
+      successors.set(edge.from, [...(successors.get(edge.from) || []), edge.to]);
+    }
+
+    const cycles = new Map<string, string[]>();
+    const finished = new Set<string>();
+
+    const visit = (key: string, stack: string[]) => {
+      stack.push(key);
+
+      for (const next of successors.get(key) || []) {
+        const index = stack.indexOf(next);
+        if (index >= 0) {
+          const cycle = stack.slice(index);
+          const start = cycle.indexOf([...cycle].sort()[0]);
+          const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+          cycles.set(normalized.join(','), normalized);
+        } else if (!finished.has(next)) {
+          visit(next, stack);
+        }
+      }
+
+      stack.pop();
+      finished.add(key);
+    };
+
+    for (const key of nodes.keys()) {
+      if (!finished.has(key)) {
+        visit(key, []);
+      }
+    }
+
+    return Array.from(cycles.values());
+  }
+
+  /**
+   * Group edges between unresolved nodes by one of their ends
+   * @param nodes - Graph nodes by issue key
+   * @param edges - Blocking edges
+   * @param by - 'to' groups blockers by blocked issue, 'from' blocked issues by blocker
+   * @returns Map of issue key to the issue keys at the other end
+   */
+  private groupEdges(
+    nodes: Map<string, DependencyNode>,
+    edges: DependencyEdge[],
+    by: 'from' | 'to'
+  ): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+
+    for (const edge of edges) {
+      if (nodes.get(edge.from)!.resolved || nodes.get(edge.to)!.resolved) {
+        continue;
+      }
+
+      const key = by === 'to' ? edge.to : edge.from;
+      const other = by === 'to' ? edge.from : edge.to;
+      groups.set(key, [...(groups.get(key) || []), other]);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Sum the story points of the sprint issues in a chain
+   * @param chain - Issue keys
+   * @param nodes - Graph nodes by issue key
+   * @returns Story points
+   */
+  private sumSprintPoints(chain: string[], nodes: Map<string, DependencyNode>): number {
+    return chain
+      .map(key => nodes.get(key)!)
+      .filter(node => node.inSprint)
+      .reduce((sum, node) => sum + (node.storyPoints || 0), 0);
+  }
+
+  /**
+   * Check whether an issue is resolved
+   * @param status - Status name
+   * @param issueKey - Issue key
+   * @param statusCategory - Jira status category, if known
+   * @returns True if the issue is done
+   */
+  private isResolved(status: string, issueKey: string, statusCategory?: string): boolean {
+    return statusCategory ? statusCategory === 'done' : this.statusClassifier.isCompleted(status, issueKey);
+  }
+}
@@ -0,0 +1,396 @@
+import {
+  IssueData,
+  HistoricalTrend,
+  RiskLevel,
+  EpicProgress,
+  EpicSprintProgress,
+  EpicForecast,
+  EpicForecastSnapshot,
+  EpicSlippage,
+  EpicRollup,
+} from '../types';
+import { StatusClassifier } from './StatusClassifier';
+import { TrendAnalyzer } from './TrendAnalyzer';
+
+/**
+ * EpicRollupAnalyzer - Progress and forecasts for an epic across sprints
+ *
+ * This class provides methods to:
+ * - Aggregate the progress of an epic's child issues by story points
+ * - Attribute completed work to the sprints it was completed in
+ * - Forecast the epic's completion sprint from historical velocity
+ * - Detect epics whose forecast slips later sprint over sprint
+ * - Assess the delivery risk of an epic
+ *
+ * Velocity is the epic's own completed points per closed sprint. Until the
+ * epic has closed sprints, the board's historical velocity is used, which
+ * assumes the team works on nothing else.
+ */
+export class EpicRollupAnalyzer {
+  private readonly VELOCITY_WINDOW = 6; // closed sprints averaged for epic velocity
+  private readonly DEFAULT_SPRINT_LENGTH_DAYS = 14;
+  private readonly UNESTIMATED_SHARE_THRESHOLD = 0.25; // share of unfinished issues
+  private readonly CHRONIC_SLIP_SPRINTS = 2; // consecutive slips that make an epic high risk
+
+  private statusClassifier: StatusClassifier;
+  private trendAnalyzer: TrendAnalyzer;
+
+  constructor(
+    statusClassifier: StatusClassifier = new StatusClassifier(),
+    trendAnalyzer: TrendAnalyzer = new TrendAnalyzer()
+  ) {
+    this.statusClassifier = statusClassifier;
+    this.trendAnalyzer = trendAnalyzer;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Roll up an epic's child issues
+   * @param epic - The epic issue
+   * @param issues - Child issues of the epic
+   * @param forecastHistory - Forecasts recorded in earlier sprints, most recent first
+   * @param historicalTrend - Optional board trend (velocity fallback)
+   * @param currentDate - Date to forecast from
+   * @returns Epic roll-up
+   */
+  analyzeEpic(
+    epic: Pick<IssueData, 'key' | 'summary'>,
+    issues: IssueData[],
+    forecastHistory: EpicForecastSnapshot[] = [],
+    historicalTrend?: HistoricalTrend,
+    currentDate: Date = new Date()
+  ): EpicRollup {
+    const progress = this.calculateProgress(issues);
+    const sprints = this.calculateSprintProgress(issues);
+    const forecast = this.forecastCompletion(progress, sprints, historicalTrend, currentDate);
+    const currentSprint = this.getCurrentSprint(sprints);
+
+    return {
+      epicKey: epic.key,
+      epicName: epic.summary,
+      progress,
+      sprints,
+      forecast,
+      slippage: currentSprint
+        ? this.detectSlippage(forecast, currentSprint.sprintId, forecastHistory)
+        : null,
+    };
+  }
+
+  /**
+   * Calculate the progress of an epic by story points
+   * @param issues - Child issues of the epic
+   * @returns Epic progress
+   */
+  calculateProgress(issues: IssueData[]): EpicProgress {
+    const completed = issues.filter(issue => this.statusClassifier.isCompleted(issue.status, issue.key));
+    const totalPoints = issues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+    const completedPoints = completed.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+
+    return {
+      totalIssues: issues.length,
+      completedIssues: completed.length,
+      unestimatedIssues: issues.filter(
+        issue => issue.storyPoints === null && !this.statusClassifier.isCompleted(issue.status, issue.key)
+      ).length,
+      totalPoints,
+      completedPoints,
+      remainingPoints: totalPoints - completedPoints,
+      percentComplete: totalPoints > 0 ? (completedPoints / totalPoints) * 100 : 0,
+    };
+  }
+
+  /**
+   * Attribute completed work to sprints
+   *
+   * A completed issue counts towards the last sprint it was in. Every sprint an
+   * issue of the epic was in is listed, so sprints without progress show zero.
+   * @param issues - Child issues of the epic
+   * @returns Progress per sprint, oldest first
+   */
+  calculateSprintProgress(issues: IssueData[]): EpicSprintProgress[] {
+    const sprints = new Map<string, EpicSprintProgress>();
+
+    for (const issue of issues) {
+      for (const sprint of issue.sprints || []) {
+        if (!sprints.has(sprint.id)) {
+          sprints.set(sprint.id, {
+            sprintId: sprint.id,
+            sprintName: sprint.name,
+            state: sprint.state,
+            startDate: sprint.startDate,
+            completedIssues: 0,
+            completedPoints: 0,
+          });
+        }
+      }
+
+      const lastSprint = this.getLastSprint(issue);
+      if (lastSprint && this.statusClassifier.isCompleted(issue.status, issue.key)) {
+        const progress = sprints.get(lastSprint.id)!;
+        progress.completedIssues++;
+        progress.completedPoints += issue.storyPoints || 0;
+      }
+    }
+
+    // Future sprints have no start date yet and sort last
+    return Array.from(sprints.values()).sort((a, b) =>
+      (a.startDate ? new Date(a.startDate).getTime() : Infinity) -
+      (b.startDate ? new Date(b.startDate).getTime() : Infinity)
+    );
+  }
+
+  /**
+   * Forecast when the epic's remaining work will be completed
+   * @param progress - Epic progress
+   * @param sprints - Progress per sprint, oldest first
+   * @param historicalTrend - Optional board trend (velocity fallback)
+   * @param currentDate - Date to forecast from
+   * @returns Forecast, or null if there is no velocity to forecast with
+   */
+  forecastCompletion(
+    progress: EpicProgress,
+    sprints: EpicSprintProgress[],
+    historicalTrend?: HistoricalTrend,
+    currentDate: Date = new Date()
+  ): EpicForecast | null {
+    const closedSprints = sprints
+      .filter(sprint => sprint.state === 'closed')
+      .slice(-this.VELOCITY_WINDOW);
+    const epicVelocity = this.trendAnalyzer.calculateStatistics(
+      closedSprints.map(sprint => sprint.completedPoints)
+    ).mean;
+
+    let velocity: number;
+    let velocitySource: EpicForecast['velocitySource'];
+    let basedOnSprints: number;
+
+    if (epicVelocity > 0) {
+      velocity = epicVelocity;
+      velocitySource = 'epic-history';
+      basedOnSprints = closedSprints.length;
+    } else if (closedSprints.length === 0 && historicalTrend && historicalTrend.velocity.median > 0) {
+      velocity = historicalTrend.velocity.median;
+      velocitySource = 'team-velocity';
+      basedOnSprints = historicalTrend.velocity.sampleSize;
+    } else {
+      return null;
+    }
+
+    const sprintLengthDays = this.calculateSprintLength(sprints);
+    const remainingSprints = Math.ceil(progress.remainingPoints / velocity);
+
+    // Remaining work starts in the active sprint, or else in the sprint after the latest one
+    const activeSprint = sprints.find(sprint => sprint.state === 'active' && sprint.startDate);
+    const latestStart = sprints.filter(sprint => sprint.startDate).pop()?.startDate;
+    const firstSprintStart = activeSprint
+      ? new Date(activeSprint.startDate!)
+      : latestStart
+        ? this.addDays(new Date(latestStart), sprintLengthDays)
+        : currentDate;
+
+    return {
+      velocity,
+      velocitySource,
+      basedOnSprints,
+      remainingSprints,
+      sprintLengthDays,
+      forecastCompletionDate: this.addDays(
+        firstSprintStart,
+        remainingSprints * sprintLengthDays
+      ).toISOString(),
+    };
+  }
+
+  /**
+   * Compare the forecast with the one recorded in the previous sprint
+   * @param forecast - Current forecast
+   * @param currentSprintId - Sprint the current forecast is made in
+   * @param forecastHistory - Forecasts recorded in earlier sprints, most recent first
+   * @returns Slippage, or null without forecasts to compare
+   */
+  detectSlippage(
+    forecast: EpicForecast | null,
+    currentSprintId: string,
+    forecastHistory: EpicForecastSnapshot[]
+  ): EpicSlippage | null {
+    const earlier = forecastHistory.filter(snapshot => snapshot.sprintId !== currentSprintId);
+    const previous = earlier[0];
+
+    if (!forecast || !previous || !previous.forecastCompletionDate) {
+      return null;
+    }
+
+    const slippedDays = Math.round(
+      (new Date(forecast.forecastCompletionDate).getTime() -
+        new Date(previous.forecastCompletionDate).getTime()) / (1000 * 60 * 60 * 24)
+    );
+
+    let consecutiveSlips = 0;
+    if (slippedDays > 0) {
+      consecutiveSlips = 1;
+      for (let i = 0; i < earlier.length - 1; i++) {
+        const later = earlier[i].forecastCompletionDate;
+        const before = earlier[i + 1].forecastCompletionDate;
+        if (!later || !before || new Date(later) <= new Date(before)) {
+          break;
+        }
+        consecutiveSlips++;
+      }
+    }
+
+    return {
+      previousSprintName: previous.sprintName,
+      previousForecastDate: previous.forecastCompletionDate,
+      slippedDays,
+      consecutiveSlips,
+    };
+  }
+
+  /**
+   * Create the forecast snapshot to record for the epic's current sprint
+   * @param rollup - Epic roll-up
+   * @param recordedAt - Time of the analysis
+   * @returns Snapshot, or null if none of the epic's issues has been in a sprint
+   */
+  createSnapshot(rollup: EpicRollup, recordedAt: Date = new Date()): EpicForecastSnapshot | null {
+    const currentSprint = this.getCurrentSprint(rollup.sprints);
+
+    if (!currentSprint) {
+      return null;
+    }
+
+    return {
+      sprintId: currentSprint.sprintId,
+      sprintName: currentSprint.sprintName,
+      recordedAt: recordedAt.toISOString(),
+      remainingPoints: rollup.progress.remainingPoints,
+      forecastCompletionDate: rollup.forecast?.forecastCompletionDate || null,
+    };
+  }
+
+  /**
+   * Assess the delivery risk of an epic
+   * @param rollup - Epic roll-up
+   * @returns Risk level and justification
+   */
+  assessRisk(rollup: EpicRollup): { level: RiskLevel; justification: string } {
+    const { progress, forecast, slippage } = rollup;
+    const unfinishedIssues = progress.totalIssues - progress.completedIssues;
+
+    if (progress.remainingPoints > 0 && !forecast) {
+      return this.isStalled(rollup)
+        ? {
+          level: 'High',
+          justification: `No story points of this epic were completed in its recent sprints, so ${progress.remainingPoints} remaining points cannot be forecast.`,
+        }
+        : {
+          level: 'Medium',
+          justification: `The epic has no closed sprints and no board velocity to forecast its ${progress.remainingPoints} remaining points with.`,
+        };
+    }
+
+    if (slippage && slippage.consecutiveSlips >= this.CHRONIC_SLIP_SPRINTS) {
+      return {
+        level: 'High',
+        justification: `The completion forecast has moved later for ${slippage.consecutiveSlips} sprints in a row (${slippage.slippedDays} days since ${slippage.previousSprintName}).`,
+      };
+    }
+
+    if (slippage && slippage.slippedDays > 0) {
+      return {
+        level: 'Medium',
+        justification: `The completion forecast moved ${slippage.slippedDays} days later since ${slippage.previousSprintName}.`,
+      };
+    }
+
+    if (unfinishedIssues > 0 && progress.unestimatedIssues / unfinishedIssues >= this.UNESTIMATED_SHARE_THRESHOLD) {
+      return {
+        level: 'Medium',
+        justification: `${progress.unestimatedIssues} of ${unfinishedIssues} unfinished issues have no story points, so the forecast understates the remaining work.`,
+      };
+    }
+
+    return {
+      level: 'Low',
+      justification: forecast && progress.remainingPoints > 0
+        ? `The epic is ${progress.percentComplete.toFixed(0)}% complete and on track to finish in ${forecast.remainingSprints} sprint(s).`
+        : `The epic is ${progress.percentComplete.toFixed(0)}% complete.`,
+    };
+  }
+
+  /**
+   * Check whether an epic has remaining work but completed nothing in its recent closed sprints
+   * @param rollup - Epic roll-up
+   * @returns True if the epic is stalled
+   */
+  isStalled(rollup: EpicRollup): boolean {
+    const recentSprints = rollup.sprints
+      .filter(sprint => sprint.state === 'closed')
+      .slice(-this.VELOCITY_WINDOW);
+
+    return rollup.progress.remainingPoints > 0 &&
+      recentSprints.length > 0 &&
+      recentSprints.every(sprint => sprint.completedPoints === 0);
+  }
+
+  /**
+   * Get the sprint the epic is currently in: the active sprint, or else the latest started one
+   * @param sprints - Progress per sprint, oldest first
+   * @returns Current sprint, or undefined if no sprint has started
+   */
+  private getCurrentSprint(sprints: EpicSprintProgress[]): EpicSprintProgress | undefined {
+    return sprints.find(sprint => sprint.state === 'active') ||
+      sprints.filter(sprint => sprint.state === 'closed').pop();
+  }
+
+  /**
+   * Get the last started sprint an issue was in
+   * @param issue - Issue data
+   * @returns Last sprint, or undefined if the issue has not been in a started sprint
+   */
+  private getLastSprint(issue: IssueData): { id: string } | undefined {
+    return (issue.sprints || [])
+      .filter(sprint => sprint.state !== 'future')
+      .sort((a, b) =>
+        new Date(a.startDate || 0).getTime() - new Date(b.startDate || 0).getTime()
+      )
+      .pop();
+  }
+
+  /**
+   * Calculate the typical sprint length from sprint start dates
+   * @param sprints - Progress per sprint, oldest first
+   * @returns Median days between consecutive sprint starts
+   */
+  private calculateSprintLength(sprints: EpicSprintProgress[]): number {
+    const starts = sprints
+      .filter(sprint => sprint.startDate)
+      .map(sprint => new Date(sprint.startDate!).getTime());
+    const gaps = starts
+      .slice(1)
+      .map((start, i) => (start - starts[i]) / (1000 * 60 * 60 * 24))
+      .filter(days => days > 0);
+
+    return gaps.length > 0
+      ? Math.round(this.trendAnalyzer.calculateStatistics(gaps).median)
+      : this.DEFAULT_SPRINT_LENGTH_DAYS;
+  }
+
+  /**
+   * Add days to a date
+   * @param date - Start date
+   * @param days - Days to add
+   * @returns New date
+   */
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+}
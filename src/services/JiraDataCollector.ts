@@ -1,5 +1,17 @@
 import api, { route } from '@forge/api';
-import { SprintData, IssueData, StatusTransition } from '../types';
+import {
+  ApiContext,
+  SprintData,
+  IssueData,
+  StatusTransition,
+  StatusCategory,
+  JiraFieldMapping,
+  IssueChangelog,
+  IssueSprintReference,
+  SprintMembershipChange,
+  IssueLink,
+} from '../types';
+import { StorageService } from './StorageService';
 
 // Declare global setTimeout for Node.js environment
 declare const setTimeout: (callback: () => void, ms: number) => any;
@@ -10,32 +22,56 @@ declare const setTimeout: (callback: () => void, ms: number) => any;
  * This class handles all interactions with the Jira REST API v3, including:
  * - Fetching sprint details and metadata
  * - Retrieving issues within sprints
- * - Collecting issue status transition history
+ * - Collecting issue status transition, sprint membership and estimate history
  * - Fetching historical sprint data for trend analysis
  * 
- * All API calls use Forge's asUser context for authentication.
+ * API calls use Forge's asUser context for authentication, or asApp when the
+ * collector is built for a scheduled run.
  */
 export class JiraDataCollector {
   private readonly MAX_RETRIES = 3;
   private readonly INITIAL_BACKOFF_MS = 1000;
 
+  // Largest page the Agile API returns when listing a board's sprints
+  private readonly SPRINT_PAGE_SIZE = 50;
+
+  // Field names matched (case-insensitively, in order of preference) during discovery
+  private readonly STORY_POINTS_FIELD_NAMES = ['story points', 'story point estimate'];
+  private readonly SPRINT_FIELD_NAMES = ['sprint'];
+  private readonly SPRINT_FIELD_SCHEMA = 'com.pyxis.greenhopper.jira:gh-sprint';
+
+  // Jira Cloud defaults, used when discovery fails
+  private readonly DEFAULT_STORY_POINTS_FIELD = 'customfield_10016';
+  private readonly DEFAULT_SPRINT_FIELD = 'customfield_10020';
+
+  private storageService: StorageService;
+  private apiContext: ApiContext;
+  private fieldMapping: JiraFieldMapping | null = null;
+
+  constructor(storageService: StorageService = new StorageService(), apiContext: ApiContext = 'user') {
+    this.storageService = storageService;
+    this.apiContext = apiContext;
+  }
+
   /**
    * Fetch sprint details including start/end dates, state, and goal
    * @param sprintId - The ID of the sprint to fetch
    * @returns Sprint data including metadata
    */
   async getSprintData(sprintId: string): Promise<SprintData> {
+    const sprintFieldId = (await this.getFieldMapping()).sprint || this.DEFAULT_SPRINT_FIELD;
+
     // Query for any issue in this sprint to get sprint metadata
     const jql = `sprint = ${sprintId}`;
     const response = await this.makeRequest(
-      route`/rest/api/3/search/jql?jql=${jql}&maxResults=1&fields=customfield_10020`
+      route`/rest/api/3/search/jql?jql=${jql}&maxResults=1&fields=${sprintFieldId}`
     );
 
     const data = await response.json();
     
     // Try to extract sprint info from the first issue
     if (data.issues && data.issues.length > 0) {
-      const sprintField = data.issues[0].fields.customfield_10020;
+      const sprintField = data.issues[0].fields[sprintFieldId];
       if (Array.isArray(sprintField)) {
         const sprint = sprintField.find((s: any) => s.id.toString() === sprintId);
         if (sprint) {
@@ -68,31 +104,100 @@ export class JiraDataCollector {
    * @returns Array of issue data
    */
   async getSprintIssues(sprintId: string): Promise<IssueData[]> {
+    return this.searchIssues(`sprint = ${sprintId}`);
+  }
+
+  /**
+   * Fetch a single issue
+   * @param issueKey - The issue key (e.g., "PROJ-123")
+   * @returns Issue data, or null if the issue does not exist
+   */
+  async getIssue(issueKey: string): Promise<IssueData | null> {
+    const [issue] = await this.searchIssues(`key = ${issueKey}`);
+    return issue || null;
+  }
+
+  /**
+   * Fetch the child issues of an epic, across all sprints and the backlog
+   * @param epicKey - The epic's issue key
+   * @returns Array of issue data
+   */
+  async getEpicIssues(epicKey: string): Promise<IssueData[]> {
+    return this.searchIssues(`parent = ${epicKey}`);
+  }
+
+  /**
+   * Fetch issues that were removed from a sprint after it started
+   *
+   * Removed issues no longer match `sprint = X`, so they are read from the
+   * board's sprint report. Returns an empty array if the report is unavailable.
+   * @param sprintId - The ID of the sprint
+   * @param boardId - The board the sprint belongs to
+   * @returns Array of removed issue data
+   */
+  async getRemovedSprintIssues(sprintId: string, boardId: string): Promise<IssueData[]> {
+    try {
+      const response = await this.makeRequest(
+        route`/rest/greenhopper/1.0/rapid/charts/sprintreport?rapidViewId=${boardId}&sprintId=${sprintId}`
+      );
+
+      const data = await response.json();
+      const issueKeys: string[] = (data.contents?.puntedIssues || [])
+        .map((issue: { key?: string }) => issue.key)
+        .filter(Boolean);
+
+      if (issueKeys.length === 0) {
+        return [];
+      }
+
+      return await this.searchIssues(`key in (${issueKeys.join(',')})`);
+    } catch (error) {
+      console.warn(`Could not fetch issues removed from sprint ${sprintId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch all issues matching a JQL query, including their changelogs
+   * @param jql - JQL query
+   * @returns Array of issue data
+   */
+  private async searchIssues(jql: string): Promise<IssueData[]> {
     const issues: IssueData[] = [];
     let startAt = 0;
     const maxResults = 50;
     let hasMore = true;
 
+    const { storyPoints: storyPointsFieldId, sprint: sprintFieldId } = await this.getFieldMapping();
+    const fields = ['summary', 'assignee', storyPointsFieldId, 'status', 'created', sprintFieldId, 'issuelinks', 'parent', 'subtasks']
+      .filter(Boolean)
+      .join(',');
+
     while (hasMore) {
       // Use JQL through standard API instead of Agile API
-      const jql = `sprint = ${sprintId}`;
-      const url = route`/rest/api/3/search/jql?jql=${jql}&startAt=${startAt}&maxResults=${maxResults}&fields=summary,assignee,customfield_10016,status,created`;
+      const url = route`/rest/api/3/search/jql?jql=${jql}&startAt=${startAt}&maxResults=${maxResults}&fields=${fields}`;
       const response = await this.makeRequest(url);
 
       const data = await response.json();
 
       for (const issue of data.issues) {
-        const transitions = await this.getIssueTransitions(issue.key);
+        const changelog = await this.getIssueChangelog(issue.key);
         
         issues.push({
           id: issue.id,
           key: issue.key,
           summary: issue.fields.summary,
           assignee: issue.fields.assignee?.displayName || null,
-          storyPoints: issue.fields.customfield_10016 || null,
+          storyPoints: storyPointsFieldId ? issue.fields[storyPointsFieldId] ?? null : null,
           status: issue.fields.status.name,
-          statusTransitions: transitions,
+          statusCategory: this.mapStatusCategory(issue.fields.status.statusCategory?.key),
+          statusTransitions: changelog.statusTransitions,
           linkedPRs: this.extractPRLinks(issue),
+          createdAt: issue.fields.created || undefined,
+          sprintChanges: changelog.sprintChanges,
+          storyPointChanges: changelog.storyPointChanges,
+          sprints: sprintFieldId ? this.parseSprintField(issue.fields[sprintFieldId]) : undefined,
+          ...this.parseLinks(issue.fields),
         });
       }
 
@@ -103,62 +208,423 @@ export class JiraDataCollector {
     return issues;
   }
 
+  /**
+   * Fetch the issues outside the given set that block it, following blocker chains
+   *
+   * Blockers are searched level by level, so a chain that runs through other
+   * sprints or the backlog is resolved up to maxDepth links away.
+   * @param issues - Issues whose blockers to resolve (e.g. the sprint issues)
+   * @param maxDepth - Maximum number of links to follow
+   * @returns Blocking issues not in the given set
+   */
+  async getExternalBlockers(issues: IssueData[], maxDepth: number = 3): Promise<IssueData[]> {
+    const knownKeys = new Set(issues.map(issue => issue.key));
+    const blockers: IssueData[] = [];
+    let current = issues;
+
+    for (let depth = 0; depth < maxDepth; depth++) {
+      const missingKeys = Array.from(new Set(
+        current
+          .flatMap(issue => issue.blockedBy || [])
+          .map(blocker => blocker.issueKey)
+          .filter(key => !knownKeys.has(key))
+      ));
+
+      if (missingKeys.length === 0) {
+        break;
+      }
+
+      missingKeys.forEach(key => knownKeys.add(key));
+      current = await this.searchIssues(`key in (${missingKeys.join(',')})`);
+      blockers.push(...current);
+    }
+
+    return blockers;
+  }
+
   /**
    * Fetch status change history for an issue
    * @param issueKey - The issue key (e.g., "PROJ-123")
    * @returns Array of status transitions
    */
   async getIssueTransitions(issueKey: string): Promise<StatusTransition[]> {
+    return (await this.getIssueChangelog(issueKey)).statusTransitions;
+  }
+
+  /**
+   * Fetch status, sprint membership and story point history for an issue
+   * @param issueKey - The issue key (e.g., "PROJ-123")
+   * @returns Parsed changelog, oldest changes first
+   */
+  async getIssueChangelog(issueKey: string): Promise<IssueChangelog> {
+    const mapping = await this.getFieldMapping();
     const response = await this.makeRequest(
       route`/rest/api/3/issue/${issueKey}?expand=changelog`
     );
 
     const data = await response.json();
-    const transitions: StatusTransition[] = [];
-
-    if (data.changelog && data.changelog.histories) {
-      for (const history of data.changelog.histories) {
-        for (const item of history.items) {
-          if (item.field === 'status') {
-            transitions.push({
-              fromStatus: item.fromString,
-              toStatus: item.toString,
-              timestamp: history.created,
-            });
-          }
+    const changelog: IssueChangelog = {
+      statusTransitions: [],
+      sprintChanges: [],
+      storyPointChanges: [],
+    };
+
+    const histories: any[] = [...(data.changelog?.histories || [])].sort(
+      (a, b) => new Date(a.created).getTime() - new Date(b.created).getTime()
+    );
+
+    for (const history of histories) {
+      const author = history.author?.displayName || undefined;
+
+      for (const item of history.items || []) {
+        if (item.field === 'status') {
+          changelog.statusTransitions.push({
+            fromStatus: item.fromString,
+            toStatus: item.toString,
+            timestamp: history.created,
+          });
+        } else if (this.isChangelogField(item, mapping.sprint, this.SPRINT_FIELD_NAMES)) {
+          changelog.sprintChanges.push(
+            ...this.parseSprintChange(item.from, item.to, history.created, author)
+          );
+        } else if (this.isChangelogField(item, mapping.storyPoints, this.STORY_POINTS_FIELD_NAMES)) {
+          changelog.storyPointChanges.push({
+            from: this.parseStoryPoints(item.fromString),
+            to: this.parseStoryPoints(item.toString),
+            timestamp: history.created,
+            author,
+          });
         }
       }
     }
 
-    return transitions;
+    return changelog;
   }
 
   /**
-   * Fetch past sprint data for trend analysis
+   * Fetch the most recently ended closed sprints of a board for trend analysis
+   * The Agile API lists closed sprints oldest first, so every page is read.
    * @param boardId - The board ID to fetch sprints from
    * @param count - Number of historical sprints to fetch
-   * @returns Array of historical sprint data
+   * @returns Historical sprint data, most recently ended first
    */
   async getHistoricalSprints(boardId: string, count: number): Promise<SprintData[]> {
+    const sprints: SprintData[] = [];
+    let startAt = 0;
+    let isLast = false;
+
+    while (!isLast) {
+      const response = await this.makeRequest(
+        route`/rest/agile/1.0/board/${boardId}/sprint?state=closed&startAt=${startAt}&maxResults=${this.SPRINT_PAGE_SIZE}`
+      );
+
+      const data = await response.json();
+      const values = data.values || [];
+
+      for (const sprint of values) {
+        sprints.push({
+          id: sprint.id.toString(),
+          name: sprint.name,
+          state: 'closed',
+          startDate: sprint.startDate || '',
+          endDate: sprint.endDate || '',
+          goal: sprint.goal || undefined,
+        });
+      }
+
+      startAt += values.length;
+      isLast = values.length === 0 || data.isLast === true || (typeof data.total === 'number' && startAt >= data.total);
+    }
+
+    return sprints
+      .sort((a, b) => new Date(b.endDate).getTime() - new Date(a.endDate).getTime())
+      .slice(0, count);
+  }
+
+  /**
+   * Fetch the active sprint of a board
+   * @param boardId - Board ID
+   * @returns The most recently started active sprint, or null if none is active
+   */
+  async getActiveSprint(boardId: string): Promise<SprintData | null> {
     const response = await this.makeRequest(
-      route`/rest/agile/1.0/board/${boardId}/sprint?state=closed&maxResults=${count}`
+      route`/rest/agile/1.0/board/${boardId}/sprint?state=active`
     );
 
     const data = await response.json();
-    const sprints: SprintData[] = [];
+    const sprint = (data.values || [])
+      .sort((a: { startDate?: string }, b: { startDate?: string }) =>
+        new Date(a.startDate || 0).getTime() - new Date(b.startDate || 0).getTime()
+      )
+      .pop();
 
-    for (const sprint of data.values) {
-      sprints.push({
+    if (!sprint) {
+      return null;
+    }
+
+    return {
+      id: sprint.id.toString(),
+      name: sprint.name,
+      state: 'active',
+      startDate: sprint.startDate || '',
+      endDate: sprint.endDate || '',
+      goal: sprint.goal || undefined,
+    };
+  }
+
+  /**
+   * Fetch the next planned sprint of a board
+   * @param boardId - Board ID
+   * @returns The earliest future sprint, or null if none is planned
+   */
+  async getNextSprint(boardId: string): Promise<SprintData | null> {
+    const response = await this.makeRequest(
+      route`/rest/agile/1.0/board/${boardId}/sprint?state=future&maxResults=1`
+    );
+
+    const data = await response.json();
+    const sprint = data.values?.[0];
+
+    if (!sprint) {
+      return null;
+    }
+
+    return {
+      id: sprint.id.toString(),
+      name: sprint.name,
+      state: 'future',
+      startDate: sprint.startDate || '',
+      endDate: sprint.endDate || '',
+      goal: sprint.goal || undefined,
+    };
+  }
+
+  /**
+   * Resolve the story point and sprint custom field IDs for this site
+   *
+   * Admin overrides take precedence; remaining fields come from the cached
+   * discovery result, refreshed from /rest/api/3/field when expired.
+   * @param forceRediscover - Ignore the cached discovery result
+   * @returns Field mapping
+   */
+  async getFieldMapping(forceRediscover: boolean = false): Promise<JiraFieldMapping> {
+    if (this.fieldMapping && !forceRediscover) {
+      return this.fieldMapping;
+    }
+
+    let discovered = forceRediscover ? null : await this.storageService.getCachedFieldMapping();
+
+    if (!discovered) {
+      try {
+        discovered = await this.discoverFieldMapping();
+        await this.storageService.cacheFieldMapping(discovered);
+      } catch (error) {
+        console.warn('Field discovery failed, using default custom field IDs:', error);
+        discovered = {
+          storyPoints: this.DEFAULT_STORY_POINTS_FIELD,
+          sprint: this.DEFAULT_SPRINT_FIELD,
+          source: 'default',
+          resolvedAt: new Date().toISOString(),
+        };
+      }
+    }
+
+    const override = await this.storageService.getFieldMappingOverride();
+
+    this.fieldMapping = {
+      storyPoints: override.storyPoints || discovered.storyPoints,
+      sprint: override.sprint || discovered.sprint,
+      source: override.storyPoints || override.sprint ? 'override' : discovered.source,
+      resolvedAt: discovered.resolvedAt,
+    };
+
+    return this.fieldMapping;
+  }
+
+  /**
+   * Discover story point and sprint custom fields by name
+   * @returns Discovered field mapping (null for fields that were not found)
+   */
+  async discoverFieldMapping(): Promise<JiraFieldMapping> {
+    const response = await this.makeRequest(route`/rest/api/3/field`);
+    const fields: any[] = (await response.json()) || [];
+
+    const findField = (names: string[], schemaCustom?: string): string | null => {
+      for (const name of names) {
+        const matches = fields.filter(field =>
+          typeof field.name === 'string' && field.name.trim().toLowerCase() === name
+        );
+        const preferred = schemaCustom
+          ? matches.find(field => field.schema?.custom === schemaCustom)
+          : undefined;
+        const match = preferred || matches[0];
+        if (match) {
+          return match.id;
+        }
+      }
+      return null;
+    };
+
+    return {
+      storyPoints: findField(this.STORY_POINTS_FIELD_NAMES),
+      sprint: findField(this.SPRINT_FIELD_NAMES, this.SPRINT_FIELD_SCHEMA),
+      source: 'discovered',
+      resolvedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Fetch the status category of every workflow status on the site
+   * @returns Map of status name to Jira status category
+   */
+  async getStatusCategories(): Promise<Record<string, StatusCategory>> {
+    const response = await this.makeRequest(route`/rest/api/3/status`);
+
+    const data = await response.json();
+    const categories: Record<string, StatusCategory> = {};
+
+    for (const status of data || []) {
+      const category = this.mapStatusCategory(status.statusCategory?.key);
+      if (status.name && category) {
+        categories[status.name] = category;
+      }
+    }
+
+    return categories;
+  }
+
+  /**
+   * Check whether a changelog item refers to a custom field
+   * @param item - Changelog item
+   * @param fieldId - Resolved custom field ID
+   * @param fieldNames - Lower-case field names to fall back to
+   * @returns True if the item changed the field
+   */
+  private isChangelogField(
+    item: { field?: string; fieldId?: string },
+    fieldId: string | null,
+    fieldNames: string[]
+  ): boolean {
+    if (fieldId && item.fieldId) {
+      return item.fieldId === fieldId;
+    }
+
+    return typeof item.field === 'string' && fieldNames.includes(item.field.toLowerCase());
+  }
+
+  /**
+   * Convert a sprint field change into added/removed sprint memberships
+   * @param from - Comma-separated sprint IDs before the change
+   * @param to - Comma-separated sprint IDs after the change
+   * @param timestamp - Time of the change
+   * @param author - Display name of the user who made the change
+   * @returns Membership changes
+   */
+  private parseSprintChange(
+    from: string | null,
+    to: string | null,
+    timestamp: string,
+    author?: string
+  ): SprintMembershipChange[] {
+    const parseIds = (value: string | null): string[] =>
+      (value || '').split(',').map(id => id.trim()).filter(Boolean);
+
+    const before = parseIds(from);
+    const after = parseIds(to);
+
+    return [
+      ...after
+        .filter(id => !before.includes(id))
+        .map(sprintId => ({ sprintId, change: 'added' as const, timestamp, author })),
+      ...before
+        .filter(id => !after.includes(id))
+        .map(sprintId => ({ sprintId, change: 'removed' as const, timestamp, author })),
+    ];
+  }
+
+  /**
+   * Parse the Sprint field of an issue
+   * @param value - Sprint field value (array of sprint objects)
+   * @returns Sprints the issue belongs or belonged to
+   */
+  private parseSprintField(value: unknown): IssueSprintReference[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value
+      .filter(sprint => sprint && sprint.id !== undefined)
+      .map(sprint => ({
         id: sprint.id.toString(),
-        name: sprint.name,
-        state: 'closed',
-        startDate: sprint.startDate || '',
-        endDate: sprint.endDate || '',
-        goal: sprint.goal || undefined,
-      });
+        name: sprint.name || `Sprint ${sprint.id}`,
+        state: this.mapSprintState(sprint.state || 'closed'),
+        startDate: sprint.startDate || undefined,
+      }));
+  }
+
+  /**
+   * Extract the typed links of an issue
+   * @param fields - Raw issue fields (issuelinks, parent, subtasks)
+   * @returns Links, and the "is blocked by" subset as blockers
+   */
+  private parseLinks(fields: any): Pick<IssueData, 'links' | 'blockedBy'> {
+    const toLink = (type: IssueLink['type'], linked: any): IssueLink => ({
+      type,
+      issueKey: linked.key,
+      summary: linked.fields?.summary || '',
+      status: linked.fields?.status?.name || '',
+      statusCategory: this.mapStatusCategory(linked.fields?.status?.statusCategory?.key),
+    });
+
+    const links: IssueLink[] = [];
+
+    for (const link of Array.isArray(fields.issuelinks) ? fields.issuelinks : []) {
+      const typeName = link?.type?.name;
+
+      if (typeName === 'Blocks') {
+        // The inward side of a "Blocks" link blocks this issue
+        if (link.inwardIssue) {
+          links.push(toLink('is-blocked-by', link.inwardIssue));
+        }
+        if (link.outwardIssue) {
+          links.push(toLink('blocks', link.outwardIssue));
+        }
+      } else if (typeName === 'Relates') {
+        const linked = link.inwardIssue || link.outwardIssue;
+        if (linked) {
+          links.push(toLink('relates', linked));
+        }
+      }
+    }
+
+    if (fields.parent?.key) {
+      links.push(toLink('parent', fields.parent));
     }
 
-    return sprints;
+    for (const subtask of Array.isArray(fields.subtasks) ? fields.subtasks : []) {
+      links.push(toLink('subtask', subtask));
+    }
+
+    return {
+      links,
+      blockedBy: links
+        .filter(link => link.type === 'is-blocked-by')
+        .map(({ type: _type, ...blocker }) => blocker),
+    };
+  }
+
+  /**
+   * Parse a story point value from a changelog string
+   * @param value - Changelog value
+   * @returns Story points, or null if unset
+   */
+  private parseStoryPoints(value: string | null): number | null {
+    if (value === null || value === undefined || value === '') {
+      return null;
+    }
+
+    const points = parseFloat(value);
+    return isNaN(points) ? null : points;
   }
 
   /**
@@ -171,8 +637,9 @@ export class JiraDataCollector {
 
     for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
       try {
-        // Use asUser() with Forge API v3
-        const response = await api.asUser().requestJira(url, {
+        // Use asUser() (or asApp() in scheduled runs) with Forge API v3
+        const requester = this.apiContext === 'app' ? api.asApp() : api.asUser();
+        const response = await requester.requestJira(url, {
           headers: {
             'Accept': 'application/json',
           },
@@ -252,6 +719,18 @@ export class JiraDataCollector {
     return 'future';
   }
 
+  /**
+   * Map a Jira status category key to our internal category type
+   * @param key - Jira status category key
+   * @returns Status category, or undefined for unknown keys
+   */
+  private mapStatusCategory(key: string | undefined): StatusCategory | undefined {
+    if (key === 'new' || key === 'indeterminate' || key === 'done') {
+      return key;
+    }
+    return undefined;
+  }
+
   /**
    * Extract PR links from issue data
    * @param _issue - Raw Jira issue object
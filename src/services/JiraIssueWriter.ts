@@ -0,0 +1,109 @@
+import api, { route, APIResponse } from '@forge/api';
+
+/**
+ * JiraIssueWriter - Service for changing Jira issues
+ *
+ * This class handles writes to the Jira REST API, including:
+ * - Adding and removing issue labels
+ * - Adding and deleting issue comments
+ *
+ * All API calls use Forge's asApp context, so writes also work in scheduled
+ * runs and are attributed to the app rather than to a user.
+ */
+export class JiraIssueWriter {
+  /**
+   * Add a label to an issue
+   * @param issueKey - Issue to label
+   * @param label - Label to add
+   */
+  async addLabel(issueKey: string, label: string): Promise<void> {
+    await this.updateLabels(issueKey, { add: label });
+  }
+
+  /**
+   * Remove a label from an issue
+   * @param issueKey - Issue to change
+   * @param label - Label to remove
+   */
+  async removeLabel(issueKey: string, label: string): Promise<void> {
+    await this.updateLabels(issueKey, { remove: label });
+  }
+
+  /**
+   * Add a comment to an issue
+   * @param issueKey - Issue to comment on
+   * @param text - Comment text; each line becomes a paragraph
+   * @returns ID of the created comment
+   */
+  async addComment(issueKey: string, text: string): Promise<string> {
+    const response = await api.asApp().requestJira(route`/rest/api/3/issue/${issueKey}/comment`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        body: {
+          type: 'doc',
+          version: 1,
+          content: text.split('\n').map(line => ({
+            type: 'paragraph',
+            content: line ? [{ type: 'text', text: line }] : [],
+          })),
+        },
+      }),
+    });
+
+    await this.checkResponse(response);
+
+    const data = await response.json();
+    return String(data.id);
+  }
+
+  /**
+   * Delete a comment from an issue (a comment that no longer exists is ignored)
+   * @param issueKey - Issue the comment is on
+   * @param commentId - Comment to delete
+   */
+  async deleteComment(issueKey: string, commentId: string): Promise<void> {
+    const response = await api.asApp().requestJira(route`/rest/api/3/issue/${issueKey}/comment/${commentId}`, {
+      method: 'DELETE',
+    });
+
+    if (response.status !== 404) {
+      await this.checkResponse(response);
+    }
+  }
+
+  /**
+   * Add or remove a label without touching the issue's other labels
+   */
+  private async updateLabels(issueKey: string, operation: { add: string } | { remove: string }): Promise<void> {
+    const response = await api.asApp().requestJira(route`/rest/api/3/issue/${issueKey}`, {
+      method: 'PUT',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        update: {
+          labels: [operation],
+        },
+      }),
+    });
+
+    await this.checkResponse(response);
+  }
+
+  /**
+   * Throw on an unsuccessful response
+   */
+  private async checkResponse(response: APIResponse): Promise<void> {
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(
+        `Jira API error: ${response.status} ${response.statusText} - ${errorBody}`
+      );
+    }
+  }
+}
@@ -6,7 +6,11 @@ import {
   SprintMetrics,
   PRMetrics,
   BottleneckInfo,
+  CarryOverIssue,
+  IssueBlocker,
 } from '../types';
+import { StatusClassifier } from './StatusClassifier';
+import { BusinessCalendar } from './BusinessCalendar';
 
 /**
  * MetricsCalculator - Engine for calculating sprint and PR performance metrics
@@ -17,27 +21,42 @@ import {
  * - Identify bottlenecks in the workflow
  * - Calculate PR-related metrics (latency, review time, revisions)
  * 
- * All time calculations are in hours for consistency.
+ * All time calculations are in hours for consistency: wall-clock hours by
+ * default, or business hours when a team calendar is set.
  */
 export class MetricsCalculator {
-  // Active status keywords that indicate work in progress
-  private readonly ACTIVE_STATUSES = [
-    'in progress',
-    'in development',
-    'in review',
-    'code review',
-    'testing',
-    'qa',
-    'ready for review',
-  ];
-
-  // Completed status keywords
-  private readonly COMPLETED_STATUSES = [
-    'done',
-    'closed',
-    'resolved',
-    'completed',
-  ];
+  // Forecasting projects cycle times onto real dates, so samples stay in wall-clock hours
+  private readonly WALL_CLOCK = new BusinessCalendar();
+
+  // Flag a status or reviewer when its average wait is this much above the overall average
+  private readonly BOTTLENECK_MULTIPLIER = 1.5;
+
+  private statusClassifier: StatusClassifier;
+  private businessCalendar: BusinessCalendar;
+
+  constructor(
+    statusClassifier: StatusClassifier = new StatusClassifier(),
+    businessCalendar: BusinessCalendar = new BusinessCalendar()
+  ) {
+    this.statusClassifier = statusClassifier;
+    this.businessCalendar = businessCalendar;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the business calendar (e.g. with the board's team calendar)
+   * @param businessCalendar - Business calendar to use for all durations
+   */
+  setBusinessCalendar(businessCalendar: BusinessCalendar): void {
+    this.businessCalendar = businessCalendar;
+  }
 
   /**
    * Calculate comprehensive sprint metrics
@@ -48,7 +67,7 @@ export class MetricsCalculator {
   calculateSprintMetrics(issues: IssueData[], sprint: SprintData): SprintMetrics {
     const completedIssues = this.getCompletedIssues(issues);
     const activeIssues = this.getActiveIssues(issues);
-    const carryOverIssues = this.getCarryOverIssues(issues, sprint);
+    const carryOverIssues = this.identifyCarryOverIssues(issues, sprint);
 
     // Calculate cycle time (average for completed issues)
     const cycleTime = this.calculateAverageCycleTime(completedIssues);
@@ -84,6 +103,48 @@ export class MetricsCalculator {
     };
   }
 
+  /**
+   * Identify unfinished issues carried into the sprint from earlier sprints
+   *
+   * An issue is carried over if its Sprint field lists a sprint that started
+   * before this one (or, without dates, a closed sprint) and it is not done yet.
+   * @param issues - Array of issues in the sprint
+   * @param sprint - Sprint data
+   * @returns Carry-over issues, most sprints carried first
+   */
+  identifyCarryOverIssues(issues: IssueData[], sprint: SprintData): CarryOverIssue[] {
+    const sprintStartTime = new Date(sprint.startDate).getTime();
+    const carryOvers: CarryOverIssue[] = [];
+
+    for (const issue of issues) {
+      if (this.isCompletedStatus(issue.status, issue.key)) {
+        continue;
+      }
+
+      const previousSprints = (issue.sprints || [])
+        .filter(s => s.id !== sprint.id)
+        .filter(s => s.startDate
+          ? new Date(s.startDate).getTime() < sprintStartTime
+          : s.state === 'closed')
+        .sort((a, b) =>
+          new Date(a.startDate || 0).getTime() - new Date(b.startDate || 0).getTime()
+        );
+
+      if (previousSprints.length > 0) {
+        carryOvers.push({
+          issueKey: issue.key,
+          summary: issue.summary,
+          assignee: issue.assignee,
+          storyPoints: issue.storyPoints,
+          sprintsCarried: previousSprints.length,
+          previousSprints: previousSprints.map(s => s.name),
+        });
+      }
+    }
+
+    return carryOvers.sort((a, b) => b.sprintsCarried - a.sprintsCarried);
+  }
+
   /**
    * Calculate PR-related metrics
    * @param prs - Array of pull requests
@@ -140,28 +201,41 @@ export class MetricsCalculator {
   /**
    * Calculate cycle time for an issue (from "In Progress" to "Done")
    * @param transitions - Status transitions for the issue
+   * @param issueKey - Issue key (selects its project's status overrides)
+   * @returns Cycle time in hours
+   */
+  calculateCycleTime(transitions: StatusTransition[], issueKey?: string): number {
+    return this.measureCycleTime(transitions, this.businessCalendar, issueKey);
+  }
+
+  /**
+   * Measure cycle time with a given calendar
+   * @param transitions - Status transitions for the issue
+   * @param calendar - Calendar to measure with
+   * @param issueKey - Issue key
    * @returns Cycle time in hours
    */
-  calculateCycleTime(transitions: StatusTransition[]): number {
+  private measureCycleTime(
+    transitions: StatusTransition[],
+    calendar: BusinessCalendar,
+    issueKey?: string
+  ): number {
     // Find first transition to an active status
     const startTransition = transitions.find(t => 
-      this.isActiveStatus(t.toStatus)
+      this.isActiveStatus(t.toStatus, issueKey)
     );
 
     // Find last transition to a completed status
-    const endTransition = transitions.reverse().find(t => 
-      this.isCompletedStatus(t.toStatus)
+    const endTransition = [...transitions].reverse().find(t => 
+      this.isCompletedStatus(t.toStatus, issueKey)
     );
 
     if (!startTransition || !endTransition) {
       return 0;
     }
 
-    const startTime = new Date(startTransition.timestamp).getTime();
-    const endTime = new Date(endTransition.timestamp).getTime();
-
     // Return difference in hours
-    return (endTime - startTime) / (1000 * 60 * 60);
+    return calendar.hoursBetween(startTransition.timestamp, endTransition.timestamp);
   }
 
   /**
@@ -174,26 +248,36 @@ export class MetricsCalculator {
     const creationTime = this.getIssueCreationTime(issue);
 
     // Find completion time (last transition to completed status)
-    const completionTransition = issue.statusTransitions
+    const completionTransition = [...issue.statusTransitions]
       .reverse()
-      .find(t => this.isCompletedStatus(t.toStatus));
+      .find(t => this.isCompletedStatus(t.toStatus, issue.key));
 
     if (!completionTransition) {
       return 0;
     }
 
-    const completionTime = new Date(completionTransition.timestamp).getTime();
-
     // Return difference in hours
-    return (completionTime - creationTime) / (1000 * 60 * 60);
+    return this.businessCalendar.hoursBetween(creationTime, completionTransition.timestamp);
   }
 
   /**
    * Identify bottlenecks in the workflow
+   *
+   * Detects statuses where issues dwell longest, reviewers whose PRs wait
+   * longest for a first review, and unresolved blockers of sprint issues
+   * (following "is blocked by" chains through issues outside the sprint).
    * @param issues - Array of issues
+   * @param prs - Optional pull request data (for reviewer bottlenecks)
+   * @param externalIssues - Optional issues outside the sprint that block sprint work
+   * @param currentDate - Current date (for PRs still waiting for review)
    * @returns Array of bottleneck information
    */
-  identifyBottlenecks(issues: IssueData[]): BottleneckInfo[] {
+  identifyBottlenecks(
+    issues: IssueData[],
+    prs: PullRequestData[] = [],
+    externalIssues: IssueData[] = [],
+    currentDate: Date = new Date()
+  ): BottleneckInfo[] {
     const bottlenecks: BottleneckInfo[] = [];
 
     // Analyze status dwell times
@@ -202,12 +286,8 @@ export class MetricsCalculator {
     // Identify statuses with high dwell time
     const avgDwellTime = this.calculateAverageDwellTime(statusDwellTimes);
 
+    // Completed statuses are already left out per project
     for (const [status, data] of statusDwellTimes.entries()) {
-      // Skip completed statuses - they're not bottlenecks
-      if (this.isCompletedStatus(status)) {
-        continue;
-      }
-
       const avgTime = data.totalTime / data.count;
 
       // Only flag as bottleneck if:
@@ -215,7 +295,7 @@ export class MetricsCalculator {
       // 2. Average time is 50% higher than overall average
       // 3. At least 2 issues affected
       // 4. Average time is at least 1 hour (ignore very short times)
-      if (avgTime > 1 && avgTime > avgDwellTime * 1.5 && data.count >= 2) {
+      if (avgTime > 1 && avgTime > avgDwellTime * this.BOTTLENECK_MULTIPLIER && data.count >= 2) {
         const severity = Math.min(10, Math.floor((avgTime / avgDwellTime) * 3));
 
         bottlenecks.push({
@@ -223,15 +303,197 @@ export class MetricsCalculator {
           type: 'STATUS',
           affectedIssues: data.issues,
           severity,
-          description: `Issues spend an average of ${avgTime.toFixed(1)} hours in "${status}" status, which is ${((avgTime / avgDwellTime - 1) * 100).toFixed(0)}% above average.`,
+          description: `Issues spend an average of ${avgTime.toFixed(1)} ${this.businessCalendar.unitLabel} in "${status}" status, which is ${((avgTime / avgDwellTime - 1) * 100).toFixed(0)}% above average.`,
         });
       }
     }
 
+    bottlenecks.push(...this.identifyReviewerBottlenecks(prs, currentDate));
+    bottlenecks.push(...this.identifyDependencyBottlenecks(issues, externalIssues));
+
     // Sort by severity (highest first)
     return bottlenecks.sort((a, b) => b.severity - a.severity);
   }
 
+  /**
+   * Identify reviewers whose PRs wait much longer than average for a first review
+   *
+   * A reviewer who responded promptly is not charged for PRs shared with
+   * reviewers who did not respond.
+   * @param prs - Pull request data
+   * @param currentDate - Current date (open PRs without a review are still waiting)
+   * @returns Reviewer bottlenecks
+   */
+  private identifyReviewerBottlenecks(prs: PullRequestData[], currentDate: Date): BottleneckInfo[] {
+    const waitsByReviewer = new Map<string, { totalWait: number; count: number; issues: Set<string> }>();
+    let totalWait = 0;
+    let waitCount = 0;
+
+    for (const pr of prs) {
+      const reviewedAt = pr.firstReviewAt || (pr.state === 'OPEN' ? currentDate : null);
+      if (!reviewedAt) {
+        continue;
+      }
+
+      const wait = this.businessCalendar.hoursBetween(pr.createdAt, reviewedAt);
+      if (wait < 0) {
+        continue;
+      }
+
+      totalWait += wait;
+      waitCount++;
+
+      // The wait ends with the first review, so it is charged to the reviewers
+      // who responded; while a PR is still waiting, to every assigned reviewer
+      const responders = pr.reviewers.filter(reviewer => reviewer.approvedAt || reviewer.commentCount > 0);
+      const chargedReviewers = responders.length > 0 ? responders : pr.reviewers;
+
+      for (const reviewer of chargedReviewers) {
+        if (!waitsByReviewer.has(reviewer.username)) {
+          waitsByReviewer.set(reviewer.username, { totalWait: 0, count: 0, issues: new Set() });
+        }
+        const data = waitsByReviewer.get(reviewer.username)!;
+        data.totalWait += wait;
+        data.count++;
+        pr.linkedIssues.forEach(issueKey => data.issues.add(issueKey));
+      }
+    }
+
+    const avgWait = waitCount > 0 ? totalWait / waitCount : 0;
+    const bottlenecks: BottleneckInfo[] = [];
+
+    for (const [reviewer, data] of waitsByReviewer.entries()) {
+      const reviewerWait = data.totalWait / data.count;
+
+      // Same thresholds as status bottlenecks: 50% above average, 2+ PRs, 1+ hour
+      if (
+        reviewerWait > 1 &&
+        reviewerWait > avgWait * this.BOTTLENECK_MULTIPLIER &&
+        data.count >= 2
+      ) {
+        bottlenecks.push({
+          location: reviewer,
+          type: 'REVIEWER',
+          affectedIssues: Array.from(data.issues),
+          severity: Math.min(10, Math.floor((reviewerWait / avgWait) * 3)),
+          description: `PRs reviewed by ${reviewer} wait an average of ${reviewerWait.toFixed(1)} ${this.businessCalendar.unitLabel} for a first review (${data.count} PRs), ${((reviewerWait / avgWait - 1) * 100).toFixed(0)}% above average.`,
+        });
+      }
+    }
+
+    return bottlenecks;
+  }
+
+  /**
+   * Identify unresolved blockers of unfinished sprint issues
+   *
+   * Each blocker chain is followed to its root, the unresolved issue that is
+   * not blocked itself, and one bottleneck is reported per root blocker.
+   * @param issues - Sprint issues
+   * @param externalIssues - Known issues outside the sprint (for chains across sprints)
+   * @returns Dependency bottlenecks
+   */
+  private identifyDependencyBottlenecks(issues: IssueData[], externalIssues: IssueData[]): BottleneckInfo[] {
+    const sprintKeys = new Set(issues.map(issue => issue.key));
+    const knownIssues = new Map<string, IssueData>();
+    for (const issue of [...externalIssues, ...issues]) {
+      knownIssues.set(issue.key, issue);
+    }
+
+    const roots = new Map<string, { blocker: IssueBlocker; affected: Set<string>; points: number; depth: number }>();
+
+    for (const issue of issues) {
+      if (this.isCompletedStatus(issue.status, issue.key)) {
+        continue;
+      }
+
+      for (const { blocker, depth } of this.findRootBlockers(issue, knownIssues)) {
+        if (!roots.has(blocker.issueKey)) {
+          roots.set(blocker.issueKey, { blocker, affected: new Set(), points: 0, depth: 0 });
+        }
+        const root = roots.get(blocker.issueKey)!;
+        if (!root.affected.has(issue.key)) {
+          root.affected.add(issue.key);
+          root.points += issue.storyPoints || 0;
+        }
+        root.depth = Math.max(root.depth, depth);
+      }
+    }
+
+    return Array.from(roots.values()).map(({ blocker, affected, points, depth }) => {
+      const external = !sprintKeys.has(blocker.issueKey);
+      const blockerSprint = knownIssues.get(blocker.issueKey)?.sprints?.find(sprint => sprint.state !== 'closed');
+      const location = external
+        ? blockerSprint ? `in ${blockerSprint.name}` : 'outside this sprint'
+        : 'in this sprint';
+      const chain = depth > 1 ? ` through a chain of ${depth} links` : '';
+
+      return {
+        location: blocker.issueKey,
+        type: 'DEPENDENCY' as const,
+        affectedIssues: Array.from(affected),
+        severity: Math.min(10, 3 + affected.size * 2 + (depth - 1) + (external ? 1 : 0)),
+        description: `${blocker.issueKey} (${blocker.status}, ${location}) blocks ${affected.size} sprint issue(s) worth ${points} story points${chain}.`,
+      };
+    });
+  }
+
+  /**
+   * Follow "is blocked by" links from an issue to its unresolved root blockers
+   * @param issue - Blocked issue
+   * @param knownIssues - Issues with link data, by key
+   * @returns Root blockers with the number of links to reach them
+   */
+  private findRootBlockers(
+    issue: IssueData,
+    knownIssues: Map<string, IssueData>
+  ): Array<{ blocker: IssueBlocker; depth: number }> {
+    const roots: Array<{ blocker: IssueBlocker; depth: number }> = [];
+    const visited = new Set<string>([issue.key]);
+    const queue = (issue.blockedBy || []).map(blocker => ({ blocker, depth: 1 }));
+
+    while (queue.length > 0) {
+      const { blocker, depth } = queue.shift()!;
+      if (visited.has(blocker.issueKey) || this.isResolvedBlocker(blocker)) {
+        continue;
+      }
+      visited.add(blocker.issueKey);
+
+      const unresolvedBlockers = (knownIssues.get(blocker.issueKey)?.blockedBy || [])
+        .filter(next => !this.isResolvedBlocker(next) && !visited.has(next.issueKey));
+
+      if (unresolvedBlockers.length === 0) {
+        roots.push({ blocker, depth });
+      } else {
+        queue.push(...unresolvedBlockers.map(next => ({ blocker: next, depth: depth + 1 })));
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Check whether a blocking issue is resolved
+   * @param blocker - Blocking issue
+   * @returns True if the blocker is done
+   */
+  private isResolvedBlocker(blocker: IssueBlocker): boolean {
+    return blocker.statusCategory
+      ? blocker.statusCategory === 'done'
+      : this.isCompletedStatus(blocker.status, blocker.issueKey);
+  }
+
+  /**
+   * Collect the cycle time of every completed issue (for forecasting)
+   * @param issues - Array of issues
+   * @returns Wall-clock cycle times in hours, excluding issues without a measurable cycle time
+   */
+  calculateCycleTimeSamples(issues: IssueData[]): number[] {
+    return this.getCompletedIssues(issues)
+      .map(issue => this.measureCycleTime(issue.statusTransitions, this.WALL_CLOCK, issue.key))
+      .filter(time => time > 0);
+  }
+
   /**
    * Calculate average cycle time for a set of issues
    * @param issues - Array of issues
@@ -242,7 +504,7 @@ export class MetricsCalculator {
       return 0;
     }
 
-    const cycleTimes = issues.map(issue => this.calculateCycleTime(issue.statusTransitions));
+    const cycleTimes = issues.map(issue => this.calculateCycleTime(issue.statusTransitions, issue.key));
     const validCycleTimes = cycleTimes.filter(time => time > 0);
 
     if (validCycleTimes.length === 0) {
@@ -293,10 +555,7 @@ export class MetricsCalculator {
       return 0;
     }
 
-    const createdTime = new Date(pr.createdAt).getTime();
-    const mergedTime = new Date(pr.mergedAt).getTime();
-
-    return (mergedTime - createdTime) / (1000 * 60 * 60);
+    return this.businessCalendar.hoursBetween(pr.createdAt, pr.mergedAt);
   }
 
   /**
@@ -309,10 +568,7 @@ export class MetricsCalculator {
       return 0;
     }
 
-    const createdTime = new Date(pr.createdAt).getTime();
-    const firstReviewTime = new Date(pr.firstReviewAt).getTime();
-
-    return (firstReviewTime - createdTime) / (1000 * 60 * 60);
+    return this.businessCalendar.hoursBetween(pr.createdAt, pr.firstReviewAt);
   }
 
   /**
@@ -321,7 +577,7 @@ export class MetricsCalculator {
    * @returns Filtered array of completed issues
    */
   private getCompletedIssues(issues: IssueData[]): IssueData[] {
-    return issues.filter(issue => this.isCompletedStatus(issue.status));
+    return issues.filter(issue => this.isCompletedStatus(issue.status, issue.key));
   }
 
   /**
@@ -330,22 +586,7 @@ export class MetricsCalculator {
    * @returns Filtered array of active issues
    */
   private getActiveIssues(issues: IssueData[]): IssueData[] {
-    return issues.filter(issue => this.isActiveStatus(issue.status));
-  }
-
-  /**
-   * Get carry-over issues (issues that existed before sprint start)
-   * @param issues - Array of issues
-   * @param sprint - Sprint data
-   * @returns Filtered array of carry-over issues
-   */
-  private getCarryOverIssues(issues: IssueData[], sprint: SprintData): IssueData[] {
-    const sprintStartTime = new Date(sprint.startDate).getTime();
-
-    return issues.filter(issue => {
-      const creationTime = this.getIssueCreationTime(issue);
-      return creationTime < sprintStartTime;
-    });
+    return issues.filter(issue => this.isActiveStatus(issue.status, issue.key));
   }
 
   /**
@@ -371,29 +612,28 @@ export class MetricsCalculator {
   /**
    * Check if a status is an active status
    * @param status - Status name
+   * @param issueKey - Key of the issue in that status
    * @returns True if active
    */
-  private isActiveStatus(status: string): boolean {
-    const normalized = status.toLowerCase();
-    return this.ACTIVE_STATUSES.some(activeStatus => 
-      normalized.includes(activeStatus)
-    );
+  private isActiveStatus(status: string, issueKey?: string): boolean {
+    return this.statusClassifier.isActive(status, issueKey);
   }
 
   /**
    * Check if a status is a completed status
    * @param status - Status name
+   * @param issueKey - Key of the issue in that status
    * @returns True if completed
    */
-  private isCompletedStatus(status: string): boolean {
-    const normalized = status.toLowerCase();
-    return this.COMPLETED_STATUSES.some(completedStatus => 
-      normalized.includes(completedStatus)
-    );
+  private isCompletedStatus(status: string, issueKey?: string): boolean {
+    return this.statusClassifier.isCompleted(status, issueKey);
   }
 
   /**
    * Calculate dwell time for each status across all issues
+   *
+   * Time in a status that the issue's project counts as done is left out, since
+   * finished work is not a bottleneck.
    * @param issues - Array of issues
    * @returns Map of status to dwell time data
    */
@@ -408,7 +648,11 @@ export class MetricsCalculator {
         const nextTransition = transitions[i + 1];
 
         const status = currentTransition.toStatus;
-        const dwellTime = (new Date(nextTransition.timestamp).getTime() - new Date(currentTransition.timestamp).getTime()) / (1000 * 60 * 60);
+        if (this.isCompletedStatus(status, issue.key)) {
+          continue;
+        }
+
+        const dwellTime = this.businessCalendar.hoursBetween(currentTransition.timestamp, nextTransition.timestamp);
 
         if (!dwellTimes.has(status)) {
           dwellTimes.set(status, { totalTime: 0, count: 0, issues: [] });
@@ -0,0 +1,324 @@
+import {
+  IssueData,
+  SprintData,
+  CompletionForecast,
+  IssueFinishForecast,
+} from '../types';
+import { StatusClassifier } from './StatusClassifier';
+
+// An in-progress issue with the time already spent on it
+interface InProgressWork {
+  index: number; // position in the remaining issues
+  elapsedHours: number;
+  firstLongerSample: number; // index of the first sample longer than elapsedHours, -1 if none
+}
+
+// Work of one assignee, or the unassigned work of the sprint
+interface WorkLane {
+  inProgress: InProgressWork[];
+  notStarted: number[]; // positions in the remaining issues, in queue order
+}
+
+/**
+ * MonteCarloForecaster - Probabilistic sprint completion forecasts
+ *
+ * This class provides methods to:
+ * - Simulate the remaining work of a sprint by sampling historical cycle times
+ * - Calculate the probability of finishing all remaining work by the sprint end date
+ * - Derive P50/P85/P95 completion dates
+ * - Calculate per-issue finish likelihoods
+ *
+ * Simulation model (per trial):
+ * - Work is grouped into one lane per assignee
+ * - In-progress issues run in parallel; their remaining time is sampled from
+ *   historical cycle times longer than the time already spent on them
+ * - Not-started issues run one after another once the lane's in-progress work is done
+ * - Unassigned not-started issues are picked up by whichever lane is free first
+ *   (a sprint with no assignees at all works as a single lane)
+ *
+ * Trials use a seeded random number generator so a sprint's forecast is reproducible.
+ */
+export class MonteCarloForecaster {
+  // Number of simulated trials per forecast
+  private readonly DEFAULT_TRIALS = 1000;
+
+  private readonly HOUR_MS = 60 * 60 * 1000;
+
+  private statusClassifier: StatusClassifier;
+
+  constructor(statusClassifier: StatusClassifier = new StatusClassifier()) {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Forecast sprint completion
+   * @param issues - Sprint issues
+   * @param sprint - Sprint data
+   * @param cycleTimeSamples - Historical per-issue cycle times in hours
+   * @param currentDate - Date to forecast from (defaults to now)
+   * @param trials - Number of simulated trials
+   * @param seed - Random seed (defaults to a hash of the sprint ID)
+   * @returns Completion forecast, or null without cycle time samples
+   */
+  forecast(
+    issues: IssueData[],
+    sprint: SprintData,
+    cycleTimeSamples: number[],
+    currentDate: Date = new Date(),
+    trials: number = this.DEFAULT_TRIALS,
+    seed: number = this.hashSeed(sprint.id)
+  ): CompletionForecast | null {
+    const samples = cycleTimeSamples.filter(sample => sample > 0).sort((a, b) => a - b);
+
+    if (samples.length === 0) {
+      return null;
+    }
+
+    const now = currentDate.getTime();
+    const sprintEnd = new Date(sprint.endDate).getTime();
+    const remaining = issues.filter(issue => !this.statusClassifier.isCompleted(issue.status, issue.key));
+    const trialCount = Math.max(1, Math.floor(trials));
+
+    if (remaining.length === 0) {
+      const completedAt = new Date(now).toISOString();
+      return {
+        trials: trialCount,
+        sampleSize: samples.length,
+        remainingIssues: 0,
+        completionProbability: 1,
+        p50CompletionDate: completedAt,
+        p85CompletionDate: completedAt,
+        p95CompletionDate: completedAt,
+        issues: [],
+      };
+    }
+
+    const { lanes, unassigned } = this.buildLanes(remaining, samples, now);
+    const random = this.createRandom(seed);
+
+    // Finish times per trial, indexed like `remaining`
+    const sprintFinishTimes = new Float64Array(trialCount);
+    const issueFinishTimes = remaining.map(() => new Float64Array(trialCount));
+
+    for (let trial = 0; trial < trialCount; trial++) {
+      let sprintFinish = now;
+      const laneFreeTimes: number[] = [];
+
+      for (const lane of lanes) {
+        let laneFree = now;
+
+        for (const work of lane.inProgress) {
+          const finish = now + this.sampleRemainingHours(samples, work, random) * this.HOUR_MS;
+          issueFinishTimes[work.index][trial] = finish;
+          laneFree = Math.max(laneFree, finish);
+        }
+
+        for (const index of lane.notStarted) {
+          laneFree += this.sample(samples, random) * this.HOUR_MS;
+          issueFinishTimes[index][trial] = laneFree;
+        }
+
+        laneFreeTimes.push(laneFree);
+      }
+
+      // Unassigned work already in progress finishes on its own
+      for (const work of unassigned.inProgress) {
+        const finish = now + this.sampleRemainingHours(samples, work, random) * this.HOUR_MS;
+        issueFinishTimes[work.index][trial] = finish;
+        sprintFinish = Math.max(sprintFinish, finish);
+      }
+
+      if (laneFreeTimes.length === 0) {
+        laneFreeTimes.push(now);
+      }
+
+      for (const index of unassigned.notStarted) {
+        const lane = laneFreeTimes.indexOf(Math.min(...laneFreeTimes));
+        laneFreeTimes[lane] += this.sample(samples, random) * this.HOUR_MS;
+        issueFinishTimes[index][trial] = laneFreeTimes[lane];
+      }
+
+      sprintFinishTimes[trial] = Math.max(sprintFinish, ...laneFreeTimes);
+    }
+
+    const issueForecasts: IssueFinishForecast[] = remaining.map((issue, index) => {
+      const finishTimes = issueFinishTimes[index].sort();
+      return {
+        issueKey: issue.key,
+        finishProbability: this.probabilityBy(finishTimes, sprintEnd),
+        p85FinishDate: new Date(this.percentile(finishTimes, 85)).toISOString(),
+      };
+    });
+
+    sprintFinishTimes.sort();
+
+    // Least likely to finish first
+    issueForecasts.sort((a, b) => a.finishProbability - b.finishProbability);
+
+    return {
+      trials: trialCount,
+      sampleSize: samples.length,
+      remainingIssues: remaining.length,
+      completionProbability: this.probabilityBy(sprintFinishTimes, sprintEnd),
+      p50CompletionDate: new Date(this.percentile(sprintFinishTimes, 50)).toISOString(),
+      p85CompletionDate: new Date(this.percentile(sprintFinishTimes, 85)).toISOString(),
+      p95CompletionDate: new Date(this.percentile(sprintFinishTimes, 95)).toISOString(),
+      issues: issueForecasts,
+    };
+  }
+
+  /**
+   * Group remaining issues into one lane per assignee
+   * @param issues - Remaining issues
+   * @param samples - Sorted cycle time samples
+   * @param now - Current time in milliseconds
+   * @returns Assignee lanes and the unassigned work, with in-progress work and queued issue indexes
+   */
+  private buildLanes(
+    issues: IssueData[],
+    samples: number[],
+    now: number
+  ): { lanes: WorkLane[]; unassigned: WorkLane } {
+    const lanes = new Map<string, WorkLane>();
+    const unassigned: WorkLane = { inProgress: [], notStarted: [] };
+
+    issues.forEach((issue, index) => {
+      if (issue.assignee && !lanes.has(issue.assignee)) {
+        lanes.set(issue.assignee, { inProgress: [], notStarted: [] });
+      }
+
+      const lane = issue.assignee ? lanes.get(issue.assignee)! : unassigned;
+      if (this.statusClassifier.isActive(issue.status, issue.key)) {
+        const elapsedHours = this.getElapsedHours(issue, now);
+        lane.inProgress.push({
+          index,
+          elapsedHours,
+          firstLongerSample: samples.findIndex(sample => sample > elapsedHours),
+        });
+      } else {
+        lane.notStarted.push(index);
+      }
+    });
+
+    return { lanes: Array.from(lanes.values()), unassigned };
+  }
+
+  /**
+   * Calculate hours since an issue first entered an in-progress status
+   * @param issue - Issue data
+   * @param now - Current time in milliseconds
+   * @returns Elapsed hours (0 if unknown)
+   */
+  private getElapsedHours(issue: IssueData, now: number): number {
+    const startTransition = issue.statusTransitions.find(t =>
+      this.statusClassifier.isActive(t.toStatus, issue.key)
+    );
+
+    if (!startTransition) {
+      return 0;
+    }
+
+    return Math.max(0, (now - new Date(startTransition.timestamp).getTime()) / this.HOUR_MS);
+  }
+
+  /**
+   * Sample the remaining hours of an in-progress issue
+   *
+   * Samples are drawn from historical cycle times longer than the elapsed time.
+   * Issues that have already run longer than every historical sample are
+   * treated as restarting with a typical cycle time.
+   * @param samples - Sorted cycle time samples
+   * @param work - In-progress work item
+   * @param random - Random number generator
+   * @returns Remaining hours
+   */
+  private sampleRemainingHours(
+    samples: number[],
+    work: InProgressWork,
+    random: () => number
+  ): number {
+    if (work.firstLongerSample === -1) {
+      return this.sample(samples, random);
+    }
+
+    const index = work.firstLongerSample +
+      Math.floor(random() * (samples.length - work.firstLongerSample));
+    return samples[index] - work.elapsedHours;
+  }
+
+  /**
+   * Draw a random cycle time sample
+   * @param samples - Cycle time samples
+   * @param random - Random number generator
+   * @returns Sampled hours
+   */
+  private sample(samples: number[], random: () => number): number {
+    return samples[Math.floor(random() * samples.length)];
+  }
+
+  /**
+   * Calculate the share of values at or before a deadline
+   * @param sorted - Finish times in milliseconds, sorted ascending
+   * @param deadline - Deadline in milliseconds
+   * @returns Probability (0-1)
+   */
+  private probabilityBy(sorted: Float64Array, deadline: number): number {
+    let count = 0;
+    while (count < sorted.length && sorted[count] <= deadline) {
+      count++;
+    }
+
+    return sorted.length > 0 ? count / sorted.length : 0;
+  }
+
+  /**
+   * Calculate a percentile using the nearest-rank method
+   * @param sorted - Values sorted ascending
+   * @param percentile - Percentile (0-100)
+   * @returns Value at the percentile
+   */
+  private percentile(sorted: Float64Array, percentile: number): number {
+    const rank = Math.ceil((percentile / 100) * sorted.length);
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+  }
+
+  /**
+   * Create a seeded random number generator (mulberry32)
+   * @param seed - Seed value
+   * @returns Function returning values in [0, 1)
+   */
+  private createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Derive a numeric seed from a string
+   * @param value - String value (e.g. sprint ID)
+   * @returns 32-bit seed
+   */
+  private hashSeed(value: string): number {
+    let hash = 0;
+
+    for (let i = 0; i < value.length; i++) {
+      hash = (Math.imul(hash, 31) + value.charCodeAt(i)) >>> 0;
+    }
+
+    return hash;
+  }
+}
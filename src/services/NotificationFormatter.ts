@@ -0,0 +1,158 @@
+import { RiskEscalation, WebhookFormat } from '../types';
+
+/**
+ * NotificationFormatter - Formats risk escalations as chat messages
+ *
+ * This class provides methods to:
+ * - Format an escalation as a Slack Block Kit message
+ * - Format an escalation as a Teams Adaptive Card message
+ *
+ * Both formats show the risk change, the most severe risk factors and when
+ * the escalation was detected.
+ */
+export class NotificationFormatter {
+  // Risk factors listed in a message
+  private readonly MAX_FACTORS = 3;
+
+  /**
+   * Format an escalation for a webhook
+   * @param escalation - Risk escalation
+   * @param format - Webhook format
+   * @returns Message payload (to be sent as JSON)
+   */
+  format(escalation: RiskEscalation, format: WebhookFormat): object {
+    return format === 'teams' ? this.formatTeams(escalation) : this.formatSlack(escalation);
+  }
+
+  /**
+   * Format an escalation as a Slack Block Kit message
+   * @param escalation - Risk escalation
+   * @returns Slack message with a plain text fallback
+   */
+  formatSlack(escalation: RiskEscalation): object {
+    const factors = this.describeFactors(escalation);
+
+    const blocks: object[] = [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: this.title(escalation) },
+      },
+      {
+        type: 'section',
+        fields: [
+          { type: 'mrkdwn', text: `*Risk*\n${this.escapeSlack(this.describeChange(escalation))}` },
+          { type: 'mrkdwn', text: `*Board*\n${this.escapeSlack(escalation.boardId)}` },
+        ],
+      },
+    ];
+
+    if (factors.length > 0) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Top risk factors*\n${factors.map(factor => `• ${this.escapeSlack(factor)}`).join('\n')}`,
+        },
+      });
+    }
+
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `Detected ${this.escapeSlack(escalation.detectedAt)}` }],
+    });
+
+    return {
+      text: `${this.title(escalation)}: ${this.describeChange(escalation)}`,
+      blocks,
+    };
+  }
+
+  /**
+   * Format an escalation as a Teams Adaptive Card message
+   * @param escalation - Risk escalation
+   * @returns Teams message with one Adaptive Card attachment
+   */
+  formatTeams(escalation: RiskEscalation): object {
+    const factors = this.describeFactors(escalation);
+
+    const body: object[] = [
+      {
+        type: 'TextBlock',
+        size: 'Large',
+        weight: 'Bolder',
+        color: escalation.level === 'High' ? 'Attention' : 'Warning',
+        text: this.title(escalation),
+        wrap: true,
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Risk', value: this.describeChange(escalation) },
+          { title: 'Board', value: escalation.boardId },
+        ],
+      },
+    ];
+
+    if (factors.length > 0) {
+      body.push(
+        { type: 'TextBlock', text: 'Top risk factors', weight: 'Bolder' },
+        { type: 'TextBlock', text: factors.map(factor => `- ${factor}`).join('\n'), wrap: true }
+      );
+    }
+
+    body.push({ type: 'TextBlock', text: `Detected ${escalation.detectedAt}`, isSubtle: true, size: 'Small' });
+
+    return {
+      type: 'message',
+      attachments: [
+        {
+          contentType: 'application/vnd.microsoft.card.adaptive',
+          contentUrl: null,
+          content: {
+            $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+            type: 'AdaptiveCard',
+            version: '1.4',
+            body,
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Message title, e.g. "Sprint 5 is now High risk"
+   */
+  private title(escalation: RiskEscalation): string {
+    return escalation.previousLevel
+      ? `${escalation.sprintName} is now ${escalation.level} risk`
+      : `${escalation.sprintName} is ${escalation.level} risk`;
+  }
+
+  /**
+   * Risk change with scores, e.g. "Medium (40) to High (72)"
+   */
+  private describeChange(escalation: RiskEscalation): string {
+    const withScore = (level: string, score: number | null) => (score !== null ? `${level} (${score})` : level);
+    const current = withScore(escalation.level, escalation.score);
+
+    return escalation.previousLevel
+      ? `${withScore(escalation.previousLevel, escalation.previousScore)} to ${current}`
+      : current;
+  }
+
+  /**
+   * The most severe risk factors with their severity
+   */
+  private describeFactors(escalation: RiskEscalation): string[] {
+    return escalation.factors
+      .slice(0, this.MAX_FACTORS)
+      .map(factor => `${factor.description} (severity ${factor.severity}/10)`);
+  }
+
+  /**
+   * Escape the characters Slack treats as control sequences in mrkdwn
+   */
+  private escapeSlack(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,378 @@
+import { fetch } from '@forge/api';
+import {
+  RiskLevel,
+  RiskSnapshot,
+  SprintReport,
+  NotificationSettings,
+  NotificationDelivery,
+  DeferredNotification,
+  QuietHours,
+  RiskEscalation,
+  WebhookPoster,
+  WebhookFormat,
+} from '../types';
+import { StorageService } from './StorageService';
+import { NotificationFormatter } from './NotificationFormatter';
+
+/**
+ * NotificationService - Webhook notifications when a sprint's risk escalates
+ *
+ * This class provides methods to:
+ * - Detect a rising risk level by comparing an analysis with the previous snapshot
+ * - Post Slack or Teams messages to the board's subscribed incoming webhooks
+ * - Hold notifications back during quiet hours and send them on a later run
+ * - Skip notifications already sent for the same sprint and level recently
+ * - Validate notification settings
+ */
+export class NotificationService {
+  private readonly LEVEL_RANK: Record<RiskLevel, number> = { Low: 0, Medium: 1, High: 2 };
+  private readonly FORMATS: WebhookFormat[] = ['slack', 'teams'];
+
+  // A notification for the same sprint, level and webhook is sent at most once in this window
+  private readonly DEDUPE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+  // Webhook hosts the app may call (must match external.fetch.backend in manifest.yml)
+  private readonly WEBHOOK_HOSTS = [
+    /^hooks\.slack\.com$/,
+    /\.webhook\.office\.com$/,
+    /\.logic\.azure\.com$/,
+    /\.environment\.api\.powerplatform\.com$/,
+  ];
+
+  private readonly TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+  private storageService: StorageService;
+  private formatter: NotificationFormatter;
+  private post: WebhookPoster;
+
+  /**
+   * @param storageService - Storage for settings, the delivery log and deferred notifications
+   * @param poster - Sends webhook requests (defaults to Forge fetch)
+   */
+  constructor(storageService: StorageService = new StorageService(), poster?: WebhookPoster) {
+    this.storageService = storageService;
+    this.formatter = new NotificationFormatter();
+    this.post = poster || ((url, body) => this.postWithForge(url, body));
+  }
+
+  /**
+   * Detect whether a sprint's risk level rose since the previous analysis
+   *
+   * A sprint's first analysis is compared with Low risk, so it only notifies
+   * when the sprint already starts out at Medium or High risk.
+   * @param boardId - Board the sprint was analyzed on
+   * @param sprint - Analyzed sprint
+   * @param previous - Previous risk snapshot (null on the first analysis)
+   * @param report - New sprint report
+   * @param now - Detection time
+   * @returns Risk escalation, or null if the level did not rise
+   */
+  detectEscalation(
+    boardId: string,
+    sprint: { id: string; name: string },
+    previous: RiskSnapshot | null,
+    report: SprintReport,
+    now: Date = new Date()
+  ): RiskEscalation | null {
+    const level = report.riskAssessment.level;
+    const previousRank = previous ? this.LEVEL_RANK[previous.level] : this.LEVEL_RANK.Low;
+    if (this.LEVEL_RANK[level] <= previousRank) {
+      return null;
+    }
+
+    return {
+      boardId,
+      sprintId: sprint.id,
+      sprintName: sprint.name,
+      previousLevel: previous ? previous.level : null,
+      previousScore: previous ? previous.score : null,
+      level,
+      score: report.riskAssessment.score ?? null,
+      factors: [...(report.riskAssessment.factors || [])]
+        .sort((a, b) => b.severity - a.severity)
+        .map(factor => ({ category: factor.category, severity: factor.severity, description: factor.description })),
+      detectedAt: now.toISOString(),
+    };
+  }
+
+  /**
+   * Notify a board's subscribers if a sprint's risk escalated
+   * @param boardId - Board the sprint was analyzed on
+   * @param sprint - Analyzed sprint
+   * @param previous - Previous risk snapshot (null on the first analysis)
+   * @param report - New sprint report
+   * @param now - Current time
+   * @returns Deliveries, one per subscriber whose level was reached
+   */
+  async notifyRiskChange(
+    boardId: string,
+    sprint: { id: string; name: string },
+    previous: RiskSnapshot | null,
+    report: SprintReport,
+    now: Date = new Date()
+  ): Promise<NotificationDelivery[]> {
+    const settings = await this.storageService.getNotificationSettings(boardId);
+    if (!settings || settings.subscriptions.length === 0) {
+      return [];
+    }
+
+    const escalation = this.detectEscalation(boardId, sprint, previous, report, now);
+    if (!escalation) {
+      return [];
+    }
+
+    const notifications: DeferredNotification[] = settings.subscriptions
+      .filter(subscription => this.LEVEL_RANK[escalation.level] >= this.LEVEL_RANK[subscription.minLevel])
+      .map(subscription => ({ subscriptionId: subscription.id, escalation }));
+
+    if (notifications.length === 0) {
+      return [];
+    }
+
+    if (this.isQuietTime(settings.quietHours, now)) {
+      return this.defer(boardId, notifications, now);
+    }
+
+    return this.deliver(boardId, settings, notifications, now);
+  }
+
+  /**
+   * Send the notifications held back by quiet hours, unless it is still quiet time
+   * @param boardId - Board ID
+   * @param now - Current time
+   * @returns Deliveries of the sent notifications
+   */
+  async flushDeferred(boardId: string, now: Date = new Date()): Promise<NotificationDelivery[]> {
+    const deferred = await this.storageService.getDeferredNotifications(boardId);
+    if (deferred.length === 0) {
+      return [];
+    }
+
+    const settings = await this.storageService.getNotificationSettings(boardId);
+    if (settings && this.isQuietTime(settings.quietHours, now)) {
+      return [];
+    }
+
+    await this.storageService.saveDeferredNotifications(boardId, []);
+    return settings ? this.deliver(boardId, settings, deferred, now) : [];
+  }
+
+  /**
+   * Check whether a time falls within quiet hours
+   * @param quietHours - Quiet hours (undefined means never quiet)
+   * @param now - Time to check
+   * @returns True during quiet hours
+   */
+  isQuietTime(quietHours: QuietHours | undefined, now: Date): boolean {
+    if (!quietHours) {
+      return false;
+    }
+
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: quietHours.timezone,
+      hourCycle: 'h23',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(now);
+    const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+
+    const minutes = value('hour') * 60 + value('minute');
+    const start = this.parseMinutes(quietHours.start);
+    const end = this.parseMinutes(quietHours.end);
+
+    // Quiet hours may run overnight, e.g. 20:00 to 08:00
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  /**
+   * Validate notification settings
+   * @param settings - Settings to validate
+   * @returns Validation errors (empty if valid)
+   */
+  validateSettings(settings: NotificationSettings): string[] {
+    const errors: string[] = [];
+
+    if (!Array.isArray(settings.subscriptions)) {
+      return ['subscriptions must be a list'];
+    }
+
+    const ids = new Set<string>();
+    settings.subscriptions.forEach((subscription, index) => {
+      const label = `subscriptions[${index}]`;
+
+      if (!subscription.id) {
+        errors.push(`${label}.id is required`);
+      } else if (ids.has(subscription.id)) {
+        errors.push(`${label}.id ${subscription.id} is used more than once`);
+      } else {
+        ids.add(subscription.id);
+      }
+
+      if (!this.FORMATS.includes(subscription.format)) {
+        errors.push(`${label}.format must be slack or teams`);
+      }
+
+      if (!(subscription.minLevel in this.LEVEL_RANK)) {
+        errors.push(`${label}.minLevel must be Low, Medium or High`);
+      }
+
+      if (!this.isAllowedWebhookUrl(subscription.url)) {
+        errors.push(`${label}.url must be an https Slack or Teams incoming webhook URL`);
+      }
+    });
+
+    if (settings.quietHours) {
+      const { timezone, start, end } = settings.quietHours;
+
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      } catch {
+        errors.push(`Unknown time zone: ${timezone}`);
+      }
+
+      if (!this.TIME_PATTERN.test(start || '') || !this.TIME_PATTERN.test(end || '')) {
+        errors.push('quietHours start and end must be HH:mm');
+      } else if (start === end) {
+        errors.push('quietHours start and end must differ');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Queue notifications until quiet hours end
+   * A newer escalation of the same sprint replaces a queued one for the same webhook.
+   */
+  private async defer(
+    boardId: string,
+    notifications: DeferredNotification[],
+    now: Date
+  ): Promise<NotificationDelivery[]> {
+    const queued = await this.storageService.getDeferredNotifications(boardId);
+    const isReplaced = (entry: DeferredNotification) => notifications.some(notification =>
+      notification.subscriptionId === entry.subscriptionId &&
+      notification.escalation.sprintId === entry.escalation.sprintId
+    );
+
+    await this.storageService.saveDeferredNotifications(boardId, [
+      ...queued.filter(entry => !isReplaced(entry)),
+      ...notifications,
+    ]);
+
+    const deliveries = notifications.map(notification =>
+      this.delivery(notification, 'deferred', now)
+    );
+    await this.storageService.recordNotificationDeliveries(boardId, deliveries);
+
+    return deliveries;
+  }
+
+  /**
+   * Post notifications to their webhooks, skipping recent duplicates
+   */
+  private async deliver(
+    boardId: string,
+    settings: NotificationSettings,
+    notifications: DeferredNotification[],
+    now: Date
+  ): Promise<NotificationDelivery[]> {
+    const log = await this.storageService.getNotificationLog(boardId);
+    const deliveries: NotificationDelivery[] = [];
+
+    for (const notification of notifications) {
+      const subscription = settings.subscriptions.find(s => s.id === notification.subscriptionId);
+      if (!subscription) {
+        continue; // unsubscribed while the notification was deferred
+      }
+
+      if (this.isDuplicate(log, notification, now)) {
+        deliveries.push(this.delivery(notification, 'duplicate', now));
+        continue;
+      }
+
+      try {
+        const body = JSON.stringify(this.formatter.format(notification.escalation, subscription.format));
+        const response = await this.post(subscription.url, body);
+
+        deliveries.push(response.ok
+          ? this.delivery(notification, 'sent', now)
+          : { ...this.delivery(notification, 'failed', now), error: `Webhook responded with ${response.status}` });
+      } catch (error) {
+        console.error(`Error posting notification to subscription ${subscription.id}:`, error);
+        deliveries.push({
+          ...this.delivery(notification, 'failed', now),
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await this.storageService.recordNotificationDeliveries(boardId, deliveries);
+    return deliveries;
+  }
+
+  /**
+   * Whether the same sprint and level was sent to the same webhook recently
+   */
+  private isDuplicate(log: NotificationDelivery[], notification: DeferredNotification, now: Date): boolean {
+    return log.some(entry =>
+      entry.status === 'sent' &&
+      entry.subscriptionId === notification.subscriptionId &&
+      entry.sprintId === notification.escalation.sprintId &&
+      entry.level === notification.escalation.level &&
+      now.getTime() - new Date(entry.at).getTime() < this.DEDUPE_WINDOW_MS
+    );
+  }
+
+  /**
+   * Delivery record of a notification
+   */
+  private delivery(
+    notification: DeferredNotification,
+    status: NotificationDelivery['status'],
+    now: Date
+  ): NotificationDelivery {
+    return {
+      subscriptionId: notification.subscriptionId,
+      sprintId: notification.escalation.sprintId,
+      level: notification.escalation.level,
+      status,
+      at: now.toISOString(),
+    };
+  }
+
+  /**
+   * Whether a URL is an https webhook on an allowed host
+   */
+  private isAllowedWebhookUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'https:' && this.WEBHOOK_HOSTS.some(host => host.test(parsed.hostname));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Post a JSON body with Forge fetch
+   */
+  private async postWithForge(url: string, body: string): Promise<{ ok: boolean; status: number }> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+
+    return { ok: response.ok, status: response.status };
+  }
+
+  /**
+   * Parse an HH:mm time into minutes after midnight
+   */
+  private parseMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  MonitoredBoard,
+  SprintData,
+  SprintReport,
+  PortfolioBoardSummary,
+  PortfolioReport,
+} from '../types';
+import { AnalysisOrchestrator } from './AnalysisOrchestrator';
+import { JiraDataCollector } from './JiraDataCollector';
+
+/**
+ * PortfolioAnalyzer - Compares the active sprints of several boards
+ *
+ * This class provides methods to:
+ * - Analyze the active sprint of every given board, a few boards at a time
+ * - Summarize each sprint report as one row of a comparative table
+ * - Rank boards by risk
+ *
+ * Each board is analyzed by its own orchestrator, since an orchestrator
+ * configures its engines for the board it is analyzing. Cached reports are
+ * reused unless a refresh is forced.
+ */
+export class PortfolioAnalyzer {
+  // Boards analyzed at once; every analysis makes many Jira requests
+  private readonly CONCURRENCY = 3;
+
+  private readonly RISK_ORDER = { High: 0, Medium: 1, Low: 2 };
+  private readonly STATUS_ORDER = { analyzed: 0, failed: 1, 'no-active-sprint': 2 };
+
+  private createOrchestrator: () => AnalysisOrchestrator;
+  private jiraCollector: JiraDataCollector;
+
+  constructor(
+    createOrchestrator: () => AnalysisOrchestrator = () => new AnalysisOrchestrator(),
+    jiraCollector: JiraDataCollector = new JiraDataCollector()
+  ) {
+    this.createOrchestrator = createOrchestrator;
+    this.jiraCollector = jiraCollector;
+  }
+
+  /**
+   * Analyze the active sprint of every board
+   * @param boards - Boards to compare
+   * @param forceRefresh - Re-analyze sprints that have a cached report
+   * @returns Portfolio report, highest risk first
+   */
+  async analyzePortfolio(
+    boards: MonitoredBoard[],
+    forceRefresh: boolean = false
+  ): Promise<PortfolioReport> {
+    console.log(`Analyzing portfolio of ${boards.length} boards`);
+
+    const summaries: PortfolioBoardSummary[] = new Array(boards.length);
+    let next = 0;
+
+    // Workers take the next board until none are left
+    const worker = async () => {
+      while (next < boards.length) {
+        const index = next++;
+        summaries[index] = await this.analyzeBoard(boards[index], forceRefresh);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.CONCURRENCY, boards.length) }, worker)
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      boards: this.rankBoards(summaries),
+    };
+  }
+
+  /**
+   * Analyze the active sprint of one board
+   * @param board - Board to analyze
+   * @param forceRefresh - Re-analyze a sprint that has a cached report
+   * @returns Portfolio row for the board
+   */
+  private async analyzeBoard(
+    board: MonitoredBoard,
+    forceRefresh: boolean
+  ): Promise<PortfolioBoardSummary> {
+    const base = { boardId: board.boardId, boardName: board.name };
+
+    try {
+      const sprint = await this.jiraCollector.getActiveSprint(board.boardId);
+
+      if (!sprint) {
+        return { ...base, status: 'no-active-sprint' };
+      }
+
+      const report = await this.createOrchestrator().analyzeSprint(
+        sprint.id,
+        board.boardId,
+        forceRefresh
+      );
+
+      if (report.error) {
+        return { ...base, status: 'failed', sprintId: sprint.id, sprintName: sprint.name, error: report.error };
+      }
+
+      return this.summarizeReport(board, sprint, report);
+    } catch (error) {
+      console.error(`Portfolio analysis failed for board ${board.boardId}:`, error);
+      return {
+        ...base,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Summarize a sprint report as a portfolio row
+   * @param board - Board the sprint belongs to
+   * @param sprint - Active sprint
+   * @param report - Sprint report
+   * @returns Portfolio row
+   */
+  summarizeReport(
+    board: MonitoredBoard,
+    sprint: SprintData,
+    report: SprintReport
+  ): PortfolioBoardSummary {
+    const velocity = report.metrics.sprint.velocity;
+    const trend = report.historicalTrend?.velocity;
+    const trendVelocity = trend && trend.sampleSize > 0 ? trend.median : null;
+
+    return {
+      boardId: board.boardId,
+      boardName: board.name,
+      status: 'analyzed',
+      sprintId: sprint.id,
+      sprintName: sprint.name,
+      riskLevel: report.riskAssessment.level,
+      riskScore: report.riskAssessment.score,
+      completionRate: report.metrics.sprint.completionRate,
+      velocity,
+      trendVelocity,
+      velocityChange: trendVelocity ? ((velocity - trendVelocity) / trendVelocity) * 100 : null,
+      topRiskFactor: report.riskAssessment.factors?.[0] || null,
+      reportGeneratedAt: report.generatedAt,
+    };
+  }
+
+  /**
+   * Rank boards: analyzed sprints by risk, then failed boards, then boards without an active sprint
+   * @param summaries - Portfolio rows
+   * @returns Ranked rows
+   */
+  private rankBoards(summaries: PortfolioBoardSummary[]): PortfolioBoardSummary[] {
+    return [...summaries].sort((a, b) =>
+      this.STATUS_ORDER[a.status] - this.STATUS_ORDER[b.status] ||
+      (a.riskLevel && b.riskLevel ? this.RISK_ORDER[a.riskLevel] - this.RISK_ORDER[b.riskLevel] : 0) ||
+      (b.riskScore || 0) - (a.riskScore || 0) ||
+      a.boardName.localeCompare(b.boardName)
+    );
+  }
+}
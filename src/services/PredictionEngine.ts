@@ -4,6 +4,8 @@ import {
   SpilloverPrediction,
   SprintMetrics,
 } from '../types';
+import { StatusClassifier } from './StatusClassifier';
+import { BusinessCalendar } from './BusinessCalendar';
 
 /**
  * PredictionEngine - Engine for predicting task spillover
@@ -18,33 +20,37 @@ import {
  * Requirements: 3.3
  */
 export class PredictionEngine {
-  // Status categories for prediction logic
-  private readonly NOT_STARTED_STATUSES = [
-    'to do',
-    'backlog',
-    'open',
-    'new',
-  ];
-
-  private readonly IN_PROGRESS_STATUSES = [
-    'in progress',
-    'in development',
-    'in review',
-    'code review',
-    'testing',
-    'qa',
-    'ready for review',
-  ];
-
-  private readonly COMPLETED_STATUSES = [
-    'done',
-    'closed',
-    'resolved',
-    'completed',
-  ];
-
   // Default hours per story point (used when no historical data available)
   private readonly DEFAULT_HOURS_PER_STORY_POINT = 8;
+  // Working hours assumed per remaining sprint day when no team calendar is set
+  private readonly WORKING_HOURS_PER_DAY = 8;
+
+  private statusClassifier: StatusClassifier;
+  private businessCalendar: BusinessCalendar;
+
+  constructor(
+    statusClassifier: StatusClassifier = new StatusClassifier(),
+    businessCalendar: BusinessCalendar = new BusinessCalendar()
+  ) {
+    this.statusClassifier = statusClassifier;
+    this.businessCalendar = businessCalendar;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the business calendar (e.g. with the board's team calendar)
+   * @param businessCalendar - Business calendar to use for all durations
+   */
+  setBusinessCalendar(businessCalendar: BusinessCalendar): void {
+    this.businessCalendar = businessCalendar;
+  }
 
   /**
    * Predict which issues are likely to spill over into the next sprint
@@ -63,7 +69,7 @@ export class PredictionEngine {
     const predictions: SpilloverPrediction[] = [];
 
     // Only predict for non-completed issues
-    const activeIssues = issues.filter(issue => !this.isCompletedStatus(issue.status));
+    const activeIssues = issues.filter(issue => !this.isCompletedStatus(issue.status, issue.key));
 
     // Calculate days remaining in sprint
     const daysRemaining = this.calculateDaysRemaining(sprint, currentDate);
@@ -79,13 +85,15 @@ export class PredictionEngine {
 
     // Calculate hours per story point from historical data
     const hoursPerStoryPoint = this.calculateHoursPerStoryPoint(sprintMetrics);
+    const hoursRemaining = this.calculateWorkingHoursRemaining(sprint, currentDate, daysRemaining);
 
     for (const issue of activeIssues) {
       const prediction = this.calculateCompletionProbability(
         issue,
-        daysRemaining,
+        hoursRemaining,
         hoursPerStoryPoint,
-        sprintMetrics
+        sprintMetrics,
+        currentDate
       );
 
       // Only include predictions with spillover risk (probability < 0.5 means likely to spill over)
@@ -118,6 +126,25 @@ export class PredictionEngine {
     return diffDays;
   }
 
+  /**
+   * Calculate working hours left in the sprint
+   * @param sprint - Sprint data
+   * @param currentDate - Current date
+   * @param daysRemaining - Days remaining in sprint
+   * @returns Business hours until the sprint end with a team calendar, otherwise 8 hours per day
+   */
+  private calculateWorkingHoursRemaining(
+    sprint: SprintData,
+    currentDate: Date,
+    daysRemaining: number
+  ): number {
+    if (this.businessCalendar.mode === 'business-hours') {
+      return this.businessCalendar.hoursBetween(currentDate, sprint.endDate);
+    }
+
+    return daysRemaining * this.WORKING_HOURS_PER_DAY;
+  }
+
   /**
    * Calculate hours per story point from sprint metrics
    * @param sprintMetrics - Sprint metrics with velocity and cycle time
@@ -141,55 +168,57 @@ export class PredictionEngine {
   /**
    * Calculate completion probability for an issue
    * @param issue - Issue data
-   * @param daysRemaining - Days remaining in sprint
+   * @param hoursRemaining - Working hours remaining in sprint
    * @param hoursPerStoryPoint - Estimated hours per story point
    * @param sprintMetrics - Optional sprint metrics
+   * @param currentDate - Current date
    * @returns Completion probability (0-1) and reasoning
    */
   private calculateCompletionProbability(
     issue: IssueData,
-    daysRemaining: number,
+    hoursRemaining: number,
     hoursPerStoryPoint: number,
-    sprintMetrics?: SprintMetrics
+    sprintMetrics: SprintMetrics | undefined,
+    currentDate: Date
   ): { probability: number; reasons: string[] } {
     const reasons: string[] = [];
+    const unit = this.businessCalendar.unitLabel;
     let probability = 0.5; // Start with neutral probability
 
     // Factor 1: Story points and time estimation
     const storyPoints = issue.storyPoints || 3; // Default to 3 if not set
     const estimatedHoursNeeded = storyPoints * hoursPerStoryPoint;
-    const hoursRemaining = daysRemaining * 8; // Assume 8 working hours per day
 
     if (estimatedHoursNeeded <= hoursRemaining * 0.5) {
       // Plenty of time
       probability += 0.3;
-      reasons.push(`Estimated ${estimatedHoursNeeded.toFixed(0)}h needed vs ${hoursRemaining.toFixed(0)}h remaining`);
+      reasons.push(`Estimated ${estimatedHoursNeeded.toFixed(0)} ${unit} needed vs ${hoursRemaining.toFixed(0)} ${unit} remaining`);
     } else if (estimatedHoursNeeded <= hoursRemaining) {
       // Tight but feasible
       probability += 0.1;
-      reasons.push(`Tight timeline: ${estimatedHoursNeeded.toFixed(0)}h needed vs ${hoursRemaining.toFixed(0)}h remaining`);
+      reasons.push(`Tight timeline: ${estimatedHoursNeeded.toFixed(0)} ${unit} needed vs ${hoursRemaining.toFixed(0)} ${unit} remaining`);
     } else {
       // Not enough time
       probability -= 0.3;
-      reasons.push(`Insufficient time: ${estimatedHoursNeeded.toFixed(0)}h needed vs ${hoursRemaining.toFixed(0)}h remaining`);
+      reasons.push(`Insufficient time: ${estimatedHoursNeeded.toFixed(0)} ${unit} needed vs ${hoursRemaining.toFixed(0)} ${unit} remaining`);
     }
 
     // Factor 2: Current status
-    if (this.isNotStartedStatus(issue.status)) {
+    if (this.isNotStartedStatus(issue.status, issue.key)) {
       probability -= 0.2;
       reasons.push(`Issue not yet started (status: ${issue.status})`);
-    } else if (this.isInProgressStatus(issue.status)) {
+    } else if (this.isInProgressStatus(issue.status, issue.key)) {
       // Check how long it's been in progress
-      const timeInProgress = this.calculateTimeInCurrentStatus(issue);
+      const timeInProgress = this.calculateTimeInCurrentStatus(issue, currentDate);
       const avgCycleTime = sprintMetrics?.cycleTime || hoursPerStoryPoint * storyPoints;
 
       if (timeInProgress > avgCycleTime * 0.7) {
         // Been in progress for a while, likely to complete
         probability += 0.2;
-        reasons.push(`Issue in progress for ${timeInProgress.toFixed(0)}h (${((timeInProgress / avgCycleTime) * 100).toFixed(0)}% of avg cycle time)`);
+        reasons.push(`Issue in progress for ${timeInProgress.toFixed(0)} ${unit} (${((timeInProgress / avgCycleTime) * 100).toFixed(0)}% of avg cycle time)`);
       } else {
         probability += 0.1;
-        reasons.push(`Issue recently started (${timeInProgress.toFixed(0)}h in progress)`);
+        reasons.push(`Issue recently started (${timeInProgress.toFixed(0)} ${unit} in progress)`);
       }
     }
 
@@ -198,7 +227,7 @@ export class PredictionEngine {
     if (statusDwellTime > hoursPerStoryPoint * 2) {
       // Issue has been stuck in statuses for too long
       probability -= 0.15;
-      reasons.push(`High status dwell time (${statusDwellTime.toFixed(0)}h average per status)`);
+      reasons.push(`High status dwell time (${statusDwellTime.toFixed(0)} ${unit} average per status)`);
     }
 
     // Factor 4: Complexity (high story points)
@@ -231,16 +260,17 @@ export class PredictionEngine {
   /**
    * Calculate time spent in current status
    * @param issue - Issue data
+   * @param currentDate - Current date
    * @returns Hours in current status
    */
-  private calculateTimeInCurrentStatus(issue: IssueData): number {
+  private calculateTimeInCurrentStatus(issue: IssueData, currentDate: Date): number {
     if (issue.statusTransitions.length === 0) {
       return 0;
     }
 
     // Find the most recent transition to current status
     const currentStatus = issue.status;
-    const lastTransition = issue.statusTransitions
+    const lastTransition = [...issue.statusTransitions]
       .reverse()
       .find(t => t.toStatus === currentStatus);
 
@@ -248,10 +278,7 @@ export class PredictionEngine {
       return 0;
     }
 
-    const transitionTime = new Date(lastTransition.timestamp).getTime();
-    const now = Date.now();
-
-    return (now - transitionTime) / (1000 * 60 * 60);
+    return this.businessCalendar.hoursBetween(lastTransition.timestamp, currentDate);
   }
 
   /**
@@ -268,9 +295,10 @@ export class PredictionEngine {
     const transitions = issue.statusTransitions;
 
     for (let i = 0; i < transitions.length - 1; i++) {
-      const currentTime = new Date(transitions[i].timestamp).getTime();
-      const nextTime = new Date(transitions[i + 1].timestamp).getTime();
-      totalDwellTime += (nextTime - currentTime) / (1000 * 60 * 60);
+      totalDwellTime += this.businessCalendar.hoursBetween(
+        transitions[i].timestamp,
+        transitions[i + 1].timestamp
+      );
     }
 
     return totalDwellTime / (transitions.length - 1);
@@ -279,30 +307,30 @@ export class PredictionEngine {
   /**
    * Check if a status is a "not started" status
    * @param status - Status name
+   * @param issueKey - Key of the issue in that status
    * @returns True if not started
    */
-  private isNotStartedStatus(status: string): boolean {
-    const normalized = status.toLowerCase();
-    return this.NOT_STARTED_STATUSES.some(s => normalized.includes(s));
+  private isNotStartedStatus(status: string, issueKey?: string): boolean {
+    return this.statusClassifier.isNotStarted(status, issueKey);
   }
 
   /**
    * Check if a status is an "in progress" status
    * @param status - Status name
+   * @param issueKey - Key of the issue in that status
    * @returns True if in progress
    */
-  private isInProgressStatus(status: string): boolean {
-    const normalized = status.toLowerCase();
-    return this.IN_PROGRESS_STATUSES.some(s => normalized.includes(s));
+  private isInProgressStatus(status: string, issueKey?: string): boolean {
+    return this.statusClassifier.isActive(status, issueKey);
   }
 
   /**
    * Check if a status is a "completed" status
    * @param status - Status name
+   * @param issueKey - Key of the issue in that status
    * @returns True if completed
    */
-  private isCompletedStatus(status: string): boolean {
-    const normalized = status.toLowerCase();
-    return this.COMPLETED_STATUSES.some(s => normalized.includes(s));
+  private isCompletedStatus(status: string, issueKey?: string): boolean {
+    return this.statusClassifier.isCompleted(status, issueKey);
   }
 }
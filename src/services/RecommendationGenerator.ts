@@ -7,9 +7,17 @@ import {
   PRMetrics,
   IssueData,
   PullRequestData,
-  HistoricalMetrics,
+  HistoricalTrend,
   BottleneckInfo,
+  SpilloverPrediction,
+  ScopeChangeBreakdown,
+  CapacityForecast,
+  DeveloperWorkload,
+  DependencyGraph,
+  EpicRollup,
 } from '../types';
+import { StatusClassifier } from './StatusClassifier';
+import { WorkloadAnalyzer } from './WorkloadAnalyzer';
 
 /**
  * RecommendationGenerator - Engine for generating actionable recommendations
@@ -19,7 +27,9 @@ import {
  * - Suggest scope adjustments (reduce story points, postpone tasks)
  * - Recommend reviewer assignments to balance workload
  * - Suggest WIP limits and task rebalancing
+ * - Suggest how to break blocking dependencies
  * - Generate next sprint suggestions (target story points, task selection)
+ * - Generate recommendations for epics that stall or slip
  * 
  * Recommendations are categorized and prioritized by impact and urgency.
  */
@@ -30,6 +40,26 @@ export class RecommendationGenerator {
   private readonly LOW_COMPLETION_RATE_THRESHOLD = 70; // percentage
   private readonly HIGH_RISK_SCORE_THRESHOLD = 66; // risk score
   private readonly MEDIUM_RISK_SCORE_THRESHOLD = 33; // risk score
+  private readonly LIKELY_SPILLOVER_THRESHOLD = 0.6; // spillover probability
+  private readonly URGENT_SPILLOVER_THRESHOLD = 0.85; // spillover probability
+  private readonly CRITICAL_PATH_THRESHOLD = 3; // issues in a chain of unresolved blockers
+
+  private statusClassifier: StatusClassifier;
+  private workloadAnalyzer: WorkloadAnalyzer;
+
+  constructor(statusClassifier: StatusClassifier = new StatusClassifier()) {
+    this.statusClassifier = statusClassifier;
+    this.workloadAnalyzer = new WorkloadAnalyzer(statusClassifier);
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+    this.workloadAnalyzer.setStatusClassifier(statusClassifier);
+  }
 
   /**
    * Generate prioritized recommendations based on analysis results
@@ -39,6 +69,10 @@ export class RecommendationGenerator {
    * @param issues - Issue data
    * @param prs - Pull request data
    * @param bottlenecks - Optional bottleneck information
+   * @param spilloverPredictions - Optional spillover predictions (active sprints)
+   * @param scopeChanges - Optional mid-sprint scope changes
+   * @param developerWorkload - Optional per-developer workload (derived from issues and PRs if omitted)
+   * @param dependencyGraph - Optional blocker graph of the sprint
    * @returns Array of 3-7 prioritized recommendations
    */
   generateRecommendations(
@@ -47,9 +81,20 @@ export class RecommendationGenerator {
     prMetrics: PRMetrics,
     issues: IssueData[],
     prs: PullRequestData[],
-    bottlenecks?: BottleneckInfo[]
+    bottlenecks?: BottleneckInfo[],
+    spilloverPredictions?: SpilloverPrediction[],
+    scopeChanges?: ScopeChangeBreakdown,
+    developerWorkload?: DeveloperWorkload[],
+    dependencyGraph?: DependencyGraph
   ): Recommendation[] {
     const recommendations: Recommendation[] = [];
+    const workload = developerWorkload || this.workloadAnalyzer.analyzeWorkload(issues, prs);
+
+    // Generate recommendations for predicted spillovers
+    if (spilloverPredictions) {
+      const spilloverRecs = this.generateSpilloverRecommendations(spilloverPredictions, issues);
+      recommendations.push(...spilloverRecs);
+    }
 
     // Generate scope adjustment recommendations
     const scopeRecs = this.generateScopeRecommendations(
@@ -59,8 +104,14 @@ export class RecommendationGenerator {
     );
     recommendations.push(...scopeRecs);
 
+    // Generate recommendations for work added after the sprint started
+    if (scopeChanges) {
+      const scopeChangeRecs = this.generateScopeChangeRecommendations(riskAssessment, scopeChanges);
+      recommendations.push(...scopeChangeRecs);
+    }
+
     // Generate reviewer assignment recommendations
-    const reviewerRecs = this.generateReviewerRecommendations(prs, prMetrics);
+    const reviewerRecs = this.generateReviewerRecommendations(workload, prMetrics);
     recommendations.push(...reviewerRecs);
 
     // Generate WIP and bottleneck recommendations
@@ -71,6 +122,12 @@ export class RecommendationGenerator {
     );
     recommendations.push(...wipRecs);
 
+    // Generate recommendations for blocking dependencies
+    if (dependencyGraph) {
+      const dependencyRecs = this.generateDependencyRecommendations(dependencyGraph, bottlenecks);
+      recommendations.push(...dependencyRecs);
+    }
+
     // Generate process improvement recommendations
     const processRecs = this.generateProcessRecommendations(
       riskAssessment,
@@ -86,23 +143,27 @@ export class RecommendationGenerator {
   /**
    * Generate next sprint suggestions
    * @param sprintMetrics - Current sprint metrics
-   * @param historicalData - Historical metrics for trend analysis
+   * @param historicalTrend - Trend across past sprints
    * @param riskAssessment - Current risk assessment
    * @param issues - Issue data
    * @param prs - Pull request data
+   * @param capacity - Optional capacity forecast of the next sprint
+   * @param developerWorkload - Optional per-developer workload (derived from issues and PRs if omitted)
    * @returns Next sprint suggestions
    */
   generateNextSprintSuggestions(
     sprintMetrics: SprintMetrics,
-    historicalData: HistoricalMetrics,
+    historicalTrend: HistoricalTrend,
     riskAssessment: RiskAssessment,
     issues: IssueData[],
-    prs: PullRequestData[]
+    prs: PullRequestData[],
+    capacity?: CapacityForecast,
+    developerWorkload?: DeveloperWorkload[]
   ): NextSprintSuggestions {
     // Calculate target story points based on historical velocity and risk
     const targetStoryPoints = this.calculateTargetStoryPoints(
       sprintMetrics,
-      historicalData,
+      historicalTrend,
       riskAssessment
     );
 
@@ -114,16 +175,73 @@ export class RecommendationGenerator {
     );
 
     // Generate reviewer assignments for next sprint
-    const reviewerAssignments = this.generateReviewerAssignments(prs);
+    const reviewerAssignments = this.generateReviewerAssignments(
+      developerWorkload || this.workloadAnalyzer.analyzeWorkload(issues, prs)
+    );
 
     return {
       targetStoryPoints,
       tasksToInclude,
       tasksToPostpone,
       reviewerAssignments,
+      capacity,
     };
   }
 
+  /**
+   * Generate prioritized recommendations for an epic
+   * @param rollup - Epic roll-up
+   * @returns Array of up to 7 prioritized recommendations
+   */
+  generateEpicRecommendations(rollup: EpicRollup): Recommendation[] {
+    const { epicKey, progress, sprints, forecast, slippage } = rollup;
+    const recommendations: Recommendation[] = [];
+
+    if (progress.remainingPoints > 0 && !forecast && sprints.some(sprint => sprint.state === 'closed')) {
+      recommendations.push({
+        priority: 1,
+        category: 'PLANNING',
+        title: `Restart progress on ${epicKey}`,
+        description: `No work on this epic was completed in its recent sprints and ${progress.remainingPoints} story points remain. Confirm it is still a priority and plan its next issues into the upcoming sprint, or move it out of the roadmap.`,
+        impact: 'High',
+      });
+    }
+
+    if (forecast && slippage && slippage.slippedDays > 0) {
+      const chronic = slippage.consecutiveSlips >= 2;
+
+      recommendations.push({
+        priority: chronic ? 1 : 2,
+        category: 'SCOPE',
+        title: `Re-plan the scope of ${epicKey}`,
+        description: `The forecast completion moved ${slippage.slippedDays} days later since ${slippage.previousSprintName}${chronic ? ` (${slippage.consecutiveSlips} sprints in a row)` : ''}. At ${forecast.velocity.toFixed(1)} points per sprint, ${progress.remainingPoints} points need ${forecast.remainingSprints} more sprint(s). Cut or split scope, or commit more capacity to the epic.`,
+        impact: chronic ? 'High' : 'Medium',
+      });
+    }
+
+    if (progress.unestimatedIssues > 0) {
+      recommendations.push({
+        priority: 3,
+        category: 'PLANNING',
+        title: `Estimate the remaining issues of ${epicKey}`,
+        description: `${progress.unestimatedIssues} unfinished issue(s) have no story points and are missing from the forecast. Estimate them in the next refinement session.`,
+        impact: 'Medium',
+      });
+    }
+
+    if (forecast && forecast.velocitySource === 'team-velocity' && progress.remainingPoints > 0) {
+      recommendations.push({
+        priority: 4,
+        category: 'PLANNING',
+        title: 'Treat the epic forecast as a best case',
+        description: `The epic has no closed sprints yet, so its forecast uses the team's full velocity of ${forecast.velocity.toFixed(0)} points per sprint. Revisit the forecast after its first sprint closes.`,
+        impact: 'Low',
+      });
+    }
+
+    return this.prioritizeRecommendations(recommendations);
+  }
+
   /**
    * Generate scope adjustment recommendations
    * @param riskAssessment - Risk assessment
@@ -141,7 +259,7 @@ export class RecommendationGenerator {
     // Recommend scope reduction if risk is high
     if (riskAssessment.score >= this.HIGH_RISK_SCORE_THRESHOLD) {
       const incompleteIssues = issues.filter(
-        issue => !this.isCompletedStatus(issue.status)
+        issue => !this.isCompletedStatus(issue.status, issue.key)
       );
 
       // Calculate suggested reduction
@@ -187,40 +305,114 @@ export class RecommendationGenerator {
     return recommendations;
   }
 
+  /**
+   * Generate recommendations for scope creep
+   * @param riskAssessment - Risk assessment
+   * @param scopeChanges - Mid-sprint scope changes
+   * @returns Array of scope change recommendations
+   */
+  private generateScopeChangeRecommendations(
+    riskAssessment: RiskAssessment,
+    scopeChanges: ScopeChangeBreakdown
+  ): Recommendation[] {
+    const scopeCreep = riskAssessment.factors.find(f => f.category === 'SCOPE_CREEP');
+
+    if (!scopeCreep) {
+      return [];
+    }
+
+    const topAuthor = scopeChanges.byAuthor.find(a => a.author && a.addedIssues > 0);
+    const authorText = topAuthor
+      ? ` Most additions (${topAuthor.addedIssues} issue(s), ${topAuthor.addedPoints} points) came from ${topAuthor.author}.`
+      : '';
+
+    return [{
+      priority: scopeCreep.severity >= 7 ? 1 : 2,
+      category: 'SCOPE',
+      title: 'Control work added mid-sprint',
+      description: `${scopeChanges.addedIssues} issue(s) totalling ${scopeChanges.addedPoints} story points were added after the sprint started (${scopeChanges.removedPoints} points removed).${authorText} Route new requests through the backlog, or swap out work of equal size when something urgent must be added.`,
+      impact: scopeCreep.severity >= 7 ? 'High' : 'Medium',
+    }];
+  }
+
+  /**
+   * Generate recommendations naming the issues predicted to spill over
+   * @param predictions - Spillover predictions
+   * @param issues - Issue data
+   * @returns Array of spillover recommendations
+   */
+  private generateSpilloverRecommendations(
+    predictions: SpilloverPrediction[],
+    issues: IssueData[]
+  ): Recommendation[] {
+    const likelySpillovers = predictions
+      .filter(p => p.probability >= this.LIKELY_SPILLOVER_THRESHOLD)
+      .sort((a, b) => b.probability - a.probability);
+
+    if (likelySpillovers.length === 0) {
+      return [];
+    }
+
+    const likelyKeys = new Set(likelySpillovers.map(p => p.issueKey));
+    const pointsAtRisk = issues
+      .filter(issue => likelyKeys.has(issue.key))
+      .reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+
+    const details = likelySpillovers
+      .slice(0, 3)
+      .map(p => {
+        const reason = p.reasons.length > 0 ? `: ${p.reasons[0]}` : '';
+        return `${p.issueKey} (${(p.probability * 100).toFixed(0)}%${reason})`;
+      })
+      .join('; ');
+
+    const isUrgent = likelySpillovers.length >= 3 ||
+      likelySpillovers[0].probability >= this.URGENT_SPILLOVER_THRESHOLD;
+
+    return [{
+      priority: isUrgent ? 1 : 2,
+      category: 'SCOPE',
+      title: 'Address issues predicted to spill over',
+      description: `${likelySpillovers.length} issue(s) totalling ${pointsAtRisk} story points are likely to spill over: ${details}. Swarm on them, split them, or move them out of the sprint now rather than at sprint end.`,
+      impact: isUrgent ? 'High' : 'Medium',
+    }];
+  }
+
   /**
    * Generate reviewer assignment recommendations
-   * @param prs - Pull request data
+   * @param developerWorkload - Per-developer workload
    * @param prMetrics - PR metrics
    * @returns Array of reviewer recommendations
    */
   private generateReviewerRecommendations(
-    prs: PullRequestData[],
+    developerWorkload: DeveloperWorkload[],
     prMetrics: PRMetrics
   ): Recommendation[] {
     const recommendations: Recommendation[] = [];
 
-    // Count PRs per reviewer
-    const reviewerWorkload = this.calculateReviewerWorkload(prs);
-
     // Identify overloaded reviewers
-    const overloadedReviewers = Array.from(reviewerWorkload.entries())
-      .filter(([_, count]) => count >= this.REVIEWER_OVERLOAD_THRESHOLD)
-      .sort((a, b) => b[1] - a[1]);
+    const overloadedReviewers = developerWorkload
+      .filter(workload => workload.reviewingPRs >= this.REVIEWER_OVERLOAD_THRESHOLD)
+      .sort((a, b) => b.reviewingPRs - a.reviewingPRs);
 
     if (overloadedReviewers.length > 0) {
-      const [topReviewer, prCount] = overloadedReviewers[0];
-      
-      // Find underutilized reviewers
-      const underutilizedReviewers = Array.from(reviewerWorkload.entries())
-        .filter(([_, count]) => count < 3)
-        .map(([reviewer, _]) => reviewer);
+      const topReviewer = overloadedReviewers[0];
+
+      // Find underutilized reviewers: few pending reviews and no WIP overload,
+      // including teammates not reviewing anything yet
+      const underutilizedReviewers = developerWorkload
+        .filter(workload =>
+          workload.reviewingPRs < 3 && workload.activeIssues < this.HIGH_WIP_THRESHOLD
+        )
+        .sort((a, b) => (a.reviewingPRs + a.activeIssues) - (b.reviewingPRs + b.activeIssues))
+        .map(workload => workload.username);
 
       if (underutilizedReviewers.length > 0) {
         recommendations.push({
           priority: 1,
           category: 'REVIEWER',
           title: 'Redistribute PR reviews to balance workload',
-          description: `${topReviewer} has ${prCount} pending PRs. Redistribute reviews to ${underutilizedReviewers.slice(0, 2).join(', ')} to reduce bottlenecks and improve review turnaround time.`,
+          description: `${topReviewer.username} has ${topReviewer.reviewingPRs} pending PRs. Redistribute reviews to ${underutilizedReviewers.slice(0, 2).join(', ')} to reduce bottlenecks and improve review turnaround time.`,
           impact: 'High',
         });
       } else {
@@ -305,12 +497,81 @@ export class RecommendationGenerator {
           description: `${topBottleneck.affectedIssues.length} issues are delayed in "${topBottleneck.location}". ${topBottleneck.description} Investigate and remove blockers to improve flow.`,
           impact: 'High',
         });
+      } else if (topBottleneck.type === 'REVIEWER') {
+        recommendations.push({
+          priority: 2,
+          category: 'REVIEWER',
+          title: `Reduce review wait for PRs assigned to ${topBottleneck.location}`,
+          description: `${topBottleneck.description} Add a second reviewer or reassign waiting PRs for ${topBottleneck.affectedIssues.slice(0, 3).join(', ')}.`,
+          impact: 'High',
+        });
+      } else if (topBottleneck.type === 'DEPENDENCY') {
+        recommendations.push({
+          priority: 2,
+          category: 'PROCESS',
+          title: `Unblock work waiting on ${topBottleneck.location}`,
+          description: `${topBottleneck.description} Escalate ${topBottleneck.location} with its owner or swap the blocked issues (${topBottleneck.affectedIssues.slice(0, 3).join(', ')}) for unblocked work.`,
+          impact: 'High',
+        });
       }
     }
 
     return recommendations;
   }
 
+  /**
+   * Generate recommendations for blocking dependencies
+   * @param dependencyGraph - Blocker graph of the sprint
+   * @param bottlenecks - Bottleneck information (dependency bottlenecks already recommended on are skipped)
+   * @returns Array of dependency recommendations
+   */
+  private generateDependencyRecommendations(
+    dependencyGraph: DependencyGraph,
+    bottlenecks?: BottleneckInfo[]
+  ): Recommendation[] {
+    const recommendations: Recommendation[] = [];
+
+    if (dependencyGraph.cycles.length > 0) {
+      const cycle = dependencyGraph.cycles[0];
+
+      recommendations.push({
+        priority: 2,
+        category: 'PROCESS',
+        title: 'Break circular blocking dependencies',
+        description: `${dependencyGraph.cycles.length} set(s) of issues block each other (${cycle.join(' → ')} → ${cycle[0]}). None of them can start until a link is removed; review the links and split out the shared work.`,
+        impact: 'High',
+      });
+    }
+
+    const topBottleneck = bottlenecks?.[0];
+    const externalBlocker = dependencyGraph.externalBlockers.find(
+      blocker => !(topBottleneck?.type === 'DEPENDENCY' && topBottleneck.location === blocker.issueKey)
+    );
+
+    if (externalBlocker) {
+      recommendations.push({
+        priority: 2,
+        category: 'PLANNING',
+        title: `Resolve external blocker ${externalBlocker.issueKey}`,
+        description: `${externalBlocker.issueKey} (${externalBlocker.summary}, ${externalBlocker.status}) is outside the sprint and blocks ${externalBlocker.blockedIssues.length} sprint issue(s) (${externalBlocker.blockedIssues.slice(0, 3).join(', ')}). Agree a delivery date with its owner or pull it into the sprint.`,
+        impact: externalBlocker.blockedIssues.length > 1 ? 'High' : 'Medium',
+      });
+    }
+
+    const criticalPath = dependencyGraph.criticalPath;
+    if (criticalPath.length >= this.CRITICAL_PATH_THRESHOLD) {
+      recommendations.push({
+        priority: 3,
+        category: 'PLANNING',
+        title: `Start the critical path at ${criticalPath[0]}`,
+        description: `The longest chain of unresolved blockers has ${criticalPath.length} issues (${criticalPath.join(' → ')}) worth ${dependencyGraph.criticalPathPoints} story points. Prioritize ${criticalPath[0]} so the rest of the chain can start.`,
+        impact: 'Medium',
+      });
+    }
+
+    return recommendations;
+  }
+
   /**
    * Generate process improvement recommendations
    * @param riskAssessment - Risk assessment
@@ -368,22 +629,27 @@ export class RecommendationGenerator {
 
   /**
    * Calculate target story points for next sprint
+   *
+   * The baseline is the median velocity across past sprints, so a single
+   * unusually good or bad sprint does not skew the target. The current
+   * sprint is then weighted as one more sprint in the series.
    * @param sprintMetrics - Current sprint metrics
-   * @param historicalData - Historical metrics
+   * @param historicalTrend - Trend across past sprints
    * @param riskAssessment - Risk assessment
    * @returns Target story points
    */
   private calculateTargetStoryPoints(
     sprintMetrics: SprintMetrics,
-    historicalData: HistoricalMetrics,
+    historicalTrend: HistoricalTrend,
     riskAssessment: RiskAssessment
   ): number {
     // Use historical velocity as baseline
-    const baselineVelocity = historicalData.metrics.velocity;
+    const baselineVelocity = historicalTrend.velocity.median;
+    const sampleSize = historicalTrend.velocity.sampleSize;
 
     // Adjust based on current performance
     const currentVelocity = sprintMetrics.velocity;
-    const averageVelocity = (baselineVelocity + currentVelocity) / 2;
+    const averageVelocity = (baselineVelocity * sampleSize + currentVelocity) / (sampleSize + 1);
 
     // Apply risk-based adjustment
     let adjustmentFactor = 1.0;
@@ -415,15 +681,12 @@ export class RecommendationGenerator {
     riskAssessment: RiskAssessment
   ): { tasksToInclude: string[]; tasksToPostpone: string[] } {
     const incompleteIssues = issues.filter(
-      issue => !this.isCompletedStatus(issue.status)
+      issue => !this.isCompletedStatus(issue.status, issue.key)
     );
 
     // Identify high-priority tasks (in progress or near completion)
     const tasksToInclude = incompleteIssues
-      .filter(issue => 
-        issue.status.toLowerCase().includes('progress') ||
-        issue.status.toLowerCase().includes('review')
-      )
+      .filter(issue => this.statusClassifier.isActive(issue.status, issue.key))
       .slice(0, 5)
       .map(issue => issue.key);
 
@@ -440,11 +703,15 @@ export class RecommendationGenerator {
 
   /**
    * Generate reviewer assignments for next sprint
-   * @param prs - Pull request data
+   * @param developerWorkload - Per-developer workload
    * @returns Reviewer assignments
    */
-  private generateReviewerAssignments(prs: PullRequestData[]): ReviewerAssignment[] {
-    const reviewerWorkload = this.calculateReviewerWorkload(prs);
+  private generateReviewerAssignments(developerWorkload: DeveloperWorkload[]): ReviewerAssignment[] {
+    const reviewerWorkload = new Map(
+      developerWorkload
+        .filter(workload => workload.reviewingPRs > 0)
+        .map(workload => [workload.username, workload.reviewingPRs] as [string, number])
+    );
     const assignments: ReviewerAssignment[] = [];
 
     // Calculate average workload
@@ -500,28 +767,6 @@ export class RecommendationGenerator {
     }));
   }
 
-  /**
-   * Calculate reviewer workload from PRs
-   * @param prs - Pull request data
-   * @returns Map of reviewer to PR count
-   */
-  private calculateReviewerWorkload(prs: PullRequestData[]): Map<string, number> {
-    const workload = new Map<string, number>();
-
-    for (const pr of prs) {
-      if (pr.state === 'OPEN') {
-        for (const reviewer of pr.reviewers) {
-          workload.set(
-            reviewer.username,
-            (workload.get(reviewer.username) || 0) + 1
-          );
-        }
-      }
-    }
-
-    return workload;
-  }
-
   /**
    * Calculate WIP by developer
    * @param issues - Issue data
@@ -531,8 +776,7 @@ export class RecommendationGenerator {
     const wipMap = new Map<string, number>();
 
     const activeIssues = issues.filter(issue =>
-      issue.status.toLowerCase().includes('progress') ||
-      issue.status.toLowerCase().includes('review')
+      this.statusClassifier.isActive(issue.status, issue.key)
     );
 
     for (const issue of activeIssues) {
@@ -554,7 +798,7 @@ export class RecommendationGenerator {
    */
   private identifyRiskyTasks(issues: IssueData[]): IssueData[] {
     const incompleteIssues = issues.filter(
-      issue => !this.isCompletedStatus(issue.status)
+      issue => !this.isCompletedStatus(issue.status, issue.key)
     );
 
     // Identify tasks that are:
@@ -592,13 +836,10 @@ export class RecommendationGenerator {
   /**
    * Check if a status is completed
    * @param status - Status name
+   * @param issueKey - Key of the issue in that status
    * @returns True if completed
    */
-  private isCompletedStatus(status: string): boolean {
-    const completedStatuses = ['done', 'closed', 'resolved', 'completed'];
-    const normalized = status.toLowerCase();
-    return completedStatuses.some(completedStatus =>
-      normalized.includes(completedStatus)
-    );
+  private isCompletedStatus(status: string, issueKey?: string): boolean {
+    return this.statusClassifier.isCompleted(status, issueKey);
   }
 }
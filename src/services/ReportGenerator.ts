@@ -9,7 +9,17 @@ import {
   IssueData,
   PullRequestData,
   BottleneckInfo,
+  ReportInsights,
+  AtRiskIssue,
+  SpilloverPrediction,
+  RiskLevel,
+  EpicRollup,
+  EpicReport,
+  MetricDelta,
+  SprintComparison,
+  SprintComparisonReport,
 } from '../types';
+import { BusinessCalendar } from './BusinessCalendar';
 
 /**
  * ReportGenerator - Formats analysis results into comprehensive sprint reports
@@ -20,10 +30,23 @@ import {
  * - Extract and format key findings from metrics
  * - Format risk assessments for display
  * - Format recommendations and next sprint suggestions
+ * - Generate epic roll-up reports
+ * - Generate sprint comparison narratives
  * 
  * Reports are structured for easy consumption in UI components and documentation.
  */
 export class ReportGenerator {
+  // Compared metrics worth a sentence in the comparison narrative, and whether higher is better
+  private readonly NARRATIVE_METRICS: Array<{ metric: MetricDelta['metric']; label: string; higherIsBetter: boolean }> = [
+    { metric: 'velocity', label: 'Velocity', higherIsBetter: true },
+    { metric: 'completionRate', label: 'Completion rate', higherIsBetter: true },
+    { metric: 'cycleTime', label: 'Cycle time', higherIsBetter: false },
+    { metric: 'averageLatency', label: 'PR latency', higherIsBetter: false },
+  ];
+
+  // Smallest percent change mentioned in the comparison narrative
+  private readonly NARRATIVE_CHANGE_THRESHOLD = 10;
+
   /**
    * Generate a complete sprint report
    * @param sprint - Sprint data
@@ -35,6 +58,7 @@ export class ReportGenerator {
    * @param prs - Pull request data for detailed analysis
    * @param bottlenecks - Optional bottleneck information
    * @param nextSprintSuggestions - Optional next sprint suggestions
+   * @param insights - Optional additional analysis sections (e.g. completion forecast, spillover predictions, burndown, scope changes)
    * @returns Complete sprint report
    */
   generateReport(
@@ -46,7 +70,8 @@ export class ReportGenerator {
     issues: IssueData[],
     prs: PullRequestData[],
     bottlenecks?: BottleneckInfo[],
-    nextSprintSuggestions?: NextSprintSuggestions
+    nextSprintSuggestions?: NextSprintSuggestions,
+    insights: ReportInsights = {}
   ): SprintReport {
     // Generate summary (1-2 sentences)
     const summary = this.generateSummary(sprint, sprintMetrics, riskAssessment);
@@ -57,7 +82,8 @@ export class ReportGenerator {
       prMetrics,
       issues,
       prs,
-      bottlenecks
+      bottlenecks,
+      new BusinessCalendar(insights.calendar || null)
     );
 
     // Format risk assessment for display
@@ -72,6 +98,18 @@ export class ReportGenerator {
       riskAssessment: formattedRiskAssessment,
       recommendations: formattedRecommendations,
       nextSprintSuggestions,
+      forecast: insights.forecast,
+      atRiskIssues: insights.spilloverPredictions
+        ? this.formatAtRiskIssues(insights.spilloverPredictions, issues)
+        : undefined,
+      burndown: insights.burndown,
+      scopeChanges: insights.scopeChanges,
+      carryOverIssues: insights.carryOverIssues,
+      developerWorkload: insights.developerWorkload,
+      dependencyGraph: insights.dependencyGraph,
+      historicalTrend: insights.historicalTrend,
+      durationMode: insights.durationMode || 'wall-clock',
+      calendar: insights.calendar,
       metrics: {
         sprint: sprintMetrics,
         pullRequests: prMetrics,
@@ -80,6 +118,171 @@ export class ReportGenerator {
     };
   }
 
+  /**
+   * Generate an epic roll-up report
+   * @param rollup - Epic roll-up
+   * @param riskAssessment - Epic risk level and justification
+   * @param recommendations - Array of recommendations
+   * @returns Epic report
+   */
+  generateEpicReport(
+    rollup: EpicRollup,
+    riskAssessment: { level: RiskLevel; justification: string },
+    recommendations: Recommendation[]
+  ): EpicReport {
+    return {
+      epicKey: rollup.epicKey,
+      epicName: rollup.epicName,
+      summary: this.generateEpicSummary(rollup, riskAssessment.level),
+      keyFindings: this.generateEpicFindings(rollup),
+      riskAssessment,
+      recommendations: this.formatRecommendations(recommendations),
+      progress: rollup.progress,
+      sprints: rollup.sprints,
+      forecast: rollup.forecast,
+      slippage: rollup.slippage,
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Generate a sprint comparison report
+   * @param comparison - Sprint comparison
+   * @returns Comparison report with a narrative
+   */
+  generateComparisonReport(comparison: SprintComparison): SprintComparisonReport {
+    return {
+      ...comparison,
+      narrative: this.generateComparisonNarrative(comparison),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Describe the notable differences between two sprints
+   * @param comparison - Sprint comparison
+   * @returns Narrative text
+   */
+  private generateComparisonNarrative(comparison: SprintComparison): string {
+    const { baseSprint, targetSprint, metricDeltas, risk, riskFactorChanges, carriedIssues } = comparison;
+    const sentences: string[] = [];
+
+    sentences.push(
+      risk.baseLevel === risk.targetLevel
+        ? `Compared with ${baseSprint.name}, ${targetSprint.name} stayed at ${risk.targetLevel} risk.`
+        : `Compared with ${baseSprint.name}, ${targetSprint.name} moved from ${risk.baseLevel} to ${risk.targetLevel} risk.`
+    );
+
+    for (const { metric, label, higherIsBetter } of this.NARRATIVE_METRICS) {
+      const delta = metricDeltas.find(d => d.metric === metric);
+      if (!delta || delta.percentChange === null || Math.abs(delta.percentChange) < this.NARRATIVE_CHANGE_THRESHOLD) {
+        continue;
+      }
+
+      const direction = delta.change > 0 ? 'rose' : 'fell';
+      const verdict = (delta.change > 0) === higherIsBetter ? 'an improvement' : 'a regression';
+      sentences.push(
+        `${label} ${direction} ${Math.abs(delta.percentChange).toFixed(0)}% (${delta.base.toFixed(1)} to ${delta.target.toFixed(1)}), ${verdict}.`
+      );
+    }
+
+    const newFactors = riskFactorChanges.filter(change => change.change === 'new' || change.change === 'worse');
+    if (newFactors.length > 0) {
+      sentences.push(`New or worse risks: ${newFactors.map(change => change.description).join(' ')}`);
+    }
+
+    const resolvedFactors = riskFactorChanges.filter(change => change.change === 'resolved');
+    if (resolvedFactors.length > 0) {
+      sentences.push(
+        `No longer at risk from: ${resolvedFactors.map(change => change.category.toLowerCase().replace('_', ' ')).join(', ')}.`
+      );
+    }
+
+    if (carriedIssues.length > 0) {
+      const unfinished = carriedIssues.filter(issue => !issue.completed).length;
+      const points = carriedIssues.reduce((sum, issue) => sum + (issue.storyPoints || 0), 0);
+      sentences.push(
+        `${carriedIssues.length} issue(s) (${points} story points) were in both sprints, ${unfinished} of them still unfinished.`
+      );
+    }
+
+    return sentences.join(' ');
+  }
+
+  /**
+   * Generate a concise epic health summary (1-2 sentences)
+   * @param rollup - Epic roll-up
+   * @param riskLevel - Epic risk level
+   * @returns Summary text
+   */
+  private generateEpicSummary(rollup: EpicRollup, riskLevel: RiskLevel): string {
+    const { epicKey, epicName, progress, forecast } = rollup;
+    const percentComplete = progress.percentComplete.toFixed(0);
+
+    if (progress.totalIssues > 0 && progress.completedIssues === progress.totalIssues) {
+      return `${epicKey} ${epicName} is complete with ${progress.completedPoints} story points delivered.`;
+    }
+
+    if (!forecast) {
+      return `${epicKey} ${epicName} is ${percentComplete}% complete with ${progress.remainingPoints} story points remaining and no recent progress to forecast from. The epic is at ${riskLevel} risk.`;
+    }
+
+    const completionDate = forecast.forecastCompletionDate.split('T')[0];
+    return `${epicKey} ${epicName} is ${percentComplete}% complete and forecast to finish in ${forecast.remainingSprints} sprint(s), around ${completionDate}. The epic is at ${riskLevel} risk.`;
+  }
+
+  /**
+   * Generate key findings for an epic
+   * @param rollup - Epic roll-up
+   * @returns Array of key findings
+   */
+  private generateEpicFindings(rollup: EpicRollup): string[] {
+    const { progress, sprints, forecast, slippage } = rollup;
+    const findings: string[] = [];
+
+    findings.push(
+      `Completed ${progress.completedIssues} of ${progress.totalIssues} issues and ${progress.completedPoints} of ${progress.totalPoints} story points (${progress.percentComplete.toFixed(0)}%).`
+    );
+
+    const startedSprints = sprints.filter(sprint => sprint.state !== 'future');
+    if (startedSprints.length > 0) {
+      findings.push(
+        `Work on the epic has spanned ${startedSprints.length} sprint(s), from ${startedSprints[0].sprintName} to ${startedSprints[startedSprints.length - 1].sprintName}.`
+      );
+    }
+
+    if (forecast) {
+      const source = forecast.velocitySource === 'epic-history'
+        ? `the epic's average over its last ${forecast.basedOnSprints} closed sprint(s)`
+        : `the team's median velocity over ${forecast.basedOnSprints} sprint(s)`;
+      findings.push(
+        `Forecast velocity is ${forecast.velocity.toFixed(1)} story points per sprint, based on ${source}.`
+      );
+    }
+
+    if (slippage) {
+      if (slippage.slippedDays > 0) {
+        findings.push(
+          `The completion forecast slipped ${slippage.slippedDays} days since ${slippage.previousSprintName}${slippage.consecutiveSlips > 1 ? ` and has slipped ${slippage.consecutiveSlips} sprints in a row` : ''}.`
+        );
+      } else if (slippage.slippedDays < 0) {
+        findings.push(
+          `The completion forecast moved ${-slippage.slippedDays} days earlier since ${slippage.previousSprintName}.`
+        );
+      } else {
+        findings.push(`The completion forecast is unchanged since ${slippage.previousSprintName}.`);
+      }
+    }
+
+    if (progress.unestimatedIssues > 0) {
+      findings.push(
+        `${progress.unestimatedIssues} unfinished issue(s) have no story points and are not included in the forecast.`
+      );
+    }
+
+    return findings;
+  }
+
   /**
    * Generate a concise sprint health summary (1-2 sentences)
    * @param sprint - Sprint data
@@ -126,6 +329,7 @@ export class ReportGenerator {
    * @param issues - Issue data
    * @param prs - Pull request data
    * @param bottlenecks - Optional bottleneck information
+   * @param businessCalendar - Calendar the durations were measured with
    * @returns Array of key findings
    */
   private generateKeyFindings(
@@ -133,7 +337,8 @@ export class ReportGenerator {
     prMetrics: PRMetrics,
     issues: IssueData[],
     prs: PullRequestData[],
-    bottlenecks?: BottleneckInfo[]
+    bottlenecks: BottleneckInfo[] | undefined,
+    businessCalendar: BusinessCalendar
   ): string[] {
     const findings: string[] = [];
 
@@ -153,13 +358,13 @@ export class ReportGenerator {
     // Finding 3: Cycle time and lead time
     if (sprintMetrics.cycleTime > 0) {
       findings.push(
-        `Average cycle time is ${sprintMetrics.cycleTime.toFixed(1)} hours and lead time is ${sprintMetrics.leadTime.toFixed(1)} hours.`
+        `Average cycle time is ${sprintMetrics.cycleTime.toFixed(1)} ${businessCalendar.unitLabel} and lead time is ${sprintMetrics.leadTime.toFixed(1)} ${businessCalendar.unitLabel}.`
       );
     }
 
     // Finding 4: PR metrics
     if (prs.length > 0) {
-      const prFinding = this.generatePRFinding(prMetrics, prs);
+      const prFinding = this.generatePRFinding(prMetrics, prs, businessCalendar);
       if (prFinding) {
         findings.push(prFinding);
       }
@@ -195,13 +400,13 @@ export class ReportGenerator {
    * @param riskAssessment - Risk assessment results
    * @returns Formatted risk assessment
    */
-  private formatRiskAssessment(riskAssessment: RiskAssessment): {
-    level: 'Low' | 'Medium' | 'High';
-    justification: string;
-  } {
+  private formatRiskAssessment(riskAssessment: RiskAssessment): SprintReport['riskAssessment'] {
     return {
       level: riskAssessment.level,
       justification: riskAssessment.justification,
+      score: riskAssessment.score,
+      factors: [...riskAssessment.factors].sort((a, b) => b.severity - a.severity),
+      config: riskAssessment.config,
     };
   }
 
@@ -216,24 +421,57 @@ export class ReportGenerator {
     return recommendations.sort((a, b) => a.priority - b.priority);
   }
 
+  /**
+   * Format spillover predictions as at-risk issues with issue details
+   * @param predictions - Spillover predictions
+   * @param issues - Issue data
+   * @returns At-risk issues, most likely to spill over first
+   */
+  private formatAtRiskIssues(
+    predictions: SpilloverPrediction[],
+    issues: IssueData[]
+  ): AtRiskIssue[] {
+    const issuesByKey = new Map(issues.map(issue => [issue.key, issue]));
+
+    return [...predictions]
+      .sort((a, b) => b.probability - a.probability)
+      .map(prediction => {
+        const issue = issuesByKey.get(prediction.issueKey);
+        return {
+          issueKey: prediction.issueKey,
+          summary: issue?.summary || '',
+          assignee: issue?.assignee || null,
+          storyPoints: issue?.storyPoints ?? null,
+          probability: prediction.probability,
+          reasons: prediction.reasons,
+        };
+      });
+  }
+
   /**
    * Generate PR-related finding
    * @param prMetrics - PR metrics
    * @param prs - Pull request data
+   * @param businessCalendar - Calendar the PR metrics were measured with
    * @returns PR finding text or null
    */
-  private generatePRFinding(prMetrics: PRMetrics, prs: PullRequestData[]): string | null {
+  private generatePRFinding(
+    prMetrics: PRMetrics,
+    prs: PullRequestData[],
+    businessCalendar: BusinessCalendar
+  ): string | null {
     const openPRs = prs.filter(pr => pr.state === 'OPEN').length;
     const mergedPRs = prs.filter(pr => pr.state === 'MERGED').length;
+    const hourUnit = businessCalendar.mode === 'business-hours' ? 'business hour' : 'hour';
 
-    if (prMetrics.averageLatency > 48) {
-      return `${mergedPRs} PRs merged with ${prMetrics.averageLatency.toFixed(1)} hour average latency (${openPRs} still open), indicating review delays.`;
-    } else if (prMetrics.averageTimeToFirstReview > 24) {
-      return `${prs.length} PRs processed with ${prMetrics.averageTimeToFirstReview.toFixed(1)} hour average time to first review, suggesting reviewer availability issues.`;
+    if (prMetrics.averageLatency > businessCalendar.scaleWallClockHours(48)) {
+      return `${mergedPRs} PRs merged with ${prMetrics.averageLatency.toFixed(1)} ${hourUnit} average latency (${openPRs} still open), indicating review delays.`;
+    } else if (prMetrics.averageTimeToFirstReview > businessCalendar.scaleWallClockHours(24)) {
+      return `${prs.length} PRs processed with ${prMetrics.averageTimeToFirstReview.toFixed(1)} ${hourUnit} average time to first review, suggesting reviewer availability issues.`;
     } else if (openPRs > mergedPRs && openPRs > 5) {
       return `${openPRs} PRs are currently open (vs ${mergedPRs} merged), indicating a potential review backlog.`;
     } else {
-      return `${mergedPRs} PRs merged with ${prMetrics.averageLatency.toFixed(1)} hour average latency and ${prMetrics.averageRevisions.toFixed(1)} revisions per PR.`;
+      return `${mergedPRs} PRs merged with ${prMetrics.averageLatency.toFixed(1)} ${hourUnit} average latency and ${prMetrics.averageRevisions.toFixed(1)} revisions per PR.`;
     }
   }
 
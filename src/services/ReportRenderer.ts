@@ -0,0 +1,412 @@
+import {
+  SprintReport,
+  ReportExportFormat,
+  RenderedReport,
+  ReportTable,
+} from '../types';
+
+/**
+ * ReportRenderer - Renders sprint reports as downloadable documents
+ *
+ * This class provides methods to:
+ * - Render a sprint report as Markdown
+ * - Render a sprint report as a standalone HTML page
+ * - Render a sprint report as CSV tables
+ *
+ * Every format covers the summary, risk assessment, key findings,
+ * recommendations, metrics and next sprint suggestions.
+ */
+export class ReportRenderer {
+  private readonly CONTENT_TYPES: Record<ReportExportFormat, string> = {
+    markdown: 'text/markdown',
+    html: 'text/html',
+    csv: 'text/csv',
+  };
+
+  private readonly FILE_EXTENSIONS: Record<ReportExportFormat, string> = {
+    markdown: 'md',
+    html: 'html',
+    csv: 'csv',
+  };
+
+  /**
+   * Check whether a format can be rendered
+   * @param format - Requested format
+   * @returns True for markdown, html and csv
+   */
+  isSupportedFormat(format: string): format is ReportExportFormat {
+    return Object.prototype.hasOwnProperty.call(this.CONTENT_TYPES, format);
+  }
+
+  /**
+   * Render a report in the given format
+   * @param report - Sprint report
+   * @param format - Output format
+   * @param title - Document title, also used for the file name
+   * @returns Rendered report with its content type and file name
+   */
+  render(report: SprintReport, format: ReportExportFormat, title: string = 'Sprint Report'): RenderedReport {
+    let content: string;
+    switch (format) {
+      case 'markdown':
+        content = this.renderMarkdown(report, title);
+        break;
+      case 'html':
+        content = this.renderHtml(report, title);
+        break;
+      case 'csv':
+        content = this.renderCsv(report);
+        break;
+    }
+
+    const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'sprint-report';
+
+    return {
+      format,
+      content,
+      contentType: this.CONTENT_TYPES[format],
+      fileName: `${slug}.${this.FILE_EXTENSIONS[format]}`,
+    };
+  }
+
+  /**
+   * Render a report as Markdown
+   * @param report - Sprint report
+   * @param title - Document title
+   * @returns Markdown document
+   */
+  renderMarkdown(report: SprintReport, title: string = 'Sprint Report'): string {
+    const lines: string[] = [`# ${title}`, '', `_Generated: ${report.generatedAt}_`, ''];
+
+    lines.push('## Summary', '', report.summary, '');
+
+    lines.push('## Risk Assessment', '', `**Risk Level:** ${this.formatRiskLevel(report)}`, '');
+    lines.push(report.riskAssessment.justification, '');
+    const factors = this.riskFactorTable(report);
+    if (factors.rows.length > 0) {
+      lines.push(...this.markdownTable(factors), '');
+    }
+
+    lines.push('## Key Findings', '');
+    if (report.keyFindings.length > 0) {
+      report.keyFindings.forEach((finding, idx) => lines.push(`${idx + 1}. ${finding}`));
+    } else {
+      lines.push('No key findings identified.');
+    }
+    lines.push('');
+
+    lines.push('## Recommendations', '');
+    if (report.recommendations.length > 0) {
+      report.recommendations.forEach(rec => {
+        lines.push(`${rec.priority}. **${rec.title}** (${rec.impact} impact, ${rec.category})`);
+        lines.push(`   ${rec.description}`);
+      });
+    } else {
+      lines.push('No recommendations at this time.');
+    }
+    lines.push('');
+
+    lines.push('## Sprint Metrics', '', ...this.markdownTable(this.sprintMetricTable(report)), '');
+    lines.push('## PR Metrics', '', ...this.markdownTable(this.prMetricTable(report)), '');
+
+    const suggestions = report.nextSprintSuggestions;
+    if (suggestions) {
+      lines.push('## Next Sprint Suggestions', '', `**Target Story Points:** ${suggestions.targetStoryPoints}`, '');
+
+      if (suggestions.tasksToInclude.length > 0) {
+        lines.push('### Tasks to Include', '', ...suggestions.tasksToInclude.map(task => `- ${task}`), '');
+      }
+      if (suggestions.tasksToPostpone.length > 0) {
+        lines.push('### Tasks to Postpone', '', ...suggestions.tasksToPostpone.map(task => `- ${task}`), '');
+      }
+      const assignments = this.reviewerAssignmentTable(report);
+      if (assignments.rows.length > 0) {
+        lines.push(`### ${assignments.title}`, '', ...this.markdownTable(assignments), '');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a report as a standalone HTML page
+   * @param report - Sprint report
+   * @param title - Document title
+   * @returns HTML document with inline styles
+   */
+  renderHtml(report: SprintReport, title: string = 'Sprint Report'): string {
+    const body: string[] = [
+      `<h1>${this.escapeHtml(title)}</h1>`,
+      `<p class="generated">Generated: ${this.escapeHtml(report.generatedAt)}</p>`,
+      '<h2>Summary</h2>',
+      `<p>${this.escapeHtml(report.summary)}</p>`,
+      '<h2>Risk Assessment</h2>',
+      `<p><strong>Risk Level:</strong> ${this.escapeHtml(this.formatRiskLevel(report))}</p>`,
+      `<p>${this.escapeHtml(report.riskAssessment.justification)}</p>`,
+    ];
+
+    const factors = this.riskFactorTable(report);
+    if (factors.rows.length > 0) {
+      body.push(this.htmlTable(factors));
+    }
+
+    body.push('<h2>Key Findings</h2>');
+    body.push(report.keyFindings.length > 0
+      ? this.htmlList('ol', report.keyFindings)
+      : '<p>No key findings identified.</p>');
+
+    body.push('<h2>Recommendations</h2>');
+    if (report.recommendations.length > 0) {
+      body.push('<ol>');
+      report.recommendations.forEach(rec => {
+        body.push(
+          `<li><strong>${this.escapeHtml(rec.title)}</strong> ` +
+          `(${this.escapeHtml(rec.impact)} impact, ${this.escapeHtml(rec.category)})` +
+          `<br>${this.escapeHtml(rec.description)}</li>`
+        );
+      });
+      body.push('</ol>');
+    } else {
+      body.push('<p>No recommendations at this time.</p>');
+    }
+
+    body.push('<h2>Sprint Metrics</h2>', this.htmlTable(this.sprintMetricTable(report)));
+    body.push('<h2>PR Metrics</h2>', this.htmlTable(this.prMetricTable(report)));
+
+    const suggestions = report.nextSprintSuggestions;
+    if (suggestions) {
+      body.push(
+        '<h2>Next Sprint Suggestions</h2>',
+        `<p><strong>Target Story Points:</strong> ${suggestions.targetStoryPoints}</p>`
+      );
+
+      if (suggestions.tasksToInclude.length > 0) {
+        body.push('<h3>Tasks to Include</h3>', this.htmlList('ul', suggestions.tasksToInclude));
+      }
+      if (suggestions.tasksToPostpone.length > 0) {
+        body.push('<h3>Tasks to Postpone</h3>', this.htmlList('ul', suggestions.tasksToPostpone));
+      }
+      const assignments = this.reviewerAssignmentTable(report);
+      if (assignments.rows.length > 0) {
+        body.push(`<h3>${this.escapeHtml(assignments.title)}</h3>`, this.htmlTable(assignments));
+      }
+    }
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${this.escapeHtml(title)}</title>`,
+      '<style>',
+      'body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #172B4D; max-width: 960px; margin: 24px auto; padding: 0 16px; }',
+      'table { border-collapse: collapse; width: 100%; margin-bottom: 16px; }',
+      'th, td { border-bottom: 1px solid #DFE1E6; padding: 8px; text-align: left; vertical-align: top; }',
+      'th { border-bottom: 2px solid #DFE1E6; }',
+      '.generated { color: #6B778C; }',
+      '</style>',
+      '</head>',
+      '<body>',
+      ...body,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Render a report as CSV tables
+   *
+   * Each section is a table: a row with the section title, a header row and
+   * the data rows. Sections are separated by an empty line.
+   * @param report - Sprint report
+   * @returns CSV document
+   */
+  renderCsv(report: SprintReport): string {
+    const tables: ReportTable[] = [
+      {
+        title: 'Overview',
+        headers: ['Field', 'Value'],
+        rows: [
+          ['Summary', report.summary],
+          ['Risk Level', report.riskAssessment.level],
+          ['Risk Score', report.riskAssessment.score !== undefined ? String(report.riskAssessment.score) : ''],
+          ['Risk Justification', report.riskAssessment.justification],
+          ['Generated', report.generatedAt],
+        ],
+      },
+      this.riskFactorTable(report),
+      {
+        title: 'Key Findings',
+        headers: ['#', 'Finding'],
+        rows: report.keyFindings.map((finding, idx) => [String(idx + 1), finding]),
+      },
+      {
+        title: 'Recommendations',
+        headers: ['Priority', 'Title', 'Category', 'Impact', 'Description'],
+        rows: report.recommendations.map(rec => [
+          String(rec.priority),
+          rec.title,
+          rec.category,
+          rec.impact,
+          rec.description,
+        ]),
+      },
+      this.sprintMetricTable(report),
+      this.prMetricTable(report),
+    ];
+
+    const suggestions = report.nextSprintSuggestions;
+    if (suggestions) {
+      tables.push(
+        {
+          title: 'Next Sprint Tasks',
+          headers: ['Task', 'Suggestion'],
+          rows: [
+            ...suggestions.tasksToInclude.map(task => [task, 'Include']),
+            ...suggestions.tasksToPostpone.map(task => [task, 'Postpone']),
+          ],
+        },
+        this.reviewerAssignmentTable(report)
+      );
+    }
+
+    return tables
+      .filter(table => table.rows.length > 0)
+      .map(table => [[table.title], table.headers, ...table.rows].map(row => this.csvRow(row)).join('\r\n'))
+      .join('\r\n\r\n') + '\r\n';
+  }
+
+  /**
+   * Risk factors with their severity and score contribution
+   */
+  private riskFactorTable(report: SprintReport): ReportTable {
+    return {
+      title: 'Risk Factors',
+      headers: ['Category', 'Severity', 'Contribution', 'Description'],
+      rows: (report.riskAssessment.factors || []).map(factor => [
+        factor.category,
+        String(factor.severity),
+        factor.contribution !== undefined ? String(factor.contribution) : '',
+        factor.description,
+      ]),
+    };
+  }
+
+  /**
+   * Sprint metrics with units
+   */
+  private sprintMetricTable(report: SprintReport): ReportTable {
+    const sprint = report.metrics.sprint;
+    const hours = report.durationMode === 'business-hours' ? 'business hours' : 'hours';
+
+    return {
+      title: 'Sprint Metrics',
+      headers: ['Metric', 'Value'],
+      rows: [
+        ['Completion Rate', `${sprint.completionRate.toFixed(1)}%`],
+        ['Velocity', `${sprint.velocity} story points`],
+        ['Throughput', `${sprint.throughput} issues`],
+        ['Average Cycle Time', `${sprint.cycleTime.toFixed(1)} ${hours}`],
+        ['Average Lead Time', `${sprint.leadTime.toFixed(1)} ${hours}`],
+        ['WIP Count', String(sprint.wipCount)],
+        ['Carry-over Tasks', String(sprint.carryOverCount)],
+      ],
+    };
+  }
+
+  /**
+   * Pull request metrics with units
+   */
+  private prMetricTable(report: SprintReport): ReportTable {
+    const pullRequests = report.metrics.pullRequests;
+    const hours = report.durationMode === 'business-hours' ? 'business hours' : 'hours';
+
+    return {
+      title: 'PR Metrics',
+      headers: ['Metric', 'Value'],
+      rows: [
+        ['Average PR Latency', `${pullRequests.averageLatency.toFixed(1)} ${hours}`],
+        ['Time to First Review', `${pullRequests.averageTimeToFirstReview.toFixed(1)} ${hours}`],
+        ['Average Review Cycles', pullRequests.averageReviewCycles.toFixed(1)],
+        ['Average Revisions', pullRequests.averageRevisions.toFixed(1)],
+      ],
+    };
+  }
+
+  /**
+   * Suggested reviewer assignments for the next sprint
+   */
+  private reviewerAssignmentTable(report: SprintReport): ReportTable {
+    return {
+      title: 'Reviewer Assignments',
+      headers: ['Reviewer', 'Recommended PRs', 'Rationale'],
+      rows: (report.nextSprintSuggestions?.reviewerAssignments || []).map(assignment => [
+        assignment.reviewer,
+        String(assignment.recommendedPRCount),
+        assignment.rationale,
+      ]),
+    };
+  }
+
+  /**
+   * Risk level with the score when the assessment has one
+   */
+  private formatRiskLevel(report: SprintReport): string {
+    const { level, score } = report.riskAssessment;
+    return score !== undefined ? `${level} (score ${score})` : level;
+  }
+
+  /**
+   * Markdown table lines; pipes and line breaks in cells are escaped
+   */
+  private markdownTable(table: ReportTable): string[] {
+    const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+    return [
+      `| ${table.headers.map(cell).join(' | ')} |`,
+      `| ${table.headers.map(() => '---').join(' | ')} |`,
+      ...table.rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+    ];
+  }
+
+  /**
+   * HTML table markup with escaped cells
+   */
+  private htmlTable(table: ReportTable): string {
+    const headers = table.headers.map(header => `<th>${this.escapeHtml(header)}</th>`).join('');
+    const rows = table.rows.map(row =>
+      `<tr>${row.map(value => `<td>${this.escapeHtml(value)}</td>`).join('')}</tr>`
+    );
+
+    return ['<table>', `<thead><tr>${headers}</tr></thead>`, '<tbody>', ...rows, '</tbody>', '</table>'].join('\n');
+  }
+
+  /**
+   * HTML list markup with escaped items
+   */
+  private htmlList(tag: 'ol' | 'ul', items: string[]): string {
+    return [`<${tag}>`, ...items.map(item => `<li>${this.escapeHtml(item)}</li>`), `</${tag}>`].join('\n');
+  }
+
+  /**
+   * Escape text for use in HTML content and attributes
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * CSV row; cells with commas, quotes or line breaks are quoted
+   */
+  private csvRow(cells: string[]): string {
+    return cells
+      .map(cell => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+      .join(',');
+  }
+}
@@ -0,0 +1,213 @@
+import {
+  SprintData,
+  SprintReport,
+  HistoricalMetrics,
+  RetrospectivePage,
+} from '../types';
+
+/**
+ * RetrospectivePageBuilder - Turns a closed sprint's report into a retrospective page
+ *
+ * This class provides methods to:
+ * - Build a Confluence page in storage format from a sprint report
+ * - Derive what went well from metrics and the board's previous sprints
+ * - Derive what to improve from the sprint's risk factors
+ *
+ * Recommendations become the page's action items (Confluence tasks), so the
+ * team can tick them off during the next sprint.
+ */
+export class RetrospectivePageBuilder {
+  private readonly GOOD_COMPLETION_RATE = 80; // percent
+  private readonly FAST_FIRST_REVIEW_HOURS = 24;
+
+  /**
+   * Build the retrospective page of a sprint
+   * @param sprint - Closed sprint
+   * @param report - The sprint's report
+   * @param history - Archived metrics of the board's previous sprints
+   * @returns Page title and storage format body
+   */
+  buildPage(sprint: SprintData, report: SprintReport, history: HistoricalMetrics[] = []): RetrospectivePage {
+    const previous = history.filter(entry => entry.sprintId !== sprint.id);
+    const body: string[] = [
+      `<p><em>Generated from the sprint report of ${this.escape(report.generatedAt)}.</em></p>`,
+      this.infoPanel(report.summary),
+      '<h2>Sprint at a Glance</h2>',
+      this.glanceTable(sprint, report, previous),
+      '<h2>What Went Well</h2>',
+      this.list(this.findWentWell(report, previous)),
+      '<h2>What to Improve</h2>',
+      this.list(this.findToImprove(report)),
+      '<h2>Actions</h2>',
+      this.actionList(report),
+    ];
+
+    if (report.keyFindings.length > 0) {
+      body.push('<h2>Key Findings</h2>', this.list(report.keyFindings));
+    }
+
+    if (report.nextSprintSuggestions) {
+      body.push(
+        '<h2>Next Sprint</h2>',
+        `<p><strong>Target Story Points:</strong> ${report.nextSprintSuggestions.targetStoryPoints}</p>`
+      );
+    }
+
+    return {
+      title: `Retrospective: ${sprint.name}`,
+      body: body.join('\n'),
+    };
+  }
+
+  /**
+   * What went well, from the metrics and the average of previous sprints
+   * @param report - Sprint report
+   * @param previous - Archived metrics of previous sprints
+   * @returns Statements, or a prompt for the team when nothing stands out
+   */
+  findWentWell(report: SprintReport, previous: HistoricalMetrics[] = []): string[] {
+    const sprint = report.metrics.sprint;
+    const pullRequests = report.metrics.pullRequests;
+    const wentWell: string[] = [];
+
+    if (report.riskAssessment.level === 'Low') {
+      wentWell.push('The sprint finished at low risk.');
+    }
+
+    if (sprint.completionRate >= this.GOOD_COMPLETION_RATE) {
+      wentWell.push(`Completed ${sprint.completionRate.toFixed(1)}% of the committed work.`);
+    }
+
+    if (sprint.carryOverCount === 0) {
+      wentWell.push('No work was carried over from earlier sprints.');
+    }
+
+    if (previous.length > 0) {
+      const averageVelocity = previous.reduce((sum, entry) => sum + entry.metrics.velocity, 0) / previous.length;
+      if (sprint.velocity >= averageVelocity) {
+        wentWell.push(
+          `Velocity of ${sprint.velocity} story points was at or above the average of ` +
+          `${averageVelocity.toFixed(1)} over the previous ${previous.length} sprint(s).`
+        );
+      }
+    }
+
+    if (pullRequests.averageLatency > 0 && pullRequests.averageTimeToFirstReview <= this.FAST_FIRST_REVIEW_HOURS) {
+      wentWell.push(
+        `Pull requests got a first review within ${pullRequests.averageTimeToFirstReview.toFixed(1)} ` +
+        `${this.hoursUnit(report)} on average.`
+      );
+    }
+
+    return wentWell.length > 0
+      ? wentWell
+      : ['Nothing stood out in the metrics. Add the team\'s highlights here.'];
+  }
+
+  /**
+   * What to improve, from the sprint's risk factors
+   * @param report - Sprint report
+   * @returns Risk factor descriptions, most severe first, or a prompt for the team
+   */
+  findToImprove(report: SprintReport): string[] {
+    const factors = [...(report.riskAssessment.factors || [])].sort((a, b) => b.severity - a.severity);
+
+    return factors.length > 0
+      ? factors.map(factor => factor.description)
+      : ['No risks were detected. Add the team\'s improvement ideas here.'];
+  }
+
+  /**
+   * Key metrics of the sprint, next to the average of previous sprints when available
+   */
+  private glanceTable(sprint: SprintData, report: SprintReport, previous: HistoricalMetrics[]): string {
+    const metrics = report.metrics.sprint;
+    const average = (select: (entry: HistoricalMetrics) => number) =>
+      (previous.reduce((sum, entry) => sum + select(entry), 0) / previous.length).toFixed(1);
+    const hours = this.hoursUnit(report);
+    const score = report.riskAssessment.score !== undefined ? ` (score ${report.riskAssessment.score})` : '';
+
+    const rows: string[][] = [
+      ['Dates', `${sprint.startDate.slice(0, 10)} to ${sprint.endDate.slice(0, 10)}`, ''],
+      ['Risk', `${report.riskAssessment.level}${score}`, ''],
+      ['Completion Rate', `${metrics.completionRate.toFixed(1)}%`, previous.length > 0 ? `${average(e => e.metrics.completionRate)}%` : ''],
+      ['Velocity', `${metrics.velocity} story points`, previous.length > 0 ? `${average(e => e.metrics.velocity)} story points` : ''],
+      ['Throughput', `${metrics.throughput} issues`, previous.length > 0 ? `${average(e => e.metrics.throughput)} issues` : ''],
+      ['Average Cycle Time', `${metrics.cycleTime.toFixed(1)} ${hours}`, previous.length > 0 ? `${average(e => e.metrics.cycleTime)} ${hours}` : ''],
+      ['Carry-over Tasks', String(metrics.carryOverCount), previous.length > 0 ? average(e => e.metrics.carryOverCount) : ''],
+      ['Average PR Latency', `${report.metrics.pullRequests.averageLatency.toFixed(1)} ${hours}`, previous.length > 0 ? `${average(e => e.prMetrics.averageLatency)} ${hours}` : ''],
+    ];
+
+    const headers = previous.length > 0
+      ? ['Metric', 'This Sprint', `Previous ${previous.length} Sprint(s)`]
+      : ['Metric', 'This Sprint'];
+
+    return [
+      '<table>',
+      '<tbody>',
+      `<tr>${headers.map(header => `<th>${this.escape(header)}</th>`).join('')}</tr>`,
+      ...rows.map(row =>
+        `<tr>${row.slice(0, headers.length).map(cell => `<td>${this.escape(cell)}</td>`).join('')}</tr>`
+      ),
+      '</tbody>',
+      '</table>',
+    ].join('\n');
+  }
+
+  /**
+   * Recommendations as Confluence tasks, highest priority first
+   */
+  private actionList(report: SprintReport): string {
+    if (report.recommendations.length === 0) {
+      return '<p>No recommendations for this sprint. Add the team\'s actions here.</p>';
+    }
+
+    const tasks = [...report.recommendations]
+      .sort((a, b) => a.priority - b.priority)
+      .map(rec =>
+        '<ac:task>' +
+        '<ac:task-status>incomplete</ac:task-status>' +
+        `<ac:task-body><strong>${this.escape(rec.title)}</strong>: ${this.escape(rec.description)}</ac:task-body>` +
+        '</ac:task>'
+      );
+
+    return ['<ac:task-list>', ...tasks, '</ac:task-list>'].join('\n');
+  }
+
+  /**
+   * Info panel macro with a paragraph of text
+   */
+  private infoPanel(text: string): string {
+    return (
+      '<ac:structured-macro ac:name="info">' +
+      `<ac:rich-text-body><p>${this.escape(text)}</p></ac:rich-text-body>` +
+      '</ac:structured-macro>'
+    );
+  }
+
+  /**
+   * Bulleted list with escaped items
+   */
+  private list(items: string[]): string {
+    return ['<ul>', ...items.map(item => `<li>${this.escape(item)}</li>`), '</ul>'].join('\n');
+  }
+
+  /**
+   * Unit of the report's durations
+   */
+  private hoursUnit(report: SprintReport): string {
+    return report.durationMode === 'business-hours' ? 'business hours' : 'hours';
+  }
+
+  /**
+   * Escape text for storage format, which is XHTML
+   */
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -1,60 +1,214 @@
 import {
   SprintMetrics,
   PRMetrics,
-  HistoricalMetrics,
+  HistoricalTrend,
   RiskAssessment,
   RiskFactor,
   RiskLevel,
   IssueData,
   PullRequestData,
+  ScopeChangeBreakdown,
+  CarryOverIssue,
+  DeveloperWorkload,
+  DependencyGraph,
+  RiskAggregation,
+  RiskScoringConfig,
+  RiskScoringOverrides,
+  RiskThresholds,
+  RiskEvidenceMetric,
 } from '../types';
+import { StatusClassifier } from './StatusClassifier';
+import { BusinessCalendar } from './BusinessCalendar';
+import { WorkloadAnalyzer } from './WorkloadAnalyzer';
 
 /**
  * RiskAssessor - Engine for assessing sprint risk levels
  * 
  * This class provides methods to:
- * - Identify risk factors (PR delays, high WIP, complexity, carry-over, bottlenecks)
+ * - Identify risk factors (PR delays, high WIP, complexity, carry-over, bottlenecks, scope creep,
+ *   blocking dependencies)
  * - Calculate overall risk scores
  * - Classify risk levels (Low, Medium, High)
  * - Generate justification text for risk assessments
  * 
  * Risk scoring is based on multiple factors with severity scores (0-10).
- * Overall risk score is aggregated and classified into three levels.
+ * Overall risk score is aggregated and classified into three levels. Factor
+ * weights, the aggregation and all thresholds can be overridden per board.
  */
 export class RiskAssessor {
-  // Risk level thresholds
-  private readonly LOW_RISK_THRESHOLD = 33;
-  private readonly MEDIUM_RISK_THRESHOLD = 66;
+  // Scoring model used unless a board overrides it
+  private readonly DEFAULT_SCORING_CONFIG: RiskScoringConfig = {
+    aggregation: 'weighted-mean',
+    weights: {
+      PR_DELAYS: 1,
+      HIGH_WIP: 1,
+      COMPLEXITY: 1,
+      CARRYOVER: 1,
+      BOTTLENECK: 1,
+      SCOPE_CREEP: 1,
+      DEPENDENCY: 1,
+    },
+    thresholds: {
+      lowRisk: 33,
+      mediumRisk: 66,
+      highWip: 5,
+      lowCompletionRate: 70,
+      reviewerOverload: 8,
+      prDelayMultiplier: 1.3,
+      scopeCreep: 15,
+      chronicCarryOverSprints: 2,
+      prLatencyHours: 48,
+      firstReviewHours: 24,
+      criticalPath: 3,
+    },
+  };
+
+  private readonly AGGREGATIONS: RiskAggregation[] = ['weighted-mean', 'max', 'noisy-or'];
+
+  private scoringConfig: RiskScoringConfig;
+  private statusClassifier: StatusClassifier;
+  private businessCalendar: BusinessCalendar;
+  private workloadAnalyzer: WorkloadAnalyzer;
+
+  constructor(
+    statusClassifier: StatusClassifier = new StatusClassifier(),
+    businessCalendar: BusinessCalendar = new BusinessCalendar()
+  ) {
+    this.statusClassifier = statusClassifier;
+    this.businessCalendar = businessCalendar;
+    this.workloadAnalyzer = new WorkloadAnalyzer(statusClassifier);
+    this.scoringConfig = this.resolveScoringConfig();
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+    this.workloadAnalyzer.setStatusClassifier(statusClassifier);
+  }
+
+  /**
+   * Replace the business calendar (e.g. with the board's team calendar)
+   *
+   * PR metrics are then expected in business hours, and the absolute PR delay
+   * thresholds are scaled to the team's working time.
+   * @param businessCalendar - Business calendar the metrics were measured with
+   */
+  setBusinessCalendar(businessCalendar: BusinessCalendar): void {
+    this.businessCalendar = businessCalendar;
+  }
+
+  /**
+   * Apply a board's changes to the default scoring model (null restores the defaults)
+   * @param overrides - Per-board scoring overrides
+   */
+  setScoringOverrides(overrides: RiskScoringOverrides | null): void {
+    this.scoringConfig = this.resolveScoringConfig(overrides);
+  }
+
+  /**
+   * Get the scoring model risk is currently assessed with
+   * @returns Resolved scoring config
+   */
+  getScoringConfig(): RiskScoringConfig {
+    return this.scoringConfig;
+  }
+
+  /**
+   * Detection and classification thresholds of the current scoring model
+   */
+  private get thresholds(): RiskThresholds {
+    return this.scoringConfig.thresholds;
+  }
+
+  /**
+   * Merge scoring overrides over the default scoring model
+   * @param overrides - Optional per-board scoring overrides
+   * @returns Resolved scoring config
+   */
+  resolveScoringConfig(overrides?: RiskScoringOverrides | null): RiskScoringConfig {
+    const defaults = this.DEFAULT_SCORING_CONFIG;
+
+    return {
+      aggregation: overrides?.aggregation || defaults.aggregation,
+      weights: { ...defaults.weights, ...overrides?.weights },
+      thresholds: { ...defaults.thresholds, ...overrides?.thresholds },
+    };
+  }
+
+  /**
+   * Validate per-board scoring overrides
+   * @param overrides - Scoring overrides to validate
+   * @returns Validation errors (empty if valid)
+   */
+  validateScoringOverrides(overrides: RiskScoringOverrides): string[] {
+    const errors: string[] = [];
 
-  // Risk factor detection thresholds
-  private readonly HIGH_WIP_THRESHOLD = 5; // issues per developer
-  private readonly LOW_COMPLETION_RATE_THRESHOLD = 70; // percentage
-  private readonly REVIEWER_OVERLOAD_THRESHOLD = 8; // PRs per reviewer
-  private readonly PR_DELAY_MULTIPLIER = 1.3; // 30% above baseline
+    if (overrides.aggregation !== undefined && !this.AGGREGATIONS.includes(overrides.aggregation)) {
+      errors.push(`aggregation must be one of ${this.AGGREGATIONS.join(', ')}`);
+    }
+
+    for (const [category, weight] of Object.entries(overrides.weights || {})) {
+      if (!(category in this.DEFAULT_SCORING_CONFIG.weights)) {
+        errors.push(`Unknown risk factor category: ${category}`);
+      } else if (typeof weight !== 'number' || !(weight >= 0)) {
+        errors.push(`Weight of ${category} must be a non-negative number`);
+      }
+    }
+
+    for (const [name, value] of Object.entries(overrides.thresholds || {})) {
+      if (!(name in this.DEFAULT_SCORING_CONFIG.thresholds)) {
+        errors.push(`Unknown threshold: ${name}`);
+      } else if (typeof value !== 'number' || !(value >= 0)) {
+        errors.push(`Threshold ${name} must be a non-negative number`);
+      }
+    }
+
+    const { lowRisk, mediumRisk } = this.resolveScoringConfig(overrides).thresholds;
+    if (lowRisk > mediumRisk || mediumRisk > 100) {
+      errors.push('Risk level thresholds must satisfy lowRisk <= mediumRisk <= 100');
+    }
+
+    return errors;
+  }
 
   /**
    * Assess sprint risk based on metrics and historical data
    * @param sprintMetrics - Current sprint metrics
    * @param prMetrics - Pull request metrics
-   * @param historicalData - Optional historical metrics for comparison
+   * @param historicalTrend - Optional trend across past sprints for comparison
    * @param issues - Optional issue data for detailed analysis
    * @param prs - Optional PR data for reviewer analysis
+   * @param scopeChanges - Optional mid-sprint scope changes
+   * @param carryOverIssues - Optional issues carried over from earlier sprints
+   * @param developerWorkload - Optional per-developer workload (derived from issues and PRs if omitted)
+   * @param dependencyGraph - Optional blocker graph of the sprint
    * @returns Complete risk assessment
    */
   assessSprintRisk(
     sprintMetrics: SprintMetrics,
     prMetrics: PRMetrics,
-    historicalData?: HistoricalMetrics,
+    historicalTrend?: HistoricalTrend,
     issues?: IssueData[],
-    prs?: PullRequestData[]
+    prs?: PullRequestData[],
+    scopeChanges?: ScopeChangeBreakdown,
+    carryOverIssues?: CarryOverIssue[],
+    developerWorkload?: DeveloperWorkload[],
+    dependencyGraph?: DependencyGraph
   ): RiskAssessment {
     // Identify all risk factors
     const factors = this.identifyRiskFactors(
       sprintMetrics,
       prMetrics,
-      historicalData,
+      historicalTrend,
       issues,
-      prs
+      prs,
+      scopeChanges,
+      carryOverIssues,
+      developerWorkload,
+      dependencyGraph
     );
 
     // Calculate overall risk score
@@ -69,8 +223,9 @@ export class RiskAssessor {
     return {
       level,
       score,
-      factors,
+      factors: this.attributeScore(factors, score),
       justification,
+      config: this.scoringConfig,
     };
   }
 
@@ -78,34 +233,44 @@ export class RiskAssessor {
    * Identify risk factors from sprint and PR metrics
    * @param sprintMetrics - Sprint metrics
    * @param prMetrics - PR metrics
-   * @param historicalData - Optional historical data
+   * @param historicalTrend - Optional trend across past sprints
    * @param issues - Optional issue data
    * @param prs - Optional PR data
+   * @param scopeChanges - Optional mid-sprint scope changes
+   * @param carryOverIssues - Optional issues carried over from earlier sprints
+   * @param developerWorkload - Optional per-developer workload (derived from issues and PRs if omitted)
+   * @param dependencyGraph - Optional blocker graph of the sprint
    * @returns Array of identified risk factors
    */
   identifyRiskFactors(
     sprintMetrics: SprintMetrics,
     prMetrics: PRMetrics,
-    historicalData?: HistoricalMetrics,
+    historicalTrend?: HistoricalTrend,
     issues?: IssueData[],
-    prs?: PullRequestData[]
+    prs?: PullRequestData[],
+    scopeChanges?: ScopeChangeBreakdown,
+    carryOverIssues?: CarryOverIssue[],
+    developerWorkload?: DeveloperWorkload[],
+    dependencyGraph?: DependencyGraph
   ): RiskFactor[] {
     const factors: RiskFactor[] = [];
 
     // Check for PR delays
-    const prDelayFactor = this.detectPRDelays(prMetrics, historicalData);
+    const prDelayFactor = this.detectPRDelays(prMetrics, historicalTrend, prs);
     if (prDelayFactor) {
       factors.push(prDelayFactor);
     }
 
     // Check for high WIP
-    const wipFactor = this.detectHighWIP(sprintMetrics, issues);
+    const workload = developerWorkload ||
+      (issues ? this.workloadAnalyzer.analyzeWorkload(issues, prs || []) : undefined);
+    const wipFactor = this.detectHighWIP(sprintMetrics, workload, issues);
     if (wipFactor) {
       factors.push(wipFactor);
     }
 
     // Check for carry-over risk
-    const carryOverFactor = this.detectCarryOverRisk(sprintMetrics);
+    const carryOverFactor = this.detectCarryOverRisk(sprintMetrics, carryOverIssues);
     if (carryOverFactor) {
       factors.push(carryOverFactor);
     }
@@ -117,44 +282,110 @@ export class RiskAssessor {
     }
 
     // Check for low completion rate
-    const completionFactor = this.detectLowCompletionRate(sprintMetrics);
+    const completionFactor = this.detectLowCompletionRate(sprintMetrics, issues);
     if (completionFactor) {
       factors.push(completionFactor);
     }
 
+    // Check for work added after the sprint started
+    const scopeCreepFactor = this.detectScopeCreep(scopeChanges);
+    if (scopeCreepFactor) {
+      factors.push(scopeCreepFactor);
+    }
+
+    // Check for blocking dependencies
+    const dependencyFactor = this.detectDependencyRisk(dependencyGraph);
+    if (dependencyFactor) {
+      factors.push(dependencyFactor);
+    }
+
     return factors;
   }
 
   /**
    * Calculate overall risk score from risk factors
+   *
+   * Severities are weighted per category and combined with the configured
+   * aggregation:
+   * - weighted-mean: weighted average severity, so many moderate factors do not add up
+   * - max: the most severe weighted factor
+   * - noisy-or: each factor is an independent chance of failure (severity / 10),
+   *   so several moderate factors score higher than any one of them
    * @param factors - Array of risk factors
    * @returns Risk score (0-100)
    */
   calculateRiskScore(factors: RiskFactor[]): number {
-    if (factors.length === 0) {
+    const { aggregation, weights } = this.scoringConfig;
+    const weighted = factors
+      .map(factor => ({ weight: weights[factor.category] ?? 1, severity: factor.severity }))
+      .filter(factor => factor.weight > 0);
+
+    if (weighted.length === 0) {
       return 0;
     }
 
-    // Sum all severity scores
-    const totalSeverity = factors.reduce((sum, factor) => sum + factor.severity, 0);
-
-    // Calculate average severity and scale to 0-100
-    const averageSeverity = totalSeverity / factors.length;
-    const score = (averageSeverity / 10) * 100;
+    let score: number;
+
+    switch (aggregation) {
+      case 'max':
+        score = Math.max(...weighted.map(factor => factor.weight * factor.severity)) * 10;
+        break;
+      case 'noisy-or': {
+        const noFailure = weighted.reduce(
+          (product, factor) => product * (1 - Math.min(1, (factor.weight * factor.severity) / 10)),
+          1
+        );
+        score = (1 - noFailure) * 100;
+        break;
+      }
+      default: {
+        const totalWeight = weighted.reduce((sum, factor) => sum + factor.weight, 0);
+        const totalSeverity = weighted.reduce((sum, factor) => sum + factor.weight * factor.severity, 0);
+        score = (totalSeverity / totalWeight / 10) * 100;
+      }
+    }
 
     // Cap at 100
     return Math.min(100, Math.round(score));
   }
 
+  /**
+   * Attribute the overall risk score to the factors that produced it
+   *
+   * With max aggregation the most severe weighted factor accounts for the
+   * whole score; otherwise each factor's share is proportional to its weighted
+   * severity. Ignored categories (weight 0) contribute nothing.
+   * @param factors - Risk factors
+   * @param score - Overall risk score of the factors
+   * @returns Factors with their score contribution
+   */
+  private attributeScore(factors: RiskFactor[], score: number): RiskFactor[] {
+    const { aggregation, weights } = this.scoringConfig;
+    const weightedSeverities = factors.map(factor => (weights[factor.category] ?? 1) * factor.severity);
+    const totalWeightedSeverity = weightedSeverities.reduce((sum, value) => sum + value, 0);
+    const topIndex = weightedSeverities.indexOf(Math.max(...weightedSeverities));
+
+    return factors.map((factor, index) => {
+      let share = 0;
+      if (aggregation === 'max') {
+        share = index === topIndex && totalWeightedSeverity > 0 ? 1 : 0;
+      } else if (totalWeightedSeverity > 0) {
+        share = weightedSeverities[index] / totalWeightedSeverity;
+      }
+
+      return { ...factor, contribution: Math.round(score * share * 10) / 10 };
+    });
+  }
+
   /**
    * Classify risk level based on score
    * @param score - Risk score (0-100)
    * @returns Risk level classification
    */
   private classifyRiskLevel(score: number): RiskLevel {
-    if (score <= this.LOW_RISK_THRESHOLD) {
+    if (score <= this.thresholds.lowRisk) {
       return 'Low';
-    } else if (score <= this.MEDIUM_RISK_THRESHOLD) {
+    } else if (score <= this.thresholds.mediumRisk) {
       return 'Medium';
     } else {
       return 'High';
@@ -189,96 +420,158 @@ export class RiskAssessor {
 
   /**
    * Detect PR delays compared to historical baseline
+   *
+   * The baseline is the mean PR latency across past sprints. Latency is only
+   * flagged when it exceeds both 30% above the mean and one standard deviation
+   * above it, so naturally noisy teams are not flagged for normal variation.
    * @param prMetrics - Current PR metrics
-   * @param historicalData - Historical metrics for comparison
+   * @param historicalTrend - Trend across past sprints for comparison
+   * @param prs - Optional PR data, to name the slowest PRs
    * @returns Risk factor if delays detected, null otherwise
    */
   private detectPRDelays(
     prMetrics: PRMetrics,
-    historicalData?: HistoricalMetrics
+    historicalTrend?: HistoricalTrend,
+    prs?: PullRequestData[]
   ): RiskFactor | null {
-    // If no historical data, use absolute thresholds
-    if (!historicalData) {
+    const unit = this.businessCalendar.unitLabel;
+
+    // If no historical PR data, use absolute thresholds
+    if (!historicalTrend || historicalTrend.prLatency.sampleSize === 0) {
       // Consider delays if average latency > 48 hours or time to first review > 24 hours
-      if (prMetrics.averageLatency > 48 || prMetrics.averageTimeToFirstReview > 24) {
-        const severity = Math.min(10, Math.floor(prMetrics.averageLatency / 10));
+      // (as a share of working time in business-hours mode)
+      const latencyThreshold = this.businessCalendar.scaleWallClockHours(this.thresholds.prLatencyHours);
+      const firstReviewThreshold = this.businessCalendar.scaleWallClockHours(this.thresholds.firstReviewHours);
+
+      if (
+        prMetrics.averageLatency > latencyThreshold ||
+        prMetrics.averageTimeToFirstReview > firstReviewThreshold
+      ) {
+        const severity = Math.min(
+          10,
+          Math.floor((prMetrics.averageLatency / latencyThreshold) * this.thresholds.prLatencyHours / 10)
+        );
         return {
           category: 'PR_DELAYS',
           severity,
-          description: `PR latency is ${prMetrics.averageLatency.toFixed(1)} hours with ${prMetrics.averageTimeToFirstReview.toFixed(1)} hours to first review.`,
+          description: `PR latency is ${prMetrics.averageLatency.toFixed(1)} ${unit} with ${prMetrics.averageTimeToFirstReview.toFixed(1)} ${unit} to first review.`,
+          evidence: {
+            metrics: [
+              { name: 'averageLatency', value: prMetrics.averageLatency, threshold: latencyThreshold, unit },
+              { name: 'averageTimeToFirstReview', value: prMetrics.averageTimeToFirstReview, threshold: firstReviewThreshold, unit },
+            ],
+            issueKeys: [],
+            prIds: this.findSlowPRs(prs, latencyThreshold),
+          },
         };
       }
       return null;
     }
 
     // Compare with historical baseline
-    const historicalLatency = historicalData.prMetrics.averageLatency;
-    const threshold = historicalLatency * this.PR_DELAY_MULTIPLIER;
+    const { mean: historicalLatency, stdDev } = historicalTrend.prLatency;
+    const threshold = Math.max(
+      historicalLatency * this.thresholds.prDelayMultiplier,
+      historicalLatency + stdDev
+    );
 
     if (prMetrics.averageLatency > threshold) {
       const percentageIncrease = ((prMetrics.averageLatency / historicalLatency - 1) * 100);
       const severity = Math.min(10, Math.floor(percentageIncrease / 10));
+      const sprintLabel = historicalTrend.prLatency.sampleSize === 1 ? 'sprint' : 'sprints';
 
       return {
         category: 'PR_DELAYS',
         severity,
-        description: `PR latency is ${percentageIncrease.toFixed(0)}% above historical baseline (${prMetrics.averageLatency.toFixed(1)} vs ${historicalLatency.toFixed(1)} hours).`,
+        description: `PR latency is ${percentageIncrease.toFixed(0)}% above historical baseline (${prMetrics.averageLatency.toFixed(1)} vs ${historicalLatency.toFixed(1)} ${unit} average over ${historicalTrend.prLatency.sampleSize} ${sprintLabel}).`,
+        evidence: {
+          metrics: [{ name: 'averageLatency', value: prMetrics.averageLatency, threshold, unit }],
+          issueKeys: [],
+          prIds: this.findSlowPRs(prs, threshold),
+        },
       };
     }
 
     return null;
   }
 
+  /**
+   * Find merged PRs that took longer than a latency threshold
+   * @param prs - Optional PR data
+   * @param thresholdHours - Latency threshold in the calendar's unit
+   * @returns IDs of the slow PRs, slowest first
+   */
+  private findSlowPRs(prs: PullRequestData[] | undefined, thresholdHours: number): string[] {
+    return (prs || [])
+      .filter(pr => pr.state === 'MERGED' && pr.mergedAt)
+      .map(pr => ({ id: pr.id, latency: this.businessCalendar.hoursBetween(pr.createdAt, pr.mergedAt as string) }))
+      .filter(pr => pr.latency > thresholdHours)
+      .sort((a, b) => b.latency - a.latency)
+      .map(pr => pr.id);
+  }
+
   /**
    * Detect high WIP levels
    * @param sprintMetrics - Sprint metrics
-   * @param issues - Optional issue data for per-developer analysis
+   * @param developerWorkload - Optional per-developer workload
+   * @param issues - Optional issue data, to name the active issues
    * @returns Risk factor if high WIP detected, null otherwise
    */
   private detectHighWIP(
     sprintMetrics: SprintMetrics,
+    developerWorkload?: DeveloperWorkload[],
     issues?: IssueData[]
   ): RiskFactor | null {
-    // Calculate WIP per developer if issue data available
-    if (issues) {
-      const activeIssues = issues.filter(issue => 
-        issue.status.toLowerCase().includes('progress') ||
-        issue.status.toLowerCase().includes('review')
-      );
+    const activeIssues = (issues || []).filter(issue => this.statusClassifier.isActive(issue.status, issue.key));
 
-      // Group by assignee
-      const wipByDeveloper = new Map<string, number>();
-      for (const issue of activeIssues) {
-        if (issue.assignee) {
-          wipByDeveloper.set(
-            issue.assignee,
-            (wipByDeveloper.get(issue.assignee) || 0) + 1
-          );
-        }
-      }
-
-      // Find developers with high WIP
-      const overloadedDevs = Array.from(wipByDeveloper.entries())
-        .filter(([_, count]) => count >= this.HIGH_WIP_THRESHOLD);
+    // Calculate WIP per developer if workload data available
+    if (developerWorkload) {
+      // Find developers with high WIP, most active issues first
+      const overloadedDevs = developerWorkload
+        .filter(workload => workload.activeIssues >= this.thresholds.highWip)
+        .sort((a, b) => b.activeIssues - a.activeIssues);
 
       if (overloadedDevs.length > 0) {
-        const maxWIP = Math.max(...overloadedDevs.map(([_, count]) => count));
-        const severity = Math.min(10, Math.floor((maxWIP - this.HIGH_WIP_THRESHOLD) * 2) + 5);
+        const top = overloadedDevs[0];
+        const maxWIP = top.activeIssues;
+        const severity = Math.min(10, Math.floor((maxWIP - this.thresholds.highWip) * 2) + 5);
+        const reviewLoad = top.reviewingPRs > 0
+          ? ` ${top.username} is also reviewing ${top.reviewingPRs} open PR(s).`
+          : '';
+        const overloadedNames = overloadedDevs.map(workload => workload.username);
 
         return {
           category: 'HIGH_WIP',
           severity,
-          description: `${overloadedDevs.length} developer(s) have ${this.HIGH_WIP_THRESHOLD}+ active issues (max: ${maxWIP}).`,
+          description: `${overloadedDevs.length} developer(s) have ${this.thresholds.highWip}+ active issues (max: ${maxWIP}).${reviewLoad}`,
+          evidence: {
+            metrics: overloadedDevs.map(workload => ({
+              name: `activeIssues (${workload.username})`,
+              value: workload.activeIssues,
+              threshold: this.thresholds.highWip,
+              unit: 'issues',
+            })),
+            issueKeys: activeIssues
+              .filter(issue => issue.assignee && overloadedNames.includes(issue.assignee))
+              .sort((a, b) => overloadedNames.indexOf(a.assignee as string) - overloadedNames.indexOf(b.assignee as string))
+              .map(issue => issue.key),
+            prIds: [],
+          },
         };
       }
     } else {
       // Fallback: use total WIP count
-      if (sprintMetrics.wipCount >= this.HIGH_WIP_THRESHOLD * 2) {
+      if (sprintMetrics.wipCount >= this.thresholds.highWip * 2) {
         const severity = Math.min(10, Math.floor(sprintMetrics.wipCount / 3));
         return {
           category: 'HIGH_WIP',
           severity,
           description: `High WIP with ${sprintMetrics.wipCount} active issues.`,
+          evidence: {
+            metrics: [{ name: 'wipCount', value: sprintMetrics.wipCount, threshold: this.thresholds.highWip * 2, unit: 'issues' }],
+            issueKeys: activeIssues.map(issue => issue.key),
+            prIds: [],
+          },
         };
       }
     }
@@ -287,23 +580,68 @@ export class RiskAssessor {
   }
 
   /**
-   * Detect carry-over risk based on completion rate
+   * Detect carry-over risk from a low completion rate or issues carried through several sprints
    * @param sprintMetrics - Sprint metrics
+   * @param carryOverIssues - Optional issues carried over from earlier sprints
    * @returns Risk factor if carry-over risk detected, null otherwise
    */
-  private detectCarryOverRisk(sprintMetrics: SprintMetrics): RiskFactor | null {
-    if (sprintMetrics.completionRate < this.LOW_COMPLETION_RATE_THRESHOLD) {
-      const deficit = this.LOW_COMPLETION_RATE_THRESHOLD - sprintMetrics.completionRate;
-      const severity = Math.min(10, Math.floor(deficit / 5) + 3);
+  private detectCarryOverRisk(
+    sprintMetrics: SprintMetrics,
+    carryOverIssues?: CarryOverIssue[]
+  ): RiskFactor | null {
+    const descriptions: string[] = [];
+    const metrics: RiskEvidenceMetric[] = [];
+    let severity = 0;
+
+    if (sprintMetrics.completionRate < this.thresholds.lowCompletionRate) {
+      const deficit = this.thresholds.lowCompletionRate - sprintMetrics.completionRate;
+      severity = Math.min(10, Math.floor(deficit / 5) + 3);
+      descriptions.push(
+        `Completion rate is ${sprintMetrics.completionRate.toFixed(0)}%, with ${sprintMetrics.carryOverCount} unfinished issue(s) carried over from earlier sprints.`
+      );
+      metrics.push({
+        name: 'completionRate',
+        value: sprintMetrics.completionRate,
+        threshold: this.thresholds.lowCompletionRate,
+        unit: '%',
+      });
+    }
 
-      return {
-        category: 'CARRYOVER',
-        severity,
-        description: `Completion rate is ${sprintMetrics.completionRate.toFixed(0)}%, indicating ${sprintMetrics.carryOverCount} likely carry-over tasks.`,
-      };
+    // Issues that keep moving from sprint to sprint point to blocked or poorly sized work
+    const chronicCarryOvers = (carryOverIssues || []).filter(
+      issue => issue.sprintsCarried >= this.thresholds.chronicCarryOverSprints
+    );
+
+    if (chronicCarryOvers.length > 0) {
+      const maxSprints = Math.max(...chronicCarryOvers.map(issue => issue.sprintsCarried));
+      severity = Math.max(severity, Math.min(10, 2 + chronicCarryOvers.length * 2));
+      descriptions.push(
+        `${chronicCarryOvers.length} issue(s) have been carried through ${this.thresholds.chronicCarryOverSprints}+ sprints (max: ${maxSprints}, e.g. ${chronicCarryOvers[0].issueKey}).`
+      );
+      metrics.push({
+        name: 'maxSprintsCarried',
+        value: maxSprints,
+        threshold: this.thresholds.chronicCarryOverSprints,
+        unit: 'sprints',
+      });
     }
 
-    return null;
+    if (descriptions.length === 0) {
+      return null;
+    }
+
+    return {
+      category: 'CARRYOVER',
+      severity,
+      description: descriptions.join(' '),
+      evidence: {
+        metrics,
+        issueKeys: [...(carryOverIssues || [])]
+          .sort((a, b) => b.sprintsCarried - a.sprintsCarried)
+          .map(issue => issue.issueKey),
+        prIds: [],
+      },
+    };
   }
 
   /**
@@ -332,16 +670,31 @@ export class RiskAssessor {
 
     // Find overloaded reviewers
     const overloadedReviewers = Array.from(prsByReviewer.entries())
-      .filter(([_, count]) => count >= this.REVIEWER_OVERLOAD_THRESHOLD);
+      .filter(([_, count]) => count >= this.thresholds.reviewerOverload);
 
     if (overloadedReviewers.length > 0) {
       const maxPRs = Math.max(...overloadedReviewers.map(([_, count]) => count));
-      const severity = Math.min(10, Math.floor((maxPRs - this.REVIEWER_OVERLOAD_THRESHOLD) / 2) + 6);
+      const severity = Math.min(10, Math.floor((maxPRs - this.thresholds.reviewerOverload) / 2) + 6);
+      const overloadedNames = new Set(overloadedReviewers.map(([username]) => username));
 
       return {
         category: 'BOTTLENECK',
         severity,
-        description: `${overloadedReviewers.length} reviewer(s) have ${this.REVIEWER_OVERLOAD_THRESHOLD}+ pending PRs (max: ${maxPRs}).`,
+        description: `${overloadedReviewers.length} reviewer(s) have ${this.thresholds.reviewerOverload}+ pending PRs (max: ${maxPRs}).`,
+        evidence: {
+          metrics: overloadedReviewers
+            .sort((a, b) => b[1] - a[1])
+            .map(([username, count]) => ({
+              name: `pendingReviews (${username})`,
+              value: count,
+              threshold: this.thresholds.reviewerOverload,
+              unit: 'PRs',
+            })),
+          issueKeys: [],
+          prIds: prs
+            .filter(pr => pr.state === 'OPEN' && pr.reviewers.some(reviewer => overloadedNames.has(reviewer.username)))
+            .map(pr => pr.id),
+        },
       };
     }
 
@@ -351,9 +704,10 @@ export class RiskAssessor {
   /**
    * Detect low completion rate as a complexity indicator
    * @param sprintMetrics - Sprint metrics
+   * @param issues - Optional issue data, to name the unfinished issues
    * @returns Risk factor if low completion detected, null otherwise
    */
-  private detectLowCompletionRate(sprintMetrics: SprintMetrics): RiskFactor | null {
+  private detectLowCompletionRate(sprintMetrics: SprintMetrics, issues?: IssueData[]): RiskFactor | null {
     // This is handled by carry-over detection, but we can add complexity-specific checks
     if (sprintMetrics.completionRate < 50 && sprintMetrics.velocity > 0) {
       const severity = Math.min(10, Math.floor((50 - sprintMetrics.completionRate) / 5) + 5);
@@ -362,9 +716,112 @@ export class RiskAssessor {
         category: 'COMPLEXITY',
         severity,
         description: `Very low completion rate (${sprintMetrics.completionRate.toFixed(0)}%) suggests task complexity issues.`,
+        evidence: {
+          metrics: [{ name: 'completionRate', value: sprintMetrics.completionRate, threshold: 50, unit: '%' }],
+          issueKeys: (issues || [])
+            .filter(issue => !this.statusClassifier.isCompleted(issue.status, issue.key))
+            .sort((a, b) => (b.storyPoints || 0) - (a.storyPoints || 0))
+            .map(issue => issue.key),
+          prIds: [],
+        },
       };
     }
 
     return null;
   }
+
+  /**
+   * Detect scope creep from work added after the sprint started
+   * @param scopeChanges - Mid-sprint scope changes
+   * @returns Risk factor if added work exceeds the threshold, null otherwise
+   */
+  private detectScopeCreep(scopeChanges?: ScopeChangeBreakdown): RiskFactor | null {
+    if (!scopeChanges || scopeChanges.addedIssues === 0) {
+      return null;
+    }
+
+    // Without committed points, any added estimated work is treated as scope creep
+    const addedPercentage = scopeChanges.committedPoints > 0
+      ? scopeChanges.addedPercentage
+      : scopeChanges.addedPoints > 0 ? 100 : 0;
+
+    if (addedPercentage < this.thresholds.scopeCreep) {
+      return null;
+    }
+
+    const severity = Math.min(10, Math.floor(addedPercentage / 10) + 3);
+    const addedIssueKeys = scopeChanges.events
+      .filter(event => event.change === 'added')
+      .map(event => event.issueKey);
+
+    return {
+      category: 'SCOPE_CREEP',
+      severity,
+      description: `${scopeChanges.addedIssues} issue(s) (${scopeChanges.addedPoints} story points) were added after the sprint started, ${addedPercentage.toFixed(0)}% of committed scope.`,
+      evidence: {
+        metrics: [{ name: 'addedPercentage', value: addedPercentage, threshold: this.thresholds.scopeCreep, unit: '%' }],
+        issueKeys: [...new Set(addedIssueKeys)],
+        prIds: [],
+      },
+    };
+  }
+
+  /**
+   * Detect blocking dependencies that put sprint work at risk
+   * @param dependencyGraph - Blocker graph of the sprint
+   * @returns Risk factor if there are cycles, external blockers or a long critical path, null otherwise
+   */
+  private detectDependencyRisk(dependencyGraph?: DependencyGraph): RiskFactor | null {
+    if (!dependencyGraph) {
+      return null;
+    }
+
+    const { cycles, externalBlockers, criticalPath } = dependencyGraph;
+    const blockedExternally = new Set(externalBlockers.flatMap(blocker => blocker.blockedIssues));
+    const longCriticalPath = criticalPath.length >= this.thresholds.criticalPath;
+
+    if (cycles.length === 0 && externalBlockers.length === 0 && !longCriticalPath) {
+      return null;
+    }
+
+    const details: string[] = [];
+    const metrics: RiskEvidenceMetric[] = [];
+    if (cycles.length > 0) {
+      details.push(`${cycles.length} circular dependency(ies) (${cycles.map(cycle => cycle.join(' → ')).join('; ')})`);
+      metrics.push({ name: 'cycles', value: cycles.length, threshold: 0, unit: 'cycles' });
+    }
+    if (externalBlockers.length > 0) {
+      details.push(`${externalBlockers.length} unresolved blocker(s) outside the sprint holding up ${blockedExternally.size} issue(s)`);
+      metrics.push({ name: 'externalBlockers', value: externalBlockers.length, threshold: 0, unit: 'blockers' });
+    }
+    if (longCriticalPath) {
+      details.push(`a critical path of ${criticalPath.length} issues (${criticalPath.join(' → ')})`);
+      metrics.push({ name: 'criticalPath', value: criticalPath.length, threshold: this.thresholds.criticalPath, unit: 'issues' });
+    }
+
+    // Cycles cannot resolve on their own, so they weigh the most
+    const severity = Math.min(
+      10,
+      2 +
+        cycles.length * 3 +
+        externalBlockers.length +
+        blockedExternally.size +
+        (longCriticalPath ? criticalPath.length - this.thresholds.criticalPath + 1 : 0)
+    );
+
+    return {
+      category: 'DEPENDENCY',
+      severity,
+      description: `Blocking dependencies: ${details.join(', ')}.`,
+      evidence: {
+        metrics,
+        issueKeys: [...new Set([
+          ...cycles.flat(),
+          ...blockedExternally,
+          ...(longCriticalPath ? criticalPath : []),
+        ])],
+        prIds: [],
+      },
+    };
+  }
 }
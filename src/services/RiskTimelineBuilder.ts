@@ -0,0 +1,90 @@
+import {
+  SprintReport,
+  RiskSnapshot,
+  RiskTimeline,
+  RiskTimelineDay,
+} from '../types';
+
+/**
+ * RiskTimelineBuilder - How a sprint's risk evolved across analyses
+ *
+ * This class provides methods to:
+ * - Capture the risk assessment and key metrics of a sprint report as a snapshot
+ * - Reduce recorded snapshots to one risk value per day
+ *
+ * A day's risk is the one assessed by its last analysis; the day's lowest and
+ * highest scores show how much it moved in between.
+ */
+export class RiskTimelineBuilder {
+  /**
+   * Capture the risk of a sprint report
+   * @param report - Sprint report
+   * @returns Risk snapshot
+   */
+  createSnapshot(report: SprintReport): RiskSnapshot {
+    const { sprint, pullRequests } = report.metrics;
+
+    return {
+      recordedAt: report.generatedAt,
+      level: report.riskAssessment.level,
+      score: report.riskAssessment.score ?? 0,
+      // Evidence lists every affected issue and would bloat the timeline
+      factors: (report.riskAssessment.factors || []).map(factor => ({
+        category: factor.category,
+        severity: factor.severity,
+        description: factor.description,
+        contribution: factor.contribution,
+      })),
+      metrics: {
+        completionRate: sprint.completionRate,
+        velocity: sprint.velocity,
+        wipCount: sprint.wipCount,
+        carryOverCount: sprint.carryOverCount,
+        averagePRLatency: pullRequests.averageLatency,
+      },
+    };
+  }
+
+  /**
+   * Build a sprint's risk timeline from its recorded snapshots
+   * @param sprintId - Sprint ID
+   * @param snapshots - Recorded snapshots (any order)
+   * @returns Risk timeline
+   */
+  buildTimeline(sprintId: string, snapshots: RiskSnapshot[]): RiskTimeline {
+    const sorted = [...snapshots].sort(
+      (a, b) => new Date(b.recordedAt).getTime() - new Date(a.recordedAt).getTime()
+    );
+
+    return {
+      sprintId,
+      snapshots: sorted,
+      days: this.buildDays([...sorted].reverse()),
+    };
+  }
+
+  /**
+   * Reduce snapshots to one risk value per day
+   * @param snapshots - Snapshots, oldest first
+   * @returns Days with at least one analysis, oldest first
+   */
+  private buildDays(snapshots: RiskSnapshot[]): RiskTimelineDay[] {
+    const days = new Map<string, RiskTimelineDay>();
+
+    for (const snapshot of snapshots) {
+      const date = new Date(snapshot.recordedAt).toISOString().slice(0, 10);
+      const day = days.get(date);
+
+      days.set(date, {
+        date,
+        level: snapshot.level,
+        score: snapshot.score,
+        minScore: day ? Math.min(day.minScore, snapshot.score) : snapshot.score,
+        maxScore: day ? Math.max(day.maxScore, snapshot.score) : snapshot.score,
+        analyses: (day?.analyses || 0) + 1,
+      });
+    }
+
+    return Array.from(days.values());
+  }
+}
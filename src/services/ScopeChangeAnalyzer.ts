@@ -0,0 +1,161 @@
+import {
+  IssueData,
+  SprintData,
+  ScopeChangeEvent,
+  ScopeChangeTotals,
+  ScopeChangeDay,
+  ScopeChangeAuthor,
+  ScopeChangeBreakdown,
+} from '../types';
+import { isInSprintAt } from '../utils/helpers';
+
+/**
+ * ScopeChangeAnalyzer - Detects work added to or removed from a running sprint
+ *
+ * This class provides methods to:
+ * - Find sprint membership changes made after the sprint started
+ * - Calculate the scope committed at sprint start
+ * - Break down added and removed issues and story points by day and by author
+ *
+ * Membership changes come from the Sprint field history of each issue; issues
+ * created in the sprint after it started count as added at creation. Issues
+ * removed from the sprint must be passed in separately since they no longer
+ * belong to it.
+ */
+export class ScopeChangeAnalyzer {
+  /**
+   * Analyze mid-sprint scope changes
+   * @param issues - Issues currently in the sprint
+   * @param removedIssues - Issues removed from the sprint after it started
+   * @param sprint - Sprint data
+   * @returns Scope change breakdown
+   */
+  analyzeScopeChanges(
+    issues: IssueData[],
+    removedIssues: IssueData[],
+    sprint: SprintData
+  ): ScopeChangeBreakdown {
+    const start = new Date(sprint.startDate).getTime();
+    const end = sprint.state === 'closed' ? new Date(sprint.endDate).getTime() : Infinity;
+
+    // An issue can appear in both lists if it was removed and added back
+    const allIssues = new Map<string, IssueData>();
+    for (const issue of [...removedIssues, ...issues]) {
+      allIssues.set(issue.key, issue);
+    }
+
+    const events: ScopeChangeEvent[] = [];
+    let committedIssues = 0;
+    let committedPoints = 0;
+
+    for (const issue of allIssues.values()) {
+      if (isInSprintAt(issue, sprint.id, start)) {
+        committedIssues++;
+        committedPoints += issue.storyPoints || 0;
+      }
+
+      const changes = (issue.sprintChanges || []).filter(change => change.sprintId === sprint.id);
+
+      // Issues created directly in the running sprint have no Sprint field history
+      if (changes.length === 0 && issue.createdAt) {
+        const createdAt = new Date(issue.createdAt).getTime();
+        if (createdAt > start && createdAt <= end) {
+          events.push({
+            issueKey: issue.key,
+            summary: issue.summary,
+            change: 'added',
+            storyPoints: issue.storyPoints,
+            timestamp: issue.createdAt,
+            author: null,
+          });
+        }
+      }
+
+      for (const change of changes) {
+        const time = new Date(change.timestamp).getTime();
+        if (time <= start || time > end) {
+          continue;
+        }
+
+        events.push({
+          issueKey: issue.key,
+          summary: issue.summary,
+          change: change.change,
+          storyPoints: issue.storyPoints,
+          timestamp: change.timestamp,
+          author: change.author || null,
+        });
+      }
+    }
+
+    events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    const totals = this.sumEvents(events);
+    const byDay = this.groupEvents(events, event => event.timestamp.slice(0, 10))
+      .map(([date, dayEvents]) => ({ date, ...this.sumEvents(dayEvents) }) as ScopeChangeDay)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const byAuthor = this.groupEvents(events, event => event.author)
+      .map(([author, authorEvents]) => ({ author, ...this.sumEvents(authorEvents) }) as ScopeChangeAuthor)
+      .sort((a, b) => (b.addedPoints + b.removedPoints) - (a.addedPoints + a.removedPoints));
+
+    return {
+      committedIssues,
+      committedPoints,
+      ...totals,
+      netPointChange: totals.addedPoints - totals.removedPoints,
+      addedPercentage: committedPoints > 0 ? (totals.addedPoints / committedPoints) * 100 : 0,
+      events,
+      byDay,
+      byAuthor,
+    };
+  }
+
+  /**
+   * Sum added and removed issues and story points
+   * @param events - Scope change events
+   * @returns Totals
+   */
+  private sumEvents(events: ScopeChangeEvent[]): ScopeChangeTotals {
+    const totals: ScopeChangeTotals = {
+      addedIssues: 0,
+      removedIssues: 0,
+      addedPoints: 0,
+      removedPoints: 0,
+    };
+
+    for (const event of events) {
+      if (event.change === 'added') {
+        totals.addedIssues++;
+        totals.addedPoints += event.storyPoints || 0;
+      } else {
+        totals.removedIssues++;
+        totals.removedPoints += event.storyPoints || 0;
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Group events by a key
+   * @param events - Scope change events
+   * @param getKey - Key selector
+   * @returns Entries of key and events, in first-seen order
+   */
+  private groupEvents<K>(
+    events: ScopeChangeEvent[],
+    getKey: (event: ScopeChangeEvent) => K
+  ): Array<[K, ScopeChangeEvent[]]> {
+    const groups = new Map<K, ScopeChangeEvent[]>();
+
+    for (const event of events) {
+      const key = getKey(event);
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(event);
+    }
+
+    return Array.from(groups.entries());
+  }
+}
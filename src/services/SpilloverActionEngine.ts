@@ -0,0 +1,307 @@
+import {
+  SpilloverPrediction,
+  SpilloverActionSettings,
+  SpilloverAction,
+  SpilloverActionResult,
+  SpilloverActionRun,
+  SpilloverIssueMarker,
+} from '../types';
+import { StorageService } from './StorageService';
+import { JiraIssueWriter } from './JiraIssueWriter';
+
+/**
+ * SpilloverActionEngine - Labels and comments on issues predicted to spill over
+ *
+ * This class provides methods to:
+ * - Plan the Jira writes that bring a sprint's issues in line with its spillover predictions
+ * - Label and comment on issues at or above the board's probability threshold
+ * - Remove the label and comment once an issue's risk clears, or once it is
+ *   finished when its sprint closes
+ * - List the intended writes without changing Jira (dry run)
+ * - Keep an audit log of every run per board
+ * - Validate spillover action settings
+ *
+ * Only labels and comments added by the app are ever removed; they are
+ * tracked per board as issue markers. An unfinished issue carried into the
+ * next sprint keeps its marker, so that sprint's runs take over its label and
+ * comment instead of adding new ones.
+ */
+export class SpilloverActionEngine {
+  // Jira rejects labels with whitespace or longer than this
+  private readonly MAX_LABEL_LENGTH = 255;
+
+  private storageService: StorageService;
+  private writer: JiraIssueWriter;
+
+  /**
+   * @param storageService - Storage for settings, issue markers and the audit log
+   * @param writer - Writes labels and comments to Jira
+   */
+  constructor(storageService: StorageService = new StorageService(), writer: JiraIssueWriter = new JiraIssueWriter()) {
+    this.storageService = storageService;
+    this.writer = writer;
+  }
+
+  /**
+   * Plan the writes that label and comment on at-risk issues and clear issues no longer at risk
+   * @param sprintName - Sprint the predictions are for (used in comments)
+   * @param predictions - Spillover predictions of the sprint
+   * @param settings - The board's spillover action settings
+   * @param markers - Labels and comments already added to the sprint's issues
+   * @returns Actions in issue order, removals of an issue before additions
+   */
+  planActions(
+    sprintName: string,
+    predictions: SpilloverPrediction[],
+    settings: SpilloverActionSettings,
+    markers: SpilloverIssueMarker[]
+  ): SpilloverAction[] {
+    const actions: SpilloverAction[] = [];
+    const markersByKey = new Map(markers.map(marker => [marker.issueKey, marker]));
+    const atRisk = settings.enabled
+      ? predictions.filter(prediction => prediction.probability >= settings.threshold)
+      : [];
+
+    for (const prediction of atRisk) {
+      const marker = markersByKey.get(prediction.issueKey);
+      const issueKey = prediction.issueKey;
+
+      if (marker?.label && marker.label !== settings.label) {
+        actions.push({ type: 'remove-label', issueKey, label: marker.label });
+      }
+      if (marker?.label !== settings.label) {
+        actions.push({ type: 'add-label', issueKey, label: settings.label });
+      }
+
+      if (settings.comment && !marker?.commentId) {
+        actions.push({ type: 'add-comment', issueKey, comment: this.buildComment(sprintName, prediction) });
+      } else if (!settings.comment && marker?.commentId) {
+        actions.push({ type: 'delete-comment', issueKey, commentId: marker.commentId });
+      }
+    }
+
+    // Risk cleared (or the engine was disabled): undo what the app added
+    const atRiskKeys = new Set(atRisk.map(prediction => prediction.issueKey));
+    for (const marker of markers) {
+      if (atRiskKeys.has(marker.issueKey)) {
+        continue;
+      }
+      if (marker.label) {
+        actions.push({ type: 'remove-label', issueKey: marker.issueKey, label: marker.label });
+      }
+      if (marker.commentId) {
+        actions.push({ type: 'delete-comment', issueKey: marker.issueKey, commentId: marker.commentId });
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Apply a board's spillover actions to a sprint's issues and record the run
+   * @param boardId - Board the sprint was analyzed on
+   * @param sprint - Analyzed sprint
+   * @param predictions - Spillover predictions of the sprint
+   * @param options - issueKeys are all issues in the sprint (so markers of
+   *   carried-over issues are cleared too); dryRun overrides the board's
+   *   setting; now is the run time
+   * @returns The run, or null if the board has no spillover action settings
+   */
+  async run(
+    boardId: string,
+    sprint: { id: string; name: string },
+    predictions: SpilloverPrediction[],
+    options: { issueKeys?: string[]; dryRun?: boolean; now?: Date } = {}
+  ): Promise<SpilloverActionRun | null> {
+    const sprintIssues = new Set([
+      ...(options.issueKeys || []),
+      ...predictions.map(prediction => prediction.issueKey),
+    ]);
+
+    return this.execute(
+      boardId,
+      sprint,
+      predictions,
+      marker => marker.sprintId === sprint.id || sprintIssues.has(marker.issueKey),
+      options
+    );
+  }
+
+  /**
+   * Remove the labels and comments of a closed sprint's finished issues
+   * Unfinished issues keep theirs until a run of the sprint they carried into.
+   * @param boardId - Board the sprint was analyzed on
+   * @param sprint - Closed sprint
+   * @param completedIssueKeys - Issues finished in the sprint
+   * @param options - dryRun overrides the board's setting; now is the run time
+   * @returns The run, or null if the board has no spillover action settings
+   */
+  async cleanUpClosedSprint(
+    boardId: string,
+    sprint: { id: string; name: string },
+    completedIssueKeys: string[],
+    options: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<SpilloverActionRun | null> {
+    const completed = new Set(completedIssueKeys);
+
+    return this.execute(boardId, sprint, [], marker => completed.has(marker.issueKey), options);
+  }
+
+  /**
+   * Validate spillover action settings
+   * @param settings - Settings to validate
+   * @returns Validation errors (empty if valid)
+   */
+  validateSettings(settings: SpilloverActionSettings): string[] {
+    const errors: string[] = [];
+
+    for (const flag of ['enabled', 'comment', 'dryRun'] as const) {
+      if (typeof settings[flag] !== 'boolean') {
+        errors.push(`${flag} must be true or false`);
+      }
+    }
+
+    if (typeof settings.threshold !== 'number' || !(settings.threshold >= 0 && settings.threshold <= 1)) {
+      errors.push('threshold must be a number between 0 and 1');
+    }
+
+    if (
+      typeof settings.label !== 'string' ||
+      !settings.label ||
+      /\s/.test(settings.label) ||
+      settings.label.length > this.MAX_LABEL_LENGTH
+    ) {
+      errors.push(`label must be a Jira label without spaces of at most ${this.MAX_LABEL_LENGTH} characters`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Plan and apply (or only list) the actions for the board's markers in scope
+   * and record the run
+   */
+  private async execute(
+    boardId: string,
+    sprint: { id: string; name: string },
+    predictions: SpilloverPrediction[],
+    inScope: (marker: SpilloverIssueMarker) => boolean,
+    options: { dryRun?: boolean; now?: Date }
+  ): Promise<SpilloverActionRun | null> {
+    const settings = await this.storageService.getSpilloverActionSettings(boardId);
+    if (!settings) {
+      return null;
+    }
+
+    const now = options.now || new Date();
+    const dryRun = options.dryRun ?? settings.dryRun;
+    const markers = await this.storageService.getSpilloverMarkers(boardId);
+    const actions = this.planActions(sprint.name, predictions, settings, markers.filter(inScope));
+
+    let results: SpilloverActionResult[];
+    if (dryRun) {
+      results = actions.map(action => ({ ...action, status: 'planned' as const }));
+    } else {
+      const atRisk = settings.enabled
+        ? predictions.filter(prediction => prediction.probability >= settings.threshold)
+        : [];
+      const applied = await this.apply(sprint.id, actions, atRisk, markers, now);
+      results = applied.results;
+      await this.storageService.saveSpilloverMarkers(boardId, applied.markers);
+    }
+
+    const run: SpilloverActionRun = {
+      sprintId: sprint.id,
+      ranAt: now.toISOString(),
+      dryRun,
+      threshold: settings.threshold,
+      actions: results,
+    };
+
+    if (results.length > 0) {
+      await this.storageService.recordSpilloverActionRun(boardId, run);
+    }
+
+    return run;
+  }
+
+  /**
+   * Write actions to Jira one by one and update the board's issue markers
+   * A failed action leaves its marker unchanged, so the next run retries it.
+   * Markers of issues still at risk move to the analyzed sprint.
+   */
+  private async apply(
+    sprintId: string,
+    actions: SpilloverAction[],
+    atRisk: SpilloverPrediction[],
+    markers: SpilloverIssueMarker[],
+    now: Date
+  ): Promise<{ results: SpilloverActionResult[]; markers: SpilloverIssueMarker[] }> {
+    const results: SpilloverActionResult[] = [];
+    const markersByKey = new Map(markers.map(marker => [marker.issueKey, { ...marker }]));
+    const probabilities = new Map(atRisk.map(prediction => [prediction.issueKey, prediction.probability]));
+
+    for (const action of actions) {
+      const marker = markersByKey.get(action.issueKey) || {
+        issueKey: action.issueKey,
+        sprintId,
+        probability: probabilities.get(action.issueKey) ?? 0,
+        markedAt: now.toISOString(),
+      };
+
+      try {
+        switch (action.type) {
+          case 'add-label':
+            await this.writer.addLabel(action.issueKey, action.label || '');
+            marker.label = action.label;
+            break;
+          case 'remove-label':
+            await this.writer.removeLabel(action.issueKey, action.label || '');
+            marker.label = undefined;
+            break;
+          case 'add-comment':
+            marker.commentId = await this.writer.addComment(action.issueKey, action.comment || '');
+            break;
+          case 'delete-comment':
+            await this.writer.deleteComment(action.issueKey, action.commentId || '');
+            marker.commentId = undefined;
+            break;
+        }
+
+        markersByKey.set(action.issueKey, marker);
+        results.push({ ...action, status: 'applied' });
+      } catch (error) {
+        console.error(`Error applying ${action.type} to ${action.issueKey}:`, error);
+        results.push({
+          ...action,
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    for (const [issueKey, probability] of probabilities) {
+      const marker = markersByKey.get(issueKey);
+      if (marker) {
+        marker.sprintId = sprintId;
+        marker.probability = probability;
+      }
+    }
+
+    return {
+      results,
+      markers: [...markersByKey.values()].filter(marker => marker.label || marker.commentId),
+    };
+  }
+
+  /**
+   * Comment explaining an issue's spillover risk
+   */
+  private buildComment(sprintName: string, prediction: SpilloverPrediction): string {
+    return [
+      `Sprint Analysis predicts a ${Math.round(prediction.probability * 100)}% chance that this issue will not be finished in ${sprintName}.`,
+      ...prediction.reasons.map(reason => `• ${reason}`),
+      'This comment is removed when the risk clears.',
+    ].join('\n');
+  }
+}
@@ -0,0 +1,196 @@
+import {
+  SprintReport,
+  SprintMetrics,
+  PRMetrics,
+  MetricDelta,
+  RiskFactor,
+  RiskFactorChange,
+  CarriedIssue,
+  SprintComparison,
+  ComparedSprint,
+} from '../types';
+import { StatusClassifier } from './StatusClassifier';
+
+/**
+ * SprintComparator - Differences between two sprints
+ *
+ * This class provides methods to:
+ * - Calculate absolute and percent deltas of sprint and PR metrics
+ * - Classify how each risk factor changed (new, resolved, worse, better, unchanged)
+ * - Find issues that were in both sprints
+ *
+ * The base sprint is the one compared against, usually the earlier one.
+ */
+export class SprintComparator {
+  private readonly SPRINT_METRICS: Array<keyof SprintMetrics> = [
+    'velocity',
+    'throughput',
+    'completionRate',
+    'cycleTime',
+    'leadTime',
+    'wipCount',
+    'carryOverCount',
+  ];
+
+  private readonly PR_METRICS: Array<keyof PRMetrics> = [
+    'averageLatency',
+    'averageTimeToFirstReview',
+    'averageReviewCycles',
+    'averageRevisions',
+  ];
+
+  private readonly CHANGE_ORDER: Record<RiskFactorChange['change'], number> = {
+    new: 0,
+    worse: 1,
+    resolved: 2,
+    better: 3,
+    unchanged: 4,
+  };
+
+  private statusClassifier: StatusClassifier;
+
+  constructor(statusClassifier: StatusClassifier = new StatusClassifier()) {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Compare a sprint with a base sprint
+   * @param base - Sprint compared against
+   * @param target - Sprint being compared
+   * @returns Sprint comparison
+   */
+  compare(base: ComparedSprint, target: ComparedSprint): SprintComparison {
+    return {
+      baseSprint: base.sprint,
+      targetSprint: target.sprint,
+      metricDeltas: this.calculateMetricDeltas(base.report, target.report),
+      risk: {
+        baseLevel: base.report.riskAssessment.level,
+        baseScore: base.report.riskAssessment.score ?? null,
+        targetLevel: target.report.riskAssessment.level,
+        targetScore: target.report.riskAssessment.score ?? null,
+      },
+      riskFactorChanges: this.compareRiskFactors(
+        base.report.riskAssessment.factors || [],
+        target.report.riskAssessment.factors || []
+      ),
+      carriedIssues: this.findCarriedIssues(base, target),
+    };
+  }
+
+  /**
+   * Calculate the change of every sprint and PR metric
+   * @param base - Report of the base sprint
+   * @param target - Report of the target sprint
+   * @returns Metric deltas, sprint metrics first
+   */
+  calculateMetricDeltas(base: SprintReport, target: SprintReport): MetricDelta[] {
+    const sprintDeltas = this.SPRINT_METRICS.map(metric =>
+      this.delta(metric, base.metrics.sprint[metric], target.metrics.sprint[metric])
+    );
+    const prDeltas = this.PR_METRICS.map(metric =>
+      this.delta(metric, base.metrics.pullRequests[metric], target.metrics.pullRequests[metric])
+    );
+
+    return [...sprintDeltas, ...prDeltas];
+  }
+
+  /**
+   * Classify how each risk factor changed between two sprints
+   * @param baseFactors - Risk factors of the base sprint
+   * @param targetFactors - Risk factors of the target sprint
+   * @returns Risk factor changes, new and worse first
+   */
+  compareRiskFactors(baseFactors: RiskFactor[], targetFactors: RiskFactor[]): RiskFactorChange[] {
+    const baseByCategory = new Map(baseFactors.map(factor => [factor.category, factor]));
+    const targetByCategory = new Map(targetFactors.map(factor => [factor.category, factor]));
+    const categories = new Set([...baseByCategory.keys(), ...targetByCategory.keys()]);
+    const changes: RiskFactorChange[] = [];
+
+    for (const category of categories) {
+      const baseFactor = baseByCategory.get(category);
+      const targetFactor = targetByCategory.get(category);
+
+      let change: RiskFactorChange['change'];
+      if (!baseFactor) {
+        change = 'new';
+      } else if (!targetFactor) {
+        change = 'resolved';
+      } else if (targetFactor.severity > baseFactor.severity) {
+        change = 'worse';
+      } else if (targetFactor.severity < baseFactor.severity) {
+        change = 'better';
+      } else {
+        change = 'unchanged';
+      }
+
+      changes.push({
+        category,
+        change,
+        baseSeverity: baseFactor ? baseFactor.severity : null,
+        targetSeverity: targetFactor ? targetFactor.severity : null,
+        description: ((targetFactor || baseFactor) as RiskFactor).description,
+      });
+    }
+
+    return changes.sort((a, b) =>
+      this.CHANGE_ORDER[a.change] - this.CHANGE_ORDER[b.change] ||
+      (b.targetSeverity ?? b.baseSeverity ?? 0) - (a.targetSeverity ?? a.baseSeverity ?? 0)
+    );
+  }
+
+  /**
+   * Find issues that were in both sprints
+   *
+   * An issue counts if both sprints list it, or if the target sprint's issue
+   * records the base sprint in its Sprint field.
+   * @param base - Base sprint
+   * @param target - Target sprint
+   * @returns Carried issues, unfinished first, then by story points
+   */
+  findCarriedIssues(base: ComparedSprint, target: ComparedSprint): CarriedIssue[] {
+    const baseKeys = new Set(base.issues.map(issue => issue.key));
+
+    return target.issues
+      .filter(issue =>
+        baseKeys.has(issue.key) ||
+        (issue.sprints || []).some(sprint => sprint.id === base.sprint.id)
+      )
+      .map(issue => ({
+        issueKey: issue.key,
+        summary: issue.summary,
+        storyPoints: issue.storyPoints,
+        status: issue.status,
+        completed: this.statusClassifier.isCompleted(issue.status, issue.key),
+      }))
+      .sort((a, b) =>
+        Number(a.completed) - Number(b.completed) ||
+        (b.storyPoints || 0) - (a.storyPoints || 0)
+      );
+  }
+
+  /**
+   * Calculate the change of one metric
+   * @param metric - Metric name
+   * @param base - Value in the base sprint
+   * @param target - Value in the target sprint
+   * @returns Metric delta
+   */
+  private delta(metric: MetricDelta['metric'], base: number, target: number): MetricDelta {
+    return {
+      metric,
+      base,
+      target,
+      change: target - base,
+      percentChange: base !== 0 ? ((target - base) / Math.abs(base)) * 100 : null,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import { StatusCategory, StatusCategoryOverrides } from '../types';
+
+/**
+ * StatusClassifier - Shared workflow status classification for all engines
+ *
+ * Maps a status name to one of Jira's status categories:
+ * - new: work not started (To Do, Backlog, ...)
+ * - indeterminate: work in progress (In Progress, Awaiting Deploy, ...)
+ * - done: work finished (Done, Won't Do, ...)
+ *
+ * Resolution order for a status name:
+ * 1. Override table of the issue's project (stored in Forge storage)
+ * 2. Overrides shared by all projects
+ * 3. Status category reported by Jira
+ * 4. Keyword matching on the status name (fallback when Jira data is unavailable)
+ *
+ * Project overrides only apply when the issue key is given, since the same
+ * status name can mean different things in different projects. Status names
+ * are matched case-insensitively.
+ */
+export class StatusClassifier {
+  // Keyword fallbacks, only used for statuses with no Jira category or override
+  private readonly FALLBACK_DONE_KEYWORDS = [
+    'done',
+    'closed',
+    'resolved',
+    'completed',
+  ];
+
+  private readonly FALLBACK_IN_PROGRESS_KEYWORDS = [
+    'in progress',
+    'progress',
+    'in development',
+    'review',
+    'testing',
+    'qa',
+  ];
+
+  private readonly FALLBACK_NEW_KEYWORDS = [
+    'to do',
+    'backlog',
+    'open',
+    'new',
+  ];
+
+  private readonly VALID_CATEGORIES: StatusCategory[] = ['new', 'indeterminate', 'done'];
+
+  private jiraCategories: Map<string, StatusCategory>;
+  private overrides: Map<string, StatusCategory>;
+  private projectOverrides: Map<string, Map<string, StatusCategory>>;
+
+  /**
+   * @param jiraCategories - Status name to category mapping reported by Jira
+   * @param overrides - Status name to category overrides for all projects (take precedence over Jira)
+   * @param projectOverrides - Overrides per project key (take precedence over all others)
+   */
+  constructor(
+    jiraCategories: Record<string, StatusCategory> = {},
+    overrides: StatusCategoryOverrides = {},
+    projectOverrides: Record<string, StatusCategoryOverrides> = {}
+  ) {
+    this.jiraCategories = this.toNormalizedMap(jiraCategories);
+    this.overrides = this.toNormalizedMap(overrides);
+    this.projectOverrides = new Map(
+      Object.entries(projectOverrides || {}).map(
+        ([projectKey, mapping]) => [projectKey, this.toNormalizedMap(mapping)] as [string, Map<string, StatusCategory>]
+      )
+    );
+  }
+
+  /**
+   * Classify a status name into a status category
+   * @param status - Status name
+   * @param issueKey - Key of the issue in that status (selects its project's overrides)
+   * @returns Status category, or null if the status cannot be classified
+   */
+  classify(status: string, issueKey?: string): StatusCategory | null {
+    if (!status) {
+      return null;
+    }
+
+    const normalized = this.normalize(status);
+
+    const projectOverride = issueKey
+      ? this.projectOverrides.get(this.getProjectKey(issueKey))?.get(normalized)
+      : undefined;
+    if (projectOverride) {
+      return projectOverride;
+    }
+
+    const override = this.overrides.get(normalized);
+    if (override) {
+      return override;
+    }
+
+    const jiraCategory = this.jiraCategories.get(normalized);
+    if (jiraCategory) {
+      return jiraCategory;
+    }
+
+    return this.classifyByKeyword(normalized);
+  }
+
+  /**
+   * Check if a status is in the "done" category
+   * @param status - Status name
+   * @param issueKey - Key of the issue in that status
+   * @returns True if completed
+   */
+  isCompleted(status: string, issueKey?: string): boolean {
+    return this.classify(status, issueKey) === 'done';
+  }
+
+  /**
+   * Check if a status is in the "indeterminate" (in progress) category
+   * @param status - Status name
+   * @param issueKey - Key of the issue in that status
+   * @returns True if active
+   */
+  isActive(status: string, issueKey?: string): boolean {
+    return this.classify(status, issueKey) === 'indeterminate';
+  }
+
+  /**
+   * Check if a status is in the "new" (not started) category
+   * @param status - Status name
+   * @param issueKey - Key of the issue in that status
+   * @returns True if not started
+   */
+  isNotStarted(status: string, issueKey?: string): boolean {
+    return this.classify(status, issueKey) === 'new';
+  }
+
+  /**
+   * Check whether a value is a valid status category
+   * @param category - Value to check
+   * @returns True if valid
+   */
+  isValidCategory(category: unknown): category is StatusCategory {
+    return this.VALID_CATEGORIES.includes(category as StatusCategory);
+  }
+
+  /**
+   * Classify a status by keyword matching on its name
+   * @param normalized - Normalized status name
+   * @returns Status category or null
+   */
+  private classifyByKeyword(normalized: string): StatusCategory | null {
+    if (this.FALLBACK_DONE_KEYWORDS.some(keyword => normalized.includes(keyword))) {
+      return 'done';
+    }
+
+    if (this.FALLBACK_IN_PROGRESS_KEYWORDS.some(keyword => normalized.includes(keyword))) {
+      return 'indeterminate';
+    }
+
+    if (this.FALLBACK_NEW_KEYWORDS.some(keyword => normalized.includes(keyword))) {
+      return 'new';
+    }
+
+    return null;
+  }
+
+  /**
+   * Build a normalized lookup map, dropping invalid categories
+   * @param mapping - Status name to category mapping
+   * @returns Map keyed by normalized status name
+   */
+  private toNormalizedMap(mapping: Record<string, StatusCategory>): Map<string, StatusCategory> {
+    const map = new Map<string, StatusCategory>();
+
+    for (const [status, category] of Object.entries(mapping || {})) {
+      if (this.isValidCategory(category)) {
+        map.set(this.normalize(status), category);
+      }
+    }
+
+    return map;
+  }
+
+  /**
+   * Extract the project key from an issue key
+   * @param issueKey - Issue key (e.g. PROJ-123)
+   * @returns Project key
+   */
+  private getProjectKey(issueKey: string): string {
+    const separator = issueKey.lastIndexOf('-');
+    return separator > 0 ? issueKey.substring(0, separator) : issueKey;
+  }
+
+  /**
+   * Normalize a status name for lookups
+   * @param status - Status name
+   * @returns Lower-cased, trimmed status name
+   */
+  private normalize(status: string): string {
+    return status.trim().toLowerCase();
+  }
+}
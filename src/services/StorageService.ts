@@ -1,5 +1,31 @@
 import { storage } from '@forge/api';
-import { SprintData, IssueData, PullRequestData, SprintMetrics, PRMetrics, HistoricalMetrics, SprintReport } from '../types';
+import {
+  SprintData,
+  IssueData,
+  PullRequestData,
+  SprintMetrics,
+  PRMetrics,
+  HistoricalMetrics,
+  HistoricalArchiveEntry,
+  HistoricalMetricsPage,
+  SprintReport,
+  MonitoredBoard,
+  BoardRunOutcome,
+  StatusCategoryOverrides,
+  JiraFieldMapping,
+  JiraFieldMappingOverride,
+  TeamCalendar,
+  SprintCapacityPlan,
+  EpicForecastSnapshot,
+  RiskScoringOverrides,
+  RiskSnapshot,
+  NotificationSettings,
+  NotificationDelivery,
+  DeferredNotification,
+  SpilloverActionSettings,
+  SpilloverActionRun,
+  SpilloverIssueMarker,
+} from '../types';
 
 /**
  * Storage service using Forge Storage API
@@ -10,19 +36,55 @@ export class StorageService {
   private static readonly SPRINT_DATA_PREFIX = 'sprint_data:';
   private static readonly PR_DATA_PREFIX = 'pr_data:';
   private static readonly HISTORICAL_METRICS_PREFIX = 'historical_metrics:';
+  private static readonly HISTORICAL_INDEX_PREFIX = 'historical_index:';
   private static readonly REPORT_PREFIX = 'report:';
   private static readonly CACHE_METADATA_PREFIX = 'cache_meta:';
+  private static readonly BOARD_REGISTRY_KEY = 'board_registry';
+  private static readonly BOARD_RUNS_PREFIX = 'board_runs:';
+  private static readonly STATUS_OVERRIDES_PREFIX = 'status_overrides:';
+  private static readonly TEAM_CALENDAR_PREFIX = 'team_calendar:';
+  private static readonly CAPACITY_PLAN_PREFIX = 'capacity_plan:';
+  private static readonly EPIC_FORECASTS_PREFIX = 'epic_forecasts:';
+  private static readonly RISK_SCORING_PREFIX = 'risk_scoring:';
+  private static readonly RISK_TIMELINE_PREFIX = 'risk_timeline:';
+  private static readonly NOTIFICATION_SETTINGS_PREFIX = 'notification_settings:';
+  private static readonly NOTIFICATION_LOG_PREFIX = 'notification_log:';
+  private static readonly NOTIFICATION_QUEUE_PREFIX = 'notification_queue:';
+  private static readonly SPILLOVER_ACTION_SETTINGS_PREFIX = 'spillover_action_settings:';
+  private static readonly SPILLOVER_ACTION_LOG_PREFIX = 'spillover_action_log:';
+  private static readonly SPILLOVER_MARKERS_PREFIX = 'spillover_markers:';
+  private static readonly FIELD_MAPPING_KEY = 'field_mapping';
+  private static readonly FIELD_MAPPING_OVERRIDE_KEY = 'field_mapping_override';
+
+  // Number of run outcomes retained per monitored board
+  private static readonly MAX_BOARD_RUNS = 30;
+
+  // Number of sprint forecasts retained per epic
+  private static readonly MAX_EPIC_FORECASTS = 12;
+
+  // Number of risk snapshots retained per sprint
+  private static readonly MAX_RISK_SNAPSHOTS = 100;
+
+  // Number of notification deliveries retained per board
+  private static readonly MAX_NOTIFICATION_LOG = 100;
+
+  // Number of spillover action runs retained per board
+  private static readonly MAX_SPILLOVER_ACTION_LOG = 50;
+
+  // Page sizes for listing the historical metrics archive
+  private static readonly DEFAULT_HISTORY_PAGE_SIZE = 20;
+  private static readonly MAX_HISTORY_PAGE_SIZE = 100;
 
   // TTL values in milliseconds
   private static readonly SPRINT_DATA_TTL = 15 * 60 * 1000; // 15 minutes
   private static readonly PR_DATA_TTL = 10 * 60 * 1000; // 10 minutes
   private static readonly REPORT_TTL = 60 * 60 * 1000; // 1 hour
-  private static readonly HISTORICAL_METRICS_TTL = 24 * 60 * 60 * 1000; // 24 hours
+  private static readonly FIELD_MAPPING_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
   /**
    * Cache sprint data with TTL support
    */
-  async cacheSprintData(sprintId: string, data: { sprint: SprintData; issues: IssueData[] }): Promise<void> {
+  async cacheSprintData(sprintId: string, data: { sprint: SprintData; issues: IssueData[]; removedIssues?: IssueData[] }): Promise<void> {
     const key = `${StorageService.SPRINT_DATA_PREFIX}${sprintId}`;
     const metaKey = `${StorageService.CACHE_METADATA_PREFIX}${key}`;
     
@@ -39,7 +101,7 @@ export class StorageService {
   /**
    * Get cached sprint data if not expired
    */
-  async getCachedSprintData(sprintId: string): Promise<{ sprint: SprintData; issues: IssueData[] } | null> {
+  async getCachedSprintData(sprintId: string): Promise<{ sprint: SprintData; issues: IssueData[]; removedIssues?: IssueData[] } | null> {
     const key = `${StorageService.SPRINT_DATA_PREFIX}${sprintId}`;
     const metaKey = `${StorageService.CACHE_METADATA_PREFIX}${key}`;
 
@@ -112,28 +174,41 @@ export class StorageService {
   }
 
   /**
-   * Store historical metrics for a completed sprint
+   * Archive historical metrics for a completed sprint
+   *
+   * Archived metrics never expire. When a board ID is given the sprint is
+   * also added to that board's archive index so it can be listed per board.
    */
   async storeHistoricalMetrics(
     sprintId: string,
     sprintName: string,
     completedAt: string,
     metrics: SprintMetrics,
-    prMetrics: PRMetrics
+    prMetrics: PRMetrics,
+    boardId?: string,
+    cycleTimeSamples?: number[]
   ): Promise<void> {
     const historicalMetric: HistoricalMetrics = {
       sprintId,
       sprintName,
       completedAt,
       metrics,
-      prMetrics
+      prMetrics,
+      boardId,
+      archivedAt: new Date().toISOString(),
+      cycleTimeSamples,
     };
 
     const key = `${StorageService.HISTORICAL_METRICS_PREFIX}${sprintId}`;
     const metaKey = `${StorageService.CACHE_METADATA_PREFIX}${key}`;
 
     await storage.set(key, historicalMetric);
-    await storage.set(metaKey, { expiresAt: Date.now() + StorageService.HISTORICAL_METRICS_TTL });
+    // Entries written before the archive became permanent carried a TTL
+    await storage.delete(metaKey);
+
+    if (boardId) {
+      await this.addToHistoricalIndex(boardId, { sprintId, sprintName, completedAt });
+    }
   }
 
   /**
@@ -141,23 +216,10 @@ export class StorageService {
    */
   async getHistoricalMetric(sprintId: string): Promise<HistoricalMetrics | null> {
     const key = `${StorageService.HISTORICAL_METRICS_PREFIX}${sprintId}`;
-    const metaKey = `${StorageService.CACHE_METADATA_PREFIX}${key}`;
 
     try {
       const metric = await storage.get(key);
-      const metadata = await storage.get(metaKey);
-
-      if (!metric) {
-        return null;
-      }
-
-      // Check if cache has expired
-      if (metadata && Date.now() > metadata.expiresAt) {
-        await this.clearCacheEntry(key, metaKey);
-        return null;
-      }
-
-      return metric;
+      return metric || null;
     } catch (error) {
       console.error('Error retrieving historical metric:', error);
       return null;
@@ -166,14 +228,14 @@ export class StorageService {
 
   /**
    * Get historical metrics for multiple sprints (for trend analysis)
-   * @param _boardId - The board ID (reserved for future use with board-level indexing)
-   * @param sprintIds - Array of sprint IDs to retrieve metrics for
+   * @param boardId - The board ID
+   * @param sprintIds - Sprint IDs to retrieve metrics for (defaults to every sprint archived for the board)
    */
-  async getHistoricalMetrics(_boardId: string, sprintIds: string[]): Promise<HistoricalMetrics[]> {
-    // Note: _boardId is reserved for future use when implementing board-level cache indexing
+  async getHistoricalMetrics(boardId: string, sprintIds?: string[]): Promise<HistoricalMetrics[]> {
+    const ids = sprintIds || (await this.getHistoricalIndex(boardId)).map(entry => entry.sprintId);
     const metrics: HistoricalMetrics[] = [];
 
-    for (const sprintId of sprintIds) {
+    for (const sprintId of ids) {
       const metric = await this.getHistoricalMetric(sprintId);
       if (metric) {
         metrics.push(metric);
@@ -186,6 +248,69 @@ export class StorageService {
     );
   }
 
+  /**
+   * List a board's archived historical metrics, most recent first
+   * @param boardId - The board ID
+   * @param offset - Number of archived sprints to skip
+   * @param limit - Maximum number of archived sprints to return
+   */
+  async listHistoricalMetrics(
+    boardId: string,
+    offset: number = 0,
+    limit: number = StorageService.DEFAULT_HISTORY_PAGE_SIZE
+  ): Promise<HistoricalMetricsPage> {
+    const index = await this.getHistoricalIndex(boardId);
+    const start = Math.max(0, Math.floor(offset));
+    const size = Math.min(Math.max(1, Math.floor(limit)), StorageService.MAX_HISTORY_PAGE_SIZE);
+
+    const pageEntries = index.slice(start, start + size);
+    const items: HistoricalMetrics[] = [];
+
+    for (const entry of pageEntries) {
+      const metric = await this.getHistoricalMetric(entry.sprintId);
+      if (metric) {
+        items.push(metric);
+      }
+    }
+
+    return {
+      items,
+      total: index.length,
+      offset: start,
+      limit: size,
+      hasMore: start + size < index.length,
+    };
+  }
+
+  /**
+   * Get the archive index for a board, most recent sprint first
+   */
+  async getHistoricalIndex(boardId: string): Promise<HistoricalArchiveEntry[]> {
+    const key = `${StorageService.HISTORICAL_INDEX_PREFIX}${boardId}`;
+
+    try {
+      const index = await storage.get(key);
+      return Array.isArray(index) ? index : [];
+    } catch (error) {
+      console.error('Error retrieving historical index:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Add (or refresh) a sprint in a board's archive index
+   */
+  private async addToHistoricalIndex(boardId: string, entry: HistoricalArchiveEntry): Promise<void> {
+    const key = `${StorageService.HISTORICAL_INDEX_PREFIX}${boardId}`;
+    const index = await this.getHistoricalIndex(boardId);
+
+    const updated = [...index.filter(e => e.sprintId !== entry.sprintId), entry].sort(
+      (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
+    );
+
+    await storage.set(key, updated);
+  }
+
   /**
    * Store a generated sprint report
    */
@@ -225,6 +350,492 @@ export class StorageService {
     }
   }
 
+  /**
+   * Get all boards registered for scheduled monitoring
+   */
+  async getMonitoredBoards(): Promise<MonitoredBoard[]> {
+    try {
+      return await this.readMonitoredBoards();
+    } catch (error) {
+      console.error('Error retrieving board registry:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read the board registry, throwing on read errors so that a failed read
+   * is never written back as an empty registry
+   */
+  private async readMonitoredBoards(): Promise<MonitoredBoard[]> {
+    const boards = await storage.get(StorageService.BOARD_REGISTRY_KEY);
+    return Array.isArray(boards) ? boards : [];
+  }
+
+  /**
+   * Get a single monitored board by ID
+   */
+  async getMonitoredBoard(boardId: string): Promise<MonitoredBoard | null> {
+    const boards = await this.getMonitoredBoards();
+    return boards.find(board => board.boardId === boardId) || null;
+  }
+
+  /**
+   * Insert or replace a monitored board in the registry
+   */
+  async saveMonitoredBoard(board: MonitoredBoard): Promise<void> {
+    const boards = await this.readMonitoredBoards();
+    const index = boards.findIndex(existing => existing.boardId === board.boardId);
+
+    if (index >= 0) {
+      boards[index] = board;
+    } else {
+      boards.push(board);
+    }
+
+    await storage.set(StorageService.BOARD_REGISTRY_KEY, boards);
+  }
+
+  /**
+   * Remove a board from the registry along with its run history
+   * @returns True if the board was registered
+   */
+  async removeMonitoredBoard(boardId: string): Promise<boolean> {
+    const boards = await this.readMonitoredBoards();
+    const remaining = boards.filter(board => board.boardId !== boardId);
+
+    if (remaining.length === boards.length) {
+      return false;
+    }
+
+    await storage.set(StorageService.BOARD_REGISTRY_KEY, remaining);
+    await storage.delete(`${StorageService.BOARD_RUNS_PREFIX}${boardId}`);
+    return true;
+  }
+
+  /**
+   * Record the outcome of a scheduled run for a board
+   * Updates the board's lastRun and appends to its (bounded) run history
+   */
+  async recordBoardRun(boardId: string, outcome: BoardRunOutcome): Promise<void> {
+    const board = await this.getMonitoredBoard(boardId);
+    if (board) {
+      await this.saveMonitoredBoard({ ...board, lastRun: outcome });
+    }
+
+    const key = `${StorageService.BOARD_RUNS_PREFIX}${boardId}`;
+    const runs = await this.getBoardRuns(boardId);
+    const updatedRuns = [outcome, ...runs].slice(0, StorageService.MAX_BOARD_RUNS);
+
+    await storage.set(key, updatedRuns);
+  }
+
+  /**
+   * Get recorded run outcomes for a board (most recent first)
+   */
+  async getBoardRuns(boardId: string): Promise<BoardRunOutcome[]> {
+    try {
+      const runs = await storage.get(`${StorageService.BOARD_RUNS_PREFIX}${boardId}`);
+      return Array.isArray(runs) ? runs : [];
+    } catch (error) {
+      console.error('Error retrieving board run history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the status category overrides configured for a project
+   */
+  async getStatusOverrides(projectKey: string): Promise<StatusCategoryOverrides> {
+    try {
+      const overrides = await storage.get(`${StorageService.STATUS_OVERRIDES_PREFIX}${projectKey}`);
+      return overrides || {};
+    } catch (error) {
+      console.error('Error retrieving status overrides:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Replace the status category overrides for a project
+   */
+  async saveStatusOverrides(projectKey: string, overrides: StatusCategoryOverrides): Promise<void> {
+    await storage.set(`${StorageService.STATUS_OVERRIDES_PREFIX}${projectKey}`, overrides);
+  }
+
+  /**
+   * Get the team calendar configured for a board
+   * @returns Team calendar, or null if durations are measured in wall-clock hours
+   */
+  async getTeamCalendar(boardId: string): Promise<TeamCalendar | null> {
+    try {
+      const calendar = await storage.get(`${StorageService.TEAM_CALENDAR_PREFIX}${boardId}`);
+      return calendar || null;
+    } catch (error) {
+      console.error('Error retrieving team calendar:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the team calendar for a board (null removes it)
+   */
+  async saveTeamCalendar(boardId: string, calendar: TeamCalendar | null): Promise<void> {
+    const key = `${StorageService.TEAM_CALENDAR_PREFIX}${boardId}`;
+
+    if (calendar) {
+      await storage.set(key, calendar);
+    } else {
+      await storage.delete(key);
+    }
+  }
+
+  /**
+   * Get the risk scoring overrides configured for a board
+   * @returns Scoring overrides, or null if the board uses the default scoring model
+   */
+  async getRiskScoringOverrides(boardId: string): Promise<RiskScoringOverrides | null> {
+    try {
+      const overrides = await storage.get(`${StorageService.RISK_SCORING_PREFIX}${boardId}`);
+      return overrides || null;
+    } catch (error) {
+      console.error('Error retrieving risk scoring overrides:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the risk scoring overrides for a board (null restores the defaults)
+   */
+  async saveRiskScoringOverrides(boardId: string, overrides: RiskScoringOverrides | null): Promise<void> {
+    const key = `${StorageService.RISK_SCORING_PREFIX}${boardId}`;
+
+    if (overrides) {
+      await storage.set(key, overrides);
+    } else {
+      await storage.delete(key);
+    }
+  }
+
+  /**
+   * Get the capacity plan of a sprint on a board
+   */
+  async getCapacityPlan(boardId: string, sprintId: string): Promise<SprintCapacityPlan | null> {
+    try {
+      const plan = await storage.get(`${StorageService.CAPACITY_PLAN_PREFIX}${boardId}:${sprintId}`);
+      return plan || null;
+    } catch (error) {
+      console.error('Error retrieving capacity plan:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the capacity plans of several sprints on a board
+   * @returns Capacity plans by sprint ID (sprints without a plan are omitted)
+   */
+  async getCapacityPlans(boardId: string, sprintIds: string[]): Promise<Map<string, SprintCapacityPlan>> {
+    const plans = await Promise.all(
+      sprintIds.map(sprintId => this.getCapacityPlan(boardId, sprintId))
+    );
+
+    const result = new Map<string, SprintCapacityPlan>();
+    plans.forEach((plan, index) => {
+      if (plan) {
+        result.set(sprintIds[index], plan);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Replace the capacity plan of a sprint on a board
+   */
+  async saveCapacityPlan(boardId: string, plan: SprintCapacityPlan): Promise<void> {
+    await storage.set(`${StorageService.CAPACITY_PLAN_PREFIX}${boardId}:${plan.sprintId}`, {
+      ...plan,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record an epic's completion forecast for a sprint
+   * Replaces an earlier forecast for the same sprint and keeps a bounded history
+   */
+  async recordEpicForecast(epicKey: string, snapshot: EpicForecastSnapshot): Promise<void> {
+    const forecasts = await this.getEpicForecasts(epicKey);
+    const updatedForecasts = [
+      snapshot,
+      ...forecasts.filter(forecast => forecast.sprintId !== snapshot.sprintId),
+    ].slice(0, StorageService.MAX_EPIC_FORECASTS);
+
+    await storage.set(`${StorageService.EPIC_FORECASTS_PREFIX}${epicKey}`, updatedForecasts);
+  }
+
+  /**
+   * Get the completion forecasts recorded for an epic (most recent first)
+   */
+  async getEpicForecasts(epicKey: string): Promise<EpicForecastSnapshot[]> {
+    try {
+      const forecasts = await storage.get(`${StorageService.EPIC_FORECASTS_PREFIX}${epicKey}`);
+      return Array.isArray(forecasts) ? forecasts : [];
+    } catch (error) {
+      console.error('Error retrieving epic forecasts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the risk assessed by an analysis of a sprint
+   * Unlike the cached report, earlier snapshots are kept (bounded history)
+   */
+  async recordRiskSnapshot(sprintId: string, snapshot: RiskSnapshot): Promise<void> {
+    const snapshots = await this.getRiskSnapshots(sprintId);
+    const updatedSnapshots = [snapshot, ...snapshots].slice(0, StorageService.MAX_RISK_SNAPSHOTS);
+
+    await storage.set(`${StorageService.RISK_TIMELINE_PREFIX}${sprintId}`, updatedSnapshots);
+  }
+
+  /**
+   * Get the risk snapshots recorded for a sprint (most recent first)
+   */
+  async getRiskSnapshots(sprintId: string): Promise<RiskSnapshot[]> {
+    try {
+      const snapshots = await storage.get(`${StorageService.RISK_TIMELINE_PREFIX}${sprintId}`);
+      return Array.isArray(snapshots) ? snapshots : [];
+    } catch (error) {
+      console.error('Error retrieving risk timeline:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the notification settings of a board
+   * @returns Notification settings, or null if the board has no subscriptions
+   */
+  async getNotificationSettings(boardId: string): Promise<NotificationSettings | null> {
+    try {
+      const settings = await storage.get(`${StorageService.NOTIFICATION_SETTINGS_PREFIX}${boardId}`);
+      return settings || null;
+    } catch (error) {
+      console.error('Error retrieving notification settings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the notification settings of a board (null removes them)
+   */
+  async saveNotificationSettings(boardId: string, settings: NotificationSettings | null): Promise<void> {
+    const key = `${StorageService.NOTIFICATION_SETTINGS_PREFIX}${boardId}`;
+
+    if (settings) {
+      await storage.set(key, settings);
+    } else {
+      await storage.delete(key);
+    }
+  }
+
+  /**
+   * Record notification deliveries of a board (bounded history)
+   */
+  async recordNotificationDeliveries(boardId: string, deliveries: NotificationDelivery[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    const log = await this.getNotificationLog(boardId);
+    const updatedLog = [...deliveries].reverse().concat(log).slice(0, StorageService.MAX_NOTIFICATION_LOG);
+
+    await storage.set(`${StorageService.NOTIFICATION_LOG_PREFIX}${boardId}`, updatedLog);
+  }
+
+  /**
+   * Get the notification deliveries of a board (most recent first)
+   */
+  async getNotificationLog(boardId: string): Promise<NotificationDelivery[]> {
+    try {
+      const log = await storage.get(`${StorageService.NOTIFICATION_LOG_PREFIX}${boardId}`);
+      return Array.isArray(log) ? log : [];
+    } catch (error) {
+      console.error('Error retrieving notification log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the notifications of a board held back by quiet hours (oldest first)
+   */
+  async getDeferredNotifications(boardId: string): Promise<DeferredNotification[]> {
+    try {
+      const queue = await storage.get(`${StorageService.NOTIFICATION_QUEUE_PREFIX}${boardId}`);
+      return Array.isArray(queue) ? queue : [];
+    } catch (error) {
+      console.error('Error retrieving deferred notifications:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace the notifications of a board held back by quiet hours
+   */
+  async saveDeferredNotifications(boardId: string, notifications: DeferredNotification[]): Promise<void> {
+    const key = `${StorageService.NOTIFICATION_QUEUE_PREFIX}${boardId}`;
+
+    if (notifications.length > 0) {
+      await storage.set(key, notifications);
+    } else {
+      await storage.delete(key);
+    }
+  }
+
+  /**
+   * Get the spillover action settings of a board
+   * @returns Spillover action settings, or null if the board never opted in
+   */
+  async getSpilloverActionSettings(boardId: string): Promise<SpilloverActionSettings | null> {
+    try {
+      const settings = await storage.get(`${StorageService.SPILLOVER_ACTION_SETTINGS_PREFIX}${boardId}`);
+      return settings || null;
+    } catch (error) {
+      console.error('Error retrieving spillover action settings:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replace the spillover action settings of a board (null removes them)
+   */
+  async saveSpilloverActionSettings(boardId: string, settings: SpilloverActionSettings | null): Promise<void> {
+    const key = `${StorageService.SPILLOVER_ACTION_SETTINGS_PREFIX}${boardId}`;
+
+    if (settings) {
+      await storage.set(key, settings);
+    } else {
+      await storage.delete(key);
+    }
+  }
+
+  /**
+   * Record a spillover action run of a board (bounded history)
+   */
+  async recordSpilloverActionRun(boardId: string, run: SpilloverActionRun): Promise<void> {
+    const log = await this.getSpilloverActionLog(boardId);
+    const updatedLog = [run, ...log].slice(0, StorageService.MAX_SPILLOVER_ACTION_LOG);
+
+    await storage.set(`${StorageService.SPILLOVER_ACTION_LOG_PREFIX}${boardId}`, updatedLog);
+  }
+
+  /**
+   * Get the spillover action runs of a board (most recent first)
+   */
+  async getSpilloverActionLog(boardId: string): Promise<SpilloverActionRun[]> {
+    try {
+      const log = await storage.get(`${StorageService.SPILLOVER_ACTION_LOG_PREFIX}${boardId}`);
+      return Array.isArray(log) ? log : [];
+    } catch (error) {
+      console.error('Error retrieving spillover action log:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the labels and comments the app added to a board's issues
+   */
+  async getSpilloverMarkers(boardId: string): Promise<SpilloverIssueMarker[]> {
+    try {
+      const markers = await storage.get(`${StorageService.SPILLOVER_MARKERS_PREFIX}${boardId}`);
+      return Array.isArray(markers) ? markers : [];
+    } catch (error) {
+      console.error('Error retrieving spillover markers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace the labels and comments the app added to a board's issues
+   */
+  async saveSpilloverMarkers(boardId: string, markers: SpilloverIssueMarker[]): Promise<void> {
+    const key = `${StorageService.SPILLOVER_MARKERS_PREFIX}${boardId}`;
+
+    if (markers.length > 0) {
+      await storage.set(key, markers);
+    } else {
+      await storage.delete(key);
+    }
+  }
+
+  /**
+   * Cache the discovered custom field mapping for this site
+   */
+  async cacheFieldMapping(mapping: JiraFieldMapping): Promise<void> {
+    const key = StorageService.FIELD_MAPPING_KEY;
+    const metaKey = `${StorageService.CACHE_METADATA_PREFIX}${key}`;
+
+    await storage.set(key, mapping);
+    await storage.set(metaKey, { expiresAt: Date.now() + StorageService.FIELD_MAPPING_TTL });
+  }
+
+  /**
+   * Get the cached custom field mapping if not expired
+   */
+  async getCachedFieldMapping(): Promise<JiraFieldMapping | null> {
+    const key = StorageService.FIELD_MAPPING_KEY;
+    const metaKey = `${StorageService.CACHE_METADATA_PREFIX}${key}`;
+
+    try {
+      const mapping = await storage.get(key);
+      const metadata = await storage.get(metaKey);
+
+      if (!mapping || !metadata) {
+        return null;
+      }
+
+      if (Date.now() > metadata.expiresAt) {
+        await this.clearCacheEntry(key, metaKey);
+        return null;
+      }
+
+      return mapping;
+    } catch (error) {
+      console.error('Error retrieving cached field mapping:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop the cached field mapping so it is rediscovered on next use
+   */
+  async invalidateFieldMapping(): Promise<void> {
+    const key = StorageService.FIELD_MAPPING_KEY;
+    await this.clearCacheEntry(key, `${StorageService.CACHE_METADATA_PREFIX}${key}`);
+  }
+
+  /**
+   * Get the admin override for custom field IDs
+   */
+  async getFieldMappingOverride(): Promise<JiraFieldMappingOverride> {
+    try {
+      const override = await storage.get(StorageService.FIELD_MAPPING_OVERRIDE_KEY);
+      return override || {};
+    } catch (error) {
+      console.error('Error retrieving field mapping override:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Replace the admin override for custom field IDs (an empty override clears it)
+   */
+  async saveFieldMappingOverride(override: JiraFieldMappingOverride): Promise<void> {
+    if (!override.storyPoints && !override.sprint) {
+      await storage.delete(StorageService.FIELD_MAPPING_OVERRIDE_KEY);
+      return;
+    }
+
+    await storage.set(StorageService.FIELD_MAPPING_OVERRIDE_KEY, override);
+  }
+
   /**
    * Clear a specific cache entry and its metadata
    */
@@ -0,0 +1,115 @@
+import {
+  HistoricalMetrics,
+  HistoricalTrend,
+  TrendStatistics,
+} from '../types';
+
+/**
+ * TrendAnalyzer - Builds trend statistics across past sprints
+ *
+ * This class provides methods to:
+ * - Select the most recent N closed sprints as a trend window
+ * - Calculate rolling mean, median, standard deviation and slope
+ *   for velocity, cycle time, PR latency and completion rate
+ *
+ * Cycle time and PR latency of 0 mean "no data" (no completed issues or
+ * no merged PRs) and are excluded from their statistics.
+ */
+export class TrendAnalyzer {
+  // Default number of past sprints in the trend window
+  private readonly DEFAULT_WINDOW_SIZE = 6;
+
+  /**
+   * Build a historical trend from archived sprint metrics
+   * @param history - Historical metrics for past sprints (any order)
+   * @param windowSize - Number of most recent sprints to include
+   * @returns Historical trend, or null if there is no history
+   */
+  buildTrend(
+    history: HistoricalMetrics[],
+    windowSize: number = this.DEFAULT_WINDOW_SIZE
+  ): HistoricalTrend | null {
+    if (history.length === 0) {
+      return null;
+    }
+
+    // Most recent first
+    const window = [...history]
+      .sort((a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime())
+      .slice(0, Math.max(1, windowSize));
+
+    // Statistics are calculated oldest to newest so the slope reads forward in time
+    const chronological = [...window].reverse();
+
+    return {
+      sprintCount: window.length,
+      sprintIds: window.map(h => h.sprintId),
+      velocity: this.calculateStatistics(chronological.map(h => h.metrics.velocity)),
+      cycleTime: this.calculateStatistics(
+        chronological.map(h => h.metrics.cycleTime).filter(value => value > 0)
+      ),
+      prLatency: this.calculateStatistics(
+        chronological.map(h => h.prMetrics.averageLatency).filter(value => value > 0)
+      ),
+      completionRate: this.calculateStatistics(chronological.map(h => h.metrics.completionRate)),
+    };
+  }
+
+  /**
+   * Calculate trend statistics for a series of values
+   * @param values - Values ordered oldest to newest
+   * @returns Trend statistics (all zero for an empty series)
+   */
+  calculateStatistics(values: number[]): TrendStatistics {
+    if (values.length === 0) {
+      return { mean: 0, median: 0, stdDev: 0, slope: 0, latest: 0, sampleSize: 0 };
+    }
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+
+    // Sample standard deviation (0 for a single value)
+    const variance = values.length > 1
+      ? values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (values.length - 1)
+      : 0;
+
+    return {
+      mean,
+      median,
+      stdDev: Math.sqrt(variance),
+      slope: this.calculateSlope(values),
+      latest: values[values.length - 1],
+      sampleSize: values.length,
+    };
+  }
+
+  /**
+   * Calculate the least-squares slope of a series against its index
+   * @param values - Values ordered oldest to newest
+   * @returns Change per sprint
+   */
+  private calculateSlope(values: number[]): number {
+    if (values.length < 2) {
+      return 0;
+    }
+
+    const n = values.length;
+    const meanX = (n - 1) / 2;
+    const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+
+    let numerator = 0;
+    let denominator = 0;
+
+    for (let x = 0; x < n; x++) {
+      numerator += (x - meanX) * (values[x] - meanY);
+      denominator += Math.pow(x - meanX, 2);
+    }
+
+    return denominator === 0 ? 0 : numerator / denominator;
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  IssueData,
+  PullRequestData,
+  DeveloperWorkload,
+} from '../types';
+import { StatusClassifier } from './StatusClassifier';
+
+/**
+ * WorkloadAnalyzer - Per-developer workload across issues and pull requests
+ *
+ * This class provides methods to:
+ * - Count active issues and unfinished story points per assignee
+ * - Count open PRs authored and open PRs under review per developer
+ *
+ * Developers appear in the result if they are assigned an issue, authored a
+ * PR or are a reviewer on an open PR. Jira assignees and Bitbucket users are
+ * matched by display name.
+ */
+export class WorkloadAnalyzer {
+  private statusClassifier: StatusClassifier;
+
+  constructor(statusClassifier: StatusClassifier = new StatusClassifier()) {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Replace the status classifier (e.g. with project-specific mappings)
+   * @param statusClassifier - Status classifier to use
+   */
+  setStatusClassifier(statusClassifier: StatusClassifier): void {
+    this.statusClassifier = statusClassifier;
+  }
+
+  /**
+   * Analyze the workload of every developer in the sprint
+   * @param issues - Issue data
+   * @param prs - Pull request data
+   * @returns Workload per developer, most loaded first
+   */
+  analyzeWorkload(issues: IssueData[], prs: PullRequestData[]): DeveloperWorkload[] {
+    const workloads = new Map<string, DeveloperWorkload>();
+
+    const getWorkload = (username: string): DeveloperWorkload => {
+      if (!workloads.has(username)) {
+        workloads.set(username, {
+          username,
+          activeIssues: 0,
+          storyPoints: 0,
+          openPRs: 0,
+          reviewingPRs: 0,
+        });
+      }
+      return workloads.get(username)!;
+    };
+
+    for (const issue of issues) {
+      if (!issue.assignee || this.statusClassifier.isCompleted(issue.status, issue.key)) {
+        continue;
+      }
+
+      const workload = getWorkload(issue.assignee);
+      workload.storyPoints += issue.storyPoints || 0;
+      if (this.statusClassifier.isActive(issue.status, issue.key)) {
+        workload.activeIssues++;
+      }
+    }
+
+    for (const pr of prs) {
+      if (pr.state !== 'OPEN') {
+        continue;
+      }
+
+      if (pr.author) {
+        getWorkload(pr.author).openPRs++;
+      }
+
+      for (const reviewer of pr.reviewers) {
+        getWorkload(reviewer.username).reviewingPRs++;
+      }
+    }
+
+    return Array.from(workloads.values()).sort(
+      (a, b) =>
+        b.activeIssues + b.reviewingPRs - (a.activeIssues + a.reviewingPRs) ||
+        b.storyPoints - a.storyPoints ||
+        a.username.localeCompare(b.username)
+    );
+  }
+}
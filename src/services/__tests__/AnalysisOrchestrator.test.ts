@@ -2,12 +2,16 @@ import { AnalysisOrchestrator } from '../AnalysisOrchestrator';
 import { JiraDataCollector } from '../JiraDataCollector';
 import { BitbucketDataCollector } from '../BitbucketDataCollector';
 import { StorageService } from '../StorageService';
+import { StatusClassifier } from '../StatusClassifier';
+import { NotificationService } from '../NotificationService';
 import {
   SprintData,
   IssueData,
   PullRequestData,
   SprintReport,
   HistoricalMetrics,
+  DeferredNotification,
+  NotificationDelivery,
 } from '../../types';
 
 // Mock all service dependencies
@@ -123,6 +127,7 @@ describe('AnalysisOrchestrator - Integration Tests', () => {
     mockJiraCollector.getSprintData = jest.fn().mockResolvedValue(mockSprint);
     mockJiraCollector.getSprintIssues = jest.fn().mockResolvedValue(mockIssues);
     mockJiraCollector.getHistoricalSprints = jest.fn().mockResolvedValue([]);
+    mockJiraCollector.getRemovedSprintIssues = jest.fn().mockResolvedValue([]);
 
     mockBitbucketCollector.getPullRequestsForSprint = jest.fn().mockResolvedValue(mockPRs);
 
@@ -134,6 +139,8 @@ describe('AnalysisOrchestrator - Integration Tests', () => {
     mockStorageService.cachePRData = jest.fn().mockResolvedValue(undefined);
     mockStorageService.storeReport = jest.fn().mockResolvedValue(undefined);
     mockStorageService.storeHistoricalMetrics = jest.fn().mockResolvedValue(undefined);
+    mockStorageService.recordRiskSnapshot = jest.fn().mockResolvedValue(undefined);
+    mockStorageService.getDeferredNotifications = jest.fn().mockResolvedValue([]);
   });
 
   describe('End-to-End Analysis Flow', () => {
@@ -197,7 +204,7 @@ describe('AnalysisOrchestrator - Integration Tests', () => {
       mockJiraCollector.getHistoricalSprints = jest.fn().mockResolvedValue([
         { id: 'sprint-0', name: 'Sprint 0', state: 'closed', startDate: '2023-12-15T00:00:00Z', endDate: '2023-12-31T00:00:00Z' },
       ]);
-      mockStorageService.getHistoricalMetric = jest.fn().mockResolvedValue(mockHistoricalMetrics);
+      mockStorageService.getHistoricalMetrics = jest.fn().mockResolvedValue([mockHistoricalMetrics]);
 
       const report = await orchestrator.analyzeSprint('sprint-1', 'board-1');
 
@@ -207,6 +214,181 @@ describe('AnalysisOrchestrator - Integration Tests', () => {
       expect(report.nextSprintSuggestions?.tasksToPostpone).toBeInstanceOf(Array);
       expect(report.nextSprintSuggestions?.reviewerAssignments).toBeInstanceOf(Array);
     });
+
+    it('should include a capacity-based target when the next sprint has a capacity plan', async () => {
+      mockJiraCollector.getHistoricalSprints = jest.fn().mockResolvedValue([
+        { id: 'sprint-0', name: 'Sprint 0', state: 'closed', startDate: '2023-12-15T00:00:00Z', endDate: '2023-12-31T00:00:00Z' },
+      ]);
+      mockJiraCollector.getNextSprint = jest.fn().mockResolvedValue(
+        { id: 'sprint-2', name: 'Sprint 2', state: 'future', startDate: '', endDate: '' }
+      );
+      mockStorageService.getHistoricalMetrics = jest.fn().mockResolvedValue([mockHistoricalMetrics]);
+      mockStorageService.getCapacityPlan = jest.fn().mockResolvedValue({
+        sprintId: 'sprint-2',
+        workingDays: 10,
+        members: [
+          { name: 'John Doe', allocation: 100, daysOff: 0 },
+          { name: 'Jane Smith', allocation: 50, daysOff: 2 },
+        ],
+      });
+      // Sprint 0 delivered 20 points with 20 available person-days
+      mockStorageService.getCapacityPlans = jest.fn().mockResolvedValue(new Map([
+        ['sprint-0', {
+          sprintId: 'sprint-0',
+          workingDays: 10,
+          members: [
+            { name: 'John Doe', allocation: 100, daysOff: 0 },
+            { name: 'Jane Smith', allocation: 100, daysOff: 0 },
+          ],
+        }],
+      ]));
+
+      const report = await orchestrator.analyzeSprint('sprint-1', 'board-1');
+      const capacity = report.nextSprintSuggestions?.capacity;
+
+      expect(mockStorageService.getCapacityPlan).toHaveBeenCalledWith('board-1', 'sprint-2');
+      expect(capacity?.availablePersonDays).toBe(14);
+      expect(capacity?.focusFactor).toBe(1);
+      expect(capacity?.focusFactorSource).toBe('capacity-history');
+      expect(capacity?.targetStoryPoints).toBe(14);
+    });
+
+    it('should build the historical trend from the most recent past sprints', async () => {
+      mockJiraCollector.getHistoricalSprints = jest.fn().mockResolvedValue([
+        { id: 'sprint-a', name: 'Sprint A', state: 'closed', startDate: '2023-11-01T00:00:00Z', endDate: '2023-11-15T00:00:00Z' },
+        { id: 'sprint-1', name: 'Sprint 1', state: 'closed', startDate: '2024-01-01T00:00:00Z', endDate: '2024-01-15T00:00:00Z' },
+        { id: 'sprint-b', name: 'Sprint B', state: 'closed', startDate: '2023-12-15T00:00:00Z', endDate: '2023-12-31T00:00:00Z' },
+      ]);
+      mockStorageService.getHistoricalMetrics = jest.fn().mockResolvedValue([mockHistoricalMetrics]);
+
+      await orchestrator.analyzeSprint('sprint-1', 'board-1');
+
+      expect(mockStorageService.getHistoricalMetrics).toHaveBeenCalledWith(
+        'board-1',
+        ['sprint-b', 'sprint-a']
+      );
+    });
+
+    it('should include a completion forecast when archived cycle times are available', async () => {
+      mockJiraCollector.getHistoricalSprints = jest.fn().mockResolvedValue([
+        { id: 'sprint-0', name: 'Sprint 0', state: 'closed', startDate: '2023-12-15T00:00:00Z', endDate: '2023-12-31T00:00:00Z' },
+      ]);
+      mockStorageService.getHistoricalMetrics = jest.fn().mockResolvedValue([
+        { ...mockHistoricalMetrics, cycleTimeSamples: [8, 24, 48] },
+      ]);
+
+      const report = await orchestrator.analyzeSprint('sprint-1', 'board-1');
+
+      expect(report.forecast).toBeDefined();
+      expect(report.forecast?.sampleSize).toBe(3);
+      expect(report.forecast?.completionProbability).toBeGreaterThanOrEqual(0);
+      expect(report.forecast?.completionProbability).toBeLessThanOrEqual(1);
+    });
+
+    it('should include per-developer workload', async () => {
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      expect(report.developerWorkload).toBeDefined();
+      expect(report.developerWorkload?.length).toBeGreaterThan(0);
+      expect(report.developerWorkload?.every(w => w.activeIssues >= 0 && w.reviewingPRs >= 0)).toBe(true);
+    });
+
+    it('should omit the forecast without archived cycle times', async () => {
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      expect(report.forecast).toBeUndefined();
+    });
+  });
+
+  describe('Spillover Predictions', () => {
+    it('should list at-risk issues with issue details for active sprints', async () => {
+      // The mock sprint has already ended, so every open issue is predicted to spill over
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      expect(report.atRiskIssues).toHaveLength(2);
+      expect(report.atRiskIssues?.map(i => i.issueKey).sort()).toEqual(['PROJ-2', 'PROJ-3']);
+
+      const oauth = report.atRiskIssues?.find(i => i.issueKey === 'PROJ-3');
+      expect(oauth?.assignee).toBe('Bob Johnson');
+      expect(oauth?.storyPoints).toBe(8);
+      expect(oauth?.probability).toBe(1);
+      expect(oauth?.reasons.length).toBeGreaterThan(0);
+    });
+
+    it('should reference predicted spillovers in recommendations', async () => {
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      const spilloverRec = report.recommendations.find(
+        r => r.title === 'Address issues predicted to spill over'
+      );
+      expect(spilloverRec).toBeDefined();
+      expect(spilloverRec?.description).toContain('PROJ-3');
+      expect(spilloverRec?.description).toContain('11 story points');
+    });
+
+    it('should not include at-risk issues for closed sprints', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockResolvedValue({ ...mockSprint, state: 'closed' });
+
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      expect(report.atRiskIssues).toBeUndefined();
+    });
+  });
+
+  describe('Scope Changes', () => {
+    const addedIssue: IssueData = {
+      id: '4',
+      key: 'PROJ-4',
+      summary: 'Urgent customer fix',
+      assignee: 'Jane Smith',
+      storyPoints: 5,
+      status: 'To Do',
+      statusTransitions: [],
+      linkedPRs: [],
+      sprintChanges: [
+        { sprintId: 'sprint-1', change: 'added', timestamp: '2024-01-05T09:00:00Z', author: 'Product Owner' },
+      ],
+    };
+
+    const removedIssue: IssueData = {
+      ...addedIssue,
+      id: '5',
+      key: 'PROJ-5',
+      summary: 'Deferred report',
+      storyPoints: 2,
+      sprintChanges: [
+        { sprintId: 'sprint-1', change: 'removed', timestamp: '2024-01-06T09:00:00Z', author: 'Product Owner' },
+      ],
+    };
+
+    it('should report scope added and removed after the sprint started', async () => {
+      mockJiraCollector.getSprintIssues = jest.fn().mockResolvedValue([...mockIssues, addedIssue]);
+      mockJiraCollector.getRemovedSprintIssues = jest.fn().mockResolvedValue([removedIssue]);
+
+      const report = await orchestrator.analyzeSprint('sprint-1', 'board-1');
+
+      expect(mockJiraCollector.getRemovedSprintIssues).toHaveBeenCalledWith('sprint-1', 'board-1');
+      expect(report.scopeChanges?.committedPoints).toBe(18);
+      expect(report.scopeChanges?.addedPoints).toBe(5);
+      expect(report.scopeChanges?.removedPoints).toBe(2);
+      expect(report.scopeChanges?.byAuthor[0].author).toBe('Product Owner');
+    });
+
+    it('should recommend controlling scope when work is added mid-sprint', async () => {
+      mockJiraCollector.getSprintIssues = jest.fn().mockResolvedValue([...mockIssues, addedIssue]);
+
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      const scopeRec = report.recommendations.find(r => r.title === 'Control work added mid-sprint');
+      expect(scopeRec?.category).toBe('SCOPE');
+      expect(scopeRec?.description).toContain('Product Owner');
+    });
+
+    it('should not look up removed issues without a board', async () => {
+      await orchestrator.analyzeSprint('sprint-1');
+
+      expect(mockJiraCollector.getRemovedSprintIssues).not.toHaveBeenCalled();
+    });
   });
 
   describe('Caching and Optimization', () => {
@@ -375,6 +557,374 @@ describe('AnalysisOrchestrator - Integration Tests', () => {
 
       expect(mockStorageService.storeHistoricalMetrics).not.toHaveBeenCalled();
     });
+
+    it('should index archived sprints under the analyzed board', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockResolvedValue({ ...mockSprint, state: 'closed' });
+
+      await orchestrator.analyzeSprint('sprint-1', 'board-1');
+
+      expect(mockStorageService.storeHistoricalMetrics).toHaveBeenCalledWith(
+        'sprint-1',
+        'Sprint 1',
+        mockSprint.endDate,
+        expect.any(Object),
+        expect.any(Object),
+        'board-1',
+        expect.any(Array)
+      );
+    });
+  });
+
+  describe('Historical Backfill', () => {
+    const closedSprints: SprintData[] = [
+      { id: 'sprint-a', name: 'Sprint A', state: 'closed', startDate: '2023-11-01T00:00:00Z', endDate: '2023-11-15T00:00:00Z' },
+      { id: 'sprint-c', name: 'Sprint C', state: 'closed', startDate: '2023-12-15T00:00:00Z', endDate: '2023-12-31T00:00:00Z' },
+      { id: 'sprint-b', name: 'Sprint B', state: 'closed', startDate: '2023-12-01T00:00:00Z', endDate: '2023-12-15T00:00:00Z' },
+    ];
+
+    beforeEach(() => {
+      mockJiraCollector.getHistoricalSprints = jest.fn().mockResolvedValue(closedSprints);
+      mockStorageService.getHistoricalIndex = jest.fn().mockResolvedValue([
+        { sprintId: 'sprint-c', sprintName: 'Sprint C', completedAt: '2023-12-31T00:00:00Z' },
+      ]);
+    });
+
+    it('should archive unarchived sprints, most recent first', async () => {
+      const result = await orchestrator.backfillHistoricalMetrics('board-1');
+
+      expect(result.archivedSprints).toEqual(['sprint-b', 'sprint-a']);
+      expect(result.skippedSprints).toEqual(['sprint-c']);
+      expect(result.errors).toHaveLength(0);
+      expect(mockStorageService.storeHistoricalMetrics).toHaveBeenCalledWith(
+        'sprint-b',
+        'Sprint B',
+        '2023-12-15T00:00:00Z',
+        expect.any(Object),
+        expect.any(Object),
+        'board-1',
+        expect.any(Array)
+      );
+    });
+
+    it('should stop after the requested number of sprints', async () => {
+      const result = await orchestrator.backfillHistoricalMetrics('board-1', 1);
+
+      expect(result.archivedSprints).toEqual(['sprint-b']);
+      expect(mockStorageService.storeHistoricalMetrics).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record per-sprint failures and continue', async () => {
+      mockJiraCollector.getSprintIssues = jest.fn()
+        .mockRejectedValueOnce(new Error('Jira API error'))
+        .mockResolvedValue(mockIssues);
+
+      const result = await orchestrator.backfillHistoricalMetrics('board-1');
+
+      expect(result.archivedSprints).toEqual(['sprint-a']);
+      expect(result.errors).toEqual(['Sprint sprint-b: Jira API error']);
+    });
+  });
+
+  describe('Epic Roll-up', () => {
+    const epicIssue: IssueData = {
+      id: '100',
+      key: 'EPIC-1',
+      summary: 'User authentication',
+      assignee: null,
+      storyPoints: null,
+      status: 'In Progress',
+      statusTransitions: [],
+      linkedPRs: [],
+    };
+
+    const sprintRef = { id: 'sprint-1', name: 'Sprint 1', state: 'active' as const, startDate: '2024-01-01T00:00:00Z' };
+
+    beforeEach(() => {
+      mockJiraCollector.getIssue = jest.fn().mockResolvedValue(epicIssue);
+      mockJiraCollector.getEpicIssues = jest.fn().mockResolvedValue(
+        mockIssues.map(issue => ({ ...issue, sprints: [sprintRef] }))
+      );
+      mockStorageService.getEpicForecasts = jest.fn().mockResolvedValue([]);
+      mockStorageService.recordEpicForecast = jest.fn().mockResolvedValue(undefined);
+    });
+
+    it('should report epic progress and record the forecast for the current sprint', async () => {
+      const report = await orchestrator.analyzeEpic('EPIC-1');
+
+      expect(report.epicKey).toBe('EPIC-1');
+      expect(report.progress.completedPoints).toBe(5);
+      expect(report.progress.remainingPoints).toBe(11);
+      expect(report.sprints.map(sprint => sprint.sprintId)).toEqual(['sprint-1']);
+      expect(report.summary).toContain('EPIC-1 User authentication');
+      expect(mockStorageService.recordEpicForecast).toHaveBeenCalledWith(
+        'EPIC-1',
+        expect.objectContaining({ sprintId: 'sprint-1', remainingPoints: 11 })
+      );
+    });
+
+    it('should fail when the epic does not exist', async () => {
+      mockJiraCollector.getIssue = jest.fn().mockResolvedValue(null);
+
+      await expect(orchestrator.analyzeEpic('EPIC-404')).rejects.toThrow('Epic EPIC-404 not found');
+    });
+  });
+
+  describe('Risk Timeline', () => {
+    it('should record the risk of every fresh analysis', async () => {
+      const report = await orchestrator.analyzeSprint('sprint-1');
+
+      expect(mockStorageService.recordRiskSnapshot).toHaveBeenCalledWith(
+        'sprint-1',
+        expect.objectContaining({
+          recordedAt: report.generatedAt,
+          level: report.riskAssessment.level,
+          score: report.riskAssessment.score,
+        })
+      );
+    });
+
+    it('should not record cached reports again', async () => {
+      mockStorageService.getReport = jest.fn().mockResolvedValue({
+        generatedAt: '2024-01-10T00:00:00Z',
+      } as SprintReport);
+
+      await orchestrator.analyzeSprint('sprint-1');
+
+      expect(mockStorageService.recordRiskSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('should check the board\'s risk notifications after a fresh analysis', async () => {
+      mockStorageService.getNotificationSettings = jest.fn().mockResolvedValue(null);
+
+      await orchestrator.analyzeSprint('sprint-1');
+      expect(mockStorageService.getNotificationSettings).not.toHaveBeenCalled();
+
+      await orchestrator.analyzeSprint('sprint-1', 'board-1', true);
+      expect(mockStorageService.getNotificationSettings).toHaveBeenCalledWith('board-1');
+    });
+
+    it('should not notify about the risk of a closed sprint', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockResolvedValue({ ...mockSprint, state: 'closed' });
+      mockStorageService.getNotificationSettings = jest.fn().mockResolvedValue(null);
+
+      await orchestrator.analyzeSprint('sprint-1', 'board-1', true);
+
+      expect(mockStorageService.getDeferredNotifications).toHaveBeenCalledWith('board-1');
+      expect(mockStorageService.getNotificationSettings).not.toHaveBeenCalled();
+    });
+
+    describe('notifications held back by quiet hours', () => {
+      let queue: DeferredNotification[];
+      let log: NotificationDelivery[];
+      const poster = jest.fn();
+
+      beforeEach(() => {
+        queue = [{
+          subscriptionId: 'slack',
+          escalation: {
+            boardId: 'board-1',
+            sprintId: 'sprint-1',
+            sprintName: 'Sprint 1',
+            previousLevel: 'Medium',
+            previousScore: 40,
+            level: 'High',
+            score: 70,
+            factors: [],
+            detectedAt: '2024-01-09T23:00:00.000Z',
+          },
+        }];
+        log = [];
+        poster.mockReset().mockResolvedValue({ ok: true, status: 200 });
+
+        (orchestrator as unknown as { notificationService: NotificationService }).notificationService =
+          new NotificationService(mockStorageService, poster);
+        mockStorageService.getNotificationSettings = jest.fn().mockResolvedValue({
+          subscriptions: [{ id: 'slack', url: 'https://hooks.slack.com/services/T/B/X', format: 'slack', minLevel: 'High' }],
+          quietHours: { timezone: 'UTC', start: '20:00', end: '08:00' },
+        });
+        mockStorageService.getDeferredNotifications = jest.fn().mockImplementation(async () => queue);
+        mockStorageService.saveDeferredNotifications = jest.fn().mockImplementation(async (_boardId: string, notifications: DeferredNotification[]) => {
+          queue = notifications;
+        });
+        mockStorageService.getNotificationLog = jest.fn().mockImplementation(async () => log);
+        mockStorageService.recordNotificationDeliveries = jest.fn().mockImplementation(async (_boardId: string, deliveries: NotificationDelivery[]) => {
+          log = [...deliveries, ...log];
+        });
+        // The risk level did not change since the last analysis
+        mockStorageService.getRiskSnapshots = jest.fn().mockResolvedValue([{
+          recordedAt: '2024-01-09T23:00:00.000Z',
+          level: 'High',
+          score: 100,
+          factors: [],
+          metrics: { completionRate: 0, velocity: 0, wipCount: 0, carryOverCount: 0, averagePRLatency: 0 },
+        }]);
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should keep them during a scheduled run in quiet hours and send them on the next analysis', async () => {
+        // The scheduled run at night
+        jest.useFakeTimers({ now: new Date('2024-01-10T23:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout'] });
+        await orchestrator.analyzeSprint('sprint-1', 'board-1', true);
+
+        expect(poster).not.toHaveBeenCalled();
+        expect(queue).toHaveLength(1);
+
+        // An on-demand analysis the next morning
+        jest.setSystemTime(new Date('2024-01-11T09:00:00.000Z'));
+        await orchestrator.analyzeSprint('sprint-1', 'board-1', true);
+
+        expect(poster).toHaveBeenCalledTimes(1);
+        expect(queue).toEqual([]);
+        expect(log[0]).toMatchObject({ subscriptionId: 'slack', sprintId: 'sprint-1', status: 'sent' });
+      });
+    });
+
+    it('should check the board\'s spillover actions after analyzing an active sprint', async () => {
+      mockStorageService.getSpilloverActionSettings = jest.fn().mockResolvedValue(null);
+
+      await orchestrator.analyzeSprint('sprint-1');
+      expect(mockStorageService.getSpilloverActionSettings).not.toHaveBeenCalled();
+
+      await orchestrator.analyzeSprint('sprint-1', 'board-1', true);
+      expect(mockStorageService.getSpilloverActionSettings).toHaveBeenCalledWith('board-1');
+    });
+
+    it('should clean up the board\'s spillover actions when a sprint has closed', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockResolvedValue({ ...mockSprint, state: 'closed' });
+      mockStorageService.getSpilloverActionSettings = jest.fn().mockResolvedValue({
+        enabled: true,
+        threshold: 0.5,
+        label: 'spillover-risk',
+        comment: true,
+        dryRun: true,
+      });
+      // PROJ-1 was finished before the sprint closed, PROJ-2 carries over
+      mockStorageService.getSpilloverMarkers = jest.fn().mockResolvedValue([
+        { issueKey: 'PROJ-1', sprintId: 'sprint-1', label: 'spillover-risk', probability: 0.8, markedAt: '2024-01-10T00:00:00Z' },
+        { issueKey: 'PROJ-2', sprintId: 'sprint-1', label: 'spillover-risk', probability: 0.8, markedAt: '2024-01-10T00:00:00Z' },
+      ]);
+
+      await orchestrator.analyzeSprint('sprint-1', 'board-1', true);
+
+      expect(mockStorageService.recordSpilloverActionRun).toHaveBeenCalledWith('board-1', expect.objectContaining({
+        sprintId: 'sprint-1',
+        actions: [expect.objectContaining({ type: 'remove-label', issueKey: 'PROJ-1', status: 'planned' })],
+      }));
+    });
+
+    it('should build the timeline from recorded snapshots', async () => {
+      mockStorageService.getRiskSnapshots = jest.fn().mockResolvedValue([]);
+
+      const timeline = await orchestrator.getRiskTimeline('sprint-1');
+
+      expect(mockStorageService.getRiskSnapshots).toHaveBeenCalledWith('sprint-1');
+      expect(timeline).toEqual({ sprintId: 'sprint-1', snapshots: [], days: [] });
+    });
+  });
+
+  describe('Sprint Comparison', () => {
+    it('should analyze both sprints and compare them', async () => {
+      const comparison = await orchestrator.compareSprints('sprint-0', 'sprint-1');
+
+      expect(mockJiraCollector.getSprintData).toHaveBeenCalledWith('sprint-0');
+      expect(mockJiraCollector.getSprintData).toHaveBeenCalledWith('sprint-1');
+      expect(comparison.metricDeltas.length).toBeGreaterThan(0);
+      expect(comparison.narrative).toContain('Compared with');
+    });
+
+    it('should fail when a sprint cannot be analyzed', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockRejectedValue(new Error('Sprint not found'));
+
+      await expect(orchestrator.compareSprints('sprint-0', 'sprint-1')).rejects.toThrow(
+        'Sprint sprint-0 could not be analyzed'
+      );
+    });
+  });
+
+  describe('Retrospective', () => {
+    it('should build the retrospective page of a closed sprint', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockResolvedValue({ ...mockSprint, state: 'closed' });
+
+      const page = await orchestrator.buildRetrospective('sprint-1');
+
+      expect(page.title).toBe('Retrospective: Sprint 1');
+      expect(page.body).toContain('<h2>What Went Well</h2>');
+      expect(page.body).toContain('<h2>Actions</h2>');
+    });
+
+    it('should not write to Jira or notify while reading the sprint', async () => {
+      mockJiraCollector.getSprintData = jest.fn().mockResolvedValue({ ...mockSprint, state: 'closed' });
+      mockStorageService.getSpilloverActionSettings = jest.fn().mockResolvedValue({
+        enabled: true,
+        threshold: 0.5,
+        label: 'spillover-risk',
+        comment: true,
+        dryRun: false,
+      });
+
+      await orchestrator.buildRetrospective('sprint-1', 'board-1');
+      await orchestrator.compareSprints('sprint-0', 'sprint-1', 'board-1');
+
+      expect(mockStorageService.getSpilloverActionSettings).not.toHaveBeenCalled();
+      expect(mockStorageService.getSpilloverMarkers).not.toHaveBeenCalled();
+      expect(mockStorageService.getDeferredNotifications).not.toHaveBeenCalled();
+    });
+
+    it('should refuse sprints that are not closed', async () => {
+      await expect(orchestrator.buildRetrospective('sprint-1')).rejects.toThrow(
+        'Sprint Sprint 1 is active; only closed sprints can be published as a retrospective'
+      );
+    });
+  });
+
+  describe('Status Classification', () => {
+    const buildStatusClassifier = (issues: IssueData[]) =>
+      (orchestrator as unknown as {
+        buildStatusClassifier(issues: IssueData[]): Promise<StatusClassifier>;
+      }).buildStatusClassifier(issues);
+
+    it('should apply status overrides only to their own project', async () => {
+      mockJiraCollector.getStatusCategories = jest.fn().mockResolvedValue({});
+      mockStorageService.getStatusOverrides = jest.fn(async (projectKey: string) =>
+        projectKey === 'PROJ' ? { Review: 'done' as const } : {}
+      );
+
+      const classifier = await buildStatusClassifier([
+        { ...mockIssues[0], key: 'PROJ-1', status: 'Review' },
+        { ...mockIssues[1], key: 'OTHER-1', status: 'Review' },
+      ]);
+
+      expect(classifier.isCompleted('Review', 'PROJ-1')).toBe(true);
+      expect(classifier.isCompleted('Review', 'OTHER-1')).toBe(false);
+      expect(classifier.isActive('Review', 'OTHER-1')).toBe(true);
+    });
+
+    it('should prefer the category reported on the issue over the site-wide one', async () => {
+      mockJiraCollector.getStatusCategories = jest.fn().mockResolvedValue({ Verify: 'new' });
+      mockStorageService.getStatusOverrides = jest.fn().mockResolvedValue({});
+
+      const classifier = await buildStatusClassifier([
+        { ...mockIssues[0], status: 'Verify', statusCategory: 'done' },
+      ]);
+
+      expect(classifier.classify('Verify', 'PROJ-1')).toBe('done');
+    });
+
+    it('should keep the categories reported on issues apart per project', async () => {
+      mockJiraCollector.getStatusCategories = jest.fn().mockResolvedValue({});
+      mockStorageService.getStatusOverrides = jest.fn().mockResolvedValue({});
+
+      const classifier = await buildStatusClassifier([
+        { ...mockIssues[0], key: 'PROJ-1', status: 'Verify', statusCategory: 'done' },
+        { ...mockIssues[1], key: 'OTHER-1', status: 'Verify', statusCategory: 'indeterminate' },
+      ]);
+
+      expect(classifier.classify('Verify', 'PROJ-1')).toBe('done');
+      expect(classifier.classify('Verify', 'OTHER-1')).toBe('indeterminate');
+    });
   });
 
   describe('Cache Invalidation', () => {
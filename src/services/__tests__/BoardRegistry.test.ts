@@ -0,0 +1,138 @@
+import { BoardRegistry } from '../BoardRegistry';
+import { StorageService } from '../StorageService';
+import { MonitoredBoard, BoardRunOutcome } from '../../types';
+
+// Mock storage so the registry runs against an in-memory board list
+jest.mock('../StorageService');
+
+describe('BoardRegistry', () => {
+  let registry: BoardRegistry;
+  let mockStorageService: jest.Mocked<StorageService>;
+  let boards: MonitoredBoard[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    boards = [];
+
+    mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockStorageService.getMonitoredBoards = jest.fn().mockImplementation(async () => [...boards]);
+    mockStorageService.getMonitoredBoard = jest.fn().mockImplementation(
+      async (boardId: string) => boards.find(b => b.boardId === boardId) || null
+    );
+    mockStorageService.saveMonitoredBoard = jest.fn().mockImplementation(async (board: MonitoredBoard) => {
+      boards = [...boards.filter(b => b.boardId !== board.boardId), board];
+    });
+    mockStorageService.removeMonitoredBoard = jest.fn().mockImplementation(async (boardId: string) => {
+      const before = boards.length;
+      boards = boards.filter(b => b.boardId !== boardId);
+      return boards.length < before;
+    });
+    mockStorageService.recordBoardRun = jest.fn().mockResolvedValue(undefined);
+
+    registry = new BoardRegistry(mockStorageService);
+  });
+
+  describe('addBoard', () => {
+    it('should register a board with default schedule and options', async () => {
+      const board = await registry.addBoard({ boardId: '42' });
+
+      expect(board.boardId).toBe('42');
+      expect(board.name).toBe('Board 42');
+      expect(board.paused).toBe(false);
+      expect(board.schedule).toEqual({ frequency: 'daily' });
+      expect(board.options).toEqual({ forceRefresh: false, minReportAgeMinutes: 60 });
+      expect(mockStorageService.saveMonitoredBoard).toHaveBeenCalledWith(board);
+    });
+
+    it('should merge updates into an existing registration', async () => {
+      const original = await registry.addBoard({ boardId: '42', name: 'Platform' });
+      await registry.setPaused('42', true);
+
+      const updated = await registry.addBoard({
+        boardId: '42',
+        schedule: { frequency: 'weekly', dayOfWeek: 5 },
+        options: { minReportAgeMinutes: 240 },
+      });
+
+      expect(updated.name).toBe('Platform');
+      expect(updated.paused).toBe(true);
+      expect(updated.createdAt).toBe(original.createdAt);
+      expect(updated.schedule).toEqual({ frequency: 'weekly', dayOfWeek: 5 });
+      expect(updated.options).toEqual({ forceRefresh: false, minReportAgeMinutes: 240 });
+    });
+
+    it('should reject invalid schedules and options', async () => {
+      await expect(
+        registry.addBoard({ boardId: '1', schedule: { frequency: 'hourly' as any } })
+      ).rejects.toThrow('Invalid schedule frequency');
+      await expect(
+        registry.addBoard({ boardId: '1', schedule: { frequency: 'weekly', dayOfWeek: 9 } })
+      ).rejects.toThrow('dayOfWeek');
+      await expect(
+        registry.addBoard({ boardId: '1', options: { minReportAgeMinutes: -5 } })
+      ).rejects.toThrow('minReportAgeMinutes');
+    });
+
+    it('should require a board ID', async () => {
+      await expect(registry.addBoard({ boardId: '' })).rejects.toThrow('boardId is required');
+    });
+  });
+
+  describe('setPaused and removeBoard', () => {
+    it('should return null when pausing an unknown board', async () => {
+      const result = await registry.setPaused('missing', true);
+      expect(result).toBeNull();
+    });
+
+    it('should remove a registered board', async () => {
+      await registry.addBoard({ boardId: '7' });
+
+      expect(await registry.removeBoard('7')).toBe(true);
+      expect(await registry.removeBoard('7')).toBe(false);
+      expect(await registry.listBoards()).toHaveLength(0);
+    });
+  });
+
+  describe('getBoardsDueForRun', () => {
+    // 2024-01-06 is a Saturday, 2024-01-08 is a Monday
+    const saturday = new Date('2024-01-06T03:00:00Z');
+    const monday = new Date('2024-01-08T03:00:00Z');
+
+    beforeEach(async () => {
+      await registry.addBoard({ boardId: 'daily' });
+      await registry.addBoard({ boardId: 'weekdays', schedule: { frequency: 'weekdays' } });
+      await registry.addBoard({ boardId: 'weekly', schedule: { frequency: 'weekly', dayOfWeek: 1 } });
+      await registry.addBoard({ boardId: 'paused' });
+      await registry.setPaused('paused', true);
+    });
+
+    it('should skip paused boards', async () => {
+      const due = await registry.getBoardsDueForRun(monday);
+      expect(due.map(b => b.boardId)).not.toContain('paused');
+    });
+
+    it('should respect per-board schedules', async () => {
+      const dueSaturday = await registry.getBoardsDueForRun(saturday);
+      const dueMonday = await registry.getBoardsDueForRun(monday);
+
+      expect(dueSaturday.map(b => b.boardId).sort()).toEqual(['daily']);
+      expect(dueMonday.map(b => b.boardId).sort()).toEqual(['daily', 'weekdays', 'weekly']);
+    });
+  });
+
+  describe('recordRun', () => {
+    it('should delegate run outcomes to storage', async () => {
+      const outcome: BoardRunOutcome = {
+        runAt: '2024-01-08T03:00:00Z',
+        status: 'partial',
+        analyzedSprints: ['10'],
+        skippedSprints: [],
+        errors: ['Sprint 11: Jira API error'],
+      };
+
+      await registry.recordRun('42', outcome);
+
+      expect(mockStorageService.recordBoardRun).toHaveBeenCalledWith('42', outcome);
+    });
+  });
+});
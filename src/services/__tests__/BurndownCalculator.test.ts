@@ -0,0 +1,121 @@
+import { BurndownCalculator } from '../BurndownCalculator';
+import { IssueData, SprintData } from '../../types';
+
+describe('BurndownCalculator', () => {
+  let calculator: BurndownCalculator;
+
+  const sprint: SprintData = {
+    id: '10',
+    name: 'Sprint 10',
+    state: 'active',
+    startDate: '2024-01-01T09:00:00Z',
+    endDate: '2024-01-05T17:00:00Z',
+  };
+
+  const buildIssue = (key: string, storyPoints: number, overrides: Partial<IssueData> = {}): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee: 'dev1',
+    storyPoints,
+    status: 'To Do',
+    statusTransitions: [],
+    linkedPRs: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    calculator = new BurndownCalculator();
+  });
+
+  it('should return null for sprints without valid dates', () => {
+    expect(calculator.calculateBurndown([], { ...sprint, startDate: '' })).toBeNull();
+  });
+
+  it('should produce one point per sprint day with an ideal line from the committed scope', () => {
+    const issues = [buildIssue('PROJ-1', 5), buildIssue('PROJ-2', 3)];
+
+    const burndown = calculator.calculateBurndown(issues, sprint, new Date('2024-01-10T00:00:00Z'))!;
+
+    expect(burndown.points.map(p => p.date)).toEqual([
+      '2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05',
+    ]);
+    expect(burndown.initialScopePoints).toBe(8);
+    expect(burndown.points.map(p => p.idealRemainingPoints)).toEqual([8, 6, 4, 2, 0]);
+  });
+
+  it('should burn down points as issues are completed', () => {
+    const issues = [
+      buildIssue('PROJ-1', 5, {
+        status: 'Done',
+        statusTransitions: [
+          { fromStatus: 'To Do', toStatus: 'In Progress', timestamp: '2024-01-01T10:00:00Z' },
+          { fromStatus: 'In Progress', toStatus: 'Done', timestamp: '2024-01-02T15:00:00Z' },
+        ],
+      }),
+      buildIssue('PROJ-2', 3),
+    ];
+
+    const burndown = calculator.calculateBurndown(issues, sprint, new Date('2024-01-10T00:00:00Z'))!;
+
+    expect(burndown.points.map(p => p.remainingPoints)).toEqual([8, 3, 3, 3, 3]);
+    expect(burndown.points.map(p => p.completedPoints)).toEqual([0, 5, 5, 5, 5]);
+  });
+
+  it('should track scope added and re-estimated after the sprint started', () => {
+    const issues = [
+      buildIssue('PROJ-1', 5, {
+        storyPointChanges: [{ from: 3, to: 5, timestamp: '2024-01-04T12:00:00Z' }],
+      }),
+      buildIssue('PROJ-2', 2, {
+        sprintChanges: [{ sprintId: '10', change: 'added', timestamp: '2024-01-03T12:00:00Z' }],
+      }),
+    ];
+
+    const burndown = calculator.calculateBurndown(issues, sprint, new Date('2024-01-10T00:00:00Z'))!;
+
+    expect(burndown.initialScopePoints).toBe(3);
+    expect(burndown.points.map(p => p.scopePoints)).toEqual([3, 3, 5, 7, 7]);
+  });
+
+  it('should ignore membership changes of other sprints and issues created later', () => {
+    const issues = [
+      buildIssue('PROJ-1', 3, {
+        sprintChanges: [{ sprintId: '9', change: 'removed', timestamp: '2024-01-02T12:00:00Z' }],
+      }),
+      buildIssue('PROJ-2', 2, { createdAt: '2024-01-02T12:00:00Z' }),
+    ];
+
+    const burndown = calculator.calculateBurndown(issues, sprint, new Date('2024-01-10T00:00:00Z'))!;
+
+    expect(burndown.points.map(p => p.scopePoints)).toEqual([3, 5, 5, 5, 5]);
+  });
+
+  it('should keep removed issues in scope until their removal', () => {
+    const issues = [buildIssue('PROJ-1', 5)];
+    const removedIssues = [
+      buildIssue('PROJ-2', 3, {
+        sprintChanges: [{ sprintId: '10', change: 'removed', timestamp: '2024-01-03T12:00:00Z' }],
+      }),
+    ];
+
+    const burndown = calculator.calculateBurndown(
+      issues,
+      sprint,
+      new Date('2024-01-10T00:00:00Z'),
+      removedIssues
+    )!;
+
+    expect(burndown.initialScopePoints).toBe(8);
+    expect(burndown.points.map(p => p.scopePoints)).toEqual([8, 8, 5, 5, 5]);
+  });
+
+  it('should leave actual values empty for days not yet reached', () => {
+    const issues = [buildIssue('PROJ-1', 5)];
+
+    const burndown = calculator.calculateBurndown(issues, sprint, new Date('2024-01-02T12:00:00Z'))!;
+
+    expect(burndown.points.map(p => p.remainingPoints)).toEqual([5, 5, null, null, null]);
+    expect(burndown.points[4].idealRemainingPoints).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { BusinessCalendar } from '../BusinessCalendar';
+import { TeamCalendar } from '../../types';
+
+describe('BusinessCalendar', () => {
+  const newYorkCalendar: TeamCalendar = {
+    timezone: 'America/New_York',
+    workingDays: [1, 2, 3, 4, 5],
+    workingHours: { start: '09:00', end: '17:00' },
+    holidays: [],
+  };
+
+  // Friday 2024-01-05 18:00 and Monday 2024-01-08 10:00 in New York (UTC-5)
+  const fridayEvening = '2024-01-05T23:00:00Z';
+  const mondayMorning = '2024-01-08T15:00:00Z';
+
+  describe('wall-clock mode', () => {
+    it('should measure elapsed hours without a team calendar', () => {
+      const calendar = new BusinessCalendar();
+
+      expect(calendar.mode).toBe('wall-clock');
+      expect(calendar.unitLabel).toBe('hours');
+      expect(calendar.hoursBetween(fridayEvening, mondayMorning)).toBe(64);
+      expect(calendar.scaleWallClockHours(48)).toBe(48);
+    });
+  });
+
+  describe('business-hours mode', () => {
+    it('should count only working time over a weekend', () => {
+      const calendar = new BusinessCalendar(newYorkCalendar);
+
+      expect(calendar.mode).toBe('business-hours');
+      expect(calendar.unitLabel).toBe('business hours');
+      expect(calendar.hoursBetween(fridayEvening, mondayMorning)).toBe(1);
+    });
+
+    it('should count working time within and across working days', () => {
+      const calendar = new BusinessCalendar(newYorkCalendar);
+
+      // Monday 10:00-15:00 local
+      expect(calendar.hoursBetween('2024-01-08T15:00:00Z', '2024-01-08T20:00:00Z')).toBe(5);
+      // Monday 10:00 to Wednesday 10:00 local
+      expect(calendar.hoursBetween('2024-01-08T15:00:00Z', '2024-01-10T15:00:00Z')).toBe(16);
+    });
+
+    it('should skip holidays', () => {
+      const calendar = new BusinessCalendar({ ...newYorkCalendar, holidays: ['2024-01-08'] });
+
+      // Friday 18:00 to Tuesday 10:00 local, with Monday off
+      expect(calendar.hoursBetween(fridayEvening, '2024-01-09T15:00:00Z')).toBe(1);
+    });
+
+    it('should follow daylight saving time changes in the team time zone', () => {
+      const calendar = new BusinessCalendar(newYorkCalendar);
+
+      // Friday 2024-03-08 16:00 EST to Monday 2024-03-11 10:00 EDT
+      expect(calendar.hoursBetween('2024-03-08T21:00:00Z', '2024-03-11T14:00:00Z')).toBe(2);
+    });
+
+    it('should return negative hours when the end is before the start', () => {
+      const calendar = new BusinessCalendar(newYorkCalendar);
+
+      expect(calendar.hoursBetween(mondayMorning, fridayEvening)).toBe(-1);
+    });
+
+    it('should scale wall-clock thresholds to the share of working time', () => {
+      const calendar = new BusinessCalendar(newYorkCalendar);
+
+      // 40 working hours out of 168 hours in a week
+      expect(calendar.scaleWallClockHours(168)).toBeCloseTo(40);
+    });
+  });
+
+  describe('validateCalendar', () => {
+    it('should accept a valid calendar', () => {
+      expect(new BusinessCalendar().validateCalendar(newYorkCalendar)).toEqual([]);
+    });
+
+    it('should report every invalid setting', () => {
+      const errors = new BusinessCalendar().validateCalendar({
+        timezone: 'Mars/Olympus_Mons',
+        workingDays: [1, 7],
+        workingHours: { start: '17:00', end: '09:00' },
+        holidays: ['01/01/2024'],
+      });
+
+      expect(errors).toHaveLength(4);
+      expect(errors[0]).toContain('Mars/Olympus_Mons');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { CapacityPlanner } from '../CapacityPlanner';
+import { TrendAnalyzer } from '../TrendAnalyzer';
+import { HistoricalMetrics, SprintCapacityPlan } from '../../types';
+
+describe('CapacityPlanner', () => {
+  let planner: CapacityPlanner;
+
+  const nextSprintPlan: SprintCapacityPlan = {
+    sprintId: 'sprint-4',
+    workingDays: 10,
+    members: [
+      { name: 'Alice', allocation: 100, daysOff: 0 },
+      { name: 'Bob', allocation: 100, daysOff: 3 },
+      { name: 'Carol', allocation: 50, daysOff: 0 },
+    ],
+  };
+
+  const buildHistory = (sprintId: string, velocity: number): HistoricalMetrics => ({
+    sprintId,
+    sprintName: sprintId,
+    completedAt: '2024-01-01T00:00:00Z',
+    metrics: {
+      cycleTime: 10,
+      leadTime: 20,
+      throughput: 5,
+      velocity,
+      wipCount: 0,
+      carryOverCount: 0,
+      completionRate: 90,
+    },
+    prMetrics: {
+      averageLatency: 6,
+      averageTimeToFirstReview: 2,
+      averageReviewCycles: 1,
+      averageRevisions: 1,
+    },
+  });
+
+  const fullTeamPlan = (sprintId: string, members: number): SprintCapacityPlan => ({
+    sprintId,
+    workingDays: 10,
+    members: Array.from({ length: members }, (_, i) => ({ name: `Dev ${i}`, allocation: 100, daysOff: 0 })),
+  });
+
+  beforeEach(() => {
+    planner = new CapacityPlanner();
+  });
+
+  describe('calculateAvailablePersonDays', () => {
+    it('should subtract days off and apply allocation per member', () => {
+      expect(planner.calculateMemberAvailability(nextSprintPlan)).toEqual([
+        { name: 'Alice', availableDays: 10 },
+        { name: 'Bob', availableDays: 7 },
+        { name: 'Carol', availableDays: 5 },
+      ]);
+      expect(planner.calculateAvailablePersonDays(nextSprintPlan)).toBe(22);
+    });
+
+    it('should not count negative availability when days off exceed the sprint', () => {
+      const plan: SprintCapacityPlan = {
+        sprintId: 'sprint-4',
+        workingDays: 5,
+        members: [{ name: 'Alice', allocation: 100, daysOff: 8 }],
+      };
+
+      expect(planner.calculateAvailablePersonDays(plan)).toBe(0);
+    });
+  });
+
+  describe('forecastCapacity', () => {
+    it('should use the median focus factor of past sprints with capacity plans', () => {
+      const history = [
+        buildHistory('sprint-3', 30), // 30 / 30 = 1.0
+        buildHistory('sprint-2', 40), // 40 / 20 = 2.0
+        buildHistory('sprint-1', 45), // 45 / 30 = 1.5
+        buildHistory('sprint-0', 99), // no plan
+      ];
+      const plans = new Map([
+        ['sprint-3', fullTeamPlan('sprint-3', 3)],
+        ['sprint-2', fullTeamPlan('sprint-2', 2)],
+        ['sprint-1', fullTeamPlan('sprint-1', 3)],
+      ]);
+      const trend = new TrendAnalyzer().buildTrend(history, 6)!;
+
+      const forecast = planner.forecastCapacity(nextSprintPlan, history, plans, trend, 'Sprint 4');
+
+      expect(forecast?.focusFactor).toBe(1.5);
+      expect(forecast?.focusFactorSource).toBe('capacity-history');
+      expect(forecast?.basedOnSprints).toBe(3);
+      expect(forecast?.nominalPersonDays).toBe(30);
+      expect(forecast?.targetStoryPoints).toBe(33); // 22 person-days × 1.5
+      expect(forecast?.sprintName).toBe('Sprint 4');
+    });
+
+    it('should fall back to historical velocity when no past sprint has a capacity plan', () => {
+      const history = [buildHistory('sprint-3', 30), buildHistory('sprint-2', 36)];
+      const trend = new TrendAnalyzer().buildTrend(history, 6)!;
+
+      const forecast = planner.forecastCapacity(nextSprintPlan, history, new Map(), trend);
+
+      // Median velocity 33 over 30 nominal person-days
+      expect(forecast?.focusFactor).toBeCloseTo(1.1);
+      expect(forecast?.focusFactorSource).toBe('velocity-history');
+      expect(forecast?.targetStoryPoints).toBe(24); // 22 × 1.1
+    });
+  });
+
+  describe('validatePlan', () => {
+    it('should accept a valid plan', () => {
+      expect(planner.validatePlan(nextSprintPlan)).toEqual([]);
+    });
+
+    it('should report invalid working days and member settings', () => {
+      const errors = planner.validatePlan({
+        sprintId: 'sprint-4',
+        workingDays: 0,
+        members: [{ name: 'Alice', allocation: 120, daysOff: -1 }],
+      });
+
+      expect(errors).toEqual([
+        'workingDays must be a positive number',
+        'Alice: allocation must be between 0 and 100',
+        'Alice: daysOff must not be negative',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { DependencyGraphAnalyzer } from '../DependencyGraphAnalyzer';
+import { IssueData, IssueLink, IssueLinkType } from '../../types';
+
+describe('DependencyGraphAnalyzer', () => {
+  let analyzer: DependencyGraphAnalyzer;
+
+  const link = (type: IssueLinkType, issueKey: string, status: string = 'To Do'): IssueLink => ({
+    type,
+    issueKey,
+    summary: `Issue ${issueKey}`,
+    status,
+  });
+
+  const buildIssue = (key: string, links: IssueLink[] = [], overrides: Partial<IssueData> = {}): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee: null,
+    storyPoints: 3,
+    status: 'To Do',
+    statusTransitions: [],
+    linkedPRs: [],
+    links,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    analyzer = new DependencyGraphAnalyzer();
+  });
+
+  describe('buildGraph', () => {
+    it('should build deduplicated blocker edges from both sides of a link', () => {
+      const graph = analyzer.buildGraph([
+        buildIssue('PROJ-1', [link('blocks', 'PROJ-2'), link('relates', 'PROJ-3'), link('subtask', 'PROJ-4')]),
+        buildIssue('PROJ-2', [link('is-blocked-by', 'PROJ-1')]),
+      ]);
+
+      expect(graph.edges).toEqual([{ from: 'PROJ-1', to: 'PROJ-2' }]);
+      expect(graph.nodes.map(node => node.issueKey)).toEqual(['PROJ-1', 'PROJ-2']);
+    });
+
+    it('should find the longest chain of unresolved blockers as the critical path', () => {
+      const graph = analyzer.buildGraph(
+        [
+          buildIssue('PROJ-1', [link('is-blocked-by', 'OTHER-1', 'In Progress')]),
+          buildIssue('PROJ-2', [link('is-blocked-by', 'PROJ-1')], { storyPoints: 5 }),
+          buildIssue('PROJ-3', [link('is-blocked-by', 'PROJ-9', 'Done')]),
+        ],
+        [buildIssue('OTHER-1', [], { status: 'In Progress', storyPoints: 8 })]
+      );
+
+      expect(graph.criticalPath).toEqual(['OTHER-1', 'PROJ-1', 'PROJ-2']);
+      expect(graph.criticalPathPoints).toBe(8); // sprint issues only
+    });
+
+    it('should skip resolved blockers on the critical path', () => {
+      const graph = analyzer.buildGraph([
+        buildIssue('PROJ-1', [], { status: 'Done' }),
+        buildIssue('PROJ-2', [link('is-blocked-by', 'PROJ-1', 'Done')]),
+      ]);
+
+      expect(graph.criticalPath).toEqual([]);
+    });
+
+    it('should list unresolved external blockers with every sprint issue they hold up', () => {
+      const graph = analyzer.buildGraph(
+        [
+          buildIssue('PROJ-1', [link('is-blocked-by', 'OTHER-1', 'In Progress')]),
+          buildIssue('PROJ-2', [link('is-blocked-by', 'PROJ-1')]),
+          buildIssue('PROJ-3', [
+            link('is-blocked-by', 'OTHER-2', 'To Do'),
+            link('is-blocked-by', 'OTHER-3', 'Done'),
+          ]),
+        ],
+        [buildIssue('OTHER-1', [], { status: 'In Progress' })]
+      );
+
+      expect(graph.externalBlockers).toEqual([
+        { issueKey: 'OTHER-1', summary: 'Issue OTHER-1', status: 'In Progress', blockedIssues: ['PROJ-1', 'PROJ-2'] },
+        { issueKey: 'OTHER-2', summary: 'Issue OTHER-2', status: 'To Do', blockedIssues: ['PROJ-3'] },
+      ]);
+    });
+
+    it('should detect each cycle once and still find a critical path', () => {
+      const graph = analyzer.buildGraph([
+        buildIssue('PROJ-2', [link('blocks', 'PROJ-3')]),
+        buildIssue('PROJ-3', [link('blocks', 'PROJ-1')]),
+        buildIssue('PROJ-1', [link('blocks', 'PROJ-2')]),
+      ]);
+
+      expect(graph.cycles).toEqual([['PROJ-1', 'PROJ-2', 'PROJ-3']]);
+      expect(graph.criticalPath).toHaveLength(3);
+    });
+
+    it('should fall back to blockers on issues without typed links', () => {
+      const graph = analyzer.buildGraph([
+        buildIssue('PROJ-1', undefined, {
+          links: undefined,
+          blockedBy: [{ issueKey: 'OTHER-1', summary: 'Issue OTHER-1', status: 'To Do', statusCategory: 'new' }],
+        }),
+      ]);
+
+      expect(graph.edges).toEqual([{ from: 'OTHER-1', to: 'PROJ-1' }]);
+      expect(graph.externalBlockers.map(blocker => blocker.issueKey)).toEqual(['OTHER-1']);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { EpicRollupAnalyzer } from '../EpicRollupAnalyzer';
+import {
+  IssueData,
+  IssueSprintReference,
+  HistoricalTrend,
+  TrendStatistics,
+  EpicForecastSnapshot,
+} from '../../types';
+
+describe('EpicRollupAnalyzer', () => {
+  let analyzer: EpicRollupAnalyzer;
+
+  const epic = { key: 'EPIC-1', summary: 'Checkout redesign' };
+
+  const sprint1: IssueSprintReference = { id: '1', name: 'Sprint 1', state: 'closed', startDate: '2024-01-01T00:00:00.000Z' };
+  const sprint2: IssueSprintReference = { id: '2', name: 'Sprint 2', state: 'closed', startDate: '2024-01-15T00:00:00.000Z' };
+  const sprint3: IssueSprintReference = { id: '3', name: 'Sprint 3', state: 'active', startDate: '2024-01-29T00:00:00.000Z' };
+
+  const buildIssue = (
+    key: string,
+    status: string,
+    storyPoints: number | null,
+    sprints: IssueSprintReference[]
+  ): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee: null,
+    storyPoints,
+    status,
+    statusTransitions: [],
+    linkedPRs: [],
+    sprints,
+  });
+
+  const issues = [
+    buildIssue('PROJ-1', 'Done', 5, [sprint1]),
+    buildIssue('PROJ-2', 'Done', 8, [sprint1, sprint2]),
+    buildIssue('PROJ-3', 'Done', 3, [sprint2]),
+    buildIssue('PROJ-4', 'In Progress', 8, [sprint2, sprint3]),
+    buildIssue('PROJ-5', 'To Do', 5, [sprint3]),
+    buildIssue('PROJ-6', 'To Do', null, []),
+  ];
+
+  const statistics = (median: number, sampleSize: number): TrendStatistics => ({
+    mean: median,
+    median,
+    stdDev: 0,
+    slope: 0,
+    latest: median,
+    sampleSize,
+  });
+
+  const snapshot = (sprintId: string, forecastCompletionDate: string | null): EpicForecastSnapshot => ({
+    sprintId,
+    sprintName: `Sprint ${sprintId}`,
+    recordedAt: '2024-01-01T00:00:00.000Z',
+    remainingPoints: 20,
+    forecastCompletionDate,
+  });
+
+  beforeEach(() => {
+    analyzer = new EpicRollupAnalyzer();
+  });
+
+  describe('analyzeEpic', () => {
+    it('should aggregate progress by story points', () => {
+      const rollup = analyzer.analyzeEpic(epic, issues);
+
+      expect(rollup.epicName).toBe('Checkout redesign');
+      expect(rollup.progress).toEqual({
+        totalIssues: 6,
+        completedIssues: 3,
+        unestimatedIssues: 1,
+        totalPoints: 29,
+        completedPoints: 16,
+        remainingPoints: 13,
+        percentComplete: (16 / 29) * 100,
+      });
+    });
+
+    it('should attribute completed work to the last sprint of each issue', () => {
+      const rollup = analyzer.analyzeEpic(epic, issues);
+
+      expect(rollup.sprints.map(sprint => [sprint.sprintName, sprint.completedPoints])).toEqual([
+        ['Sprint 1', 5],
+        ['Sprint 2', 11],
+        ['Sprint 3', 0],
+      ]);
+    });
+
+    it('should forecast the completion sprint from the epic velocity', () => {
+      const rollup = analyzer.analyzeEpic(epic, issues);
+
+      expect(rollup.forecast).toEqual({
+        velocity: 8,
+        velocitySource: 'epic-history',
+        basedOnSprints: 2,
+        remainingSprints: 2, // 13 points at 8 per sprint, starting with the active sprint
+        sprintLengthDays: 14,
+        forecastCompletionDate: '2024-02-26T00:00:00.000Z',
+      });
+    });
+
+    it('should fall back to team velocity before the epic has a closed sprint', () => {
+      const trend: HistoricalTrend = {
+        sprintCount: 3,
+        sprintIds: ['a', 'b', 'c'],
+        velocity: statistics(20, 3),
+        cycleTime: statistics(10, 3),
+        prLatency: statistics(6, 3),
+        completionRate: statistics(90, 3),
+      };
+
+      const rollup = analyzer.analyzeEpic(
+        epic,
+        [buildIssue('PROJ-5', 'To Do', 30, [sprint3])],
+        [],
+        trend
+      );
+
+      expect(rollup.forecast?.velocitySource).toBe('team-velocity');
+      expect(rollup.forecast?.remainingSprints).toBe(2);
+    });
+
+    it('should not forecast an epic without progress in its closed sprints', () => {
+      const rollup = analyzer.analyzeEpic(epic, [
+        buildIssue('PROJ-4', 'In Progress', 8, [sprint2, sprint3]),
+      ]);
+
+      expect(rollup.forecast).toBeNull();
+      expect(analyzer.assessRisk(rollup).level).toBe('High');
+    });
+  });
+
+  describe('detectSlippage', () => {
+    it('should compare with the previous sprint and count consecutive slips', () => {
+      const rollup = analyzer.analyzeEpic(epic, issues, [
+        snapshot('3', '2024-03-30T00:00:00.000Z'), // earlier analysis in the current sprint
+        snapshot('2', '2024-02-19T00:00:00.000Z'),
+        snapshot('1', '2024-02-12T00:00:00.000Z'),
+      ]);
+
+      expect(rollup.slippage).toEqual({
+        previousSprintName: 'Sprint 2',
+        previousForecastDate: '2024-02-19T00:00:00.000Z',
+        slippedDays: 7,
+        consecutiveSlips: 2,
+      });
+      expect(analyzer.assessRisk(rollup).level).toBe('High');
+    });
+
+    it('should not report a slip when the forecast moved earlier', () => {
+      const rollup = analyzer.analyzeEpic(epic, issues, [snapshot('2', '2024-03-11T00:00:00.000Z')]);
+
+      expect(rollup.slippage?.slippedDays).toBe(-14);
+      expect(rollup.slippage?.consecutiveSlips).toBe(0);
+    });
+  });
+
+  describe('createSnapshot', () => {
+    it('should record the forecast for the active sprint', () => {
+      const rollup = analyzer.analyzeEpic(epic, issues);
+
+      expect(analyzer.createSnapshot(rollup, new Date('2024-02-01T00:00:00.000Z'))).toEqual({
+        sprintId: '3',
+        sprintName: 'Sprint 3',
+        recordedAt: '2024-02-01T00:00:00.000Z',
+        remainingPoints: 13,
+        forecastCompletionDate: '2024-02-26T00:00:00.000Z',
+      });
+    });
+  });
+});
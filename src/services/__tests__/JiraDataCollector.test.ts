@@ -0,0 +1,411 @@
+import api from '@forge/api';
+import { JiraDataCollector } from '../JiraDataCollector';
+import { StorageService } from '../StorageService';
+
+// Mock the Forge API so requests can be answered per URL
+jest.mock('@forge/api', () => {
+  const requestJira = jest.fn();
+  const appRequestJira = jest.fn();
+  return {
+    __esModule: true,
+    default: {
+      asUser: () => ({ requestJira }),
+      asApp: () => ({ requestJira: appRequestJira }),
+    },
+    route: (strings: TemplateStringsArray, ...values: unknown[]) =>
+      strings.reduce((url, part, i) => url + part + (i < values.length ? String(values[i]) : ''), ''),
+    storage: {},
+  };
+});
+jest.mock('../StorageService');
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  json: async () => body,
+  text: async () => JSON.stringify(body),
+  headers: { get: () => null },
+});
+
+describe('JiraDataCollector', () => {
+  let collector: JiraDataCollector;
+  let mockStorageService: jest.Mocked<StorageService>;
+  let requestJira: jest.Mock;
+
+  const siteFields = [
+    { id: 'summary', name: 'Summary' },
+    { id: 'customfield_10100', name: 'Sprint', schema: { custom: 'com.example:text' } },
+    { id: 'customfield_10200', name: 'Sprint', schema: { custom: 'com.pyxis.greenhopper.jira:gh-sprint' } },
+    { id: 'customfield_10300', name: 'Story point estimate' },
+    { id: 'customfield_10400', name: 'Story Points' },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    requestJira = (api.asUser() as any).requestJira as jest.Mock;
+    requestJira.mockImplementation(async (url: string) => {
+      if (url === '/rest/api/3/field') {
+        return jsonResponse(siteFields);
+      }
+      throw new Error(`Unexpected request: ${url}`);
+    });
+
+    mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockStorageService.getCachedFieldMapping = jest.fn().mockResolvedValue(null);
+    mockStorageService.cacheFieldMapping = jest.fn().mockResolvedValue(undefined);
+    mockStorageService.getFieldMappingOverride = jest.fn().mockResolvedValue({});
+
+    collector = new JiraDataCollector(mockStorageService);
+  });
+
+  describe('discoverFieldMapping', () => {
+    it('should match story point and sprint fields by name', async () => {
+      const mapping = await collector.discoverFieldMapping();
+
+      expect(mapping.storyPoints).toBe('customfield_10400');
+      expect(mapping.sprint).toBe('customfield_10200');
+      expect(mapping.source).toBe('discovered');
+    });
+
+    it('should fall back to "Story point estimate" when "Story Points" is absent', async () => {
+      requestJira.mockResolvedValueOnce(
+        jsonResponse(siteFields.filter(f => f.name !== 'Story Points'))
+      );
+
+      const mapping = await collector.discoverFieldMapping();
+
+      expect(mapping.storyPoints).toBe('customfield_10300');
+    });
+
+    it('should return null for fields that do not exist', async () => {
+      requestJira.mockResolvedValueOnce(jsonResponse([{ id: 'summary', name: 'Summary' }]));
+
+      const mapping = await collector.discoverFieldMapping();
+
+      expect(mapping.storyPoints).toBeNull();
+      expect(mapping.sprint).toBeNull();
+    });
+
+    it('should request as the app when built for a scheduled run', async () => {
+      const appRequestJira = api.asApp().requestJira as jest.Mock;
+      appRequestJira.mockResolvedValueOnce(jsonResponse(siteFields));
+
+      const mapping = await new JiraDataCollector(mockStorageService, 'app').discoverFieldMapping();
+
+      expect(mapping.sprint).toBe('customfield_10200');
+      expect(appRequestJira).toHaveBeenCalledWith('/rest/api/3/field', expect.anything());
+      expect(requestJira).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFieldMapping', () => {
+    it('should discover and cache the mapping when no cache exists', async () => {
+      const mapping = await collector.getFieldMapping();
+
+      expect(mapping.storyPoints).toBe('customfield_10400');
+      expect(mockStorageService.cacheFieldMapping).toHaveBeenCalledWith(
+        expect.objectContaining({ storyPoints: 'customfield_10400', sprint: 'customfield_10200' })
+      );
+    });
+
+    it('should use the cached mapping without calling Jira', async () => {
+      mockStorageService.getCachedFieldMapping = jest.fn().mockResolvedValue({
+        storyPoints: 'customfield_1',
+        sprint: 'customfield_2',
+        source: 'discovered',
+        resolvedAt: '2024-01-01T00:00:00Z',
+      });
+
+      const mapping = await collector.getFieldMapping();
+
+      expect(mapping.storyPoints).toBe('customfield_1');
+      expect(requestJira).not.toHaveBeenCalled();
+    });
+
+    it('should apply admin overrides on top of discovered fields', async () => {
+      mockStorageService.getFieldMappingOverride = jest.fn().mockResolvedValue({
+        storyPoints: 'customfield_99999',
+      });
+
+      const mapping = await collector.getFieldMapping();
+
+      expect(mapping.storyPoints).toBe('customfield_99999');
+      expect(mapping.sprint).toBe('customfield_10200');
+      expect(mapping.source).toBe('override');
+    });
+
+    it('should fall back to Jira Cloud defaults when discovery fails', async () => {
+      requestJira.mockResolvedValue({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+        text: async () => 'Forbidden',
+        headers: { get: () => null },
+      });
+
+      const mapping = await collector.getFieldMapping();
+
+      expect(mapping.storyPoints).toBe('customfield_10016');
+      expect(mapping.sprint).toBe('customfield_10020');
+      expect(mapping.source).toBe('default');
+    });
+  });
+
+  describe('getIssueChangelog', () => {
+    const changelog: { changelog: { histories: any[] } } = {
+      changelog: {
+        histories: [
+          {
+            created: '2024-01-03T10:00:00Z',
+            author: { displayName: 'Alice' },
+            items: [
+              { field: 'Sprint', fieldId: 'customfield_10200', from: '7', to: '7, 8' },
+              { field: 'Story Points', fieldId: 'customfield_10400', fromString: '3', toString: '5' },
+            ],
+          },
+          {
+            created: '2024-01-01T10:00:00Z',
+            items: [{ field: 'status', fromString: 'To Do', toString: 'In Progress' }],
+          },
+          {
+            created: '2024-01-05T10:00:00Z',
+            items: [{ field: 'Sprint', fieldId: 'customfield_10200', from: '7, 8', to: '8' }],
+          },
+        ],
+      },
+    };
+
+    beforeEach(() => {
+      requestJira.mockImplementation(async (url: string) => {
+        if (url === '/rest/api/3/field') {
+          return jsonResponse(siteFields);
+        }
+        if (url === '/rest/api/3/issue/PROJ-1?expand=changelog') {
+          return jsonResponse(changelog);
+        }
+        throw new Error(`Unexpected request: ${url}`);
+      });
+    });
+
+    it('should parse status, sprint and story point changes in chronological order', async () => {
+      const result = await collector.getIssueChangelog('PROJ-1');
+
+      expect(result.statusTransitions).toEqual([
+        { fromStatus: 'To Do', toStatus: 'In Progress', timestamp: '2024-01-01T10:00:00Z' },
+      ]);
+      expect(result.sprintChanges).toEqual([
+        { sprintId: '8', change: 'added', timestamp: '2024-01-03T10:00:00Z', author: 'Alice' },
+        { sprintId: '7', change: 'removed', timestamp: '2024-01-05T10:00:00Z', author: undefined },
+      ]);
+      expect(result.storyPointChanges).toEqual([
+        { from: 3, to: 5, timestamp: '2024-01-03T10:00:00Z', author: 'Alice' },
+      ]);
+    });
+
+    it('should keep returning status transitions through getIssueTransitions', async () => {
+      const transitions = await collector.getIssueTransitions('PROJ-1');
+
+      expect(transitions).toHaveLength(1);
+      expect(transitions[0].toStatus).toBe('In Progress');
+    });
+  });
+
+  describe('getHistoricalSprints', () => {
+    it('should page through all closed sprints and return the most recent ones', async () => {
+      // 120 closed sprints listed oldest first, two weeks apart
+      const closedSprints = Array.from({ length: 120 }, (_, i) => ({
+        id: i + 1,
+        name: `Sprint ${i + 1}`,
+        startDate: new Date(Date.UTC(2020, 0, 1 + i * 14)).toISOString(),
+        endDate: new Date(Date.UTC(2020, 0, 15 + i * 14)).toISOString(),
+      }));
+
+      requestJira.mockImplementation(async (url: string) => {
+        const match = url.match(/^\/rest\/agile\/1\.0\/board\/7\/sprint\?state=closed&startAt=(\d+)&maxResults=50$/);
+        if (!match) {
+          throw new Error(`Unexpected request: ${url}`);
+        }
+        const startAt = Number(match[1]);
+        const values = closedSprints.slice(startAt, startAt + 50);
+        return jsonResponse({ startAt, maxResults: 50, isLast: startAt + values.length >= closedSprints.length, values });
+      });
+
+      const sprints = await collector.getHistoricalSprints('7', 6);
+
+      expect(requestJira).toHaveBeenCalledTimes(3);
+      expect(sprints.map(sprint => sprint.id)).toEqual(['120', '119', '118', '117', '116', '115']);
+      expect(sprints[0].state).toBe('closed');
+    });
+  });
+
+  describe('getRemovedSprintIssues', () => {
+    it('should fetch issues punted from the sprint report', async () => {
+      requestJira.mockImplementation(async (url: string) => {
+        if (url === '/rest/api/3/field') {
+          return jsonResponse(siteFields);
+        }
+        if (url === '/rest/greenhopper/1.0/rapid/charts/sprintreport?rapidViewId=1&sprintId=8') {
+          return jsonResponse({ contents: { puntedIssues: [{ key: 'PROJ-9' }] } });
+        }
+        if (url.startsWith('/rest/api/3/search/jql?jql=key in (PROJ-9)')) {
+          return jsonResponse({
+            total: 1,
+            issues: [{
+              id: '9',
+              key: 'PROJ-9',
+              fields: {
+                summary: 'Removed work',
+                customfield_10400: 3,
+                status: { name: 'To Do', statusCategory: { key: 'new' } },
+                created: '2023-12-20T10:00:00Z',
+              },
+            }],
+          });
+        }
+        if (url === '/rest/api/3/issue/PROJ-9?expand=changelog') {
+          return jsonResponse({ changelog: { histories: [] } });
+        }
+        throw new Error(`Unexpected request: ${url}`);
+      });
+
+      const issues = await collector.getRemovedSprintIssues('8', '1');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].key).toBe('PROJ-9');
+      expect(issues[0].storyPoints).toBe(3);
+      expect(issues[0].createdAt).toBe('2023-12-20T10:00:00Z');
+    });
+
+    it('should return no issues when the sprint report is unavailable', async () => {
+      requestJira.mockImplementation(async (url: string) => {
+        if (url === '/rest/api/3/field') {
+          return jsonResponse(siteFields);
+        }
+        return {
+          ok: false,
+          status: 404,
+          statusText: 'Not Found',
+          text: async () => 'Not Found',
+          headers: { get: () => null },
+        };
+      });
+
+      expect(await collector.getRemovedSprintIssues('8', '1')).toEqual([]);
+    });
+  });
+
+  describe('getExternalBlockers', () => {
+    const blockedByLink = (key: string, status: string, category: string) => ({
+      type: { name: 'Blocks', inward: 'is blocked by', outward: 'blocks' },
+      inwardIssue: { key, fields: { summary: `Issue ${key}`, status: { name: status, statusCategory: { key: category } } } },
+    });
+
+    const searchResult = (key: string, issuelinks: unknown[]) => jsonResponse({
+      total: 1,
+      issues: [{
+        id: key,
+        key,
+        fields: {
+          summary: `Issue ${key}`,
+          status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+          issuelinks,
+        },
+      }],
+    });
+
+    it('should follow blocker chains through issues outside the sprint', async () => {
+      requestJira.mockImplementation(async (url: string) => {
+        if (url === '/rest/api/3/field') {
+          return jsonResponse(siteFields);
+        }
+        if (url.startsWith('/rest/api/3/search/jql?jql=key in (OTHER-1)')) {
+          return searchResult('OTHER-1', [blockedByLink('OTHER-2', 'To Do', 'new')]);
+        }
+        if (url.startsWith('/rest/api/3/search/jql?jql=key in (OTHER-2)')) {
+          return searchResult('OTHER-2', []);
+        }
+        if (url.endsWith('?expand=changelog')) {
+          return jsonResponse({ changelog: { histories: [] } });
+        }
+        throw new Error(`Unexpected request: ${url}`);
+      });
+
+      const sprintIssue = {
+        id: '1',
+        key: 'PROJ-1',
+        summary: 'Blocked work',
+        assignee: null,
+        storyPoints: 3,
+        status: 'To Do',
+        statusTransitions: [],
+        linkedPRs: [],
+        blockedBy: [{ issueKey: 'OTHER-1', summary: 'Issue OTHER-1', status: 'In Progress' }],
+      };
+
+      const blockers = await collector.getExternalBlockers([sprintIssue]);
+
+      expect(blockers.map(issue => issue.key)).toEqual(['OTHER-1', 'OTHER-2']);
+      expect(blockers[0].blockedBy).toEqual([
+        { issueKey: 'OTHER-2', summary: 'Issue OTHER-2', status: 'To Do', statusCategory: 'new' },
+      ]);
+    });
+
+    it('should parse blocking, related, parent and subtask links', async () => {
+      const linked = (key: string) => ({
+        key,
+        fields: { summary: `Issue ${key}`, status: { name: 'To Do', statusCategory: { key: 'new' } } },
+      });
+
+      requestJira.mockImplementation(async (url: string) => {
+        if (url === '/rest/api/3/field') {
+          return jsonResponse(siteFields);
+        }
+        if (url.startsWith('/rest/api/3/search/jql?jql=key in (OTHER-1)')) {
+          return jsonResponse({
+            total: 1,
+            issues: [{
+              id: 'OTHER-1',
+              key: 'OTHER-1',
+              fields: {
+                summary: 'Issue OTHER-1',
+                status: { name: 'In Progress', statusCategory: { key: 'indeterminate' } },
+                issuelinks: [
+                  { type: { name: 'Blocks' }, outwardIssue: linked('PROJ-1') },
+                  { type: { name: 'Relates' }, inwardIssue: linked('OTHER-5') },
+                  { type: { name: 'Duplicate' }, outwardIssue: linked('OTHER-6') },
+                ],
+                parent: linked('EPIC-1'),
+                subtasks: [linked('OTHER-3')],
+              },
+            }],
+          });
+        }
+        if (url.endsWith('?expand=changelog')) {
+          return jsonResponse({ changelog: { histories: [] } });
+        }
+        throw new Error(`Unexpected request: ${url}`);
+      });
+
+      const [blocker] = await collector.getExternalBlockers([{
+        id: '1',
+        key: 'PROJ-1',
+        summary: 'Blocked work',
+        assignee: null,
+        storyPoints: 3,
+        status: 'To Do',
+        statusTransitions: [],
+        linkedPRs: [],
+        blockedBy: [{ issueKey: 'OTHER-1', summary: 'Issue OTHER-1', status: 'In Progress' }],
+      }]);
+
+      expect(blocker.links?.map(link => `${link.type}:${link.issueKey}`)).toEqual([
+        'blocks:PROJ-1',
+        'relates:OTHER-5',
+        'parent:EPIC-1',
+        'subtask:OTHER-3',
+      ]);
+      expect(blocker.blockedBy).toEqual([]);
+    });
+  });
+});
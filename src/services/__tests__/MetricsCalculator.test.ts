@@ -1,4 +1,6 @@
 import { MetricsCalculator } from '../MetricsCalculator';
+import { BusinessCalendar } from '../BusinessCalendar';
+import { StatusClassifier } from '../StatusClassifier';
 import {
   SprintData,
   IssueData,
@@ -166,42 +168,130 @@ describe('MetricsCalculator', () => {
       expect(metrics.cycleTime).toBe(0);
     });
 
-    it('should identify carry-over issues', () => {
+    it('should identify carry-over issues from sprint membership', () => {
       const issues: IssueData[] = [
         {
           id: '1',
           key: 'PROJ-1',
-          summary: 'Old issue',
+          summary: 'Carried issue',
           assignee: 'John',
           storyPoints: 5,
           status: 'In Progress',
           statusTransitions: [
-            { fromStatus: 'Created', toStatus: 'To Do', timestamp: '2023-12-15T10:00:00Z' },
             { fromStatus: 'To Do', toStatus: 'In Progress', timestamp: '2023-12-20T10:00:00Z' },
           ],
           linkedPRs: [],
+          sprints: [
+            { id: '0', name: 'Sprint 0', state: 'closed', startDate: '2023-12-18T00:00:00Z' },
+            { id: '1', name: 'Sprint 1', state: 'active', startDate: '2024-01-01T00:00:00Z' },
+          ],
         },
         {
           id: '2',
           key: 'PROJ-2',
-          summary: 'New issue',
+          summary: 'Old backlog issue',
           assignee: 'Jane',
           storyPoints: 3,
           status: 'In Progress',
           statusTransitions: [
-            { fromStatus: 'Created', toStatus: 'To Do', timestamp: '2024-01-05T10:00:00Z' },
+            { fromStatus: 'Created', toStatus: 'To Do', timestamp: '2023-11-05T10:00:00Z' },
             { fromStatus: 'To Do', toStatus: 'In Progress', timestamp: '2024-01-06T10:00:00Z' },
           ],
           linkedPRs: [],
+          sprints: [{ id: '1', name: 'Sprint 1', state: 'active', startDate: '2024-01-01T00:00:00Z' }],
         },
       ];
 
       const metrics = calculator.calculateSprintMetrics(issues, sprint);
-      expect(metrics.carryOverCount).toBe(1); // PROJ-1 created before sprint start
+      expect(metrics.carryOverCount).toBe(1); // PROJ-1 was in Sprint 0; PROJ-2 is only old
+    });
+  });
+
+  describe('identifyCarryOverIssues', () => {
+    const sprint: SprintData = {
+      id: '3',
+      name: 'Sprint 3',
+      state: 'active',
+      startDate: '2024-01-29T00:00:00Z',
+      endDate: '2024-02-12T00:00:00Z',
+    };
+
+    const buildIssue = (key: string, status: string, sprintIds: string[]): IssueData => ({
+      id: key,
+      key,
+      summary: `Issue ${key}`,
+      assignee: 'dev1',
+      storyPoints: 3,
+      status,
+      statusTransitions: [],
+      linkedPRs: [],
+      sprints: sprintIds.map(id => ({
+        id,
+        name: `Sprint ${id}`,
+        state: id === '3' ? 'active' : id === '4' ? 'future' : 'closed',
+        startDate: id === '4' ? undefined : `2024-01-${String(1 + (Number(id) - 1) * 14).padStart(2, '0')}T00:00:00Z`,
+      })),
+    });
+
+    it('should count the earlier sprints each unfinished issue was carried through', () => {
+      const issues = [
+        buildIssue('PROJ-1', 'In Progress', ['2', '3']),
+        buildIssue('PROJ-2', 'To Do', ['1', '2', '3']),
+        buildIssue('PROJ-3', 'To Do', ['3']),
+      ];
+
+      const carryOvers = calculator.identifyCarryOverIssues(issues, sprint);
+
+      expect(carryOvers.map(c => [c.issueKey, c.sprintsCarried])).toEqual([
+        ['PROJ-2', 2],
+        ['PROJ-1', 1],
+      ]);
+      expect(carryOvers[0].previousSprints).toEqual(['Sprint 1', 'Sprint 2']);
+    });
+
+    it('should ignore finished issues and later sprints', () => {
+      const issues = [
+        buildIssue('PROJ-1', 'Done', ['2', '3']),
+        buildIssue('PROJ-2', 'In Progress', ['3', '4']),
+      ];
+
+      expect(calculator.identifyCarryOverIssues(issues, sprint)).toHaveLength(0);
     });
   });
 
   describe('calculatePRMetrics', () => {
+    it('should measure PR latency in business hours with a team calendar', () => {
+      const businessCalculator = new MetricsCalculator(
+        new StatusClassifier(),
+        new BusinessCalendar({
+          timezone: 'UTC',
+          workingDays: [1, 2, 3, 4, 5],
+          workingHours: { start: '09:00', end: '17:00' },
+          holidays: [],
+        })
+      );
+      const prs: PullRequestData[] = [
+        {
+          id: '1',
+          title: 'PR opened Friday evening',
+          author: 'John',
+          createdAt: '2024-01-05T18:00:00Z',
+          firstReviewAt: '2024-01-08T10:00:00Z',
+          mergedAt: '2024-01-08T12:00:00Z',
+          state: 'MERGED',
+          reviewers: [],
+          revisionCount: 1,
+          linkedIssues: ['PROJ-1'],
+        },
+      ];
+
+      const metrics = businessCalculator.calculatePRMetrics(prs);
+
+      expect(metrics.averageTimeToFirstReview).toBe(1);
+      expect(metrics.averageLatency).toBe(3);
+      expect(calculator.calculatePRMetrics(prs).averageLatency).toBe(66);
+    });
+
     it('should calculate PR metrics correctly', () => {
       const prs: PullRequestData[] = [
         {
@@ -366,6 +456,36 @@ describe('MetricsCalculator', () => {
       expect(bottlenecks[0].affectedIssues).toContain('PROJ-2');
     });
 
+    it('should not flag a status that the issues\' project counts as done', () => {
+      const buildIssue = (key: string, day: string, deployHours: number): IssueData => ({
+        id: key,
+        key,
+        summary: `Issue ${key}`,
+        assignee: 'John',
+        storyPoints: 3,
+        status: 'Closed',
+        statusTransitions: [
+          { fromStatus: 'To Do', toStatus: 'In Progress', timestamp: `${day}T08:00:00Z` },
+          { fromStatus: 'In Progress', toStatus: 'Awaiting Deploy', timestamp: `${day}T10:00:00Z` },
+          { fromStatus: 'Awaiting Deploy', toStatus: 'Closed', timestamp: `${day}T${10 + deployHours}:00:00Z` },
+        ],
+        linkedPRs: [],
+      });
+      const issues = [
+        buildIssue('PROJ-1', '2024-01-01', 12),
+        buildIssue('PROJ-2', '2024-01-02', 12),
+        buildIssue('OPS-1', '2024-01-03', 1),
+      ];
+
+      const unmapped = calculator.identifyBottlenecks(issues);
+      const mapped = new MetricsCalculator(
+        new StatusClassifier({}, {}, { PROJ: { 'Awaiting Deploy': 'done' } })
+      ).identifyBottlenecks(issues);
+
+      expect(unmapped.map(b => b.location)).toContain('Awaiting Deploy');
+      expect(mapped.map(b => b.location)).not.toContain('Awaiting Deploy');
+    });
+
     it('should return empty array when no bottlenecks exist', () => {
       const issues: IssueData[] = [
         {
@@ -440,5 +560,120 @@ describe('MetricsCalculator', () => {
         expect(bottlenecks[0].severity).toBeGreaterThanOrEqual(bottlenecks[1].severity);
       }
     });
+
+    it('should identify reviewers whose PRs wait longest for a first review', () => {
+      const buildPR = (id: string, reviewer: string, firstReviewAt: string | null, issueKey: string): PullRequestData => ({
+        id,
+        title: `PR ${id}`,
+        author: 'Dev',
+        createdAt: '2024-01-01T00:00:00Z',
+        firstReviewAt,
+        mergedAt: null,
+        state: 'OPEN',
+        reviewers: [{ username: reviewer, approvedAt: null, commentCount: 0 }],
+        revisionCount: 1,
+        linkedIssues: [issueKey],
+      });
+      const prs = [
+        buildPR('1', 'Jane', '2024-01-01T02:00:00Z', 'PROJ-1'),
+        buildPR('2', 'Jane', '2024-01-01T02:00:00Z', 'PROJ-2'),
+        buildPR('3', 'Bob', '2024-01-01T02:00:00Z', 'PROJ-3'),
+        buildPR('4', 'Bob', null, 'PROJ-4'), // still waiting
+      ];
+
+      const bottlenecks = calculator.identifyBottlenecks([], prs, [], new Date('2024-01-02T00:00:00Z'));
+
+      expect(bottlenecks).toHaveLength(1);
+      expect(bottlenecks[0].type).toBe('REVIEWER');
+      expect(bottlenecks[0].location).toBe('Bob');
+      expect(bottlenecks[0].affectedIssues).toEqual(['PROJ-3', 'PROJ-4']);
+      expect(bottlenecks[0].description).toContain('13.0 hours');
+    });
+
+    it('should charge the wait for a first review only to the reviewers who responded', () => {
+      const buildPR = (id: string, firstReviewAt: string, approvedBy: string): PullRequestData => ({
+        id,
+        title: `PR ${id}`,
+        author: 'Dev',
+        createdAt: '2024-01-01T00:00:00Z',
+        firstReviewAt,
+        mergedAt: '2024-01-02T00:00:00Z',
+        state: 'MERGED',
+        reviewers: ['Fast', 'Slow'].map(username => ({
+          username,
+          approvedAt: username === approvedBy ? firstReviewAt : null,
+          commentCount: 0,
+        })),
+        revisionCount: 1,
+        linkedIssues: [`PROJ-${id}`],
+      });
+      const prs = [
+        buildPR('1', '2024-01-01T01:00:00Z', 'Fast'),
+        buildPR('2', '2024-01-01T01:00:00Z', 'Fast'),
+        buildPR('3', '2024-01-01T20:00:00Z', 'Slow'),
+        buildPR('4', '2024-01-01T20:00:00Z', 'Slow'),
+        buildPR('5', '2024-01-01T01:00:00Z', 'Fast'),
+        buildPR('6', '2024-01-01T01:00:00Z', 'Fast'),
+      ];
+
+      const bottlenecks = calculator.identifyBottlenecks([], prs, [], new Date('2024-01-02T00:00:00Z'));
+
+      expect(bottlenecks.map(b => b.location)).toEqual(['Slow']);
+      expect(bottlenecks[0].affectedIssues).toEqual(['PROJ-3', 'PROJ-4']);
+      expect(bottlenecks[0].description).toContain('20.0 hours');
+    });
+
+    it('should identify root blockers of sprint issues across sprints', () => {
+      const buildIssue = (key: string, status: string, storyPoints: number, blockedBy: string[] = []): IssueData => ({
+        id: key,
+        key,
+        summary: `Issue ${key}`,
+        assignee: 'John',
+        storyPoints,
+        status,
+        statusTransitions: [],
+        linkedPRs: [],
+        blockedBy: blockedBy.map(issueKey => ({ issueKey, summary: '', status: 'In Progress' })),
+      });
+      const issues = [
+        buildIssue('PROJ-1', 'To Do', 5, ['API-1']),
+        buildIssue('PROJ-2', 'To Do', 3, ['PROJ-1']),
+        buildIssue('PROJ-3', 'Done', 2, ['API-1']),
+      ];
+      const externalIssues = [
+        {
+          ...buildIssue('API-1', 'In Progress', 8, ['API-2']),
+          sprints: [{ id: '20', name: 'API Sprint 4', state: 'active' as const }],
+        },
+        buildIssue('API-2', 'In Progress', 3),
+      ];
+
+      const bottlenecks = calculator.identifyBottlenecks(issues, [], externalIssues)
+        .filter(b => b.type === 'DEPENDENCY');
+
+      expect(bottlenecks).toHaveLength(1);
+      expect(bottlenecks[0].location).toBe('API-2');
+      expect(bottlenecks[0].affectedIssues.sort()).toEqual(['PROJ-1', 'PROJ-2']);
+      expect(bottlenecks[0].severity).toBe(10);
+      expect(bottlenecks[0].description).toBe(
+        'API-2 (In Progress, outside this sprint) blocks 2 sprint issue(s) worth 8 story points through a chain of 3 links.'
+      );
+    });
+
+    it('should ignore resolved blockers', () => {
+      const issue: IssueData = {
+        id: '1',
+        key: 'PROJ-1',
+        summary: 'Issue 1',
+        assignee: 'John',
+        storyPoints: 5,
+        status: 'To Do',
+        statusTransitions: [],
+        linkedPRs: [],
+        blockedBy: [{ issueKey: 'API-1', summary: '', status: 'Closed', statusCategory: 'done' }],
+      };
+
+      expect(calculator.identifyBottlenecks([issue])).toEqual([]);
+    });
   });
 });
@@ -0,0 +1,125 @@
+import { MonteCarloForecaster } from '../MonteCarloForecaster';
+import { IssueData, SprintData } from '../../types';
+
+describe('MonteCarloForecaster', () => {
+  let forecaster: MonteCarloForecaster;
+
+  const now = new Date('2024-01-08T00:00:00Z');
+
+  const sprint: SprintData = {
+    id: 'sprint-1',
+    name: 'Sprint 1',
+    state: 'active',
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-01-15T00:00:00Z',
+  };
+
+  const buildIssue = (key: string, status: string, assignee: string | null, startedAt?: string): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee,
+    storyPoints: 3,
+    status,
+    statusTransitions: startedAt
+      ? [{ fromStatus: 'To Do', toStatus: 'In Progress', timestamp: startedAt }]
+      : [],
+    linkedPRs: [],
+  });
+
+  beforeEach(() => {
+    forecaster = new MonteCarloForecaster();
+  });
+
+  it('should return null without cycle time samples', () => {
+    const issues = [buildIssue('PROJ-1', 'To Do', 'dev1')];
+
+    expect(forecaster.forecast(issues, sprint, [], now)).toBeNull();
+    expect(forecaster.forecast(issues, sprint, [0, -1], now)).toBeNull();
+  });
+
+  it('should be certain when all work is done', () => {
+    const issues = [buildIssue('PROJ-1', 'Done', 'dev1')];
+
+    const forecast = forecaster.forecast(issues, sprint, [24], now);
+
+    expect(forecast?.completionProbability).toBe(1);
+    expect(forecast?.remainingIssues).toBe(0);
+    expect(forecast?.issues).toHaveLength(0);
+  });
+
+  it('should forecast certain completion when every sample fits before the end date', () => {
+    const issues = [
+      buildIssue('PROJ-1', 'To Do', 'dev1'),
+      buildIssue('PROJ-2', 'To Do', 'dev2'),
+    ];
+
+    const forecast = forecaster.forecast(issues, sprint, [24, 48], now, 500);
+
+    expect(forecast?.completionProbability).toBe(1);
+    expect(forecast?.issues.every(i => i.finishProbability === 1)).toBe(true);
+    expect(new Date(forecast!.p95CompletionDate).getTime()).toBeLessThanOrEqual(
+      new Date(sprint.endDate).getTime()
+    );
+  });
+
+  it('should queue not-started work per assignee', () => {
+    // Seven 24h issues for one developer cannot all fit in the 7 days left
+    const issues = Array.from({ length: 8 }, (_, i) => buildIssue(`PROJ-${i + 1}`, 'To Do', 'dev1'));
+
+    const forecast = forecaster.forecast(issues, sprint, [24], now, 200);
+
+    expect(forecast?.completionProbability).toBe(0);
+    expect(forecast?.issues[0].finishProbability).toBe(0);
+    expect(forecast?.issues.find(i => i.issueKey === 'PROJ-1')?.finishProbability).toBe(1);
+  });
+
+  it('should spread unassigned work across the team', () => {
+    // Nine unassigned 24h issues would take 9 days in one queue, but 3 days shared by three developers
+    const issues = [
+      ...['dev1', 'dev2', 'dev3'].map((dev, i) => buildIssue(`PROJ-${i + 1}`, 'To Do', dev)),
+      ...Array.from({ length: 9 }, (_, i) => buildIssue(`PROJ-${i + 4}`, 'To Do', null)),
+    ];
+
+    const forecast = forecaster.forecast(issues, sprint, [24], now, 200);
+
+    expect(forecast?.completionProbability).toBe(1);
+    expect(forecast?.p50CompletionDate).toBe('2024-01-12T00:00:00.000Z');
+  });
+
+  it('should only sample cycle times longer than the time already spent', () => {
+    // Started 5 days ago: only the 408h sample is longer, leaving 288h (past the end date)
+    const issues = [buildIssue('PROJ-1', 'In Progress', 'dev1', '2024-01-03T00:00:00Z')];
+
+    const forecast = forecaster.forecast(issues, sprint, [24, 48, 408], now, 200);
+
+    expect(forecast?.completionProbability).toBe(0);
+    expect(forecast?.p50CompletionDate).toBe('2024-01-20T00:00:00.000Z');
+  });
+
+  it('should order percentiles and produce reproducible results', () => {
+    const issues = [
+      buildIssue('PROJ-1', 'In Progress', 'dev1', '2024-01-07T00:00:00Z'),
+      buildIssue('PROJ-2', 'To Do', 'dev1'),
+      buildIssue('PROJ-3', 'To Do', null),
+    ];
+    const samples = [8, 16, 24, 48, 72, 120, 200];
+
+    const first = forecaster.forecast(issues, sprint, samples, now);
+    const second = forecaster.forecast(issues, sprint, samples, now);
+
+    expect(first).toEqual(second);
+    expect(first!.completionProbability).toBeGreaterThan(0);
+    expect(first!.completionProbability).toBeLessThan(1);
+
+    const p50 = new Date(first!.p50CompletionDate).getTime();
+    const p85 = new Date(first!.p85CompletionDate).getTime();
+    const p95 = new Date(first!.p95CompletionDate).getTime();
+    expect(p50).toBeLessThanOrEqual(p85);
+    expect(p85).toBeLessThanOrEqual(p95);
+
+    // Least likely to finish first
+    const probabilities = first!.issues.map(i => i.finishProbability);
+    expect(probabilities).toEqual([...probabilities].sort((a, b) => a - b));
+  });
+});
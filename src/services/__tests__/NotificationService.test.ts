@@ -0,0 +1,256 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { storage } from '@forge/api';
+import { NotificationService } from '../NotificationService';
+import { StorageService } from '../StorageService';
+import { NotificationSettings, RiskLevel, RiskSnapshot, SprintReport, WebhookPoster } from '../../types';
+
+// Mock Forge storage with an in-memory key-value store
+jest.mock('@forge/api', () => {
+  const store = new Map<string, unknown>();
+  return {
+    __esModule: true,
+    default: {},
+    route: jest.fn(),
+    fetch: jest.fn(),
+    storage: {
+      get: jest.fn(async (key: string) => store.get(key)),
+      set: jest.fn(async (key: string, value: unknown) => {
+        store.set(key, value);
+      }),
+      delete: jest.fn(async (key: string) => {
+        store.delete(key);
+      }),
+      __store: store,
+    },
+  };
+});
+
+describe('NotificationService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Array<{ path: string; body: string }>;
+  let responseStatus: number;
+  let storageService: StorageService;
+  let service: NotificationService;
+
+  const sprint = { id: '42', name: 'Sprint 42' };
+  const now = new Date('2024-01-10T12:00:00.000Z');
+
+  // Posts to the local stub with Node's fetch, as Forge fetch would to a real webhook
+  const poster: WebhookPoster = async (url, body) => {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+    return { ok: response.ok, status: response.status };
+  };
+
+  const snapshot = (level: RiskLevel, score: number): RiskSnapshot => ({
+    recordedAt: '2024-01-09T12:00:00.000Z',
+    level,
+    score,
+    factors: [],
+    metrics: { completionRate: 50, velocity: 20, wipCount: 4, carryOverCount: 1, averagePRLatency: 12 },
+  });
+
+  const report = (level: RiskLevel, score: number): SprintReport => ({
+    summary: 'Summary',
+    keyFindings: [],
+    riskAssessment: {
+      level,
+      justification: 'Justification',
+      score,
+      factors: [
+        { category: 'PR_DELAYS', severity: 5, description: 'PR latency is high.' },
+        { category: 'SCOPE_CREEP', severity: 8, description: 'Scope grew by 40% <mid-sprint>.' },
+      ],
+    },
+    recommendations: [],
+    metrics: {
+      sprint: { cycleTime: 10, leadTime: 20, throughput: 5, velocity: 20, wipCount: 3, carryOverCount: 0, completionRate: 40 },
+      pullRequests: { averageLatency: 30, averageTimeToFirstReview: 4, averageReviewCycles: 1, averageRevisions: 1 },
+    },
+    generatedAt: now.toISOString(),
+  });
+
+  const saveSettings = (settings: Partial<NotificationSettings> = {}) =>
+    storageService.saveNotificationSettings('board-1', {
+      subscriptions: [
+        { id: 'slack', url: `${baseUrl}/slack`, format: 'slack', minLevel: 'High' },
+        { id: 'teams', url: `${baseUrl}/teams`, format: 'teams', minLevel: 'Medium' },
+      ],
+      ...settings,
+    });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => {
+        data += chunk;
+      });
+      req.on('end', () => {
+        received.push({ path: req.url || '', body: data });
+        res.statusCode = responseStatus;
+        res.setHeader('Connection', 'close');
+        res.end('ok');
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll(done => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    (storage as unknown as { __store: Map<string, unknown> }).__store.clear();
+    received = [];
+    responseStatus = 200;
+    storageService = new StorageService();
+    service = new NotificationService(storageService, poster);
+  });
+
+  describe('detectEscalation', () => {
+    it('should only report a rising risk level', () => {
+      expect(service.detectEscalation('board-1', sprint, snapshot('High', 70), report('Medium', 50), now)).toBeNull();
+      expect(service.detectEscalation('board-1', sprint, snapshot('High', 70), report('High', 90), now)).toBeNull();
+
+      const escalation = service.detectEscalation('board-1', sprint, snapshot('Medium', 45), report('High', 72), now);
+      expect(escalation).toMatchObject({
+        sprintId: '42',
+        previousLevel: 'Medium',
+        previousScore: 45,
+        level: 'High',
+        score: 72,
+        detectedAt: '2024-01-10T12:00:00.000Z',
+      });
+      expect(escalation?.factors.map(factor => factor.category)).toEqual(['SCOPE_CREEP', 'PR_DELAYS']);
+    });
+
+    it('should treat a sprint\'s first analysis as an escalation from Low risk', () => {
+      expect(service.detectEscalation('board-1', sprint, null, report('High', 72), now)?.previousLevel).toBeNull();
+      expect(service.detectEscalation('board-1', sprint, null, report('Medium', 45), now)?.level).toBe('Medium');
+      expect(service.detectEscalation('board-1', sprint, null, report('Low', 20), now)).toBeNull();
+    });
+  });
+
+  describe('notifyRiskChange', () => {
+    it('should post Slack and Teams messages to subscribers whose level was reached', async () => {
+      await saveSettings();
+
+      const deliveries = await service.notifyRiskChange('board-1', sprint, snapshot('Medium', 45), report('High', 72), now);
+
+      expect(deliveries.map(d => [d.subscriptionId, d.status])).toEqual([['slack', 'sent'], ['teams', 'sent']]);
+      expect(received.map(r => r.path)).toEqual(['/slack', '/teams']);
+
+      const slack = JSON.parse(received[0].body);
+      expect(slack.text).toBe('Sprint 42 is now High risk: Medium (45) to High (72)');
+      expect(slack.blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: 'Sprint 42 is now High risk' } });
+      expect(slack.blocks[2].text.text).toBe(
+        '*Top risk factors*\n• Scope grew by 40% &lt;mid-sprint&gt;. (severity 8/10)\n• PR latency is high. (severity 5/10)'
+      );
+
+      const card = JSON.parse(received[1].body).attachments[0];
+      expect(card.contentType).toBe('application/vnd.microsoft.card.adaptive');
+      expect(card.content.type).toBe('AdaptiveCard');
+      expect(card.content.body[1].facts[0]).toEqual({ title: 'Risk', value: 'Medium (45) to High (72)' });
+
+      expect(await storageService.getNotificationLog('board-1')).toHaveLength(2);
+    });
+
+    it('should skip subscribers below their level and boards without subscriptions', async () => {
+      expect(await service.notifyRiskChange('board-1', sprint, null, report('High', 72), now)).toEqual([]);
+
+      await saveSettings();
+      const deliveries = await service.notifyRiskChange('board-1', sprint, snapshot('Low', 20), report('Medium', 50), now);
+
+      expect(deliveries.map(d => d.subscriptionId)).toEqual(['teams']);
+      expect(received.map(r => r.path)).toEqual(['/teams']);
+    });
+
+    it('should not send the same sprint and level to a webhook twice within a day', async () => {
+      await saveSettings();
+      await service.notifyRiskChange('board-1', sprint, snapshot('Medium', 45), report('High', 72), now);
+
+      // Risk dipped and rose again an hour later
+      const later = new Date('2024-01-10T13:00:00.000Z');
+      const deliveries = await service.notifyRiskChange('board-1', sprint, snapshot('Medium', 60), report('High', 75), later);
+
+      expect(deliveries.map(d => d.status)).toEqual(['duplicate', 'duplicate']);
+      expect(received).toHaveLength(2);
+
+      const nextDay = new Date('2024-01-11T13:00:00.000Z');
+      await service.notifyRiskChange('board-1', sprint, snapshot('Medium', 60), report('High', 75), nextDay);
+      expect(received).toHaveLength(4);
+    });
+
+    it('should record failed deliveries', async () => {
+      await saveSettings();
+      responseStatus = 500;
+
+      const deliveries = await service.notifyRiskChange('board-1', sprint, snapshot('Medium', 45), report('High', 72), now);
+
+      expect(deliveries[0]).toMatchObject({ status: 'failed', error: 'Webhook responded with 500' });
+    });
+  });
+
+  describe('quiet hours', () => {
+    it('should defer notifications during quiet hours and send them afterwards', async () => {
+      // 12:00 UTC is 21:00 in Tokyo
+      await saveSettings({ quietHours: { timezone: 'Asia/Tokyo', start: '20:00', end: '08:00' } });
+
+      const deferred = await service.notifyRiskChange('board-1', sprint, snapshot('Medium', 45), report('High', 72), now);
+      expect(deferred.map(d => d.status)).toEqual(['deferred', 'deferred']);
+      expect(received).toHaveLength(0);
+
+      expect(await service.flushDeferred('board-1', new Date('2024-01-10T20:00:00.000Z'))).toEqual([]);
+
+      const sent = await service.flushDeferred('board-1', new Date('2024-01-11T00:00:00.000Z'));
+      expect(sent.map(d => d.status)).toEqual(['sent', 'sent']);
+      expect(received).toHaveLength(2);
+      expect(await storageService.getDeferredNotifications('board-1')).toEqual([]);
+    });
+
+    it('should handle quiet hours within a day and overnight', () => {
+      const daytime = { timezone: 'UTC', start: '09:00', end: '17:00' };
+      const overnight = { timezone: 'Europe/Berlin', start: '22:00', end: '07:00' };
+
+      expect(service.isQuietTime(daytime, new Date('2024-01-10T09:00:00.000Z'))).toBe(true);
+      expect(service.isQuietTime(daytime, new Date('2024-01-10T17:00:00.000Z'))).toBe(false);
+      expect(service.isQuietTime(overnight, new Date('2024-01-10T21:30:00.000Z'))).toBe(true); // 22:30 local
+      expect(service.isQuietTime(overnight, new Date('2024-01-10T06:30:00.000Z'))).toBe(false); // 07:30 local
+      expect(service.isQuietTime(undefined, now)).toBe(false);
+    });
+  });
+
+  describe('validateSettings', () => {
+    it('should accept Slack and Teams webhooks and report invalid settings', () => {
+      expect(service.validateSettings({
+        subscriptions: [
+          { id: 'a', url: 'https://hooks.slack.com/services/T0/B0/x', format: 'slack', minLevel: 'High' },
+          { id: 'b', url: 'https://contoso.webhook.office.com/webhookb2/x', format: 'teams', minLevel: 'Medium' },
+        ],
+        quietHours: { timezone: 'Europe/Berlin', start: '20:00', end: '08:00' },
+      })).toEqual([]);
+
+      const invalid = {
+        subscriptions: [
+          { id: 'a', url: 'http://hooks.slack.com/services/x', format: 'slack', minLevel: 'High' },
+          { id: 'a', url: 'https://example.com/hook', format: 'email', minLevel: 'Critical' },
+        ],
+        quietHours: { timezone: 'Mars/Base', start: '8:00', end: '08:00' },
+      } as unknown as NotificationSettings;
+
+      expect(service.validateSettings(invalid)).toEqual([
+        'subscriptions[0].url must be an https Slack or Teams incoming webhook URL',
+        'subscriptions[1].id a is used more than once',
+        'subscriptions[1].format must be slack or teams',
+        'subscriptions[1].minLevel must be Low, Medium or High',
+        'subscriptions[1].url must be an https Slack or Teams incoming webhook URL',
+        'Unknown time zone: Mars/Base',
+        'quietHours start and end must be HH:mm',
+      ]);
+    });
+  });
+});
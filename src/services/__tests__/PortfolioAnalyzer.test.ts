@@ -0,0 +1,150 @@
+import { PortfolioAnalyzer } from '../PortfolioAnalyzer';
+import { AnalysisOrchestrator } from '../AnalysisOrchestrator';
+import { JiraDataCollector } from '../JiraDataCollector';
+import { MonitoredBoard, SprintData, SprintReport, RiskLevel } from '../../types';
+
+jest.mock('../AnalysisOrchestrator');
+jest.mock('../JiraDataCollector');
+
+describe('PortfolioAnalyzer', () => {
+  let jiraCollector: jest.Mocked<JiraDataCollector>;
+  let analyzeSprint: jest.Mock;
+  let analyzer: PortfolioAnalyzer;
+
+  const buildBoard = (boardId: string, name: string): MonitoredBoard => ({
+    boardId,
+    name,
+    paused: false,
+    schedule: { frequency: 'daily' },
+    options: { forceRefresh: false, minReportAgeMinutes: 60 },
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  });
+
+  const buildSprint = (id: string): SprintData => ({
+    id,
+    name: `Sprint ${id}`,
+    state: 'active',
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-01-15T00:00:00Z',
+  });
+
+  const buildReport = (level: RiskLevel, score: number, velocity: number): SprintReport => ({
+    summary: 'Summary',
+    keyFindings: [],
+    riskAssessment: {
+      level,
+      justification: 'Justification',
+      score,
+      factors: [{ category: 'HIGH_WIP', severity: 7, description: 'WIP is high.' }],
+    },
+    recommendations: [],
+    historicalTrend: {
+      sprintCount: 3,
+      sprintIds: ['a', 'b', 'c'],
+      velocity: { mean: 20, median: 20, stdDev: 0, slope: 0, latest: 20, sampleSize: 3 },
+      cycleTime: { mean: 0, median: 0, stdDev: 0, slope: 0, latest: 0, sampleSize: 0 },
+      prLatency: { mean: 0, median: 0, stdDev: 0, slope: 0, latest: 0, sampleSize: 0 },
+      completionRate: { mean: 0, median: 0, stdDev: 0, slope: 0, latest: 0, sampleSize: 0 },
+    },
+    metrics: {
+      sprint: {
+        cycleTime: 10,
+        leadTime: 20,
+        throughput: 5,
+        velocity,
+        wipCount: 3,
+        carryOverCount: 0,
+        completionRate: 60,
+      },
+      pullRequests: {
+        averageLatency: 6,
+        averageTimeToFirstReview: 2,
+        averageReviewCycles: 1,
+        averageRevisions: 1,
+      },
+    },
+    generatedAt: '2024-01-10T00:00:00Z',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    jiraCollector = new JiraDataCollector() as jest.Mocked<JiraDataCollector>;
+    analyzeSprint = jest.fn();
+    analyzer = new PortfolioAnalyzer(
+      () => ({ analyzeSprint }) as unknown as AnalysisOrchestrator,
+      jiraCollector
+    );
+  });
+
+  it('should summarize the active sprint of every board, highest risk first', async () => {
+    jiraCollector.getActiveSprint = jest.fn(async (boardId: string) =>
+      boardId === '3' ? null : buildSprint(`${boardId}0`)
+    );
+    analyzeSprint.mockImplementation(async (sprintId: string) =>
+      sprintId === '10' ? buildReport('Low', 20, 22) : buildReport('High', 80, 15)
+    );
+
+    const portfolio = await analyzer.analyzePortfolio([
+      buildBoard('1', 'Payments'),
+      buildBoard('2', 'Search'),
+      buildBoard('3', 'Mobile'),
+    ]);
+
+    expect(portfolio.boards.map(board => [board.boardName, board.status, board.riskLevel])).toEqual([
+      ['Search', 'analyzed', 'High'],
+      ['Payments', 'analyzed', 'Low'],
+      ['Mobile', 'no-active-sprint', undefined],
+    ]);
+    expect(portfolio.boards[0]).toMatchObject({
+      sprintName: 'Sprint 20',
+      completionRate: 60,
+      velocity: 15,
+      trendVelocity: 20,
+      velocityChange: -25,
+      topRiskFactor: { category: 'HIGH_WIP', severity: 7, description: 'WIP is high.' },
+    });
+    expect(analyzeSprint).toHaveBeenCalledWith('20', '2', false);
+  });
+
+  it('should report boards whose analysis failed without failing the portfolio', async () => {
+    jiraCollector.getActiveSprint = jest.fn(async (boardId: string) => {
+      if (boardId === '1') {
+        throw new Error('Board not found');
+      }
+      return buildSprint(`${boardId}0`);
+    });
+    analyzeSprint.mockResolvedValue({ ...buildReport('High', 100, 0), error: 'Jira unavailable' });
+
+    const portfolio = await analyzer.analyzePortfolio([
+      buildBoard('1', 'Payments'),
+      buildBoard('2', 'Search'),
+    ]);
+
+    expect(portfolio.boards).toEqual([
+      { boardId: '1', boardName: 'Payments', status: 'failed', error: 'Board not found' },
+      { boardId: '2', boardName: 'Search', status: 'failed', sprintId: '20', sprintName: 'Sprint 20', error: 'Jira unavailable' },
+    ]);
+  });
+
+  it('should analyze at most three boards at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    jiraCollector.getActiveSprint = jest.fn(async (boardId: string) => buildSprint(boardId));
+    analyzeSprint.mockImplementation(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return buildReport('Low', 10, 20);
+    });
+
+    const boards = ['1', '2', '3', '4', '5', '6', '7'].map(id => buildBoard(id, `Board ${id}`));
+    const portfolio = await analyzer.analyzePortfolio(boards);
+
+    expect(portfolio.boards).toHaveLength(7);
+    expect(maxRunning).toBe(3);
+  });
+});
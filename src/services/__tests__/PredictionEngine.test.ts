@@ -1,4 +1,5 @@
 import { PredictionEngine } from '../PredictionEngine';
+import { BusinessCalendar } from '../BusinessCalendar';
 import {
   SprintData,
   IssueData,
@@ -153,5 +154,21 @@ describe('PredictionEngine', () => {
       expect(prediction.reasons).toBeDefined();
       expect(prediction.reasons.length).toBeGreaterThan(0);
     });
+
+    it('should state durations in business hours when the board has a team calendar', () => {
+      engine.setBusinessCalendar(new BusinessCalendar({
+        timezone: 'UTC',
+        workingDays: [1, 2, 3, 4, 5],
+        workingHours: { start: '09:00', end: '17:00' },
+        holidays: [],
+      }));
+      const sprint = createTestSprint(1);
+      const issues = [createTestIssue('ISSUE-1', 'To Do', 8, null)];
+
+      const [prediction] = engine.predictSpillover(issues, sprint, new Date());
+
+      expect(prediction.reasons[0]).toContain(' business hours needed vs ');
+      expect(prediction.reasons[0]).toContain(' business hours remaining');
+    });
   });
 });
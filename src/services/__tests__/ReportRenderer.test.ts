@@ -0,0 +1,136 @@
+import { ReportRenderer } from '../ReportRenderer';
+import { SprintReport } from '../../types';
+
+describe('ReportRenderer', () => {
+  let renderer: ReportRenderer;
+
+  const report: SprintReport = {
+    summary: 'Sprint is at risk <urgent>.',
+    keyFindings: ['Completion rate is 40%', 'PR latency rose'],
+    riskAssessment: {
+      level: 'High',
+      justification: 'Several risks were detected.',
+      score: 72,
+      factors: [
+        { category: 'SCOPE_CREEP', severity: 8, description: 'Scope grew by 30%, mostly "late" adds.', contribution: 40 },
+        { category: 'PR_DELAYS', severity: 6, description: 'Reviews | merges are slow.', contribution: 32 },
+      ],
+    },
+    recommendations: [
+      { priority: 1, category: 'SCOPE', title: 'Freeze scope', description: 'Stop adding work, for now.', impact: 'High' },
+    ],
+    nextSprintSuggestions: {
+      targetStoryPoints: 25,
+      tasksToInclude: ['PROJ-1'],
+      tasksToPostpone: ['PROJ-2'],
+      reviewerAssignments: [{ reviewer: 'Alex', recommendedPRCount: 3, rationale: 'Lowest load' }],
+    },
+    metrics: {
+      sprint: {
+        cycleTime: 10,
+        leadTime: 20,
+        throughput: 5,
+        velocity: 18,
+        wipCount: 3,
+        carryOverCount: 2,
+        completionRate: 40,
+      },
+      pullRequests: {
+        averageLatency: 30,
+        averageTimeToFirstReview: 4,
+        averageReviewCycles: 1,
+        averageRevisions: 1.5,
+      },
+    },
+    generatedAt: '2024-01-03T10:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    renderer = new ReportRenderer();
+  });
+
+  describe('renderMarkdown', () => {
+    it('should render every section with escaped table cells', () => {
+      const markdown = renderer.renderMarkdown(report, 'Sprint 5 Report');
+
+      expect(markdown).toContain('# Sprint 5 Report');
+      expect(markdown).toContain('**Risk Level:** High (score 72)');
+      expect(markdown).toContain('| PR_DELAYS | 6 | 32 | Reviews \\| merges are slow. |');
+      expect(markdown).toContain('2. PR latency rose');
+      expect(markdown).toContain('1. **Freeze scope** (High impact, SCOPE)');
+      expect(markdown).toContain('| Completion Rate | 40.0% |');
+      expect(markdown).toContain('| Average Revisions | 1.5 |');
+      expect(markdown).toContain('**Target Story Points:** 25');
+      expect(markdown).toContain('### Tasks to Postpone\n\n- PROJ-2');
+      expect(markdown).toContain('| Alex | 3 | Lowest load |');
+    });
+  });
+
+  describe('renderHtml', () => {
+    it('should render a standalone page with escaped content', () => {
+      const html = renderer.renderHtml(report, 'Sprint 5 Report');
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<title>Sprint 5 Report</title>');
+      expect(html).toContain('<p>Sprint is at risk &lt;urgent&gt;.</p>');
+      expect(html).toContain('<td>Scope grew by 30%, mostly &quot;late&quot; adds.</td>');
+      expect(html).not.toContain('<urgent>');
+    });
+  });
+
+  describe('renderCsv', () => {
+    it('should render one table per section with quoted cells', () => {
+      const csv = renderer.renderCsv(report);
+      const sections = csv.trim().split('\r\n\r\n');
+
+      expect(sections.map(section => section.split('\r\n')[0])).toEqual([
+        'Overview',
+        'Risk Factors',
+        'Key Findings',
+        'Recommendations',
+        'Sprint Metrics',
+        'PR Metrics',
+        'Next Sprint Tasks',
+        'Reviewer Assignments',
+      ]);
+      expect(sections[1].split('\r\n')).toEqual([
+        'Risk Factors',
+        'Category,Severity,Contribution,Description',
+        'SCOPE_CREEP,8,40,"Scope grew by 30%, mostly ""late"" adds."',
+        'PR_DELAYS,6,32,Reviews | merges are slow.',
+      ]);
+      expect(sections[6]).toContain('PROJ-1,Include\r\nPROJ-2,Postpone');
+    });
+
+    it('should leave out empty sections', () => {
+      const csv = renderer.renderCsv({
+        ...report,
+        keyFindings: [],
+        recommendations: [],
+        nextSprintSuggestions: undefined,
+        riskAssessment: { level: 'Low', justification: 'All good.' },
+      });
+
+      expect(csv).not.toContain('Key Findings');
+      expect(csv).not.toContain('Risk Factors');
+      expect(csv).toContain('Risk Score,\r\n');
+    });
+  });
+
+  describe('render', () => {
+    it('should return the content type and a file name derived from the title', () => {
+      const rendered = renderer.render(report, 'csv', 'Sprint 5 (active) Report');
+
+      expect(rendered.format).toBe('csv');
+      expect(rendered.contentType).toBe('text/csv');
+      expect(rendered.fileName).toBe('sprint-5-active-report.csv');
+      expect(rendered.content).toBe(renderer.renderCsv(report));
+    });
+
+    it('should only support markdown, html and csv', () => {
+      expect(renderer.isSupportedFormat('html')).toBe(true);
+      expect(renderer.isSupportedFormat('pdf')).toBe(false);
+      expect(renderer.isSupportedFormat('toString')).toBe(false);
+    });
+  });
+});
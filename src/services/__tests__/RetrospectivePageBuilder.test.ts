@@ -0,0 +1,120 @@
+import { RetrospectivePageBuilder } from '../RetrospectivePageBuilder';
+import { HistoricalMetrics, SprintData, SprintReport } from '../../types';
+
+describe('RetrospectivePageBuilder', () => {
+  let builder: RetrospectivePageBuilder;
+
+  const sprint: SprintData = {
+    id: '5',
+    name: 'Sprint 5',
+    state: 'closed',
+    startDate: '2024-01-01T00:00:00.000Z',
+    endDate: '2024-01-14T00:00:00.000Z',
+  };
+
+  const report: SprintReport = {
+    summary: 'Sprint finished with most work done & few risks.',
+    keyFindings: ['Completion rate is 85%'],
+    riskAssessment: {
+      level: 'Medium',
+      justification: 'Some risks.',
+      score: 40,
+      factors: [
+        { category: 'PR_DELAYS', severity: 4, description: 'PR latency is high.' },
+        { category: 'SCOPE_CREEP', severity: 6, description: 'Scope grew by <30%>.' },
+      ],
+    },
+    recommendations: [
+      { priority: 2, category: 'REVIEWER', title: 'Balance reviews', description: 'Spread reviews.', impact: 'Medium' },
+      { priority: 1, category: 'SCOPE', title: 'Protect scope', description: 'Agree on changes first.', impact: 'High' },
+    ],
+    nextSprintSuggestions: {
+      targetStoryPoints: 22,
+      tasksToInclude: [],
+      tasksToPostpone: [],
+      reviewerAssignments: [],
+    },
+    metrics: {
+      sprint: {
+        cycleTime: 10,
+        leadTime: 20,
+        throughput: 6,
+        velocity: 24,
+        wipCount: 2,
+        carryOverCount: 0,
+        completionRate: 85,
+      },
+      pullRequests: {
+        averageLatency: 30,
+        averageTimeToFirstReview: 6,
+        averageReviewCycles: 1,
+        averageRevisions: 1,
+      },
+    },
+    generatedAt: '2024-01-14T10:00:00.000Z',
+  };
+
+  const archived = (sprintId: string, velocity: number): HistoricalMetrics => ({
+    sprintId,
+    sprintName: `Sprint ${sprintId}`,
+    completedAt: '2023-12-31T00:00:00.000Z',
+    metrics: { ...report.metrics.sprint, velocity },
+    prMetrics: report.metrics.pullRequests,
+  });
+
+  beforeEach(() => {
+    builder = new RetrospectivePageBuilder();
+  });
+
+  describe('findWentWell', () => {
+    it('should call out good metrics and velocity above the previous average', () => {
+      expect(builder.findWentWell(report, [archived('3', 18), archived('4', 22)])).toEqual([
+        'Completed 85.0% of the committed work.',
+        'No work was carried over from earlier sprints.',
+        'Velocity of 24 story points was at or above the average of 20.0 over the previous 2 sprint(s).',
+        'Pull requests got a first review within 6.0 hours on average.',
+      ]);
+    });
+
+    it('should prompt the team when nothing stands out', () => {
+      const poorReport: SprintReport = {
+        ...report,
+        riskAssessment: { ...report.riskAssessment, level: 'High' },
+        metrics: {
+          sprint: { ...report.metrics.sprint, completionRate: 50, carryOverCount: 3 },
+          pullRequests: { ...report.metrics.pullRequests, averageTimeToFirstReview: 40 },
+        },
+      };
+
+      expect(builder.findWentWell(poorReport, [archived('4', 30)])).toEqual([
+        'Nothing stood out in the metrics. Add the team\'s highlights here.',
+      ]);
+    });
+  });
+
+  describe('buildPage', () => {
+    it('should build an escaped storage format page with the retro template', () => {
+      const page = builder.buildPage(sprint, report, [archived('4', 20), archived('5', 99)]);
+
+      expect(page.title).toBe('Retrospective: Sprint 5');
+      expect(page.body).toContain('<p>Sprint finished with most work done &amp; few risks.</p>');
+      expect(page.body).toContain('<th>Previous 1 Sprint(s)</th>');
+      expect(page.body).toContain('<td>Velocity</td><td>24 story points</td><td>20.0 story points</td>');
+      expect(page.body).toContain('<h2>What to Improve</h2>\n<ul>\n<li>Scope grew by &lt;30%&gt;.</li>\n<li>PR latency is high.</li>');
+      expect(page.body.indexOf('Protect scope')).toBeLessThan(page.body.indexOf('Balance reviews'));
+      expect(page.body).toContain(
+        '<ac:task><ac:task-status>incomplete</ac:task-status>' +
+        '<ac:task-body><strong>Protect scope</strong>: Agree on changes first.</ac:task-body></ac:task>'
+      );
+      expect(page.body).toContain('<strong>Target Story Points:</strong> 22');
+    });
+
+    it('should leave out the average column without previous sprints', () => {
+      const page = builder.buildPage(sprint, { ...report, recommendations: [] });
+
+      expect(page.body).not.toContain('Previous');
+      expect(page.body).toContain('<td>Dates</td><td>2024-01-01 to 2024-01-14</td></tr>');
+      expect(page.body).toContain('No recommendations for this sprint.');
+    });
+  });
+});
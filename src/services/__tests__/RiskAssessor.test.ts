@@ -1,10 +1,16 @@
 import { RiskAssessor } from '../RiskAssessor';
+import { TrendAnalyzer } from '../TrendAnalyzer';
 import {
   SprintMetrics,
   PRMetrics,
   HistoricalMetrics,
   IssueData,
   PullRequestData,
+  ScopeChangeBreakdown,
+  DependencyGraph,
+  RiskFactor,
+  RiskFactorCategory,
+  RiskAggregation,
 } from '../../types';
 
 describe('RiskAssessor', () => {
@@ -75,6 +81,81 @@ describe('RiskAssessor', () => {
     });
   });
 
+  describe('scoring model', () => {
+    const factors: RiskFactor[] = [
+      { category: 'HIGH_WIP', severity: 9, description: 'Severe factor' },
+      { category: 'PR_DELAYS', severity: 5, description: 'Moderate factor 1' },
+      { category: 'SCOPE_CREEP', severity: 5, description: 'Moderate factor 2' },
+    ];
+
+    it('should weight factor severities per category', () => {
+      assessor.setScoringOverrides({ weights: { HIGH_WIP: 2, SCOPE_CREEP: 0 } });
+
+      expect(assessor.calculateRiskScore(factors)).toBe(77); // (9*2 + 5) / 3 weight
+    });
+
+    it('should score the most severe factor with max aggregation', () => {
+      assessor.setScoringOverrides({ aggregation: 'max' });
+
+      expect(assessor.calculateRiskScore(factors)).toBe(90);
+    });
+
+    it('should let moderate factors outweigh a severe one with noisy-or aggregation', () => {
+      assessor.setScoringOverrides({ aggregation: 'noisy-or' });
+
+      const moderateFactors: RiskFactor[] = ['PR_DELAYS', 'HIGH_WIP', 'CARRYOVER', 'BOTTLENECK', 'SCOPE_CREEP']
+        .map(category => ({ category: category as RiskFactorCategory, severity: 4, description: category }));
+
+      expect(assessor.calculateRiskScore(moderateFactors)).toBe(92); // 1 - 0.6^5
+      expect(assessor.calculateRiskScore([factors[0]])).toBe(90);
+    });
+
+    it('should apply threshold overrides and echo the resolved config', () => {
+      assessor.setScoringOverrides({ thresholds: { highWip: 3, lowRisk: 20 } });
+
+      const assessment = assessor.assessSprintRisk(
+        {
+          cycleTime: 24,
+          leadTime: 48,
+          throughput: 10,
+          velocity: 50,
+          wipCount: 6,
+          carryOverCount: 0,
+          completionRate: 90,
+        },
+        { averageLatency: 12, averageTimeToFirstReview: 2, averageReviewCycles: 1, averageRevisions: 1 }
+      );
+
+      expect(assessment.factors.map(factor => factor.category)).toEqual(['HIGH_WIP']);
+      expect(assessment.config.aggregation).toBe('weighted-mean');
+      expect(assessment.config.thresholds).toMatchObject({ highWip: 3, lowRisk: 20, mediumRisk: 66 });
+    });
+
+    it('should restore the default scoring model', () => {
+      assessor.setScoringOverrides({ aggregation: 'max' });
+      assessor.setScoringOverrides(null);
+
+      expect(assessor.getScoringConfig()).toEqual(new RiskAssessor().getScoringConfig());
+      expect(assessor.calculateRiskScore(factors)).toBe(63);
+    });
+
+    it('should reject invalid overrides', () => {
+      const errors = assessor.validateScoringOverrides({
+        aggregation: 'sum' as RiskAggregation,
+        weights: { HIGH_WIP: -1, UNKNOWN: 1 } as Partial<Record<RiskFactorCategory, number>>,
+        thresholds: { lowRisk: 80, mediumRisk: 50 },
+      });
+
+      expect(errors).toEqual([
+        'aggregation must be one of weighted-mean, max, noisy-or',
+        'Weight of HIGH_WIP must be a non-negative number',
+        'Unknown risk factor category: UNKNOWN',
+        'Risk level thresholds must satisfy lowRisk <= mediumRisk <= 100',
+      ]);
+      expect(assessor.validateScoringOverrides({ weights: { DEPENDENCY: 2 } })).toEqual([]);
+    });
+  });
+
   describe('assessSprintRisk', () => {
     const baseSprintMetrics: SprintMetrics = {
       cycleTime: 24,
@@ -204,10 +285,12 @@ describe('RiskAssessor', () => {
         prMetrics: basePRMetrics,
       };
 
+      const historicalTrend = new TrendAnalyzer().buildTrend([historicalData]);
+
       const factors = assessor.identifyRiskFactors(
         baseSprintMetrics,
         prMetrics,
-        historicalData
+        historicalTrend || undefined
       );
 
       const prDelayFactor = factors.find(f => f.category === 'PR_DELAYS');
@@ -215,6 +298,32 @@ describe('RiskAssessor', () => {
       expect(prDelayFactor?.description).toContain('above historical baseline');
     });
 
+    it('should not flag PR latency within normal variation of a noisy trend', () => {
+      const prMetrics: PRMetrics = {
+        ...basePRMetrics,
+        averageLatency: 40,
+      };
+
+      // Mean latency 30h with a large spread across sprints
+      const history: HistoricalMetrics[] = [10, 50, 15, 45].map((latency, i) => ({
+        sprintId: `prev-${i}`,
+        sprintName: `Previous Sprint ${i}`,
+        completedAt: `2024-0${i + 1}-01T00:00:00Z`,
+        metrics: baseSprintMetrics,
+        prMetrics: { ...basePRMetrics, averageLatency: latency },
+      }));
+
+      const historicalTrend = new TrendAnalyzer().buildTrend(history);
+
+      const factors = assessor.identifyRiskFactors(
+        baseSprintMetrics,
+        prMetrics,
+        historicalTrend || undefined
+      );
+
+      expect(factors.find(f => f.category === 'PR_DELAYS')).toBeUndefined();
+    });
+
     it('should detect high WIP with issue data', () => {
       const issues: IssueData[] = [
         {
@@ -281,6 +390,28 @@ describe('RiskAssessor', () => {
       expect(wipFactor?.description).toContain('active issues');
     });
 
+    it('should detect high WIP from developer workload and mention review load', () => {
+      const factors = assessor.identifyRiskFactors(
+        baseSprintMetrics,
+        basePRMetrics,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        [
+          { username: 'John', activeIssues: 6, storyPoints: 20, openPRs: 2, reviewingPRs: 4 },
+          { username: 'Jane', activeIssues: 1, storyPoints: 3, openPRs: 0, reviewingPRs: 1 },
+        ]
+      );
+
+      const wipFactor = factors.find(f => f.category === 'HIGH_WIP');
+      expect(wipFactor?.severity).toBe(7);
+      expect(wipFactor?.description).toBe(
+        '1 developer(s) have 5+ active issues (max: 6). John is also reviewing 4 open PR(s).'
+      );
+    });
+
     it('should detect carry-over risk with low completion rate', () => {
       const metrics: SprintMetrics = {
         ...baseSprintMetrics,
@@ -370,6 +501,202 @@ describe('RiskAssessor', () => {
       expect(factors.some(f => f.category === 'PR_DELAYS')).toBe(true);
       expect(factors.some(f => f.category === 'CARRYOVER')).toBe(true);
     });
+
+    it('should detect issues carried through several sprints', () => {
+      const carryOvers = [
+        { issueKey: 'PROJ-7', summary: 'Stuck work', assignee: null, storyPoints: 5, sprintsCarried: 3, previousSprints: ['S1', 'S2', 'S3'] },
+        { issueKey: 'PROJ-8', summary: 'Recent work', assignee: null, storyPoints: 2, sprintsCarried: 1, previousSprints: ['S3'] },
+      ];
+
+      const factors = assessor.identifyRiskFactors(
+        baseSprintMetrics, basePRMetrics, undefined, undefined, undefined, undefined, carryOvers
+      );
+
+      const carryOverFactor = factors.find(f => f.category === 'CARRYOVER');
+      expect(carryOverFactor?.severity).toBe(4);
+      expect(carryOverFactor?.description).toContain('1 issue(s) have been carried through 2+ sprints (max: 3, e.g. PROJ-7)');
+    });
+
+    describe('scope creep', () => {
+      const scopeChanges = (addedPoints: number, committedPoints: number): ScopeChangeBreakdown => ({
+        committedIssues: 5,
+        committedPoints,
+        addedIssues: 2,
+        removedIssues: 0,
+        addedPoints,
+        removedPoints: 0,
+        netPointChange: addedPoints,
+        addedPercentage: committedPoints > 0 ? (addedPoints / committedPoints) * 100 : 0,
+        events: [],
+        byDay: [],
+        byAuthor: [],
+      });
+
+      it('should detect work added beyond the threshold', () => {
+        const factors = assessor.identifyRiskFactors(
+          baseSprintMetrics, basePRMetrics, undefined, undefined, undefined, scopeChanges(8, 20)
+        );
+
+        const scopeFactor = factors.find(f => f.category === 'SCOPE_CREEP');
+        expect(scopeFactor).toBeDefined();
+        expect(scopeFactor?.severity).toBe(7);
+        expect(scopeFactor?.description).toContain('40% of committed scope');
+      });
+
+      it('should ignore small additions', () => {
+        const factors = assessor.identifyRiskFactors(
+          baseSprintMetrics, basePRMetrics, undefined, undefined, undefined, scopeChanges(2, 20)
+        );
+
+        expect(factors.some(f => f.category === 'SCOPE_CREEP')).toBe(false);
+      });
+
+      it('should flag estimated additions to a sprint without committed points', () => {
+        const factors = assessor.identifyRiskFactors(
+          baseSprintMetrics, basePRMetrics, undefined, undefined, undefined, scopeChanges(3, 0)
+        );
+
+        expect(factors.some(f => f.category === 'SCOPE_CREEP')).toBe(true);
+      });
+    });
+
+    describe('blocking dependencies', () => {
+      const dependencyGraph = (overrides: Partial<DependencyGraph>): DependencyGraph => ({
+        nodes: [],
+        edges: [],
+        criticalPath: [],
+        criticalPathPoints: 0,
+        externalBlockers: [],
+        cycles: [],
+        ...overrides,
+      });
+
+      const identify = (graph: DependencyGraph) => assessor.identifyRiskFactors(
+        baseSprintMetrics, basePRMetrics, undefined, undefined, undefined, undefined, undefined, undefined, graph
+      );
+
+      it('should detect cycles, external blockers and a long critical path', () => {
+        const factors = identify(dependencyGraph({
+          criticalPath: ['OTHER-1', 'PROJ-1', 'PROJ-2'],
+          externalBlockers: [
+            { issueKey: 'OTHER-1', summary: 'API', status: 'In Progress', blockedIssues: ['PROJ-1', 'PROJ-2'] },
+          ],
+          cycles: [['PROJ-3', 'PROJ-4']],
+        }));
+
+        const dependencyFactor = factors.find(f => f.category === 'DEPENDENCY');
+        expect(dependencyFactor?.severity).toBe(9); // 2 + 3 (cycle) + 1 (blocker) + 2 (blocked) + 1 (path)
+        expect(dependencyFactor?.description).toContain('1 circular dependency(ies) (PROJ-3 → PROJ-4)');
+        expect(dependencyFactor?.description).toContain('holding up 2 issue(s)');
+        expect(dependencyFactor?.description).toContain('OTHER-1 → PROJ-1 → PROJ-2');
+      });
+
+      it('should ignore short chains inside the sprint', () => {
+        const factors = identify(dependencyGraph({ criticalPath: ['PROJ-1', 'PROJ-2'] }));
+
+        expect(factors.some(f => f.category === 'DEPENDENCY')).toBe(false);
+      });
+    });
+  });
+
+  describe('risk evidence', () => {
+    const metrics: SprintMetrics = {
+      cycleTime: 24,
+      leadTime: 48,
+      throughput: 10,
+      velocity: 50,
+      wipCount: 6,
+      carryOverCount: 2,
+      completionRate: 60,
+    };
+
+    const prMetrics: PRMetrics = {
+      averageLatency: 60,
+      averageTimeToFirstReview: 10,
+      averageReviewCycles: 2,
+      averageRevisions: 1,
+    };
+
+    const buildIssue = (key: string, assignee: string, status: string): IssueData => ({
+      id: key,
+      key,
+      summary: `Issue ${key}`,
+      assignee,
+      storyPoints: 3,
+      status,
+      statusTransitions: [],
+      linkedPRs: [],
+    });
+
+    const buildPR = (id: string, hours: number): PullRequestData => ({
+      id,
+      title: `PR ${id}`,
+      author: 'dev2',
+      createdAt: '2024-01-01T00:00:00Z',
+      firstReviewAt: '2024-01-01T04:00:00Z',
+      mergedAt: new Date(new Date('2024-01-01T00:00:00Z').getTime() + hours * 3600000).toISOString(),
+      state: 'MERGED',
+      reviewers: [],
+      revisionCount: 1,
+      linkedIssues: [],
+    });
+
+    it('should record the compared metrics, affected issues and slow PRs', () => {
+      const issues = [
+        ...[1, 2, 3, 4, 5].map(n => buildIssue(`PROJ-${n}`, 'dev1', 'In Progress')),
+        buildIssue('PROJ-6', 'dev2', 'In Progress'),
+        buildIssue('PROJ-7', 'dev1', 'Done'),
+      ];
+      const prs = [buildPR('pr-1', 20), buildPR('pr-2', 100), buildPR('pr-3', 70)];
+      const carryOvers = [
+        { issueKey: 'PROJ-8', summary: 'Recent work', assignee: null, storyPoints: 2, sprintsCarried: 1, previousSprints: ['S3'] },
+        { issueKey: 'PROJ-9', summary: 'Stuck work', assignee: null, storyPoints: 5, sprintsCarried: 3, previousSprints: ['S1', 'S2', 'S3'] },
+      ];
+
+      const factors = assessor.identifyRiskFactors(
+        metrics, prMetrics, undefined, issues, prs, undefined, carryOvers
+      );
+
+      expect(factors.find(f => f.category === 'PR_DELAYS')?.evidence).toEqual({
+        metrics: [
+          { name: 'averageLatency', value: 60, threshold: 48, unit: 'hours' },
+          { name: 'averageTimeToFirstReview', value: 10, threshold: 24, unit: 'hours' },
+        ],
+        issueKeys: [],
+        prIds: ['pr-2', 'pr-3'],
+      });
+      expect(factors.find(f => f.category === 'HIGH_WIP')?.evidence).toEqual({
+        metrics: [{ name: 'activeIssues (dev1)', value: 5, threshold: 5, unit: 'issues' }],
+        issueKeys: ['PROJ-1', 'PROJ-2', 'PROJ-3', 'PROJ-4', 'PROJ-5'],
+        prIds: [],
+      });
+      expect(factors.find(f => f.category === 'CARRYOVER')?.evidence).toEqual({
+        metrics: [
+          { name: 'completionRate', value: 60, threshold: 70, unit: '%' },
+          { name: 'maxSprintsCarried', value: 3, threshold: 2, unit: 'sprints' },
+        ],
+        issueKeys: ['PROJ-9', 'PROJ-8'],
+        prIds: [],
+      });
+    });
+
+    it('should attribute the risk score to the factors', () => {
+      const assessment = assessor.assessSprintRisk(metrics, prMetrics);
+      const contributions = assessment.factors.map(factor => factor.contribution || 0);
+
+      expect(assessment.factors.length).toBeGreaterThan(1);
+      expect(contributions.reduce((sum, value) => sum + value, 0)).toBeCloseTo(assessment.score, 0);
+    });
+
+    it('should attribute the whole score to the most severe factor with max aggregation', () => {
+      assessor.setScoringOverrides({ aggregation: 'max' });
+
+      const assessment = assessor.assessSprintRisk(metrics, prMetrics);
+      const top = [...assessment.factors].sort((a, b) => b.severity - a.severity)[0];
+
+      expect(top.contribution).toBe(assessment.score);
+      expect(assessment.factors.filter(factor => factor.contribution === 0)).toHaveLength(assessment.factors.length - 1);
+    });
   });
 
   describe('risk level classification thresholds', () => {
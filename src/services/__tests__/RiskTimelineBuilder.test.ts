@@ -0,0 +1,99 @@
+import { RiskTimelineBuilder } from '../RiskTimelineBuilder';
+import { RiskLevel, RiskSnapshot, SprintReport } from '../../types';
+
+describe('RiskTimelineBuilder', () => {
+  let builder: RiskTimelineBuilder;
+
+  const snapshot = (recordedAt: string, level: RiskLevel, score: number): RiskSnapshot => ({
+    recordedAt,
+    level,
+    score,
+    factors: [],
+    metrics: {
+      completionRate: 50,
+      velocity: 20,
+      wipCount: 4,
+      carryOverCount: 1,
+      averagePRLatency: 12,
+    },
+  });
+
+  beforeEach(() => {
+    builder = new RiskTimelineBuilder();
+  });
+
+  describe('createSnapshot', () => {
+    it('should capture the risk and key metrics of a report without evidence', () => {
+      const report: SprintReport = {
+        summary: 'Summary',
+        keyFindings: [],
+        riskAssessment: {
+          level: 'Medium',
+          justification: 'Justification',
+          score: 45,
+          factors: [{
+            category: 'SCOPE_CREEP',
+            severity: 5,
+            description: 'Scope grew.',
+            contribution: 45,
+            evidence: { metrics: [], issueKeys: ['PROJ-1'], prIds: [] },
+          }],
+        },
+        recommendations: [],
+        metrics: {
+          sprint: {
+            cycleTime: 10,
+            leadTime: 20,
+            throughput: 5,
+            velocity: 18,
+            wipCount: 3,
+            carryOverCount: 2,
+            completionRate: 40,
+          },
+          pullRequests: {
+            averageLatency: 30,
+            averageTimeToFirstReview: 4,
+            averageReviewCycles: 1,
+            averageRevisions: 1,
+          },
+        },
+        generatedAt: '2024-01-03T10:00:00.000Z',
+      };
+
+      expect(builder.createSnapshot(report)).toEqual({
+        recordedAt: '2024-01-03T10:00:00.000Z',
+        level: 'Medium',
+        score: 45,
+        factors: [{ category: 'SCOPE_CREEP', severity: 5, description: 'Scope grew.', contribution: 45 }],
+        metrics: {
+          completionRate: 40,
+          velocity: 18,
+          wipCount: 3,
+          carryOverCount: 2,
+          averagePRLatency: 30,
+        },
+      });
+    });
+  });
+
+  describe('buildTimeline', () => {
+    it('should keep the last analysis of each day with the day\'s score range', () => {
+      const timeline = builder.buildTimeline('42', [
+        snapshot('2024-01-02T16:00:00.000Z', 'High', 70),
+        snapshot('2024-01-01T09:00:00.000Z', 'Low', 20),
+        snapshot('2024-01-02T08:00:00.000Z', 'Medium', 40),
+        snapshot('2024-01-02T12:00:00.000Z', 'Medium', 60),
+      ]);
+
+      expect(timeline.snapshots.map(s => s.score)).toEqual([70, 60, 40, 20]);
+      expect(timeline.days).toEqual([
+        { date: '2024-01-01', level: 'Low', score: 20, minScore: 20, maxScore: 20, analyses: 1 },
+        { date: '2024-01-02', level: 'High', score: 70, minScore: 40, maxScore: 70, analyses: 3 },
+      ]);
+    });
+
+    it('should return an empty timeline for a sprint that was never analyzed', () => {
+      expect(builder.buildTimeline('42', [])).toEqual({ sprintId: '42', snapshots: [], days: [] });
+    });
+  });
+});
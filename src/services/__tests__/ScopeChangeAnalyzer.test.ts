@@ -0,0 +1,142 @@
+import { ScopeChangeAnalyzer } from '../ScopeChangeAnalyzer';
+import { IssueData, SprintData, SprintMembershipChange } from '../../types';
+
+describe('ScopeChangeAnalyzer', () => {
+  let analyzer: ScopeChangeAnalyzer;
+
+  const sprint: SprintData = {
+    id: '10',
+    name: 'Sprint 10',
+    state: 'active',
+    startDate: '2024-01-01T09:00:00Z',
+    endDate: '2024-01-14T17:00:00Z',
+  };
+
+  const buildIssue = (
+    key: string,
+    storyPoints: number | null,
+    sprintChanges: SprintMembershipChange[] = []
+  ): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee: 'dev1',
+    storyPoints,
+    status: 'To Do',
+    statusTransitions: [],
+    linkedPRs: [],
+    sprintChanges,
+  });
+
+  const added = (timestamp: string, author?: string, sprintId: string = '10'): SprintMembershipChange =>
+    ({ sprintId, change: 'added', timestamp, author });
+  const removed = (timestamp: string, author?: string): SprintMembershipChange =>
+    ({ sprintId: '10', change: 'removed', timestamp, author });
+
+  beforeEach(() => {
+    analyzer = new ScopeChangeAnalyzer();
+  });
+
+  it('should report no changes when the sprint scope was unchanged', () => {
+    const issues = [
+      buildIssue('PROJ-1', 5, [added('2023-12-29T10:00:00Z', 'Alice')]),
+      buildIssue('PROJ-2', 3),
+    ];
+
+    const breakdown = analyzer.analyzeScopeChanges(issues, [], sprint);
+
+    expect(breakdown.committedIssues).toBe(2);
+    expect(breakdown.committedPoints).toBe(8);
+    expect(breakdown.addedIssues).toBe(0);
+    expect(breakdown.events).toHaveLength(0);
+    expect(breakdown.addedPercentage).toBe(0);
+  });
+
+  it('should count issues added and removed after the sprint started', () => {
+    const issues = [
+      buildIssue('PROJ-1', 8),
+      buildIssue('PROJ-2', 3, [added('2024-01-03T10:00:00Z', 'Alice')]),
+    ];
+    const removedIssues = [buildIssue('PROJ-3', 2, [removed('2024-01-04T10:00:00Z', 'Bob')])];
+
+    const breakdown = analyzer.analyzeScopeChanges(issues, removedIssues, sprint);
+
+    expect(breakdown.committedIssues).toBe(2);
+    expect(breakdown.committedPoints).toBe(10);
+    expect(breakdown.addedPoints).toBe(3);
+    expect(breakdown.removedPoints).toBe(2);
+    expect(breakdown.netPointChange).toBe(1);
+    expect(breakdown.addedPercentage).toBe(30);
+    expect(breakdown.events.map(e => e.issueKey)).toEqual(['PROJ-2', 'PROJ-3']);
+  });
+
+  it('should break changes down by day and by author', () => {
+    const issues = [
+      buildIssue('PROJ-1', 5),
+      buildIssue('PROJ-2', 3, [added('2024-01-03T10:00:00Z', 'Alice')]),
+      buildIssue('PROJ-3', 2, [added('2024-01-03T15:00:00Z', 'Bob')]),
+      buildIssue('PROJ-4', 5, [added('2024-01-05T10:00:00Z', 'Alice')]),
+      buildIssue('PROJ-5', null, [added('2024-01-05T11:00:00Z')]),
+    ];
+
+    const breakdown = analyzer.analyzeScopeChanges(issues, [], sprint);
+
+    expect(breakdown.byDay).toEqual([
+      { date: '2024-01-03', addedIssues: 2, removedIssues: 0, addedPoints: 5, removedPoints: 0 },
+      { date: '2024-01-05', addedIssues: 2, removedIssues: 0, addedPoints: 5, removedPoints: 0 },
+    ]);
+    expect(breakdown.byAuthor.map(a => [a.author, a.addedPoints])).toEqual([
+      ['Alice', 8],
+      ['Bob', 2],
+      [null, 0],
+    ]);
+  });
+
+  it('should ignore membership changes of other sprints and after a closed sprint ended', () => {
+    const closedSprint: SprintData = { ...sprint, state: 'closed' };
+    const issues = [
+      buildIssue('PROJ-1', 3, [added('2024-01-03T10:00:00Z', 'Alice', '11')]),
+      buildIssue('PROJ-2', 5, [removed('2024-01-15T10:00:00Z', 'Alice')]),
+    ];
+
+    const breakdown = analyzer.analyzeScopeChanges(issues, [], closedSprint);
+
+    expect(breakdown.events).toHaveLength(0);
+    expect(breakdown.committedPoints).toBe(8);
+  });
+
+  it('should count issues created in the running sprint as added at creation', () => {
+    const issues = [
+      buildIssue('PROJ-1', 5),
+      { ...buildIssue('PROJ-2', 3), createdAt: '2024-01-04T10:00:00Z' },
+      { ...buildIssue('PROJ-3', 2), createdAt: '2023-12-20T10:00:00Z' },
+    ];
+
+    const breakdown = analyzer.analyzeScopeChanges(issues, [], sprint);
+
+    expect(breakdown.committedIssues).toBe(2);
+    expect(breakdown.committedPoints).toBe(7);
+    expect(breakdown.events).toEqual([
+      expect.objectContaining({
+        issueKey: 'PROJ-2',
+        change: 'added',
+        timestamp: '2024-01-04T10:00:00Z',
+        author: null,
+      }),
+    ]);
+    expect(breakdown.addedPoints).toBe(3);
+  });
+
+  it('should count an issue removed and added back once per change', () => {
+    const issue = buildIssue('PROJ-1', 3, [
+      removed('2024-01-03T10:00:00Z'),
+      added('2024-01-04T10:00:00Z'),
+    ]);
+
+    const breakdown = analyzer.analyzeScopeChanges([issue], [issue], sprint);
+
+    expect(breakdown.committedIssues).toBe(1);
+    expect(breakdown.addedIssues).toBe(1);
+    expect(breakdown.removedIssues).toBe(1);
+  });
+});
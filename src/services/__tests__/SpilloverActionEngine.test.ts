@@ -0,0 +1,225 @@
+import { storage } from '@forge/api';
+import { SpilloverActionEngine } from '../SpilloverActionEngine';
+import { StorageService } from '../StorageService';
+import { JiraIssueWriter } from '../JiraIssueWriter';
+import { SpilloverActionSettings, SpilloverPrediction } from '../../types';
+
+jest.mock('../JiraIssueWriter');
+
+// Mock Forge storage with an in-memory key-value store
+jest.mock('@forge/api', () => {
+  const store = new Map<string, unknown>();
+  return {
+    __esModule: true,
+    default: {},
+    route: jest.fn(),
+    storage: {
+      get: jest.fn(async (key: string) => store.get(key)),
+      set: jest.fn(async (key: string, value: unknown) => {
+        store.set(key, value);
+      }),
+      delete: jest.fn(async (key: string) => {
+        store.delete(key);
+      }),
+      __store: store,
+    },
+  };
+});
+
+describe('SpilloverActionEngine', () => {
+  let storageService: StorageService;
+  let writer: jest.Mocked<JiraIssueWriter>;
+  let engine: SpilloverActionEngine;
+
+  const sprint = { id: '42', name: 'Sprint 42' };
+  const now = new Date('2024-01-10T12:00:00.000Z');
+
+  const settings: SpilloverActionSettings = {
+    enabled: true,
+    threshold: 0.6,
+    label: 'spillover-risk',
+    comment: true,
+    dryRun: false,
+  };
+
+  const predictions: SpilloverPrediction[] = [
+    { issueKey: 'PROJ-1', probability: 0.85, reasons: ['8 story points left with 1 day remaining'] },
+    { issueKey: 'PROJ-2', probability: 0.4, reasons: ['In review for 3 days'] },
+  ];
+
+  beforeEach(() => {
+    (storage as unknown as { __store: Map<string, unknown> }).__store.clear();
+    storageService = new StorageService();
+    writer = new JiraIssueWriter() as jest.Mocked<JiraIssueWriter>;
+    writer.addComment.mockResolvedValue('10001');
+    engine = new SpilloverActionEngine(storageService, writer);
+  });
+
+  describe('planActions', () => {
+    it('should label and comment on issues at or above the threshold', () => {
+      const actions = engine.planActions('Sprint 42', predictions, settings, []);
+
+      expect(actions.map(action => [action.type, action.issueKey])).toEqual([
+        ['add-label', 'PROJ-1'],
+        ['add-comment', 'PROJ-1'],
+      ]);
+      expect(actions[1].comment).toBe(
+        'Sprint Analysis predicts a 85% chance that this issue will not be finished in Sprint 42.\n' +
+        '• 8 story points left with 1 day remaining\n' +
+        'This comment is removed when the risk clears.'
+      );
+    });
+
+    it('should only plan what is missing and undo markers of cleared issues', () => {
+      const markers = [
+        { issueKey: 'PROJ-1', sprintId: '42', label: 'spillover-risk', probability: 0.8, markedAt: now.toISOString() },
+        { issueKey: 'PROJ-3', sprintId: '42', label: 'spillover-risk', commentId: '9', probability: 0.9, markedAt: now.toISOString() },
+      ];
+
+      expect(engine.planActions('Sprint 42', predictions, settings, markers)).toEqual([
+        { type: 'add-comment', issueKey: 'PROJ-1', comment: expect.any(String) },
+        { type: 'remove-label', issueKey: 'PROJ-3', label: 'spillover-risk' },
+        { type: 'delete-comment', issueKey: 'PROJ-3', commentId: '9' },
+      ]);
+    });
+
+    it('should swap a renamed label and remove everything when disabled', () => {
+      const markers = [
+        { issueKey: 'PROJ-1', sprintId: '42', label: 'at-risk', commentId: '9', probability: 0.8, markedAt: now.toISOString() },
+      ];
+
+      expect(engine.planActions('Sprint 42', predictions, settings, markers).map(action => action.type)).toEqual([
+        'remove-label',
+        'add-label',
+      ]);
+      expect(engine.planActions('Sprint 42', predictions, { ...settings, enabled: false }, markers)).toEqual([
+        { type: 'remove-label', issueKey: 'PROJ-1', label: 'at-risk' },
+        { type: 'delete-comment', issueKey: 'PROJ-1', commentId: '9' },
+      ]);
+    });
+  });
+
+  describe('run', () => {
+    it('should do nothing for boards that never opted in', async () => {
+      expect(await engine.run('board-1', sprint, predictions, { now })).toBeNull();
+      expect(writer.addLabel).not.toHaveBeenCalled();
+    });
+
+    it('should write to Jira, remember the markers and remove them once the risk clears', async () => {
+      await storageService.saveSpilloverActionSettings('board-1', settings);
+
+      const run = await engine.run('board-1', sprint, predictions, { now });
+
+      expect(run?.actions.map(action => action.status)).toEqual(['applied', 'applied']);
+      expect(writer.addLabel).toHaveBeenCalledWith('PROJ-1', 'spillover-risk');
+      expect(writer.addComment).toHaveBeenCalledWith('PROJ-1', expect.stringContaining('85% chance'));
+      expect(await storageService.getSpilloverMarkers('board-1')).toEqual([
+        { issueKey: 'PROJ-1', sprintId: '42', label: 'spillover-risk', commentId: '10001', probability: 0.85, markedAt: now.toISOString() },
+      ]);
+
+      // Unchanged risk: nothing to write, nothing logged
+      expect((await engine.run('board-1', sprint, predictions, { now }))?.actions).toEqual([]);
+
+      await engine.run('board-1', sprint, [{ ...predictions[0], probability: 0.3 }], { now });
+
+      expect(writer.removeLabel).toHaveBeenCalledWith('PROJ-1', 'spillover-risk');
+      expect(writer.deleteComment).toHaveBeenCalledWith('PROJ-1', '10001');
+      expect(await storageService.getSpilloverMarkers('board-1')).toEqual([]);
+      expect((await storageService.getSpilloverActionLog('board-1')).map(entry => entry.actions.length)).toEqual([2, 2]);
+    });
+
+    it('should take over a carried-over issue\'s label and comment in the next sprint', async () => {
+      await storageService.saveSpilloverActionSettings('board-1', settings);
+      await engine.run('board-1', sprint, predictions, { now });
+
+      // PROJ-1 carried into Sprint 43 and is still at risk: no second comment
+      const nextSprint = { id: '43', name: 'Sprint 43' };
+      const run = await engine.run('board-1', nextSprint, [{ ...predictions[0], probability: 0.7 }], {
+        issueKeys: ['PROJ-1', 'PROJ-5'],
+        now,
+      });
+
+      expect(run?.actions).toEqual([]);
+      expect(writer.addComment).toHaveBeenCalledTimes(1);
+      expect(await storageService.getSpilloverMarkers('board-1')).toEqual([
+        expect.objectContaining({ issueKey: 'PROJ-1', sprintId: '43', commentId: '10001', probability: 0.7 }),
+      ]);
+
+      // Its risk clears in Sprint 43: the label and comment from Sprint 42 are removed
+      await engine.run('board-1', nextSprint, [], { issueKeys: ['PROJ-1', 'PROJ-5'], now });
+
+      expect(writer.removeLabel).toHaveBeenCalledWith('PROJ-1', 'spillover-risk');
+      expect(writer.deleteComment).toHaveBeenCalledWith('PROJ-1', '10001');
+      expect(await storageService.getSpilloverMarkers('board-1')).toEqual([]);
+    });
+
+    it('should leave markers of other sprints\' issues alone', async () => {
+      await storageService.saveSpilloverActionSettings('board-1', settings);
+      await engine.run('board-1', sprint, predictions, { now });
+
+      const run = await engine.run('board-1', { id: '50', name: 'Parallel Sprint' }, [], { issueKeys: ['PROJ-9'], now });
+
+      expect(run?.actions).toEqual([]);
+      expect(await storageService.getSpilloverMarkers('board-1')).toHaveLength(1);
+    });
+
+    it('should only list intended writes in dry-run mode', async () => {
+      await storageService.saveSpilloverActionSettings('board-1', { ...settings, dryRun: true });
+
+      const run = await engine.run('board-1', sprint, predictions, { now });
+
+      expect(run).toMatchObject({ sprintId: '42', dryRun: true, threshold: 0.6 });
+      expect(run?.actions.map(action => action.status)).toEqual(['planned', 'planned']);
+      expect(writer.addLabel).not.toHaveBeenCalled();
+      expect(writer.addComment).not.toHaveBeenCalled();
+      expect(await storageService.getSpilloverMarkers('board-1')).toEqual([]);
+      expect(await storageService.getSpilloverActionLog('board-1')).toEqual([run]);
+    });
+
+    it('should record failed writes and retry them on the next run', async () => {
+      await storageService.saveSpilloverActionSettings('board-1', settings);
+      writer.addComment.mockRejectedValueOnce(new Error('Jira API error: 403 Forbidden - '));
+
+      const run = await engine.run('board-1', sprint, predictions, { now });
+
+      expect(run?.actions[1]).toMatchObject({ type: 'add-comment', status: 'failed', error: 'Jira API error: 403 Forbidden - ' });
+
+      const retry = await engine.run('board-1', sprint, predictions, { now });
+      expect(retry?.actions).toEqual([expect.objectContaining({ type: 'add-comment', status: 'applied' })]);
+    });
+  });
+
+  describe('cleanUpClosedSprint', () => {
+    it('should clear finished issues and keep unfinished ones for the next sprint', async () => {
+      await storageService.saveSpilloverActionSettings('board-1', settings);
+      await engine.run('board-1', sprint, [
+        predictions[0],
+        { issueKey: 'PROJ-3', probability: 0.9, reasons: ['Blocked by PROJ-4'] },
+      ], { now });
+
+      // PROJ-1 was finished after the last run before the sprint closed
+      const run = await engine.cleanUpClosedSprint('board-1', { ...sprint }, ['PROJ-1', 'PROJ-2'], { now });
+
+      expect(run?.actions.map(action => [action.type, action.issueKey, action.status])).toEqual([
+        ['remove-label', 'PROJ-1', 'applied'],
+        ['delete-comment', 'PROJ-1', 'applied'],
+      ]);
+      expect((await storageService.getSpilloverMarkers('board-1')).map(marker => marker.issueKey)).toEqual(['PROJ-3']);
+    });
+  });
+
+  describe('validateSettings', () => {
+    it('should accept valid settings and report invalid ones', () => {
+      expect(engine.validateSettings(settings)).toEqual([]);
+
+      const invalid = { enabled: 'yes', threshold: 1.5, label: 'spillover risk', comment: true } as unknown as SpilloverActionSettings;
+
+      expect(engine.validateSettings(invalid)).toEqual([
+        'enabled must be true or false',
+        'dryRun must be true or false',
+        'threshold must be a number between 0 and 1',
+        'label must be a Jira label without spaces of at most 255 characters',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { SprintComparator } from '../SprintComparator';
+import { ReportGenerator } from '../ReportGenerator';
+import {
+  ComparedSprint,
+  IssueData,
+  RiskFactor,
+  RiskLevel,
+  SprintData,
+  SprintMetrics,
+} from '../../types';
+
+describe('SprintComparator', () => {
+  let comparator: SprintComparator;
+
+  const buildSprint = (id: string, name: string): SprintData => ({
+    id,
+    name,
+    state: 'closed',
+    startDate: '2024-01-01T00:00:00Z',
+    endDate: '2024-01-14T00:00:00Z',
+  });
+
+  const buildIssue = (key: string, status: string, storyPoints: number | null, sprintIds: string[] = []): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee: null,
+    storyPoints,
+    status,
+    statusTransitions: [],
+    linkedPRs: [],
+    sprints: sprintIds.map(id => ({ id, name: `Sprint ${id}`, state: 'closed' })),
+  });
+
+  const buildCompared = (
+    sprint: SprintData,
+    level: RiskLevel,
+    metrics: Partial<SprintMetrics>,
+    factors: RiskFactor[],
+    issues: IssueData[],
+    averageLatency: number = 20
+  ): ComparedSprint => ({
+    sprint,
+    issues,
+    report: {
+      summary: 'Summary',
+      keyFindings: [],
+      riskAssessment: { level, justification: 'Justification', score: level === 'High' ? 70 : 30, factors },
+      recommendations: [],
+      metrics: {
+        sprint: {
+          cycleTime: 10,
+          leadTime: 20,
+          throughput: 5,
+          velocity: 20,
+          wipCount: 3,
+          carryOverCount: 0,
+          completionRate: 80,
+          ...metrics,
+        },
+        pullRequests: {
+          averageLatency,
+          averageTimeToFirstReview: 4,
+          averageReviewCycles: 1,
+          averageRevisions: 0,
+        },
+      },
+      generatedAt: '2024-01-14T00:00:00Z',
+    },
+  });
+
+  const base = buildCompared(
+    buildSprint('1', 'Sprint 1'),
+    'Low',
+    { velocity: 20, completionRate: 80 },
+    [
+      { category: 'PR_DELAYS', severity: 4, description: 'PR latency is high.' },
+      { category: 'HIGH_WIP', severity: 6, description: 'WIP is high.' },
+      { category: 'CARRYOVER', severity: 5, description: 'Carry-over.' },
+    ],
+    [buildIssue('PROJ-1', 'In Progress', 5), buildIssue('PROJ-2', 'Done', 3)]
+  );
+
+  const target = buildCompared(
+    buildSprint('2', 'Sprint 2'),
+    'High',
+    { velocity: 15, completionRate: 60 },
+    [
+      { category: 'PR_DELAYS', severity: 7, description: 'PR latency is much higher.' },
+      { category: 'CARRYOVER', severity: 5, description: 'Carry-over.' },
+      { category: 'SCOPE_CREEP', severity: 5, description: 'Scope grew.' },
+    ],
+    [
+      buildIssue('PROJ-1', 'Done', 5),
+      buildIssue('PROJ-3', 'In Progress', 8, ['1', '2']),
+      buildIssue('PROJ-4', 'To Do', 2, ['2']),
+    ],
+    30
+  );
+
+  beforeEach(() => {
+    comparator = new SprintComparator();
+  });
+
+  describe('compare', () => {
+    it('should calculate absolute and percent metric deltas', () => {
+      const comparison = comparator.compare(base, target);
+
+      expect(comparison.metricDeltas.find(delta => delta.metric === 'velocity')).toEqual({
+        metric: 'velocity',
+        base: 20,
+        target: 15,
+        change: -5,
+        percentChange: -25,
+      });
+      expect(comparison.metricDeltas.find(delta => delta.metric === 'averageRevisions')?.percentChange).toBeNull();
+      expect(comparison.metricDeltas).toHaveLength(11);
+    });
+
+    it('should classify how each risk factor changed, new and worse first', () => {
+      const comparison = comparator.compare(base, target);
+
+      expect(comparison.riskFactorChanges.map(change => [change.category, change.change])).toEqual([
+        ['SCOPE_CREEP', 'new'],
+        ['PR_DELAYS', 'worse'],
+        ['HIGH_WIP', 'resolved'],
+        ['CARRYOVER', 'unchanged'],
+      ]);
+      expect(comparison.riskFactorChanges[2]).toEqual({
+        category: 'HIGH_WIP',
+        change: 'resolved',
+        baseSeverity: 6,
+        targetSeverity: null,
+        description: 'WIP is high.',
+      });
+      expect(comparison.risk).toEqual({ baseLevel: 'Low', baseScore: 30, targetLevel: 'High', targetScore: 70 });
+    });
+
+    it('should find issues that were in both sprints, unfinished first', () => {
+      const comparison = comparator.compare(base, target);
+
+      expect(comparison.carriedIssues).toEqual([
+        { issueKey: 'PROJ-3', summary: 'Issue PROJ-3', storyPoints: 8, status: 'In Progress', completed: false },
+        { issueKey: 'PROJ-1', summary: 'Issue PROJ-1', storyPoints: 5, status: 'Done', completed: true },
+      ]);
+    });
+  });
+
+  describe('comparison narrative', () => {
+    it('should describe risk, notable metric changes, risk factors and carried work', () => {
+      const report = new ReportGenerator().generateComparisonReport(comparator.compare(base, target));
+
+      expect(report.narrative).toBe(
+        'Compared with Sprint 1, Sprint 2 moved from Low to High risk. ' +
+        'Velocity fell 25% (20.0 to 15.0), a regression. ' +
+        'Completion rate fell 25% (80.0 to 60.0), a regression. ' +
+        'PR latency rose 50% (20.0 to 30.0), a regression. ' +
+        'New or worse risks: Scope grew. PR latency is much higher. ' +
+        'No longer at risk from: high wip. ' +
+        '2 issue(s) (13 story points) were in both sprints, 1 of them still unfinished.'
+      );
+      expect(report.generatedAt).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { StatusClassifier } from '../StatusClassifier';
+import { MetricsCalculator } from '../MetricsCalculator';
+import { IssueData, SprintData } from '../../types';
+
+describe('StatusClassifier', () => {
+  describe('classify', () => {
+    it('should use Jira status categories when available', () => {
+      const classifier = new StatusClassifier({
+        'Awaiting Deploy': 'indeterminate',
+        "Won't Do": 'done',
+        'Triage': 'new',
+      });
+
+      expect(classifier.classify('Awaiting Deploy')).toBe('indeterminate');
+      expect(classifier.classify("Won't Do")).toBe('done');
+      expect(classifier.classify('Triage')).toBe('new');
+    });
+
+    it('should let project overrides take precedence over Jira categories', () => {
+      const classifier = new StatusClassifier(
+        { 'Awaiting Deploy': 'indeterminate' },
+        { 'Awaiting Deploy': 'done' }
+      );
+
+      expect(classifier.isCompleted('Awaiting Deploy')).toBe(true);
+      expect(classifier.isActive('Awaiting Deploy')).toBe(false);
+    });
+
+    it('should apply project overrides only to issues of that project', () => {
+      const classifier = new StatusClassifier(
+        { 'Review': 'indeterminate' },
+        {},
+        { PROJ: { 'Review': 'done' } }
+      );
+
+      expect(classifier.classify('Review', 'PROJ-12')).toBe('done');
+      expect(classifier.classify('Review', 'OTHER-3')).toBe('indeterminate');
+      expect(classifier.classify('Review')).toBe('indeterminate');
+    });
+
+    it('should match status names case-insensitively', () => {
+      const classifier = new StatusClassifier({}, { 'awaiting deploy': 'done' });
+
+      expect(classifier.classify('Awaiting Deploy')).toBe('done');
+      expect(classifier.classify('  AWAITING DEPLOY ')).toBe('done');
+    });
+
+    it('should fall back to keyword matching for unknown statuses', () => {
+      const classifier = new StatusClassifier();
+
+      expect(classifier.classify('Done')).toBe('done');
+      expect(classifier.classify('In Progress')).toBe('indeterminate');
+      expect(classifier.classify('Code Review')).toBe('indeterminate');
+      expect(classifier.classify('To Do')).toBe('new');
+      expect(classifier.classify('Parked')).toBeNull();
+      expect(classifier.classify('')).toBeNull();
+    });
+
+    it('should ignore invalid categories in mappings', () => {
+      const classifier = new StatusClassifier({ 'Parked': 'paused' as any });
+
+      expect(classifier.classify('Parked')).toBeNull();
+      expect(classifier.isValidCategory('paused')).toBe(false);
+      expect(classifier.isValidCategory('done')).toBe(true);
+    });
+  });
+
+  describe('engine integration', () => {
+    const sprint: SprintData = {
+      id: 'sprint-1',
+      name: 'Sprint 1',
+      state: 'active',
+      startDate: '2024-01-01T00:00:00Z',
+      endDate: '2024-01-15T00:00:00Z',
+    };
+
+    const issues: IssueData[] = [
+      {
+        id: '1',
+        key: 'PROJ-1',
+        summary: 'Deploy pending',
+        assignee: 'dev1',
+        storyPoints: 3,
+        status: 'Awaiting Deploy',
+        statusTransitions: [],
+        linkedPRs: [],
+      },
+      {
+        id: '2',
+        key: 'PROJ-2',
+        summary: 'Dropped',
+        assignee: 'dev2',
+        storyPoints: 5,
+        status: "Won't Do",
+        statusTransitions: [],
+        linkedPRs: [],
+      },
+    ];
+
+    it('should classify custom statuses correctly in MetricsCalculator', () => {
+      const calculator = new MetricsCalculator(
+        new StatusClassifier({ 'Awaiting Deploy': 'indeterminate', "Won't Do": 'done' })
+      );
+
+      const metrics = calculator.calculateSprintMetrics(issues, sprint);
+
+      expect(metrics.wipCount).toBe(1);
+      expect(metrics.throughput).toBe(1);
+      expect(metrics.velocity).toBe(5);
+    });
+
+    it('should leave unmapped custom statuses unclassified', () => {
+      const calculator = new MetricsCalculator();
+
+      const metrics = calculator.calculateSprintMetrics(issues, sprint);
+
+      expect(metrics.wipCount).toBe(0);
+      expect(metrics.throughput).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { storage } from '@forge/api';
+import { StorageService } from '../StorageService';
+import { SprintMetrics, PRMetrics, TeamCalendar } from '../../types';
+
+// Mock Forge storage with an in-memory key-value store
+jest.mock('@forge/api', () => {
+  const store = new Map<string, unknown>();
+  return {
+    __esModule: true,
+    default: {},
+    route: jest.fn(),
+    storage: {
+      get: jest.fn(async (key: string) => store.get(key)),
+      set: jest.fn(async (key: string, value: unknown) => {
+        store.set(key, value);
+      }),
+      delete: jest.fn(async (key: string) => {
+        store.delete(key);
+      }),
+      __store: store,
+    },
+  };
+});
+
+describe('StorageService', () => {
+  let storageService: StorageService;
+
+  const metrics: SprintMetrics = {
+    cycleTime: 10,
+    leadTime: 20,
+    throughput: 5,
+    velocity: 20,
+    wipCount: 2,
+    carryOverCount: 1,
+    completionRate: 80,
+  };
+
+  const prMetrics: PRMetrics = {
+    averageLatency: 6,
+    averageTimeToFirstReview: 2,
+    averageReviewCycles: 1.5,
+    averageRevisions: 1.2,
+  };
+
+  const archiveSprints = async (boardId: string, count: number) => {
+    for (let i = 1; i <= count; i++) {
+      const day = String(i).padStart(2, '0');
+      await storageService.storeHistoricalMetrics(
+        `sprint-${i}`,
+        `Sprint ${i}`,
+        `2024-01-${day}T00:00:00Z`,
+        metrics,
+        prMetrics,
+        boardId
+      );
+    }
+  };
+
+  beforeEach(() => {
+    (storage as any).__store.clear();
+    storageService = new StorageService();
+  });
+
+  describe('historical metrics archive', () => {
+    it('should keep archived metrics without expiry', async () => {
+      const realNow = Date.now;
+      await archiveSprints('board-1', 1);
+
+      // Two days later
+      Date.now = () => realNow() + 2 * 24 * 60 * 60 * 1000;
+      try {
+        const metric = await storageService.getHistoricalMetric('sprint-1');
+        expect(metric?.sprintName).toBe('Sprint 1');
+        expect(metric?.boardId).toBe('board-1');
+      } finally {
+        Date.now = realNow;
+      }
+    });
+
+    it('should index sprints per board, most recent first', async () => {
+      await archiveSprints('board-1', 3);
+      await archiveSprints('board-2', 1);
+
+      const index = await storageService.getHistoricalIndex('board-1');
+
+      expect(index.map(entry => entry.sprintId)).toEqual(['sprint-3', 'sprint-2', 'sprint-1']);
+      expect(await storageService.getHistoricalIndex('board-2')).toHaveLength(1);
+    });
+
+    it('should not duplicate index entries when a sprint is archived again', async () => {
+      await archiveSprints('board-1', 2);
+      await archiveSprints('board-1', 2);
+
+      expect(await storageService.getHistoricalIndex('board-1')).toHaveLength(2);
+    });
+
+    it('should return every archived sprint of a board when no sprint IDs are given', async () => {
+      await archiveSprints('board-1', 3);
+
+      const history = await storageService.getHistoricalMetrics('board-1');
+
+      expect(history.map(h => h.sprintId)).toEqual(['sprint-3', 'sprint-2', 'sprint-1']);
+    });
+
+    it('should page through a board archive', async () => {
+      await archiveSprints('board-1', 5);
+
+      const firstPage = await storageService.listHistoricalMetrics('board-1', 0, 2);
+      const lastPage = await storageService.listHistoricalMetrics('board-1', 4, 2);
+
+      expect(firstPage.items.map(h => h.sprintId)).toEqual(['sprint-5', 'sprint-4']);
+      expect(firstPage.total).toBe(5);
+      expect(firstPage.hasMore).toBe(true);
+      expect(lastPage.items.map(h => h.sprintId)).toEqual(['sprint-1']);
+      expect(lastPage.hasMore).toBe(false);
+    });
+
+    it('should cap the page size', async () => {
+      const page = await storageService.listHistoricalMetrics('board-1', 0, 1000);
+
+      expect(page.limit).toBe(100);
+      expect(page.items).toHaveLength(0);
+    });
+  });
+
+  describe('board registry', () => {
+    const board = (boardId: string) => ({
+      boardId,
+      name: `Board ${boardId}`,
+      paused: false,
+      schedule: { frequency: 'daily' as const },
+      options: { forceRefresh: false, minReportAgeMinutes: 60 },
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    it('should not overwrite the registry when it cannot be read', async () => {
+      await storageService.saveMonitoredBoard(board('1'));
+      (storage.get as jest.Mock).mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      await expect(storageService.saveMonitoredBoard(board('2'))).rejects.toThrow('Storage unavailable');
+
+      (storage.get as jest.Mock).mockRejectedValueOnce(new Error('Storage unavailable'));
+      await expect(storageService.removeMonitoredBoard('1')).rejects.toThrow('Storage unavailable');
+
+      expect((await storageService.getMonitoredBoards()).map(b => b.boardId)).toEqual(['1']);
+    });
+  });
+
+  describe('team calendar', () => {
+    const calendar: TeamCalendar = {
+      timezone: 'Europe/Berlin',
+      workingDays: [1, 2, 3, 4, 5],
+      workingHours: { start: '09:00', end: '17:00' },
+      holidays: ['2024-12-25'],
+    };
+
+    it('should return null when a board has no team calendar', async () => {
+      expect(await storageService.getTeamCalendar('board-1')).toBeNull();
+    });
+
+    it('should save, replace and remove a board team calendar', async () => {
+      await storageService.saveTeamCalendar('board-1', calendar);
+      expect(await storageService.getTeamCalendar('board-1')).toEqual(calendar);
+      expect(await storageService.getTeamCalendar('board-2')).toBeNull();
+
+      await storageService.saveTeamCalendar('board-1', null);
+      expect(await storageService.getTeamCalendar('board-1')).toBeNull();
+    });
+  });
+
+  describe('risk timeline', () => {
+    const snapshot = (recordedAt: string, score: number) => ({
+      recordedAt,
+      level: 'Medium' as const,
+      score,
+      factors: [],
+      metrics: { completionRate: 50, velocity: 20, wipCount: 4, carryOverCount: 1, averagePRLatency: 12 },
+    });
+
+    it('should append snapshots per sprint, most recent first', async () => {
+      await storageService.recordRiskSnapshot('sprint-1', snapshot('2024-01-01T09:00:00.000Z', 30));
+      await storageService.recordRiskSnapshot('sprint-1', snapshot('2024-01-02T09:00:00.000Z', 50));
+
+      const snapshots = await storageService.getRiskSnapshots('sprint-1');
+      expect(snapshots.map(s => s.score)).toEqual([50, 30]);
+      expect(await storageService.getRiskSnapshots('sprint-2')).toEqual([]);
+    });
+  });
+
+  describe('notifications', () => {
+    const delivery = (sprintId: string, at: string) => ({
+      subscriptionId: 'slack',
+      sprintId,
+      level: 'High' as const,
+      status: 'sent' as const,
+      at,
+    });
+
+    it('should keep the delivery log most recent first', async () => {
+      await storageService.recordNotificationDeliveries('board-1', [delivery('1', '2024-01-01T09:00:00.000Z')]);
+      await storageService.recordNotificationDeliveries('board-1', [
+        delivery('2', '2024-01-02T09:00:00.000Z'),
+        delivery('3', '2024-01-02T09:00:00.000Z'),
+      ]);
+
+      const log = await storageService.getNotificationLog('board-1');
+      expect(log.map(entry => entry.sprintId)).toEqual(['3', '2', '1']);
+    });
+
+    it('should remove the deferred queue once it is empty', async () => {
+      const escalation = {
+        boardId: 'board-1',
+        sprintId: '1',
+        sprintName: 'Sprint 1',
+        previousLevel: 'Medium' as const,
+        previousScore: 40,
+        level: 'High' as const,
+        score: 70,
+        factors: [],
+        detectedAt: '2024-01-01T22:00:00.000Z',
+      };
+
+      await storageService.saveDeferredNotifications('board-1', [{ subscriptionId: 'slack', escalation }]);
+      expect(await storageService.getDeferredNotifications('board-1')).toHaveLength(1);
+
+      await storageService.saveDeferredNotifications('board-1', []);
+      expect(storage.delete).toHaveBeenCalledWith('notification_queue:board-1');
+      expect(await storageService.getDeferredNotifications('board-1')).toEqual([]);
+    });
+  });
+
+  describe('risk scoring overrides', () => {
+    it('should save and remove a board\'s scoring overrides', async () => {
+      expect(await storageService.getRiskScoringOverrides('board-1')).toBeNull();
+
+      await storageService.saveRiskScoringOverrides('board-1', { aggregation: 'noisy-or', weights: { DEPENDENCY: 2 } });
+      expect(await storageService.getRiskScoringOverrides('board-1')).toEqual({
+        aggregation: 'noisy-or',
+        weights: { DEPENDENCY: 2 },
+      });
+
+      await storageService.saveRiskScoringOverrides('board-1', null);
+      expect(await storageService.getRiskScoringOverrides('board-1')).toBeNull();
+    });
+  });
+
+  describe('epic forecasts', () => {
+    const snapshot = (sprintId: string, forecastCompletionDate: string) => ({
+      sprintId,
+      sprintName: `Sprint ${sprintId}`,
+      recordedAt: '2024-03-01T00:00:00.000Z',
+      remainingPoints: 20,
+      forecastCompletionDate,
+    });
+
+    it('should keep one forecast per sprint, most recent first', async () => {
+      await storageService.recordEpicForecast('EPIC-1', snapshot('1', '2024-04-01T00:00:00.000Z'));
+      await storageService.recordEpicForecast('EPIC-1', snapshot('2', '2024-04-15T00:00:00.000Z'));
+      await storageService.recordEpicForecast('EPIC-1', snapshot('2', '2024-04-29T00:00:00.000Z'));
+
+      const forecasts = await storageService.getEpicForecasts('EPIC-1');
+
+      expect(forecasts.map(forecast => forecast.sprintId)).toEqual(['2', '1']);
+      expect(forecasts[0].forecastCompletionDate).toBe('2024-04-29T00:00:00.000Z');
+      expect(await storageService.getEpicForecasts('EPIC-2')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { TrendAnalyzer } from '../TrendAnalyzer';
+import { HistoricalMetrics } from '../../types';
+
+describe('TrendAnalyzer', () => {
+  let analyzer: TrendAnalyzer;
+
+  const buildHistory = (
+    sprintId: string,
+    completedAt: string,
+    velocity: number,
+    cycleTime: number,
+    prLatency: number
+  ): HistoricalMetrics => ({
+    sprintId,
+    sprintName: `Sprint ${sprintId}`,
+    completedAt,
+    metrics: {
+      cycleTime,
+      leadTime: cycleTime * 2,
+      throughput: 5,
+      velocity,
+      wipCount: 2,
+      carryOverCount: 1,
+      completionRate: 80,
+    },
+    prMetrics: {
+      averageLatency: prLatency,
+      averageTimeToFirstReview: 2,
+      averageReviewCycles: 1.5,
+      averageRevisions: 1.2,
+    },
+  });
+
+  beforeEach(() => {
+    analyzer = new TrendAnalyzer();
+  });
+
+  describe('calculateStatistics', () => {
+    it('should calculate mean, median, standard deviation and slope', () => {
+      const stats = analyzer.calculateStatistics([10, 20, 30, 40]);
+
+      expect(stats.mean).toBe(25);
+      expect(stats.median).toBe(25);
+      expect(stats.stdDev).toBeCloseTo(12.91, 2);
+      expect(stats.slope).toBeCloseTo(10);
+      expect(stats.latest).toBe(40);
+      expect(stats.sampleSize).toBe(4);
+    });
+
+    it('should return zeros for an empty series', () => {
+      const stats = analyzer.calculateStatistics([]);
+
+      expect(stats).toEqual({ mean: 0, median: 0, stdDev: 0, slope: 0, latest: 0, sampleSize: 0 });
+    });
+
+    it('should return no spread or slope for a single value', () => {
+      const stats = analyzer.calculateStatistics([12]);
+
+      expect(stats.stdDev).toBe(0);
+      expect(stats.slope).toBe(0);
+      expect(stats.median).toBe(12);
+    });
+  });
+
+  describe('buildTrend', () => {
+    it('should return null without history', () => {
+      expect(analyzer.buildTrend([])).toBeNull();
+    });
+
+    it('should keep only the most recent sprints in the window', () => {
+      const history = [
+        buildHistory('1', '2024-01-14T00:00:00Z', 10, 5, 20),
+        buildHistory('3', '2024-02-11T00:00:00Z', 30, 5, 20),
+        buildHistory('2', '2024-01-28T00:00:00Z', 20, 5, 20),
+      ];
+
+      const trend = analyzer.buildTrend(history, 2);
+
+      expect(trend?.sprintCount).toBe(2);
+      expect(trend?.sprintIds).toEqual(['3', '2']);
+      expect(trend?.velocity.mean).toBe(25);
+      expect(trend?.velocity.latest).toBe(30);
+      expect(trend?.velocity.slope).toBeCloseTo(10);
+    });
+
+    it('should not let a single bad sprint dominate the median', () => {
+      const history = [
+        buildHistory('1', '2024-01-14T00:00:00Z', 30, 5, 20),
+        buildHistory('2', '2024-01-28T00:00:00Z', 32, 5, 20),
+        buildHistory('3', '2024-02-11T00:00:00Z', 4, 5, 20),
+      ];
+
+      const trend = analyzer.buildTrend(history);
+
+      expect(trend?.velocity.median).toBe(30);
+      expect(trend?.velocity.slope).toBeLessThan(0);
+    });
+
+    it('should exclude sprints without cycle time or PR data from those series', () => {
+      const history = [
+        buildHistory('1', '2024-01-14T00:00:00Z', 20, 4, 0),
+        buildHistory('2', '2024-01-28T00:00:00Z', 20, 0, 30),
+      ];
+
+      const trend = analyzer.buildTrend(history);
+
+      expect(trend?.cycleTime.sampleSize).toBe(1);
+      expect(trend?.cycleTime.mean).toBe(4);
+      expect(trend?.prLatency.sampleSize).toBe(1);
+      expect(trend?.prLatency.mean).toBe(30);
+      expect(trend?.velocity.sampleSize).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { WorkloadAnalyzer } from '../WorkloadAnalyzer';
+import { StatusClassifier } from '../StatusClassifier';
+import { IssueData, PullRequestData } from '../../types';
+
+describe('WorkloadAnalyzer', () => {
+  let analyzer: WorkloadAnalyzer;
+
+  const buildIssue = (
+    key: string,
+    assignee: string | null,
+    status: string,
+    storyPoints: number | null
+  ): IssueData => ({
+    id: key,
+    key,
+    summary: `Issue ${key}`,
+    assignee,
+    storyPoints,
+    status,
+    statusTransitions: [],
+    linkedPRs: [],
+  });
+
+  const buildPR = (
+    id: string,
+    author: string,
+    state: PullRequestData['state'],
+    reviewers: string[]
+  ): PullRequestData => ({
+    id,
+    title: `PR ${id}`,
+    author,
+    createdAt: '2024-01-02T10:00:00Z',
+    firstReviewAt: null,
+    mergedAt: null,
+    state,
+    reviewers: reviewers.map(username => ({ username, approvedAt: null, commentCount: 0 })),
+    revisionCount: 1,
+    linkedIssues: [],
+  });
+
+  beforeEach(() => {
+    analyzer = new WorkloadAnalyzer();
+  });
+
+  it('should count active issues and unfinished story points per assignee', () => {
+    const issues = [
+      buildIssue('PROJ-1', 'Alice', 'In Progress', 5),
+      buildIssue('PROJ-2', 'Alice', 'To Do', 3),
+      buildIssue('PROJ-3', 'Alice', 'Done', 8),
+      buildIssue('PROJ-4', 'Bob', 'In Review', null),
+      buildIssue('PROJ-5', null, 'In Progress', 2),
+    ];
+
+    const workload = analyzer.analyzeWorkload(issues, []);
+
+    expect(workload).toEqual([
+      { username: 'Alice', activeIssues: 1, storyPoints: 8, openPRs: 0, reviewingPRs: 0 },
+      { username: 'Bob', activeIssues: 1, storyPoints: 0, openPRs: 0, reviewingPRs: 0 },
+    ]);
+  });
+
+  it('should count open PRs authored and under review, ignoring merged PRs', () => {
+    const prs = [
+      buildPR('1', 'Alice', 'OPEN', ['Bob', 'Carol']),
+      buildPR('2', 'Alice', 'OPEN', ['Bob']),
+      buildPR('3', 'Bob', 'MERGED', ['Carol']),
+    ];
+
+    const workload = analyzer.analyzeWorkload([], prs);
+
+    expect(workload.find(w => w.username === 'Alice')).toMatchObject({ openPRs: 2, reviewingPRs: 0 });
+    expect(workload.find(w => w.username === 'Bob')).toMatchObject({ openPRs: 0, reviewingPRs: 2 });
+    expect(workload.find(w => w.username === 'Carol')).toMatchObject({ reviewingPRs: 1 });
+    expect(workload[0].username).toBe('Bob');
+  });
+
+  it('should use project-specific status mappings', () => {
+    analyzer.setStatusClassifier(new StatusClassifier({}, { 'QA Ready': 'indeterminate' }));
+
+    const workload = analyzer.analyzeWorkload([buildIssue('PROJ-1', 'Alice', 'QA Ready', 2)], []);
+
+    expect(workload[0].activeIssues).toBe(1);
+  });
+});
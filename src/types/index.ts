@@ -13,12 +13,48 @@ export interface SprintData {
   goal?: string;
 }
 
+// Jira status category keys: To Do (new), In Progress (indeterminate), Done (done)
+export type StatusCategory = 'new' | 'indeterminate' | 'done';
+
+// Per-project status name -> category overrides
+export type StatusCategoryOverrides = Record<string, StatusCategory>;
+
 export interface StatusTransition {
   fromStatus: string;
   toStatus: string;
   timestamp: string;
 }
 
+// An issue being added to or removed from a sprint (from the issue changelog)
+export interface SprintMembershipChange {
+  sprintId: string;
+  change: 'added' | 'removed';
+  timestamp: string;
+  author?: string;
+}
+
+export interface StoryPointChange {
+  from: number | null;
+  to: number | null;
+  timestamp: string;
+  author?: string;
+}
+
+// A sprint an issue belongs or belonged to (from the Sprint field)
+export interface IssueSprintReference {
+  id: string;
+  name: string;
+  state: 'active' | 'closed' | 'future';
+  startDate?: string;
+}
+
+// Changes to an issue parsed from its changelog
+export interface IssueChangelog {
+  statusTransitions: StatusTransition[];
+  sprintChanges: SprintMembershipChange[];
+  storyPointChanges: StoryPointChange[];
+}
+
 export interface IssueData {
   id: string;
   key: string;
@@ -26,8 +62,44 @@ export interface IssueData {
   assignee: string | null;
   storyPoints: number | null;
   status: string;
+  statusCategory?: StatusCategory;
   statusTransitions: StatusTransition[];
   linkedPRs: string[];
+  createdAt?: string;
+  sprintChanges?: SprintMembershipChange[];
+  storyPointChanges?: StoryPointChange[];
+  sprints?: IssueSprintReference[]; // every sprint the issue has been in, including the current one
+  blockedBy?: IssueBlocker[]; // issues linked to this one with "is blocked by"
+  links?: IssueLink[]; // blocking, related, parent and subtask links
+}
+
+// An issue that blocks another issue, as embedded in the Jira link
+export interface IssueBlocker {
+  issueKey: string;
+  summary: string;
+  status: string;
+  statusCategory?: StatusCategory;
+}
+
+// Relationship from the linking issue's point of view
+export type IssueLinkType = 'blocks' | 'is-blocked-by' | 'relates' | 'parent' | 'subtask';
+
+export interface IssueLink extends IssueBlocker {
+  type: IssueLinkType;
+}
+
+// Custom field IDs used for story points and sprint membership on a Jira site
+export interface JiraFieldMapping {
+  storyPoints: string | null; // e.g. customfield_10016
+  sprint: string | null; // e.g. customfield_10020
+  source: 'discovered' | 'override' | 'default';
+  resolvedAt: string;
+}
+
+// Admin-provided field IDs that replace discovered ones
+export interface JiraFieldMappingOverride {
+  storyPoints?: string;
+  sprint?: string;
 }
 
 // ============================================================================
@@ -53,6 +125,24 @@ export interface PullRequestData {
   linkedIssues: string[];
 }
 
+// ============================================================================
+// Calendar Types
+// ============================================================================
+
+// How durations (cycle time, PR latency, dwell time, ...) are measured
+export type DurationMode = 'wall-clock' | 'business-hours';
+
+// Working time of a team, configured per board
+export interface TeamCalendar {
+  timezone: string; // IANA time zone, e.g. "Europe/Berlin"
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  workingHours: {
+    start: string; // HH:mm local time
+    end: string; // HH:mm local time
+  };
+  holidays: string[]; // YYYY-MM-DD local dates
+}
+
 // ============================================================================
 // Metrics Types
 // ============================================================================
@@ -67,6 +157,16 @@ export interface SprintMetrics {
   completionRate: number; // percentage
 }
 
+// An unfinished issue carried into the sprint from earlier sprints
+export interface CarryOverIssue {
+  issueKey: string;
+  summary: string;
+  assignee: string | null;
+  storyPoints: number | null;
+  sprintsCarried: number; // number of earlier sprints the issue was in
+  previousSprints: string[]; // sprint names, oldest first
+}
+
 export interface PRMetrics {
   averageLatency: number; // hours from creation to merge
   averageTimeToFirstReview: number; // hours
@@ -80,6 +180,88 @@ export interface HistoricalMetrics {
   completedAt: string;
   metrics: SprintMetrics;
   prMetrics: PRMetrics;
+  boardId?: string; // board the sprint was archived under
+  archivedAt?: string;
+  cycleTimeSamples?: number[]; // cycle time in hours of each completed issue
+}
+
+// Board-level archive index entry (one per archived sprint)
+export interface HistoricalArchiveEntry {
+  sprintId: string;
+  sprintName: string;
+  completedAt: string;
+}
+
+export interface HistoricalMetricsPage {
+  items: HistoricalMetrics[]; // most recent first
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+export interface HistoricalBackfillResult {
+  boardId: string;
+  archivedSprints: string[];
+  skippedSprints: string[]; // already archived
+  errors: string[];
+}
+
+export interface TrendStatistics {
+  mean: number; // rolling mean over the trend window
+  median: number;
+  stdDev: number;
+  slope: number; // change per sprint, oldest to newest (least squares)
+  latest: number; // value for the most recent sprint
+  sampleSize: number; // sprints with data for this metric
+}
+
+export interface HistoricalTrend {
+  sprintCount: number;
+  sprintIds: string[]; // most recent first
+  velocity: TrendStatistics;
+  cycleTime: TrendStatistics;
+  prLatency: TrendStatistics;
+  completionRate: TrendStatistics;
+}
+
+// ============================================================================
+// Scope Change Types
+// ============================================================================
+
+// An issue added to or removed from a sprint after it started
+export interface ScopeChangeEvent {
+  issueKey: string;
+  summary: string;
+  change: 'added' | 'removed';
+  storyPoints: number | null;
+  timestamp: string;
+  author: string | null;
+}
+
+export interface ScopeChangeTotals {
+  addedIssues: number;
+  removedIssues: number;
+  addedPoints: number;
+  removedPoints: number;
+}
+
+export interface ScopeChangeDay extends ScopeChangeTotals {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface ScopeChangeAuthor extends ScopeChangeTotals {
+  author: string | null; // null if the changelog did not record who made the change
+}
+
+export interface ScopeChangeBreakdown extends ScopeChangeTotals {
+  committedIssues: number; // in the sprint when it started
+  committedPoints: number;
+  netPointChange: number;
+  addedPercentage: number; // added points as a percentage of committed points
+  events: ScopeChangeEvent[]; // oldest first
+  byDay: ScopeChangeDay[];
+  byAuthor: ScopeChangeAuthor[]; // most changed points first
 }
 
 // ============================================================================
@@ -88,10 +270,61 @@ export interface HistoricalMetrics {
 
 export type RiskLevel = 'Low' | 'Medium' | 'High';
 
+export type RiskFactorCategory =
+  'PR_DELAYS' | 'HIGH_WIP' | 'COMPLEXITY' | 'CARRYOVER' | 'BOTTLENECK' | 'SCOPE_CREEP' | 'DEPENDENCY';
+
+// A metric a risk factor compared with its threshold
+export interface RiskEvidenceMetric {
+  name: string; // e.g. "averageLatency"
+  value: number;
+  threshold: number;
+  unit: string; // e.g. "hours", "%", "issues"
+}
+
+// Why a risk factor was raised
+export interface RiskFactorEvidence {
+  metrics: RiskEvidenceMetric[];
+  issueKeys: string[]; // affected issues, most affected first
+  prIds: string[]; // affected pull requests, most affected first
+}
+
 export interface RiskFactor {
-  category: 'PR_DELAYS' | 'HIGH_WIP' | 'COMPLEXITY' | 'CARRYOVER' | 'BOTTLENECK';
+  category: RiskFactorCategory;
   severity: number; // 0-10
   description: string;
+  evidence?: RiskFactorEvidence;
+  contribution?: number; // points of the overall risk score (0-100) attributed to this factor
+}
+
+// How factor severities are combined into the overall risk score
+export type RiskAggregation = 'weighted-mean' | 'max' | 'noisy-or';
+
+export interface RiskThresholds {
+  lowRisk: number; // highest score classified as Low
+  mediumRisk: number; // highest score classified as Medium
+  highWip: number; // active issues per developer
+  lowCompletionRate: number; // percentage
+  reviewerOverload: number; // pending PRs per reviewer
+  prDelayMultiplier: number; // latency above the historical mean, e.g. 1.3 = 30% above
+  scopeCreep: number; // added points as percentage of committed points
+  chronicCarryOverSprints: number; // earlier sprints an issue was carried through
+  prLatencyHours: number; // wall-clock, without historical data
+  firstReviewHours: number; // wall-clock, without historical data
+  criticalPath: number; // issues in a chain of unresolved blockers
+}
+
+// Resolved risk scoring model
+export interface RiskScoringConfig {
+  aggregation: RiskAggregation;
+  weights: Record<RiskFactorCategory, number>; // 0 ignores the category
+  thresholds: RiskThresholds;
+}
+
+// Per-board changes to the default risk scoring model
+export interface RiskScoringOverrides {
+  aggregation?: RiskAggregation;
+  weights?: Partial<Record<RiskFactorCategory, number>>;
+  thresholds?: Partial<RiskThresholds>;
 }
 
 export interface RiskAssessment {
@@ -99,6 +332,42 @@ export interface RiskAssessment {
   score: number; // 0-100
   factors: RiskFactor[];
   justification: string;
+  config: RiskScoringConfig; // scoring model the assessment was made with
+}
+
+// ============================================================================
+// Risk Timeline Types
+// ============================================================================
+
+// Risk of a sprint as assessed by one analysis
+export interface RiskSnapshot {
+  recordedAt: string;
+  level: RiskLevel;
+  score: number;
+  factors: RiskFactor[]; // most severe first, without evidence
+  metrics: {
+    completionRate: number;
+    velocity: number;
+    wipCount: number;
+    carryOverCount: number;
+    averagePRLatency: number;
+  };
+}
+
+// Risk at the end of a day, from the day's last analysis
+export interface RiskTimelineDay {
+  date: string; // YYYY-MM-DD (UTC)
+  level: RiskLevel;
+  score: number;
+  minScore: number;
+  maxScore: number;
+  analyses: number;
+}
+
+export interface RiskTimeline {
+  sprintId: string;
+  snapshots: RiskSnapshot[]; // most recent first
+  days: RiskTimelineDay[]; // oldest first
 }
 
 // ============================================================================
@@ -124,6 +393,78 @@ export interface NextSprintSuggestions {
   tasksToInclude: string[];
   tasksToPostpone: string[];
   reviewerAssignments: ReviewerAssignment[];
+  capacity?: CapacityForecast; // present when the next sprint has a capacity plan
+}
+
+// ============================================================================
+// Dependency Types
+// ============================================================================
+
+export interface DependencyNode {
+  issueKey: string;
+  summary: string;
+  status: string;
+  storyPoints: number | null; // null for issues only known from a link
+  inSprint: boolean;
+  resolved: boolean;
+}
+
+// "from" blocks "to"
+export interface DependencyEdge {
+  from: string;
+  to: string;
+}
+
+// An unresolved issue outside the sprint that blocks sprint work
+export interface ExternalBlocker {
+  issueKey: string;
+  summary: string;
+  status: string;
+  blockedIssues: string[]; // unfinished sprint issues blocked directly or through a chain
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  criticalPath: string[]; // longest chain of unresolved blockers, first blocker first
+  criticalPathPoints: number; // story points of the unfinished sprint issues on the critical path
+  externalBlockers: ExternalBlocker[];
+  cycles: string[][]; // each cycle once, starting at its smallest issue key
+}
+
+// ============================================================================
+// Capacity Types
+// ============================================================================
+
+export interface TeamMemberCapacity {
+  name: string;
+  allocation: number; // percentage of time spent on sprint work (0-100)
+  daysOff: number; // PTO and other unavailable working days during the sprint
+}
+
+// Team availability for one sprint, stored per board
+export interface SprintCapacityPlan {
+  sprintId: string;
+  workingDays: number; // working days in the sprint
+  members: TeamMemberCapacity[];
+  updatedAt?: string;
+}
+
+export interface MemberAvailability {
+  name: string;
+  availableDays: number; // person-days after allocation and days off
+}
+
+export interface CapacityForecast {
+  sprintId: string;
+  sprintName?: string;
+  availablePersonDays: number;
+  nominalPersonDays: number; // every member fully allocated with no days off
+  focusFactor: number; // story points delivered per available person-day
+  focusFactorSource: 'capacity-history' | 'velocity-history';
+  basedOnSprints: number;
+  targetStoryPoints: number;
+  members: MemberAvailability[];
 }
 
 // ============================================================================
@@ -136,14 +477,192 @@ export interface SprintReport {
   riskAssessment: {
     level: RiskLevel;
     justification: string;
+    score?: number; // 0-100
+    factors?: RiskFactor[]; // most severe first
+    config?: RiskScoringConfig;
   };
   recommendations: Recommendation[];
   nextSprintSuggestions?: NextSprintSuggestions;
+  forecast?: CompletionForecast;
+  atRiskIssues?: AtRiskIssue[]; // predicted spillovers, most likely first (active sprints only)
+  burndown?: BurndownSeries;
+  scopeChanges?: ScopeChangeBreakdown;
+  carryOverIssues?: CarryOverIssue[]; // most sprints carried first
+  developerWorkload?: DeveloperWorkload[]; // most loaded first
+  dependencyGraph?: DependencyGraph;
+  historicalTrend?: HistoricalTrend; // trend across the board's past sprints
+  durationMode?: DurationMode; // how all durations in the report were measured
+  calendar?: TeamCalendar; // the calendar used in business-hours mode
   metrics: {
     sprint: SprintMetrics;
     pullRequests: PRMetrics;
   };
   generatedAt: string;
+  error?: string; // set on the placeholder report returned when analysis fails
+}
+
+// Optional analysis results attached to a report alongside the core sections
+export interface ReportInsights {
+  forecast?: CompletionForecast;
+  spilloverPredictions?: SpilloverPrediction[];
+  burndown?: BurndownSeries;
+  scopeChanges?: ScopeChangeBreakdown;
+  carryOverIssues?: CarryOverIssue[];
+  developerWorkload?: DeveloperWorkload[];
+  dependencyGraph?: DependencyGraph;
+  historicalTrend?: HistoricalTrend;
+  durationMode?: DurationMode;
+  calendar?: TeamCalendar;
+}
+
+export interface AtRiskIssue {
+  issueKey: string;
+  summary: string;
+  assignee: string | null;
+  storyPoints: number | null;
+  probability: number; // 0-1, chance of spilling over
+  reasons: string[];
+}
+
+// ============================================================================
+// Report Export Types
+// ============================================================================
+
+export type ReportExportFormat = 'markdown' | 'html' | 'csv';
+
+export interface RenderedReport {
+  format: ReportExportFormat;
+  content: string;
+  contentType: string; // MIME type for downloads
+  fileName: string;
+}
+
+// A tabular report section, shared by the Markdown, HTML and CSV renderings
+export interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: string[][];
+}
+
+// ============================================================================
+// Retrospective Publishing Types
+// ============================================================================
+
+// A retrospective page in Confluence storage format (XHTML)
+export interface RetrospectivePage {
+  title: string;
+  body: string;
+}
+
+export interface PublishedPage {
+  id: string;
+  title: string;
+  url: string;
+}
+
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+// Incoming webhook payload flavour: Slack Block Kit or Teams Adaptive Card
+export type WebhookFormat = 'slack' | 'teams';
+
+// An incoming webhook that receives a board's risk escalations
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  format: WebhookFormat;
+  minLevel: RiskLevel; // notify when risk rises to this level or above
+}
+
+// Time of day when notifications are held back until the next run
+export interface QuietHours {
+  timezone: string; // IANA time zone, e.g. "Europe/Berlin"
+  start: string; // HH:mm local time
+  end: string; // HH:mm local time, before start for overnight quiet hours
+}
+
+export interface NotificationSettings {
+  subscriptions: WebhookSubscription[];
+  quietHours?: QuietHours;
+}
+
+// A sprint's risk level rising between two analyses
+export interface RiskEscalation {
+  boardId: string;
+  sprintId: string;
+  sprintName: string;
+  previousLevel: RiskLevel | null; // null on the sprint's first analysis
+  previousScore: number | null;
+  level: RiskLevel;
+  score: number | null;
+  factors: RiskFactor[]; // most severe first
+  detectedAt: string;
+}
+
+// A notification held back by quiet hours
+export interface DeferredNotification {
+  subscriptionId: string;
+  escalation: RiskEscalation;
+}
+
+export interface NotificationDelivery {
+  subscriptionId: string;
+  sprintId: string;
+  level: RiskLevel;
+  status: 'sent' | 'failed' | 'duplicate' | 'deferred';
+  at: string;
+  error?: string;
+}
+
+// Posts a JSON body to a webhook URL
+export type WebhookPoster = (url: string, body: string) => Promise<{ ok: boolean; status: number }>;
+
+// ============================================================================
+// Spillover Action Types
+// ============================================================================
+
+// Opt-in Jira writes for a board's issues predicted to spill over
+export interface SpilloverActionSettings {
+  enabled: boolean; // false removes the labels and comments already added
+  threshold: number; // 0-1, act on issues whose spillover probability is at or above this
+  label: string; // e.g. "spillover-risk"
+  comment: boolean; // also comment with the prediction's reasons
+  dryRun: boolean; // record the intended writes without changing Jira
+}
+
+export type SpilloverActionType = 'add-label' | 'add-comment' | 'remove-label' | 'delete-comment';
+
+export interface SpilloverAction {
+  type: SpilloverActionType;
+  issueKey: string;
+  label?: string; // label to add or remove
+  comment?: string; // comment text to add
+  commentId?: string; // comment to delete
+}
+
+export interface SpilloverActionResult extends SpilloverAction {
+  status: 'applied' | 'planned' | 'failed'; // planned in dry-run mode
+  error?: string;
+}
+
+// The label and comment the app added to an issue of a board
+export interface SpilloverIssueMarker {
+  issueKey: string;
+  sprintId: string; // sprint whose analysis last found the issue at risk
+  label?: string;
+  commentId?: string;
+  probability: number; // when the issue was last marked
+  markedAt: string;
+}
+
+// One run of the action engine for a sprint, kept in the board's audit log
+export interface SpilloverActionRun {
+  sprintId: string;
+  ranAt: string;
+  dryRun: boolean;
+  threshold: number;
+  actions: SpilloverActionResult[];
 }
 
 // ============================================================================
@@ -160,10 +679,10 @@ export interface BottleneckInfo {
 
 export interface DeveloperWorkload {
   username: string;
-  activeIssues: number;
-  storyPoints: number;
-  openPRs: number;
-  reviewingPRs: number;
+  activeIssues: number; // assigned issues in an active status
+  storyPoints: number; // story points of unfinished assigned issues
+  openPRs: number; // open PRs authored
+  reviewingPRs: number; // open PRs with this developer as reviewer
 }
 
 export interface SpilloverPrediction {
@@ -171,3 +690,241 @@ export interface SpilloverPrediction {
   probability: number; // 0-1
   reasons: string[];
 }
+
+// ============================================================================
+// Burndown Types
+// ============================================================================
+
+// Sprint state at the end of one day; actual values are null for days not yet reached
+export interface BurndownPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  scopePoints: number | null;
+  completedPoints: number | null;
+  remainingPoints: number | null;
+  idealRemainingPoints: number;
+}
+
+export interface BurndownSeries {
+  startDate: string;
+  endDate: string;
+  initialScopePoints: number; // committed at sprint start
+  points: BurndownPoint[];
+}
+
+// ============================================================================
+// Forecast Types
+// ============================================================================
+
+export interface IssueFinishForecast {
+  issueKey: string;
+  finishProbability: number; // 0-1, chance of finishing by the sprint end date
+  p85FinishDate: string;
+}
+
+export interface CompletionForecast {
+  trials: number;
+  sampleSize: number; // historical cycle times sampled from
+  remainingIssues: number;
+  completionProbability: number; // 0-1, chance all remaining work finishes by the sprint end date
+  p50CompletionDate: string;
+  p85CompletionDate: string;
+  p95CompletionDate: string;
+  issues: IssueFinishForecast[]; // least likely to finish first
+}
+
+// ============================================================================
+// Epic Roll-up Types
+// ============================================================================
+
+export interface EpicProgress {
+  totalIssues: number;
+  completedIssues: number;
+  unestimatedIssues: number; // unfinished issues without story points
+  totalPoints: number;
+  completedPoints: number;
+  remainingPoints: number;
+  percentComplete: number; // by story points, 0-100
+}
+
+// Epic work completed in one sprint (issues count in the last sprint they were in)
+export interface EpicSprintProgress {
+  sprintId: string;
+  sprintName: string;
+  state: 'active' | 'closed' | 'future';
+  startDate?: string;
+  completedIssues: number;
+  completedPoints: number;
+}
+
+export interface EpicForecast {
+  velocity: number; // epic story points completed per sprint
+  velocitySource: 'epic-history' | 'team-velocity';
+  basedOnSprints: number;
+  remainingSprints: number; // including the active sprint, if any
+  sprintLengthDays: number;
+  forecastCompletionDate: string;
+}
+
+// Forecast recorded once per sprint to detect slippage
+export interface EpicForecastSnapshot {
+  sprintId: string;
+  sprintName: string;
+  recordedAt: string;
+  remainingPoints: number;
+  forecastCompletionDate: string | null;
+}
+
+export interface EpicSlippage {
+  previousSprintName: string;
+  previousForecastDate: string | null;
+  slippedDays: number; // positive when the forecast moved later
+  consecutiveSlips: number; // sprints in a row the forecast moved later, including this one
+}
+
+export interface EpicRollup {
+  epicKey: string;
+  epicName: string;
+  progress: EpicProgress;
+  sprints: EpicSprintProgress[]; // oldest first
+  forecast: EpicForecast | null; // null when there is no velocity to forecast with
+  slippage: EpicSlippage | null; // null without a forecast from an earlier sprint
+}
+
+// Shaped like SprintReport so the same views can render it
+export interface EpicReport {
+  epicKey: string;
+  epicName: string;
+  summary: string;
+  keyFindings: string[];
+  riskAssessment: {
+    level: RiskLevel;
+    justification: string;
+  };
+  recommendations: Recommendation[];
+  progress: EpicProgress;
+  sprints: EpicSprintProgress[];
+  forecast: EpicForecast | null;
+  slippage: EpicSlippage | null;
+  generatedAt: string;
+}
+
+// ============================================================================
+// Sprint Comparison Types
+// ============================================================================
+
+export interface MetricDelta {
+  metric: keyof SprintMetrics | keyof PRMetrics;
+  base: number;
+  target: number;
+  change: number; // target - base
+  percentChange: number | null; // null when the base value is 0
+}
+
+export interface RiskFactorChange {
+  category: RiskFactorCategory;
+  change: 'new' | 'resolved' | 'worse' | 'better' | 'unchanged';
+  baseSeverity: number | null; // null if the factor was not raised in the base sprint
+  targetSeverity: number | null; // null if the factor was not raised in the target sprint
+  description: string; // from the target sprint, or the base sprint if resolved
+}
+
+// An issue that was in both compared sprints
+export interface CarriedIssue {
+  issueKey: string;
+  summary: string;
+  storyPoints: number | null;
+  status: string;
+  completed: boolean;
+}
+
+// A sprint with its report and issues, as compared
+export interface ComparedSprint {
+  sprint: SprintData;
+  report: SprintReport;
+  issues: IssueData[];
+}
+
+export interface SprintComparison {
+  baseSprint: SprintData;
+  targetSprint: SprintData;
+  metricDeltas: MetricDelta[];
+  risk: {
+    baseLevel: RiskLevel;
+    baseScore: number | null;
+    targetLevel: RiskLevel;
+    targetScore: number | null;
+  };
+  riskFactorChanges: RiskFactorChange[]; // new and worse first
+  carriedIssues: CarriedIssue[]; // unfinished first
+}
+
+export interface SprintComparisonReport extends SprintComparison {
+  narrative: string;
+  generatedAt: string;
+}
+
+// ============================================================================
+// Board Monitoring Types
+// ============================================================================
+
+// Whose permissions Jira and Bitbucket reads run with: the requesting user's,
+// or the app's in scheduled runs, which have no user
+export type ApiContext = 'user' | 'app';
+
+export type BoardScheduleFrequency = 'daily' | 'weekdays' | 'weekly';
+
+export interface BoardSchedule {
+  frequency: BoardScheduleFrequency;
+  dayOfWeek?: number; // 0 (Sunday) - 6 (Saturday), only used for weekly schedules
+}
+
+export interface MonitoredBoardOptions {
+  forceRefresh: boolean;
+  minReportAgeMinutes: number; // skip sprints analyzed more recently than this
+}
+
+export interface BoardRunOutcome {
+  runAt: string;
+  status: 'success' | 'partial' | 'failed' | 'skipped';
+  analyzedSprints: string[];
+  skippedSprints: string[];
+  errors: string[];
+}
+
+export interface MonitoredBoard {
+  boardId: string;
+  name: string;
+  paused: boolean;
+  schedule: BoardSchedule;
+  options: MonitoredBoardOptions;
+  createdAt: string;
+  updatedAt: string;
+  lastRun?: BoardRunOutcome;
+}
+
+// ============================================================================
+// Portfolio Types
+// ============================================================================
+
+// One row of the portfolio table: the active sprint of a monitored board
+export interface PortfolioBoardSummary {
+  boardId: string;
+  boardName: string;
+  status: 'analyzed' | 'no-active-sprint' | 'failed';
+  sprintId?: string;
+  sprintName?: string;
+  riskLevel?: RiskLevel;
+  riskScore?: number;
+  completionRate?: number;
+  velocity?: number;
+  trendVelocity?: number | null; // median velocity of the board's past sprints
+  velocityChange?: number | null; // percentage above (+) or below (-) the trend
+  topRiskFactor?: RiskFactor | null;
+  reportGeneratedAt?: string;
+  error?: string;
+}
+
+export interface PortfolioReport {
+  generatedAt: string;
+  boards: PortfolioBoardSummary[]; // highest risk first
+}
@@ -1,4 +1,5 @@
 // Utility helper functions
+import { IssueData } from '../types';
 
 /**
  * Calculate the difference in hours between two dates
@@ -16,6 +17,30 @@ export function calculateDaysDifference(startDate: string, endDate: string): num
   return calculateHoursDifference(startDate, endDate) / 24;
 }
 
+/**
+ * Check if an issue belonged to a sprint at a point in time (in milliseconds),
+ * replaying its Sprint field history. Issues without history for the sprint are
+ * treated as members from their creation.
+ */
+export function isInSprintAt(issue: IssueData, sprintId: string, time: number): boolean {
+  if (issue.createdAt && new Date(issue.createdAt).getTime() > time) {
+    return false;
+  }
+
+  const changes = (issue.sprintChanges || []).filter(change => change.sprintId === sprintId);
+
+  if (changes.length === 0) {
+    return true;
+  }
+
+  const lastChange = [...changes]
+    .reverse()
+    .find(change => new Date(change.timestamp).getTime() <= time);
+
+  // Before its first membership change the issue was in the sprint only if it was later removed
+  return lastChange ? lastChange.change === 'added' : changes[0].change === 'removed';
+}
+
 /**
  * Format a date to ISO string
  */
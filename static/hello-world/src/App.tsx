@@ -2,6 +2,8 @@ import React from 'react';
 import '@atlaskit/css-reset';
 import { SprintAnalysisPage } from './components/SprintAnalysisPage';
 import { IssuePanel } from './components/IssuePanel';
+import { PortfolioPage } from './components/PortfolioPage';
+import { SprintReportMacro } from './components/SprintReportMacro';
 
 interface AppProps {
   context: any;
@@ -15,6 +17,14 @@ const App: React.FC<AppProps> = ({ context }) => {
     return <IssuePanel context={context} />;
   }
 
+  if (moduleKey === 'sprint-portfolio-page') {
+    return <PortfolioPage context={context} />;
+  }
+
+  if (moduleKey === 'sprint-report-macro') {
+    return <SprintReportMacro context={context} />;
+  }
+
   // Default to Sprint Analysis Page
   return <SprintAnalysisPage context={context} />;
 };
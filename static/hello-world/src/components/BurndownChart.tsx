@@ -0,0 +1,102 @@
+import React from 'react';
+
+export interface BurndownPoint {
+  date: string;
+  scopePoints: number | null;
+  completedPoints: number | null;
+  remainingPoints: number | null;
+  idealRemainingPoints: number;
+}
+
+interface BurndownChartProps {
+  points: BurndownPoint[];
+  width?: number;
+  height?: number;
+}
+
+interface Series {
+  label: string;
+  color: string;
+  dashed?: boolean;
+  values: Array<number | null>;
+}
+
+const PADDING = { top: 10, right: 10, bottom: 30, left: 40 };
+
+export const BurndownChart: React.FC<BurndownChartProps> = ({ points, width = 640, height = 240 }) => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const series: Series[] = [
+    { label: 'Ideal', color: '#97A0AF', dashed: true, values: points.map(p => p.idealRemainingPoints) },
+    { label: 'Remaining', color: '#0052CC', values: points.map(p => p.remainingPoints) },
+    { label: 'Completed', color: '#36B37E', values: points.map(p => p.completedPoints) },
+    { label: 'Scope', color: '#6554C0', values: points.map(p => p.scopePoints) },
+  ];
+
+  const maxValue = Math.max(
+    1,
+    ...series.flatMap(s => s.values.filter((v): v is number => v !== null))
+  );
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (points.length > 1 ? (index / (points.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+
+  const toPolyline = (values: Array<number | null>) =>
+    values
+      .map((value, index) => (value === null ? null : `${x(index)},${y(value)}`))
+      .filter(Boolean)
+      .join(' ');
+
+  // Label roughly every fifth day so dates do not overlap
+  const labelEvery = Math.max(1, Math.ceil(points.length / 5));
+
+  return (
+    <div>
+      <svg width={width} height={height} role="img" aria-label="Sprint burndown and burnup chart">
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + plotHeight} stroke="#DFE1E6" />
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top + plotHeight}
+          x2={PADDING.left + plotWidth}
+          y2={PADDING.top + plotHeight}
+          stroke="#DFE1E6"
+        />
+        <text x={PADDING.left - 6} y={PADDING.top + 4} fontSize="10" textAnchor="end">{maxValue}</text>
+        <text x={PADDING.left - 6} y={PADDING.top + plotHeight} fontSize="10" textAnchor="end">0</text>
+
+        {points.map((point, index) =>
+          index % labelEvery === 0 || index === points.length - 1 ? (
+            <text key={point.date} x={x(index)} y={height - 10} fontSize="10" textAnchor="middle">
+              {point.date.slice(5)}
+            </text>
+          ) : null
+        )}
+
+        {series.map(s => (
+          <polyline
+            key={s.label}
+            points={toPolyline(s.values)}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            strokeDasharray={s.dashed ? '4 4' : undefined}
+          />
+        ))}
+      </svg>
+
+      <div style={{ display: 'flex', gap: '16px', fontSize: '12px' }}>
+        {series.map(s => (
+          <span key={s.label}>
+            <span style={{ display: 'inline-block', width: '12px', height: '2px', backgroundColor: s.color, verticalAlign: 'middle', marginRight: '4px' }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -15,6 +15,11 @@ interface SprintReport {
     title: string;
     impact: string;
   }>;
+  atRiskIssues?: Array<{
+    issueKey: string;
+    probability: number;
+    reasons: string[];
+  }>;
   metrics: {
     sprint: {
       completionRate: number;
@@ -107,6 +112,11 @@ export const IssuePanel: React.FC<IssuePanelProps> = ({ context }) => {
   }
 
   const topRecommendations = report.recommendations.slice(0, 3);
+  const currentIssueKey = context?.extension?.issue?.key;
+  const currentIssueRisk = report.atRiskIssues?.find(issue => issue.issueKey === currentIssueKey);
+  const otherAtRiskIssues = (report.atRiskIssues || [])
+    .filter(issue => issue.issueKey !== currentIssueKey)
+    .slice(0, 3);
 
   return (
     <div style={{ padding: '16px' }}>
@@ -127,6 +137,31 @@ export const IssuePanel: React.FC<IssuePanelProps> = ({ context }) => {
         </div>
       </div>
 
+      {currentIssueRisk && (
+        <div style={{ marginBottom: '12px' }}>
+          <SectionMessage appearance="warning" title={`${(currentIssueRisk.probability * 100).toFixed(0)}% risk of spilling over`}>
+            <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '13px' }}>
+              {currentIssueRisk.reasons.map((reason, index) => (
+                <li key={index}>{reason}</li>
+              ))}
+            </ul>
+          </SectionMessage>
+        </div>
+      )}
+
+      {otherAtRiskIssues.length > 0 && (
+        <div style={{ marginBottom: '12px' }}>
+          <strong style={{ fontSize: '14px' }}>At-Risk Issues:</strong>
+          <ul style={{ marginTop: '8px', paddingLeft: '20px', fontSize: '13px' }}>
+            {otherAtRiskIssues.map((issue) => (
+              <li key={issue.issueKey} style={{ marginBottom: '4px' }}>
+                {issue.issueKey} ({(issue.probability * 100).toFixed(0)}%)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {topRecommendations.length > 0 && (
         <div>
           <strong style={{ fontSize: '14px' }}>Top Recommendations:</strong>
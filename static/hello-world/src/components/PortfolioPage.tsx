@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { invoke } from '@forge/bridge';
+import Button from '@atlaskit/button';
+import Lozenge from '@atlaskit/lozenge';
+import Spinner from '@atlaskit/spinner';
+import SectionMessage from '@atlaskit/section-message';
+
+interface PortfolioBoardSummary {
+  boardId: string;
+  boardName: string;
+  status: 'analyzed' | 'no-active-sprint' | 'failed';
+  sprintName?: string;
+  riskLevel?: 'Low' | 'Medium' | 'High';
+  completionRate?: number;
+  velocity?: number;
+  trendVelocity?: number | null;
+  velocityChange?: number | null;
+  topRiskFactor?: {
+    category: string;
+    severity: number;
+    description: string;
+  } | null;
+  error?: string;
+}
+
+interface PortfolioReport {
+  generatedAt: string;
+  boards: PortfolioBoardSummary[];
+}
+
+interface PortfolioPageProps {
+  context: any;
+}
+
+export const PortfolioPage: React.FC<PortfolioPageProps> = () => {
+  const [portfolio, setPortfolio] = useState<PortfolioReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPortfolio(false);
+  }, []);
+
+  const loadPortfolio = async (forceRefresh: boolean) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await invoke('getPortfolioHandler', { forceRefresh }) as any;
+
+      if (result.success) {
+        setPortfolio(result.portfolio);
+      } else {
+        setError(result.error || 'Failed to load portfolio');
+      }
+    } catch (err) {
+      setError(`Failed to load portfolio: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRiskAppearance = (level?: string) => {
+    switch (level) {
+      case 'Low': return 'success';
+      case 'Medium': return 'default';
+      case 'High': return 'removed';
+      default: return 'default';
+    }
+  };
+
+  const formatVelocity = (board: PortfolioBoardSummary) => {
+    if (board.velocity === undefined) {
+      return '-';
+    }
+    if (board.trendVelocity == null || board.velocityChange == null) {
+      return `${board.velocity}`;
+    }
+    const sign = board.velocityChange >= 0 ? '+' : '';
+    return `${board.velocity} vs ${board.trendVelocity.toFixed(0)} (${sign}${board.velocityChange.toFixed(0)}%)`;
+  };
+
+  return (
+    <div style={{ padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+      <h2>Sprint Portfolio</h2>
+      <p>Active sprints of every monitored board, highest risk first.</p>
+
+      <Button
+        onClick={() => loadPortfolio(true)}
+        isDisabled={loading}
+        appearance="primary"
+      >
+        {loading ? 'Analyzing...' : 'Refresh All Boards'}
+      </Button>
+
+      {error && (
+        <div style={{ marginTop: '20px' }}>
+          <SectionMessage appearance="error" title="Error">
+            <p>{error}</p>
+          </SectionMessage>
+        </div>
+      )}
+
+      {loading && (
+        <div style={{ marginTop: '20px', textAlign: 'center' }}>
+          <Spinner size="large" />
+          <p>Analyzing boards...</p>
+        </div>
+      )}
+
+      {portfolio && !loading && (
+        <div style={{ marginTop: '30px' }}>
+          {portfolio.boards.length === 0 ? (
+            <p>No boards are monitored yet. Register boards with addMonitoredBoardHandler.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                  <th style={{ padding: '8px' }}>Board</th>
+                  <th style={{ padding: '8px' }}>Sprint</th>
+                  <th style={{ padding: '8px' }}>Risk</th>
+                  <th style={{ padding: '8px' }}>Completion</th>
+                  <th style={{ padding: '8px' }}>Velocity vs Trend</th>
+                  <th style={{ padding: '8px' }}>Top Risk Factor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {portfolio.boards.map((board) => (
+                  <tr key={board.boardId} style={{ borderBottom: '1px solid #ddd' }}>
+                    <td style={{ padding: '8px' }}><strong>{board.boardName}</strong></td>
+                    {board.status === 'analyzed' ? (
+                      <>
+                        <td style={{ padding: '8px' }}>{board.sprintName}</td>
+                        <td style={{ padding: '8px' }}>
+                          <Lozenge appearance={getRiskAppearance(board.riskLevel)}>
+                            {board.riskLevel}
+                          </Lozenge>
+                        </td>
+                        <td style={{ padding: '8px' }}>{board.completionRate?.toFixed(0)}%</td>
+                        <td style={{ padding: '8px' }}>{formatVelocity(board)}</td>
+                        <td style={{ padding: '8px' }}>
+                          {board.topRiskFactor ? board.topRiskFactor.description : 'None'}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={5} style={{ padding: '8px', color: '#6b778c' }}>
+                        {board.status === 'failed'
+                          ? `Analysis failed: ${board.error}`
+                          : 'No active sprint'}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p style={{ marginTop: '10px', fontSize: '12px', color: '#6b778c' }}>
+            Generated {new Date(portfolio.generatedAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
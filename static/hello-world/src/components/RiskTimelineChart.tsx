@@ -0,0 +1,111 @@
+import React from 'react';
+
+export interface RiskTimelineDay {
+  date: string;
+  level: 'Low' | 'Medium' | 'High';
+  score: number;
+  minScore: number;
+  maxScore: number;
+  analyses: number;
+}
+
+interface RiskTimelineChartProps {
+  days: RiskTimelineDay[];
+  lowRiskThreshold?: number;
+  mediumRiskThreshold?: number;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 10, right: 10, bottom: 30, left: 40 };
+
+const LEVEL_COLORS = { Low: '#36B37E', Medium: '#FFAB00', High: '#DE350B' };
+
+export const RiskTimelineChart: React.FC<RiskTimelineChartProps> = ({
+  days,
+  lowRiskThreshold = 33,
+  mediumRiskThreshold = 66,
+  width = 640,
+  height = 200,
+}) => {
+  if (days.length === 0) {
+    return null;
+  }
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (index: number) =>
+    PADDING.left + (days.length > 1 ? (index / (days.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (score: number) => PADDING.top + plotHeight - (score / 100) * plotHeight;
+
+  // Label roughly every fifth day so dates do not overlap
+  const labelEvery = Math.max(1, Math.ceil(days.length / 5));
+
+  return (
+    <div>
+      <svg width={width} height={height} role="img" aria-label="Sprint risk score by day">
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + plotHeight} stroke="#DFE1E6" />
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top + plotHeight}
+          x2={PADDING.left + plotWidth}
+          y2={PADDING.top + plotHeight}
+          stroke="#DFE1E6"
+        />
+        <text x={PADDING.left - 6} y={PADDING.top + 4} fontSize="10" textAnchor="end">100</text>
+        <text x={PADDING.left - 6} y={PADDING.top + plotHeight} fontSize="10" textAnchor="end">0</text>
+
+        {[lowRiskThreshold, mediumRiskThreshold].map(threshold => (
+          <line
+            key={threshold}
+            x1={PADDING.left}
+            y1={y(threshold)}
+            x2={PADDING.left + plotWidth}
+            y2={y(threshold)}
+            stroke="#97A0AF"
+            strokeDasharray="4 4"
+          />
+        ))}
+
+        {days.map((day, index) =>
+          index % labelEvery === 0 || index === days.length - 1 ? (
+            <text key={day.date} x={x(index)} y={height - 10} fontSize="10" textAnchor="middle">
+              {day.date.slice(5)}
+            </text>
+          ) : null
+        )}
+
+        <polyline
+          points={days.map((day, index) => `${x(index)},${y(day.score)}`).join(' ')}
+          fill="none"
+          stroke="#0052CC"
+          strokeWidth={2}
+        />
+
+        {days.map((day, index) => (
+          <g key={day.date}>
+            {day.maxScore > day.minScore && (
+              <line x1={x(index)} y1={y(day.minScore)} x2={x(index)} y2={y(day.maxScore)} stroke="#B3D4FF" strokeWidth={4} />
+            )}
+            <circle cx={x(index)} cy={y(day.score)} r={4} fill={LEVEL_COLORS[day.level]}>
+              <title>
+                {`${day.date}: ${day.level} (${day.score}), ${day.analyses} analysis(es)`}
+              </title>
+            </circle>
+          </g>
+        ))}
+      </svg>
+
+      <div style={{ display: 'flex', gap: '16px', fontSize: '12px' }}>
+        {(Object.keys(LEVEL_COLORS) as Array<keyof typeof LEVEL_COLORS>).map(level => (
+          <span key={level}>
+            <span style={{ display: 'inline-block', width: '8px', height: '8px', borderRadius: '4px', backgroundColor: LEVEL_COLORS[level], verticalAlign: 'middle', marginRight: '4px' }} />
+            {level}
+          </span>
+        ))}
+        <span>Dashed lines: risk level thresholds</span>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { invoke, view } from '@forge/bridge';
+import { invoke, view, router } from '@forge/bridge';
 import Button from '@atlaskit/button';
 import Select from '@atlaskit/select';
 import Lozenge from '@atlaskit/lozenge';
 import Spinner from '@atlaskit/spinner';
 import SectionMessage from '@atlaskit/section-message';
 import { JiraApiService } from '../services/JiraApiService';
+import { BurndownChart, BurndownPoint } from './BurndownChart';
+import { RiskTimelineChart, RiskTimelineDay } from './RiskTimelineChart';
+import { SprintComparisonView } from './SprintComparisonView';
 
 interface SprintOption {
   label: string;
@@ -18,6 +21,21 @@ interface SprintReport {
   riskAssessment: {
     level: 'Low' | 'Medium' | 'High';
     justification: string;
+    score?: number;
+    config?: {
+      thresholds: { lowRisk: number; mediumRisk: number };
+    };
+    factors?: Array<{
+      category: string;
+      severity: number;
+      description: string;
+      contribution?: number;
+      evidence?: {
+        metrics: Array<{ name: string; value: number; threshold: number; unit: string }>;
+        issueKeys: string[];
+        prIds: string[];
+      };
+    }>;
   };
   recommendations: Array<{
     priority: number;
@@ -30,6 +48,103 @@ interface SprintReport {
     targetStoryPoints: number;
     tasksToInclude: string[];
     tasksToPostpone: string[];
+    capacity?: {
+      sprintId: string;
+      sprintName?: string;
+      availablePersonDays: number;
+      nominalPersonDays: number;
+      focusFactor: number;
+      focusFactorSource: 'capacity-history' | 'velocity-history';
+      basedOnSprints: number;
+      targetStoryPoints: number;
+      members: Array<{ name: string; availableDays: number }>;
+    };
+  };
+  forecast?: {
+    trials: number;
+    sampleSize: number;
+    remainingIssues: number;
+    completionProbability: number;
+    p50CompletionDate: string;
+    p85CompletionDate: string;
+    p95CompletionDate: string;
+    issues: Array<{
+      issueKey: string;
+      finishProbability: number;
+      p85FinishDate: string;
+    }>;
+  };
+  atRiskIssues?: Array<{
+    issueKey: string;
+    summary: string;
+    assignee: string | null;
+    storyPoints: number | null;
+    probability: number;
+    reasons: string[];
+  }>;
+  burndown?: {
+    startDate: string;
+    endDate: string;
+    initialScopePoints: number;
+    points: BurndownPoint[];
+  };
+  scopeChanges?: {
+    committedIssues: number;
+    committedPoints: number;
+    addedIssues: number;
+    removedIssues: number;
+    addedPoints: number;
+    removedPoints: number;
+    netPointChange: number;
+    addedPercentage: number;
+    events: Array<{
+      issueKey: string;
+      summary: string;
+      change: 'added' | 'removed';
+      storyPoints: number | null;
+      timestamp: string;
+      author: string | null;
+    }>;
+    byAuthor: Array<{
+      author: string | null;
+      addedIssues: number;
+      removedIssues: number;
+      addedPoints: number;
+      removedPoints: number;
+    }>;
+  };
+  carryOverIssues?: Array<{
+    issueKey: string;
+    summary: string;
+    assignee: string | null;
+    storyPoints: number | null;
+    sprintsCarried: number;
+    previousSprints: string[];
+  }>;
+  developerWorkload?: Array<{
+    username: string;
+    activeIssues: number;
+    storyPoints: number;
+    openPRs: number;
+    reviewingPRs: number;
+  }>;
+  dependencyGraph?: {
+    criticalPath: string[];
+    criticalPathPoints: number;
+    externalBlockers: Array<{
+      issueKey: string;
+      summary: string;
+      status: string;
+      blockedIssues: string[];
+    }>;
+    cycles: string[][];
+  };
+  durationMode?: 'wall-clock' | 'business-hours';
+  calendar?: {
+    timezone: string;
+    workingDays: number[];
+    workingHours: { start: string; end: string };
+    holidays: string[];
   };
   metrics: {
     sprint: {
@@ -51,6 +166,12 @@ interface SprintReport {
   generatedAt: string;
 }
 
+const EXPORT_FORMATS: SprintOption[] = [
+  { label: 'Markdown', value: 'markdown' },
+  { label: 'HTML', value: 'html' },
+  { label: 'CSV', value: 'csv' },
+];
+
 interface SprintAnalysisPageProps {
   context: any;
 }
@@ -59,9 +180,12 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
   const [sprints, setSprints] = useState<SprintOption[]>([]);
   const [selectedSprint, setSelectedSprint] = useState<SprintOption | null>(null);
   const [report, setReport] = useState<SprintReport | null>(null);
+  const [riskTimeline, setRiskTimeline] = useState<RiskTimelineDay[]>([]);
   const [loading, setLoading] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<SprintOption>(EXPORT_FORMATS[0]);
+  const [exporting, setExporting] = useState(false);
   const [jiraService] = useState(() => new JiraApiService());
 
   useEffect(() => {
@@ -105,6 +229,7 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
       
       if (result.success) {
         setReport(result.report);
+        loadRiskTimeline(sprintId);
       } else {
         setError(result.error || 'Failed to analyze sprint');
       }
@@ -116,6 +241,51 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
     }
   };
 
+  const loadRiskTimeline = async (sprintId: string) => {
+    try {
+      const result = await invoke('getRiskTimelineHandler', { sprintId }) as any;
+      setRiskTimeline(result.success ? result.timeline.days : []);
+    } catch (err) {
+      // The timeline is optional; the report is still shown
+      console.error(err);
+      setRiskTimeline([]);
+    }
+  };
+
+  const downloadReport = async () => {
+    if (!selectedSprint) {
+      return;
+    }
+
+    try {
+      setExporting(true);
+      const result = await invoke('exportReportHandler', {
+        sprintId: selectedSprint.value,
+        format: exportFormat.value,
+        sprintName: selectedSprint.label,
+      }) as any;
+
+      if (!result.success) {
+        setError(result.error || 'Failed to export report');
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([result.content], { type: result.contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(`Failed to export report: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleSprintChange = (option: SprintOption | null) => {
     setSelectedSprint(option);
     if (option) {
@@ -138,6 +308,8 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
     }
   };
 
+  const durationUnit = report?.durationMode === 'business-hours' ? 'business hours' : 'hours';
+
   if (loading && !report) {
     return (
       <div style={{ padding: '20px', textAlign: 'center' }}>
@@ -199,6 +371,19 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
         {analyzing ? 'Analyzing...' : 'Refresh Analysis'}
       </Button>
       {' '}
+      <div style={{ display: 'inline-block', width: '140px', verticalAlign: 'middle' }}>
+        <Select
+          options={EXPORT_FORMATS}
+          value={exportFormat}
+          onChange={(option: SprintOption | null) => option && setExportFormat(option)}
+          isDisabled={exporting}
+        />
+      </div>
+      {' '}
+      <Button onClick={downloadReport} isDisabled={exporting || analyzing || !report}>
+        {exporting ? 'Exporting...' : 'Download Report'}
+      </Button>
+      {' '}
       <Button
         onClick={async () => {
           const result = await invoke('testJiraAccess', {}) as any;
@@ -236,6 +421,305 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
           </div>
           <p>{report.riskAssessment.justification}</p>
 
+          {riskTimeline.length > 1 && (
+            <>
+              <h4 style={{ marginTop: '10px' }}>Risk by Day</h4>
+              <RiskTimelineChart
+                days={riskTimeline}
+                lowRiskThreshold={report.riskAssessment.config?.thresholds.lowRisk}
+                mediumRiskThreshold={report.riskAssessment.config?.thresholds.mediumRisk}
+              />
+            </>
+          )}
+
+          {report.riskAssessment.factors && report.riskAssessment.factors.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+              <thead>
+                <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                  <th style={{ padding: '8px' }}>Risk Factor</th>
+                  <th style={{ padding: '8px' }}>Score</th>
+                  <th style={{ padding: '8px' }}>Evidence</th>
+                  <th style={{ padding: '8px' }}>Affected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.riskAssessment.factors.map((factor) => (
+                  <tr key={factor.category} style={{ borderBottom: '1px solid #ddd', verticalAlign: 'top' }}>
+                    <td style={{ padding: '8px' }}>
+                      <strong>{factor.category}</strong> (severity {factor.severity}/10)<br />
+                      {factor.description}
+                    </td>
+                    <td style={{ padding: '8px' }}>
+                      {factor.contribution !== undefined ? `+${factor.contribution.toFixed(0)}` : '-'}
+                    </td>
+                    <td style={{ padding: '8px' }}>
+                      {factor.evidence?.metrics.map((metric) => (
+                        <div key={metric.name}>
+                          {metric.name}: {metric.value.toFixed(1)} {metric.unit} (threshold {metric.threshold.toFixed(1)})
+                        </div>
+                      ))}
+                    </td>
+                    <td style={{ padding: '8px' }}>
+                      {factor.evidence?.issueKeys.slice(0, 10).map((issueKey) => (
+                        <span key={issueKey} style={{ marginRight: '8px' }}>
+                          <Button
+                            appearance="link"
+                            spacing="none"
+                            onClick={() => router.open(`/browse/${issueKey}`)}
+                          >
+                            {issueKey}
+                          </Button>
+                        </span>
+                      ))}
+                      {factor.evidence && factor.evidence.issueKeys.length > 10 && (
+                        <span> and {factor.evidence.issueKeys.length - 10} more</span>
+                      )}
+                      {factor.evidence && factor.evidence.prIds.length > 0 && (
+                        <div>PRs: {factor.evidence.prIds.join(', ')}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {report.burndown && report.burndown.points.length > 0 && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>Burndown</h3>
+              <p>{report.burndown.initialScopePoints} story points committed at sprint start.</p>
+              <BurndownChart points={report.burndown.points} />
+            </>
+          )}
+
+          {report.scopeChanges && report.scopeChanges.events.length > 0 && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>Scope Changes</h3>
+              <p>
+                {report.scopeChanges.addedIssues} issue(s) ({report.scopeChanges.addedPoints} points) added and{' '}
+                {report.scopeChanges.removedIssues} issue(s) ({report.scopeChanges.removedPoints} points) removed
+                after the sprint started, against {report.scopeChanges.committedPoints} committed points
+                ({report.scopeChanges.addedPercentage.toFixed(0)}% added).
+              </p>
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                    <th style={{ padding: '8px' }}>Date</th>
+                    <th style={{ padding: '8px' }}>Issue</th>
+                    <th style={{ padding: '8px' }}>Change</th>
+                    <th style={{ padding: '8px' }}>Points</th>
+                    <th style={{ padding: '8px' }}>By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.scopeChanges.events.map((event) => (
+                    <tr key={`${event.issueKey}-${event.timestamp}`} style={{ borderBottom: '1px solid #ddd' }}>
+                      <td style={{ padding: '8px' }}>{new Date(event.timestamp).toLocaleDateString()}</td>
+                      <td style={{ padding: '8px' }}>
+                        <strong>{event.issueKey}</strong> {event.summary}
+                      </td>
+                      <td style={{ padding: '8px' }}>
+                        <Lozenge appearance={event.change === 'added' ? 'moved' : 'default'}>
+                          {event.change}
+                        </Lozenge>
+                      </td>
+                      <td style={{ padding: '8px' }}>{event.storyPoints ?? '-'}</td>
+                      <td style={{ padding: '8px' }}>{event.author || 'Unknown'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {report.forecast && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>Completion Forecast</h3>
+              <p>
+                <strong>{(report.forecast.completionProbability * 100).toFixed(0)}%</strong> chance of finishing
+                all {report.forecast.remainingIssues} remaining issues by the sprint end date
+                ({report.forecast.trials} simulations from {report.forecast.sampleSize} historical cycle times).
+              </p>
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                <tbody>
+                  <tr style={{ borderBottom: '1px solid #ddd' }}>
+                    <td style={{ padding: '8px' }}><strong>50% likely done by:</strong></td>
+                    <td style={{ padding: '8px' }}>{new Date(report.forecast.p50CompletionDate).toLocaleDateString()}</td>
+                  </tr>
+                  <tr style={{ borderBottom: '1px solid #ddd' }}>
+                    <td style={{ padding: '8px' }}><strong>85% likely done by:</strong></td>
+                    <td style={{ padding: '8px' }}>{new Date(report.forecast.p85CompletionDate).toLocaleDateString()}</td>
+                  </tr>
+                  <tr style={{ borderBottom: '1px solid #ddd' }}>
+                    <td style={{ padding: '8px' }}><strong>95% likely done by:</strong></td>
+                    <td style={{ padding: '8px' }}>{new Date(report.forecast.p95CompletionDate).toLocaleDateString()}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              {report.forecast.issues.filter(issue => issue.finishProbability < 0.5).length > 0 && (
+                <>
+                  <p><strong>Unlikely to finish this sprint:</strong></p>
+                  <ul>
+                    {report.forecast.issues
+                      .filter(issue => issue.finishProbability < 0.5)
+                      .map((issue) => (
+                        <li key={issue.issueKey}>
+                          {issue.issueKey} - {(issue.finishProbability * 100).toFixed(0)}% likely
+                          (85% by {new Date(issue.p85FinishDate).toLocaleDateString()})
+                        </li>
+                      ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+
+          {report.atRiskIssues && report.atRiskIssues.length > 0 && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>At-Risk Issues</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                    <th style={{ padding: '8px' }}>Issue</th>
+                    <th style={{ padding: '8px' }}>Assignee</th>
+                    <th style={{ padding: '8px' }}>Points</th>
+                    <th style={{ padding: '8px' }}>Spillover Risk</th>
+                    <th style={{ padding: '8px' }}>Reasons</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.atRiskIssues.map((issue) => (
+                    <tr key={issue.issueKey} style={{ borderBottom: '1px solid #ddd' }}>
+                      <td style={{ padding: '8px' }}>
+                        <strong>{issue.issueKey}</strong> {issue.summary}
+                      </td>
+                      <td style={{ padding: '8px' }}>{issue.assignee || 'Unassigned'}</td>
+                      <td style={{ padding: '8px' }}>{issue.storyPoints ?? '-'}</td>
+                      <td style={{ padding: '8px' }}>
+                        <Lozenge appearance={issue.probability >= 0.7 ? 'removed' : 'moved'}>
+                          {(issue.probability * 100).toFixed(0)}%
+                        </Lozenge>
+                      </td>
+                      <td style={{ padding: '8px' }}>{issue.reasons.join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {report.carryOverIssues && report.carryOverIssues.length > 0 && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>Carry-Over Issues</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                    <th style={{ padding: '8px' }}>Issue</th>
+                    <th style={{ padding: '8px' }}>Assignee</th>
+                    <th style={{ padding: '8px' }}>Points</th>
+                    <th style={{ padding: '8px' }}>Sprints Carried</th>
+                    <th style={{ padding: '8px' }}>Previous Sprints</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.carryOverIssues.map((issue) => (
+                    <tr key={issue.issueKey} style={{ borderBottom: '1px solid #ddd' }}>
+                      <td style={{ padding: '8px' }}>
+                        <strong>{issue.issueKey}</strong> {issue.summary}
+                      </td>
+                      <td style={{ padding: '8px' }}>{issue.assignee || 'Unassigned'}</td>
+                      <td style={{ padding: '8px' }}>{issue.storyPoints ?? '-'}</td>
+                      <td style={{ padding: '8px' }}>
+                        <Lozenge appearance={issue.sprintsCarried >= 2 ? 'removed' : 'moved'}>
+                          {issue.sprintsCarried}
+                        </Lozenge>
+                      </td>
+                      <td style={{ padding: '8px' }}>{issue.previousSprints.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {report.developerWorkload && report.developerWorkload.length > 0 && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>Team Workload</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                    <th style={{ padding: '8px' }}>Developer</th>
+                    <th style={{ padding: '8px' }}>Active Issues</th>
+                    <th style={{ padding: '8px' }}>Open Points</th>
+                    <th style={{ padding: '8px' }}>Open PRs</th>
+                    <th style={{ padding: '8px' }}>Reviewing</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.developerWorkload.map((workload) => (
+                    <tr key={workload.username} style={{ borderBottom: '1px solid #ddd' }}>
+                      <td style={{ padding: '8px' }}>{workload.username}</td>
+                      <td style={{ padding: '8px' }}>
+                        <Lozenge appearance={workload.activeIssues >= 5 ? 'removed' : 'default'}>
+                          {workload.activeIssues}
+                        </Lozenge>
+                      </td>
+                      <td style={{ padding: '8px' }}>{workload.storyPoints}</td>
+                      <td style={{ padding: '8px' }}>{workload.openPRs}</td>
+                      <td style={{ padding: '8px' }}>{workload.reviewingPRs}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          {report.dependencyGraph && (
+            report.dependencyGraph.criticalPath.length > 0 ||
+            report.dependencyGraph.externalBlockers.length > 0 ||
+            report.dependencyGraph.cycles.length > 0
+          ) && (
+            <>
+              <h3 style={{ marginTop: '20px' }}>Dependencies</h3>
+              {report.dependencyGraph.cycles.length > 0 && (
+                <SectionMessage appearance="error" title="Circular dependencies">
+                  {report.dependencyGraph.cycles.map((cycle) => (
+                    <p key={cycle.join(',')}>{[...cycle, cycle[0]].join(' → ')}</p>
+                  ))}
+                </SectionMessage>
+              )}
+              {report.dependencyGraph.criticalPath.length > 0 && (
+                <p>
+                  <strong>Critical path:</strong> {report.dependencyGraph.criticalPath.join(' → ')}
+                  {' '}({report.dependencyGraph.criticalPathPoints} story points)
+                </p>
+              )}
+              {report.dependencyGraph.externalBlockers.length > 0 && (
+                <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                  <thead>
+                    <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                      <th style={{ padding: '8px' }}>External Blocker</th>
+                      <th style={{ padding: '8px' }}>Status</th>
+                      <th style={{ padding: '8px' }}>Blocks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.dependencyGraph.externalBlockers.map((blocker) => (
+                      <tr key={blocker.issueKey} style={{ borderBottom: '1px solid #ddd' }}>
+                        <td style={{ padding: '8px' }}>
+                          <strong>{blocker.issueKey}</strong>: {blocker.summary}
+                        </td>
+                        <td style={{ padding: '8px' }}>{blocker.status}</td>
+                        <td style={{ padding: '8px' }}>{blocker.blockedIssues.join(', ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+
           <h3 style={{ marginTop: '20px' }}>Key Findings</h3>
           {report.keyFindings.length > 0 ? (
             <ul>
@@ -273,6 +757,38 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
             <>
               <h3 style={{ marginTop: '20px' }}>Next Sprint Suggestions</h3>
               <p><strong>Target Story Points:</strong> {report.nextSprintSuggestions.targetStoryPoints}</p>
+
+              {report.nextSprintSuggestions.capacity && (
+                <>
+                  <p>
+                    <strong>Capacity-Based Target:</strong> {report.nextSprintSuggestions.capacity.targetStoryPoints} story points
+                    {report.nextSprintSuggestions.capacity.sprintName ? ` for ${report.nextSprintSuggestions.capacity.sprintName}` : ''}
+                    {' '}({report.nextSprintSuggestions.capacity.availablePersonDays.toFixed(1)} of {report.nextSprintSuggestions.capacity.nominalPersonDays} person-days available
+                    × {report.nextSprintSuggestions.capacity.focusFactor.toFixed(2)} points per person-day)
+                  </p>
+                  <p style={{ fontSize: '12px', color: '#666' }}>
+                    {report.nextSprintSuggestions.capacity.focusFactorSource === 'capacity-history'
+                      ? `Focus factor from ${report.nextSprintSuggestions.capacity.basedOnSprints} past sprint(s) with capacity plans.`
+                      : `No past capacity plans; focus factor assumes the team was fully available in the last ${report.nextSprintSuggestions.capacity.basedOnSprints} sprint(s).`}
+                  </p>
+                  <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+                    <thead>
+                      <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                        <th style={{ padding: '8px' }}>Member</th>
+                        <th style={{ padding: '8px' }}>Available Days</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.nextSprintSuggestions.capacity.members.map((member) => (
+                        <tr key={member.name} style={{ borderBottom: '1px solid #ddd' }}>
+                          <td style={{ padding: '8px' }}>{member.name}</td>
+                          <td style={{ padding: '8px' }}>{member.availableDays.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
               
               {report.nextSprintSuggestions.tasksToInclude.length > 0 && (
                 <>
@@ -323,11 +839,11 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
               </tr>
               <tr style={{ borderBottom: '1px solid #ddd' }}>
                 <td style={{ padding: '8px' }}><strong>Cycle Time:</strong></td>
-                <td style={{ padding: '8px' }}>{report.metrics.sprint.cycleTime.toFixed(1)} hours</td>
+                <td style={{ padding: '8px' }}>{report.metrics.sprint.cycleTime.toFixed(1)} {durationUnit}</td>
               </tr>
               <tr style={{ borderBottom: '1px solid #ddd' }}>
                 <td style={{ padding: '8px' }}><strong>Lead Time:</strong></td>
-                <td style={{ padding: '8px' }}>{report.metrics.sprint.leadTime.toFixed(1)} hours</td>
+                <td style={{ padding: '8px' }}>{report.metrics.sprint.leadTime.toFixed(1)} {durationUnit}</td>
               </tr>
             </tbody>
           </table>
@@ -337,11 +853,11 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
             <tbody>
               <tr style={{ borderBottom: '1px solid #ddd' }}>
                 <td style={{ padding: '8px' }}><strong>Average PR Latency:</strong></td>
-                <td style={{ padding: '8px' }}>{report.metrics.pullRequests.averageLatency.toFixed(1)} hours</td>
+                <td style={{ padding: '8px' }}>{report.metrics.pullRequests.averageLatency.toFixed(1)} {durationUnit}</td>
               </tr>
               <tr style={{ borderBottom: '1px solid #ddd' }}>
                 <td style={{ padding: '8px' }}><strong>Time to First Review:</strong></td>
-                <td style={{ padding: '8px' }}>{report.metrics.pullRequests.averageTimeToFirstReview.toFixed(1)} hours</td>
+                <td style={{ padding: '8px' }}>{report.metrics.pullRequests.averageTimeToFirstReview.toFixed(1)} {durationUnit}</td>
               </tr>
               <tr style={{ borderBottom: '1px solid #ddd' }}>
                 <td style={{ padding: '8px' }}><strong>Average Review Cycles:</strong></td>
@@ -357,6 +873,15 @@ export const SprintAnalysisPage: React.FC<SprintAnalysisPageProps> = ({ context
           <p style={{ marginTop: '20px', fontSize: '12px', color: '#666' }}>
             Generated: {new Date(report.generatedAt).toLocaleString()}
           </p>
+          <p style={{ fontSize: '12px', color: '#666' }}>
+            {report.durationMode === 'business-hours' && report.calendar
+              ? `Durations are measured in business hours (${report.calendar.workingHours.start}-${report.calendar.workingHours.end}, ${report.calendar.timezone}, excluding weekends and holidays).`
+              : 'Durations are measured in wall-clock hours.'}
+          </p>
+
+          {selectedSprint && sprints.length > 1 && (
+            <SprintComparisonView key={selectedSprint.value} sprints={sprints} targetSprint={selectedSprint} />
+          )}
         </div>
       )}
     </div>
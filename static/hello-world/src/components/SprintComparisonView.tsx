@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { invoke } from '@forge/bridge';
+import Button from '@atlaskit/button';
+import Select from '@atlaskit/select';
+import Lozenge from '@atlaskit/lozenge';
+import Spinner from '@atlaskit/spinner';
+import SectionMessage from '@atlaskit/section-message';
+
+interface SprintOption {
+  label: string;
+  value: string;
+}
+
+interface SprintComparisonReport {
+  baseSprint: { id: string; name: string };
+  targetSprint: { id: string; name: string };
+  metricDeltas: Array<{
+    metric: string;
+    base: number;
+    target: number;
+    change: number;
+    percentChange: number | null;
+  }>;
+  risk: {
+    baseLevel: 'Low' | 'Medium' | 'High';
+    baseScore: number | null;
+    targetLevel: 'Low' | 'Medium' | 'High';
+    targetScore: number | null;
+  };
+  riskFactorChanges: Array<{
+    category: string;
+    change: 'new' | 'resolved' | 'worse' | 'better' | 'unchanged';
+    baseSeverity: number | null;
+    targetSeverity: number | null;
+    description: string;
+  }>;
+  carriedIssues: Array<{
+    issueKey: string;
+    summary: string;
+    storyPoints: number | null;
+    status: string;
+    completed: boolean;
+  }>;
+  narrative: string;
+}
+
+interface SprintComparisonViewProps {
+  sprints: SprintOption[];
+  targetSprint: SprintOption;
+}
+
+const METRIC_LABELS: Record<string, string> = {
+  velocity: 'Velocity',
+  throughput: 'Throughput',
+  completionRate: 'Completion Rate (%)',
+  cycleTime: 'Cycle Time',
+  leadTime: 'Lead Time',
+  wipCount: 'WIP',
+  carryOverCount: 'Carry-overs',
+  averageLatency: 'PR Latency',
+  averageTimeToFirstReview: 'Time to First Review',
+  averageReviewCycles: 'Review Cycles',
+  averageRevisions: 'Revisions',
+};
+
+const CHANGE_APPEARANCES: Record<string, string> = {
+  new: 'removed',
+  worse: 'removed',
+  resolved: 'success',
+  better: 'success',
+  unchanged: 'default',
+};
+
+export const SprintComparisonView: React.FC<SprintComparisonViewProps> = ({ sprints, targetSprint }) => {
+  const [baseSprint, setBaseSprint] = useState<SprintOption | null>(null);
+  const [comparison, setComparison] = useState<SprintComparisonReport | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compare = async () => {
+    if (!baseSprint) {
+      return;
+    }
+
+    try {
+      setComparing(true);
+      setError(null);
+
+      const result = await invoke('compareSprintsHandler', {
+        baseSprintId: baseSprint.value,
+        targetSprintId: targetSprint.value,
+      }) as any;
+
+      if (result.success) {
+        setComparison(result.comparison);
+      } else {
+        setError(result.error || 'Failed to compare sprints');
+      }
+    } catch (err) {
+      setError(`Failed to compare sprints: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const formatChange = (change: number, percentChange: number | null) => {
+    const sign = change >= 0 ? '+' : '';
+    return percentChange === null
+      ? `${sign}${change.toFixed(1)}`
+      : `${sign}${change.toFixed(1)} (${sign}${percentChange.toFixed(0)}%)`;
+  };
+
+  return (
+    <div>
+      <h3 style={{ marginTop: '20px' }}>Compare Sprints</h3>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', maxWidth: '600px' }}>
+        <div style={{ flex: 1 }}>
+          <Select
+            options={sprints.filter(sprint => sprint.value !== targetSprint.value)}
+            value={baseSprint}
+            onChange={(option: SprintOption | null) => setBaseSprint(option)}
+            placeholder={`Compare ${targetSprint.label} with...`}
+            isDisabled={comparing}
+          />
+        </div>
+        <Button onClick={compare} isDisabled={comparing || !baseSprint}>
+          {comparing ? 'Comparing...' : 'Compare'}
+        </Button>
+      </div>
+
+      {error && (
+        <div style={{ marginTop: '10px' }}>
+          <SectionMessage appearance="error" title="Error">
+            <p>{error}</p>
+          </SectionMessage>
+        </div>
+      )}
+
+      {comparing && (
+        <div style={{ marginTop: '10px', textAlign: 'center' }}>
+          <Spinner size="medium" />
+        </div>
+      )}
+
+      {comparison && !comparing && (
+        <div style={{ marginTop: '10px' }}>
+          <p>{comparison.narrative}</p>
+
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: '10px' }}>
+            <thead>
+              <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                <th style={{ padding: '8px' }}>Metric</th>
+                <th style={{ padding: '8px' }}>{comparison.baseSprint.name}</th>
+                <th style={{ padding: '8px' }}>{comparison.targetSprint.name}</th>
+                <th style={{ padding: '8px' }}>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr style={{ borderBottom: '1px solid #ddd' }}>
+                <td style={{ padding: '8px' }}><strong>Risk</strong></td>
+                <td style={{ padding: '8px' }}>{comparison.risk.baseLevel} ({comparison.risk.baseScore ?? '-'})</td>
+                <td style={{ padding: '8px' }}>{comparison.risk.targetLevel} ({comparison.risk.targetScore ?? '-'})</td>
+                <td style={{ padding: '8px' }} />
+              </tr>
+              {comparison.metricDeltas.map((delta) => (
+                <tr key={delta.metric} style={{ borderBottom: '1px solid #ddd' }}>
+                  <td style={{ padding: '8px' }}><strong>{METRIC_LABELS[delta.metric] || delta.metric}</strong></td>
+                  <td style={{ padding: '8px' }}>{delta.base.toFixed(1)}</td>
+                  <td style={{ padding: '8px' }}>{delta.target.toFixed(1)}</td>
+                  <td style={{ padding: '8px' }}>{formatChange(delta.change, delta.percentChange)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {comparison.riskFactorChanges.length > 0 && (
+            <>
+              <h4 style={{ marginTop: '20px' }}>Risk Factors</h4>
+              <ul>
+                {comparison.riskFactorChanges.map((change) => (
+                  <li key={change.category} style={{ marginBottom: '6px' }}>
+                    <Lozenge appearance={CHANGE_APPEARANCES[change.change] as any}>{change.change}</Lozenge>{' '}
+                    <strong>{change.category}</strong> ({change.baseSeverity ?? '-'} to {change.targetSeverity ?? '-'}): {change.description}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {comparison.carriedIssues.length > 0 && (
+            <>
+              <h4 style={{ marginTop: '20px' }}>Issues in Both Sprints</h4>
+              <ul>
+                {comparison.carriedIssues.map((issue) => (
+                  <li key={issue.issueKey}>
+                    <strong>{issue.issueKey}</strong> {issue.summary} ({issue.storyPoints ?? '?'} pts, {issue.status})
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
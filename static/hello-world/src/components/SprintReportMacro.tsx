@@ -0,0 +1,406 @@
+import React, { useState, useEffect } from 'react';
+import { invoke, router } from '@forge/bridge';
+import Button from '@atlaskit/button';
+import Select from '@atlaskit/select';
+import Lozenge from '@atlaskit/lozenge';
+import Spinner from '@atlaskit/spinner';
+import SectionMessage from '@atlaskit/section-message';
+
+interface Option {
+  label: string;
+  value: string;
+}
+
+interface HistoricalMetrics {
+  sprintId: string;
+  sprintName: string;
+  completedAt: string;
+  metrics: {
+    velocity: number;
+    completionRate: number;
+  };
+  prMetrics: {
+    averageLatency: number;
+    averageTimeToFirstReview: number;
+  };
+}
+
+interface SprintReport {
+  summary: string;
+  keyFindings: string[];
+  riskAssessment: {
+    level: 'Low' | 'Medium' | 'High';
+    justification: string;
+    score?: number;
+  };
+  recommendations: Array<{
+    priority: number;
+    category: string;
+    title: string;
+    description: string;
+    impact: string;
+  }>;
+  durationMode?: 'wall-clock' | 'business-hours';
+  metrics: {
+    sprint: {
+      completionRate: number;
+      velocity: number;
+      throughput: number;
+      cycleTime: number;
+      wipCount: number;
+      carryOverCount: number;
+    };
+    pullRequests: {
+      averageLatency: number;
+      averageTimeToFirstReview: number;
+    };
+  };
+  generatedAt: string;
+}
+
+interface PublishedPage {
+  id: string;
+  title: string;
+  url: string;
+}
+
+interface SprintReportMacroProps {
+  context: any;
+}
+
+/**
+ * Confluence macro showing the report of a monitored board's closed sprint,
+ * with publishing of a retrospective page under the current page
+ */
+export const SprintReportMacro: React.FC<SprintReportMacroProps> = ({ context }) => {
+  const [boards, setBoards] = useState<Option[]>([]);
+  const [selectedBoard, setSelectedBoard] = useState<Option | null>(null);
+  const [history, setHistory] = useState<HistoricalMetrics[]>([]);
+  const [selectedSprint, setSelectedSprint] = useState<Option | null>(null);
+  const [report, setReport] = useState<SprintReport | null>(null);
+  const [reportMissing, setReportMissing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [published, setPublished] = useState<PublishedPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBoards();
+  }, []);
+
+  const loadBoards = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await invoke('listMonitoredBoardsHandler', {}) as any;
+
+      if (result.success) {
+        setBoards(result.boards.map((board: any) => ({ label: board.name, value: board.boardId })));
+      } else {
+        setError(result.error || 'Failed to load boards');
+      }
+    } catch (err) {
+      setError(`Failed to load boards: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBoardChange = async (option: Option | null) => {
+    setSelectedBoard(option);
+    setSelectedSprint(null);
+    setReport(null);
+    setHistory([]);
+    setPublished(null);
+
+    if (!option) {
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await invoke('getHistoricalDataHandler', { boardId: option.value }) as any;
+
+      if (result.success) {
+        const sprints = [...result.historicalMetrics].sort(
+          (a: HistoricalMetrics, b: HistoricalMetrics) => b.completedAt.localeCompare(a.completedAt)
+        );
+        setHistory(sprints);
+      } else {
+        setError(result.error || 'Failed to load closed sprints');
+      }
+    } catch (err) {
+      setError(`Failed to load closed sprints: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReport = async (sprintId: string, analyze: boolean = false) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReportMissing(false);
+      setPublished(null);
+
+      const result = analyze
+        ? await invoke('analyzeSprintHandler', { sprintId, boardId: selectedBoard?.value }) as any
+        : await invoke('getReportHandler', { sprintId }) as any;
+
+      if (result.success) {
+        setReport(result.report);
+      } else if (result.notFound) {
+        setReport(null);
+        setReportMissing(true);
+      } else {
+        setError(result.error || 'Failed to load report');
+      }
+    } catch (err) {
+      setError(`Failed to load report: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSprintChange = (option: Option | null) => {
+    setSelectedSprint(option);
+    setReport(null);
+    if (option) {
+      loadReport(option.value);
+    }
+  };
+
+  const publishRetrospective = async () => {
+    if (!selectedSprint) {
+      return;
+    }
+
+    try {
+      setPublishing(true);
+      setError(null);
+      const result = await invoke('publishRetrospectiveHandler', {
+        sprintId: selectedSprint.value,
+        boardId: selectedBoard?.value,
+      }) as any;
+
+      if (result.success) {
+        setPublished(result.page);
+      } else {
+        setError(result.error || 'Failed to publish retrospective');
+      }
+    } catch (err) {
+      setError(`Failed to publish retrospective: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const downloadMarkdown = async () => {
+    if (!selectedSprint) {
+      return;
+    }
+
+    try {
+      const result = await invoke('exportReportHandler', {
+        sprintId: selectedSprint.value,
+        boardId: selectedBoard?.value,
+        format: 'markdown',
+        sprintName: selectedSprint.label,
+      }) as any;
+
+      if (!result.success) {
+        setError(result.error || 'Failed to export report');
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([result.content], { type: result.contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(`Failed to export report: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error(err);
+    }
+  };
+
+  const getRiskAppearance = (level: string) => {
+    switch (level) {
+      case 'Low': return 'success';
+      case 'Medium': return 'default';
+      case 'High': return 'removed';
+      default: return 'default';
+    }
+  };
+
+  const spaceKey = context?.extension?.space?.key;
+  const durationUnit = report?.durationMode === 'business-hours' ? 'business hours' : 'hours';
+  const previousSprints = history.filter(entry => entry.sprintId !== selectedSprint?.value);
+
+  return (
+    <div style={{ padding: '10px' }}>
+      <h2>Sprint Report</h2>
+
+      <div style={{ display: 'flex', gap: '8px', maxWidth: '600px', marginBottom: '10px' }}>
+        <div style={{ flex: 1 }}>
+          <Select
+            options={boards}
+            value={selectedBoard}
+            onChange={handleBoardChange}
+            placeholder="Choose a monitored board"
+            isDisabled={loading || publishing}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <Select
+            options={history.map(entry => ({ label: entry.sprintName, value: entry.sprintId }))}
+            value={selectedSprint}
+            onChange={handleSprintChange}
+            placeholder="Choose a closed sprint"
+            isDisabled={loading || publishing || !selectedBoard}
+          />
+        </div>
+      </div>
+
+      {selectedBoard && !loading && history.length === 0 && (
+        <p>No closed sprints are archived for this board yet. Backfill the board's history to list them here.</p>
+      )}
+
+      {error && (
+        <SectionMessage appearance="error" title="Error">
+          <p>{error}</p>
+        </SectionMessage>
+      )}
+
+      {loading && (
+        <div style={{ marginTop: '10px', textAlign: 'center' }}>
+          <Spinner size="medium" />
+        </div>
+      )}
+
+      {reportMissing && selectedSprint && !loading && (
+        <SectionMessage appearance="information" title="No report yet">
+          <p>This sprint has not been analyzed yet.</p>
+          <Button onClick={() => loadReport(selectedSprint.value, true)}>Analyze Sprint</Button>
+        </SectionMessage>
+      )}
+
+      {report && !loading && (
+        <div>
+          <Button
+            appearance="primary"
+            onClick={publishRetrospective}
+            isDisabled={publishing || !spaceKey}
+          >
+            {publishing ? 'Publishing...' : 'Publish Retrospective'}
+          </Button>
+          {' '}
+          <Button onClick={downloadMarkdown} isDisabled={publishing}>
+            Download Markdown
+          </Button>
+
+          {published && (
+            <div style={{ marginTop: '10px' }}>
+              <SectionMessage appearance="success" title="Retrospective published">
+                <p>
+                  Created <Button appearance="link" spacing="none" onClick={() => router.open(published.url)}>{published.title}</Button>.
+                </p>
+              </SectionMessage>
+            </div>
+          )}
+
+          <h3>Summary</h3>
+          <p>{report.summary}</p>
+
+          <h3>Risk Assessment</h3>
+          <Lozenge appearance={getRiskAppearance(report.riskAssessment.level) as any} isBold>
+            {report.riskAssessment.level} Risk
+          </Lozenge>
+          <p>{report.riskAssessment.justification}</p>
+
+          <h3>Key Findings</h3>
+          {report.keyFindings.length > 0 ? (
+            <ol>
+              {report.keyFindings.map((finding, idx) => (
+                <li key={idx}>{finding}</li>
+              ))}
+            </ol>
+          ) : (
+            <p>No key findings identified.</p>
+          )}
+
+          <h3>Recommendations</h3>
+          {report.recommendations.length > 0 ? (
+            <ol>
+              {report.recommendations.map((rec) => (
+                <li key={rec.priority} style={{ marginBottom: '6px' }}>
+                  <strong>{rec.title}</strong> ({rec.impact} impact)
+                  <br />
+                  {rec.description}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p>No recommendations at this time.</p>
+          )}
+
+          <h3>Sprint Metrics</h3>
+          <table style={{ borderCollapse: 'collapse', minWidth: '400px' }}>
+            <tbody>
+              <tr><td style={{ padding: '4px 8px' }}>Completion Rate</td><td style={{ padding: '4px 8px' }}>{report.metrics.sprint.completionRate.toFixed(1)}%</td></tr>
+              <tr><td style={{ padding: '4px 8px' }}>Velocity</td><td style={{ padding: '4px 8px' }}>{report.metrics.sprint.velocity} story points</td></tr>
+              <tr><td style={{ padding: '4px 8px' }}>Throughput</td><td style={{ padding: '4px 8px' }}>{report.metrics.sprint.throughput} issues</td></tr>
+              <tr><td style={{ padding: '4px 8px' }}>Average Cycle Time</td><td style={{ padding: '4px 8px' }}>{report.metrics.sprint.cycleTime.toFixed(1)} {durationUnit}</td></tr>
+              <tr><td style={{ padding: '4px 8px' }}>Carry-over Tasks</td><td style={{ padding: '4px 8px' }}>{report.metrics.sprint.carryOverCount}</td></tr>
+              <tr><td style={{ padding: '4px 8px' }}>Average PR Latency</td><td style={{ padding: '4px 8px' }}>{report.metrics.pullRequests.averageLatency.toFixed(1)} {durationUnit}</td></tr>
+            </tbody>
+          </table>
+
+          {previousSprints.length > 0 && (
+            <>
+              <h3>Historical Comparison</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: '2px solid #ddd', textAlign: 'left' }}>
+                    <th style={{ padding: '8px' }}>Sprint</th>
+                    <th style={{ padding: '8px' }}>Velocity</th>
+                    <th style={{ padding: '8px' }}>Completion Rate</th>
+                    <th style={{ padding: '8px' }}>Avg PR Latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previousSprints.map((entry) => (
+                    <tr key={entry.sprintId} style={{ borderBottom: '1px solid #ddd' }}>
+                      <td style={{ padding: '8px' }}>{entry.sprintName}</td>
+                      <td style={{ padding: '8px' }}>{entry.metrics.velocity} pts</td>
+                      <td style={{ padding: '8px' }}>{entry.metrics.completionRate.toFixed(1)}%</td>
+                      <td style={{ padding: '8px' }}>{entry.prMetrics.averageLatency.toFixed(1)}h</td>
+                    </tr>
+                  ))}
+                  <tr style={{ borderBottom: '1px solid #ddd' }}>
+                    <td style={{ padding: '8px' }}><strong>{selectedSprint?.label}</strong></td>
+                    <td style={{ padding: '8px' }}><strong>{report.metrics.sprint.velocity} pts</strong></td>
+                    <td style={{ padding: '8px' }}><strong>{report.metrics.sprint.completionRate.toFixed(1)}%</strong></td>
+                    <td style={{ padding: '8px' }}><strong>{report.metrics.pullRequests.averageLatency.toFixed(1)}h</strong></td>
+                  </tr>
+                </tbody>
+              </table>
+            </>
+          )}
+
+          <p style={{ color: '#6B778C', fontSize: '12px', marginTop: '20px' }}>
+            Report generated: {new Date(report.generatedAt).toLocaleString()}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
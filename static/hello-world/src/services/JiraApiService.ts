@@ -1,10 +1,25 @@
-import { requestJira } from '@forge/bridge';
+import { invoke, requestJira } from '@forge/bridge';
 
 /**
  * JiraApiService - Frontend service for calling Jira APIs directly
  * Uses @forge/bridge to make authenticated API calls from Custom UI
  */
 export class JiraApiService {
+  private storyPointsField: string | null | undefined;
+
+  /**
+   * Resolve the story points custom field ID configured for this site
+   */
+  async getStoryPointsField(): Promise<string | null> {
+    if (this.storyPointsField !== undefined) {
+      return this.storyPointsField;
+    }
+
+    const result = await invoke('getFieldMappingHandler', {}) as any;
+    this.storyPointsField = result?.success ? result.mapping.storyPoints : 'customfield_10016';
+    return this.storyPointsField ?? null;
+  }
+
   /**
    * Fetch sprint details
    */
@@ -32,9 +47,14 @@ export class JiraApiService {
     const maxResults = 50;
     let hasMore = true;
 
+    const storyPointsField = await this.getStoryPointsField();
+    const fields = ['summary', 'assignee', storyPointsField, 'status', 'created']
+      .filter(Boolean)
+      .join(',');
+
     while (hasMore) {
       const response = await requestJira(
-        `/rest/agile/1.0/sprint/${sprintId}/issue?startAt=${startAt}&maxResults=${maxResults}&fields=summary,assignee,customfield_10016,status,created`,
+        `/rest/agile/1.0/sprint/${sprintId}/issue?startAt=${startAt}&maxResults=${maxResults}&fields=${fields}`,
         {
           headers: {
             'Accept': 'application/json',